@@ -0,0 +1,209 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+	File Name: backoff.spec.ts
+	Description: Test specification for the backoff strategy classes.
+	Written by: Nikita Petko
+*/
+
+import { Jitter } from '../sentinels/enums/jitter';
+import ExponentialBackoffStrategy from '../sentinels/backoff/exponential_backoff_strategy';
+import LinearBackoffStrategy from '../sentinels/backoff/linear_backoff_strategy';
+import ConstantBackoffStrategy from '../sentinels/backoff/constant_backoff_strategy';
+import FibonacciBackoffStrategy from '../sentinels/backoff/fibonacci_backoff_strategy';
+import DecorrelatedJitterBackoffStrategy from '../sentinels/backoff/decorrelated_jitter_backoff_strategy';
+import SeededRandomSource from '../sentinels/random/seeded_random_source';
+
+describe('Backoff strategies', () => {
+  const take = (strategy: { nextDelay(): number }, count: number) =>
+    Array.from({ length: count }, () => strategy.nextDelay());
+
+  describe('ExponentialBackoffStrategy', () => {
+    describe('#constructor', () => {
+      it('should throw an error if the delays are less than zero', () => {
+        expect(() => new ExponentialBackoffStrategy(-1, 1000)).toThrow();
+        expect(() => new ExponentialBackoffStrategy(100, -1)).toThrow();
+      });
+    });
+
+    describe('#nextDelay', () => {
+      it('should double the delay up to the maximum', () => {
+        const strategy = new ExponentialBackoffStrategy(100, 1000);
+
+        expect(take(strategy, 6)).toEqual([100, 200, 400, 800, 1000, 1000]);
+        expect(strategy.attempt).toBe(6);
+      });
+
+      it('should apply the jitter', () => {
+        const random = jest.spyOn(Math, 'random').mockReturnValue(0.5);
+
+        try {
+          expect(new ExponentialBackoffStrategy(100, 1000, Jitter.Full).nextDelay()).toBe(50);
+          expect(new ExponentialBackoffStrategy(100, 1000, Jitter.Equal).nextDelay()).toBe(75);
+        } finally {
+          random.mockRestore();
+        }
+      });
+    });
+
+    describe('#random', () => {
+      it('should draw the jitter from the given random source', () => {
+        const strategy = new ExponentialBackoffStrategy(100, 1000, Jitter.Full, new SeededRandomSource(42));
+        const random = new SeededRandomSource(42);
+
+        expect(take(strategy, 4)).toEqual([100, 200, 400, 800].map((delay) => delay * random.next()));
+      });
+    });
+
+    describe('#calculateDelay', () => {
+      it('should not overflow for large attempt numbers', () => {
+        expect(ExponentialBackoffStrategy.calculateDelay(1e6, 100, 1000, Jitter.None)).toBe(1000);
+        expect(ExponentialBackoffStrategy.calculateDelay(1e6, 0, 1000, Jitter.None)).toBe(0);
+      });
+    });
+
+    describe('#reset', () => {
+      it('should start a new sequence of retries', () => {
+        const strategy = new ExponentialBackoffStrategy(100, 1000);
+
+        take(strategy, 3);
+        strategy.reset();
+
+        expect(strategy.attempt).toBe(0);
+        expect(strategy.nextDelay()).toBe(100);
+      });
+    });
+  });
+
+  describe('LinearBackoffStrategy', () => {
+    describe('#constructor', () => {
+      it('should throw an error if the delays are less than zero', () => {
+        expect(() => new LinearBackoffStrategy(-1, 100, 1000)).toThrow();
+        expect(() => new LinearBackoffStrategy(100, -1, 1000)).toThrow();
+        expect(() => new LinearBackoffStrategy(100, 100, -1)).toThrow();
+      });
+    });
+
+    describe('#nextDelay', () => {
+      it('should grow the delay by the increment up to the maximum', () => {
+        expect(take(new LinearBackoffStrategy(100, 250, 700), 4)).toEqual([100, 350, 600, 700]);
+      });
+    });
+  });
+
+  describe('ConstantBackoffStrategy', () => {
+    describe('#constructor', () => {
+      it('should throw an error if the delay is less than zero', () => {
+        expect(() => new ConstantBackoffStrategy(-1)).toThrow();
+      });
+    });
+
+    describe('#nextDelay', () => {
+      it('should return the same delay on every attempt', () => {
+        expect(take(new ConstantBackoffStrategy(100), 3)).toEqual([100, 100, 100]);
+      });
+    });
+  });
+
+  describe('FibonacciBackoffStrategy', () => {
+    describe('#constructor', () => {
+      it('should throw an error if the delays are less than zero', () => {
+        expect(() => new FibonacciBackoffStrategy(-1, 1000)).toThrow();
+        expect(() => new FibonacciBackoffStrategy(100, -1)).toThrow();
+      });
+    });
+
+    describe('#nextDelay', () => {
+      it('should grow the delay along the Fibonacci sequence up to the maximum', () => {
+        expect(take(new FibonacciBackoffStrategy(100, 1000), 8)).toEqual([100, 100, 200, 300, 500, 800, 1000, 1000]);
+      });
+
+      it('should not overflow for large attempt numbers', () => {
+        const strategy = new FibonacciBackoffStrategy(100, 1000);
+
+        take(strategy, 10000);
+
+        expect(strategy.nextDelay()).toBe(1000);
+      });
+    });
+
+    describe('#reset', () => {
+      it('should start the sequence again', () => {
+        const strategy = new FibonacciBackoffStrategy(100, 1000);
+
+        take(strategy, 5);
+        strategy.reset();
+
+        expect(take(strategy, 3)).toEqual([100, 100, 200]);
+      });
+    });
+  });
+
+  describe('DecorrelatedJitterBackoffStrategy', () => {
+    describe('#constructor', () => {
+      it('should throw an error if the delays are less than zero', () => {
+        expect(() => new DecorrelatedJitterBackoffStrategy(-1, 1000)).toThrow();
+        expect(() => new DecorrelatedJitterBackoffStrategy(100, -1)).toThrow();
+      });
+    });
+
+    describe('#nextDelay', () => {
+      it('should pick each delay between the base delay and three times the previous delay', () => {
+        const random = jest.spyOn(Math, 'random').mockReturnValue(1);
+
+        try {
+          expect(take(new DecorrelatedJitterBackoffStrategy(100, 2000), 4)).toEqual([300, 900, 2000, 2000]);
+        } finally {
+          random.mockRestore();
+        }
+      });
+
+      it('should return the same sequence for the same seed', () => {
+        const first = new DecorrelatedJitterBackoffStrategy(100, 1000, new SeededRandomSource(7));
+        const second = new DecorrelatedJitterBackoffStrategy(100, 1000, new SeededRandomSource(7));
+
+        expect(take(first, 10)).toEqual(take(second, 10));
+      });
+
+      it('should stay within the base and maximum delays', () => {
+        const strategy = new DecorrelatedJitterBackoffStrategy(100, 1000);
+
+        for (const delay of take(strategy, 100)) {
+          expect(delay).toBeGreaterThanOrEqual(100);
+          expect(delay).toBeLessThanOrEqual(1000);
+        }
+      });
+    });
+
+    describe('#reset', () => {
+      it('should forget the previous delay', () => {
+        const random = jest.spyOn(Math, 'random').mockReturnValue(1);
+
+        try {
+          const strategy = new DecorrelatedJitterBackoffStrategy(100, 2000);
+
+          take(strategy, 3);
+          strategy.reset();
+
+          expect(strategy.nextDelay()).toBe(300);
+        } finally {
+          random.mockRestore();
+        }
+      });
+    });
+  });
+});
@@ -24,9 +24,11 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 
 import TripReasonAuthorityBase from '../sentinels/base/trip_reason_authority_base';
+import EventEmitterBase from '../sentinels/base/event_emitter_base';
 import CircuitBreakerPolicyBase from '../sentinels/base/circuit_breaker_policy_base';
 import ExecutionCircuitBreakerBase from '../sentinels/base/execution_circuit_breaker_base';
 import CircuitBreakerBase, { CircuitBreakerError } from '../sentinels/base/circuit_breaker_base';
+import { CircuitState } from '../sentinels/enums/circuit_state';
 
 describe('Base classes', () => {
   describe('CircuitBreakerBase', () => {
@@ -107,6 +109,153 @@ describe('Base classes', () => {
       });
     });
 
+    describe('#state', () => {
+      it('should be closed by default', () => {
+        const circuitBreaker = new CircuitBreaker();
+
+        expect(circuitBreaker.state).toBe(CircuitState.Closed);
+      });
+
+      it('should be open once tripped', () => {
+        const circuitBreaker = new CircuitBreaker();
+
+        circuitBreaker.trip();
+
+        expect(circuitBreaker.state).toBe(CircuitState.Open);
+        expect(circuitBreaker.nextRetryAt).toBeUndefined();
+      });
+
+      it('should become half-open once the scheduled retry has elapsed', () => {
+        class RetryingCircuitBreaker extends CircuitBreaker {
+          public retryAt = new Date('9999-12-31T23:59:59.999Z');
+
+          protected get scheduledRetry(): Date {
+            return this.retryAt;
+          }
+        }
+
+        const circuitBreaker = new RetryingCircuitBreaker();
+
+        circuitBreaker.trip();
+
+        expect(circuitBreaker.state).toBe(CircuitState.Open);
+        expect(circuitBreaker.nextRetryAt).toEqual(circuitBreaker.retryAt);
+
+        circuitBreaker.retryAt = new Date('0001-01-01T00:00:00.000Z');
+
+        expect(circuitBreaker.state).toBe(CircuitState.HalfOpen);
+        expect(circuitBreaker.transitions.pop()).toEqual({
+          from: CircuitState.Open,
+          to: CircuitState.HalfOpen,
+          at: circuitBreaker.retryAt,
+        });
+
+        circuitBreaker.retryAt = new Date('9999-12-31T23:59:59.999Z');
+        circuitBreaker.trip();
+
+        expect(circuitBreaker.state).toBe(CircuitState.Open);
+      });
+    });
+
+    describe('#transitions', () => {
+      it('should record every state transition', () => {
+        const circuitBreaker = new CircuitBreaker();
+
+        circuitBreaker.trip();
+        circuitBreaker.reset();
+
+        expect(circuitBreaker.transitions.map((transition) => [transition.from, transition.to])).toEqual([
+          [CircuitState.Closed, CircuitState.Open],
+          [CircuitState.Open, CircuitState.Closed],
+        ]);
+      });
+
+      it('should only keep the most recent transitions', () => {
+        const circuitBreaker = new CircuitBreaker();
+
+        for (let i = 0; i < CircuitBreakerBase.maxTransitionHistory; i++) {
+          circuitBreaker.trip();
+          circuitBreaker.reset();
+        }
+
+        expect(circuitBreaker.transitions).toHaveLength(CircuitBreakerBase.maxTransitionHistory);
+        expect(circuitBreaker.transitions[0].from).toBe(CircuitState.Closed);
+      });
+    });
+
+    describe('#forceOpen', () => {
+      it('should reject until the forced state is cleared', () => {
+        const circuitBreaker = new CircuitBreaker();
+
+        expect(circuitBreaker.forceOpen()).toBe(true);
+        expect(circuitBreaker.forceOpen()).toBe(false);
+
+        expect(circuitBreaker.state).toBe(CircuitState.ForcedOpen);
+        expect(circuitBreaker.trippedAt).toBeInstanceOf(Date);
+        expect(() => circuitBreaker.test()).toThrow(CircuitBreakerError);
+        expect(circuitBreaker.reset()).toBe(false);
+        expect(circuitBreaker.trip()).toBe(false);
+
+        expect(circuitBreaker.clearForcedState()).toBe(true);
+        expect(circuitBreaker.state).toBe(CircuitState.Closed);
+      });
+    });
+
+    describe('#forceClosed', () => {
+      it('should admit until the forced state is cleared', () => {
+        const circuitBreaker = new CircuitBreaker();
+
+        circuitBreaker.trip();
+
+        expect(circuitBreaker.forceClosed()).toBe(true);
+        expect(circuitBreaker.forceClosed()).toBe(false);
+
+        expect(circuitBreaker.state).toBe(CircuitState.ForcedClosed);
+        expect(circuitBreaker.trippedAt).toBeUndefined();
+        expect(circuitBreaker.trip()).toBe(false);
+        expect(() => circuitBreaker.test()).not.toThrow();
+      });
+    });
+
+    describe('#clearForcedState', () => {
+      it('should do nothing if the circuit breaker is not forced', () => {
+        const circuitBreaker = new CircuitBreaker();
+
+        expect(circuitBreaker.clearForcedState()).toBe(false);
+      });
+    });
+
+    describe('#events', () => {
+      it('should emit tripped and reset events', () => {
+        const circuitBreaker = new CircuitBreaker();
+
+        const tripped = jest.fn();
+        const reset = jest.fn();
+
+        circuitBreaker.on('tripped', tripped).on('reset', reset);
+
+        circuitBreaker.trip();
+        circuitBreaker.reset();
+
+        expect(tripped).toHaveBeenCalledWith(
+          expect.objectContaining({ name: 'Test', error: undefined, nextRetryAt: undefined }),
+        );
+        expect(reset).toHaveBeenCalledWith(expect.objectContaining({ name: 'Test', trippedFor: expect.any(Number) }));
+      });
+
+      it('should emit a rejected event when tested while tripped', () => {
+        const circuitBreaker = new CircuitBreaker();
+
+        const rejected = jest.fn();
+
+        circuitBreaker.on('rejected', rejected);
+        circuitBreaker.trip();
+
+        expect(() => circuitBreaker.test()).toThrow(CircuitBreakerError);
+        expect(rejected).toHaveBeenCalledWith(expect.objectContaining({ error: expect.any(CircuitBreakerError) }));
+      });
+    });
+
     describe('#now', () => {
       it('should return the current date time', () => {
         const circuitBreaker = new CircuitBreaker();
@@ -315,8 +464,8 @@ describe('Base classes', () => {
     class ExecutionCircuitBreaker extends ExecutionCircuitBreakerBase {
       private readonly _retryInterval: number;
 
-      public constructor(retryInterval?: number) {
-        super();
+      public constructor(retryInterval?: number, halfOpenMaxProbes?: number) {
+        super({ halfOpenMaxProbes });
 
         this._retryInterval = retryInterval || 0;
       }
@@ -332,6 +481,10 @@ describe('Base classes', () => {
       protected shouldTrip(error: Error): boolean {
         return error instanceof TestError;
       }
+
+      protected isFailure(error: Error): boolean {
+        return error instanceof TestError;
+      }
     }
 
     describe('#_attemptToProceed', () => {
@@ -538,6 +691,291 @@ describe('Base classes', () => {
       });
     });
 
+    describe('#halfOpen', () => {
+      const tripAndElapse = (executionCircuitBreaker: ExecutionCircuitBreaker) => {
+        try {
+          executionCircuitBreaker.execute(() => {
+            throw new TestError();
+          });
+        } catch (error) {
+          // do nothing
+        }
+
+        executionCircuitBreaker['_nextRetry'] = new Date('0001-01-01T00:00:00.000Z');
+      };
+
+      it('should throw if halfOpenMaxProbes is less than one', () => {
+        expect(() => new ExecutionCircuitBreaker(5000, 0)).toThrow();
+      });
+
+      it('should only admit halfOpenMaxProbes concurrent probes', async () => {
+        const executionCircuitBreaker = new ExecutionCircuitBreaker(5000, 2);
+
+        tripAndElapse(executionCircuitBreaker);
+
+        const resolvers: (() => void)[] = [];
+        const probe = () => new Promise<void>((resolve) => resolvers.push(resolve));
+
+        const first = executionCircuitBreaker.executeAsync(probe);
+        const second = executionCircuitBreaker.executeAsync(probe);
+
+        await expect(executionCircuitBreaker.executeAsync(probe)).rejects.toThrow(CircuitBreakerError);
+
+        resolvers.forEach((resolve) => resolve());
+        await Promise.all([first, second]);
+
+        expect(executionCircuitBreaker.isTripped).toBe(false);
+      });
+
+      it('should stay tripped until every probe has succeeded', () => {
+        const executionCircuitBreaker = new ExecutionCircuitBreaker(5000, 2);
+
+        tripAndElapse(executionCircuitBreaker);
+
+        executionCircuitBreaker.execute(() => undefined);
+
+        expect(executionCircuitBreaker.isTripped).toBe(true);
+
+        executionCircuitBreaker.execute(() => undefined);
+
+        expect(executionCircuitBreaker.isTripped).toBe(false);
+      });
+
+      it('should reopen immediately if a probe fails', async () => {
+        const executionCircuitBreaker = new ExecutionCircuitBreaker(5000, 2);
+
+        tripAndElapse(executionCircuitBreaker);
+
+        let resolveProbe: () => void;
+        const pending = executionCircuitBreaker.executeAsync(
+          () => new Promise<void>((resolve) => (resolveProbe = resolve)),
+        );
+
+        await expect(
+          executionCircuitBreaker.executeAsync(async () => {
+            throw new TestError();
+          }),
+        ).rejects.toThrow(TestError);
+
+        resolveProbe();
+        await pending;
+
+        expect(executionCircuitBreaker.isTripped).toBe(true);
+        expect(() => executionCircuitBreaker.execute(() => undefined)).toThrow(CircuitBreakerError);
+      });
+
+      it('should free the probe slot if a probe fails with an error that is not a reason for trip', () => {
+        const executionCircuitBreaker = new ExecutionCircuitBreaker(5000, 1);
+
+        tripAndElapse(executionCircuitBreaker);
+
+        expect(() =>
+          executionCircuitBreaker.execute(() => {
+            throw new Error('Not a trip reason');
+          }),
+        ).toThrow('Not a trip reason');
+
+        expect(executionCircuitBreaker.isTripped).toBe(true);
+
+        executionCircuitBreaker.execute(() => undefined);
+
+        expect(executionCircuitBreaker.isTripped).toBe(false);
+      });
+
+      it('should not let a call admitted before the trip close the circuit while a probe is running', async () => {
+        const executionCircuitBreaker = new ExecutionCircuitBreaker(5000, 1);
+
+        let resolveLateCall: () => void;
+        const lateCall = executionCircuitBreaker.executeAsync(
+          () => new Promise<void>((resolve) => (resolveLateCall = resolve)),
+        );
+
+        tripAndElapse(executionCircuitBreaker);
+
+        let resolveProbe: () => void;
+        const probe = executionCircuitBreaker.executeAsync(
+          () => new Promise<void>((resolve) => (resolveProbe = resolve)),
+        );
+
+        resolveLateCall();
+        await lateCall;
+
+        expect(executionCircuitBreaker.state).toBe(CircuitState.HalfOpen);
+        expect(executionCircuitBreaker.statistics.successes).toBe(1);
+
+        resolveProbe();
+        await probe;
+
+        expect(executionCircuitBreaker.state).toBe(CircuitState.Closed);
+      });
+
+      it('should not let a call admitted before the trip reopen the circuit while a probe is running', async () => {
+        const executionCircuitBreaker = new ExecutionCircuitBreaker(5000, 1);
+
+        let rejectLateCall: (error: Error) => void;
+        const lateCall = executionCircuitBreaker.executeAsync(
+          () => new Promise<void>((_, reject) => (rejectLateCall = reject)),
+        );
+
+        tripAndElapse(executionCircuitBreaker);
+
+        let resolveProbe: () => void;
+        const probe = executionCircuitBreaker.executeAsync(
+          () => new Promise<void>((resolve) => (resolveProbe = resolve)),
+        );
+
+        rejectLateCall(new TestError());
+        await expect(lateCall).rejects.toBeInstanceOf(TestError);
+
+        expect(executionCircuitBreaker.state).toBe(CircuitState.HalfOpen);
+        expect(executionCircuitBreaker.statistics.failures).toBe(2);
+
+        resolveProbe();
+        await probe;
+
+        expect(executionCircuitBreaker.state).toBe(CircuitState.Closed);
+      });
+    });
+
+    describe('#state', () => {
+      it('should report half-open once the retry interval has elapsed', () => {
+        const executionCircuitBreaker = new ExecutionCircuitBreaker(5000);
+
+        try {
+          executionCircuitBreaker.execute(() => {
+            throw new TestError();
+          });
+        } catch (error) {
+          // do nothing
+        }
+
+        expect(executionCircuitBreaker.state).toBe(CircuitState.Open);
+        expect(executionCircuitBreaker.nextRetryAt).toEqual(executionCircuitBreaker['_nextRetry']);
+
+        executionCircuitBreaker['_nextRetry'] = new Date('0001-01-01T00:00:00.000Z');
+
+        expect(executionCircuitBreaker.state).toBe(CircuitState.HalfOpen);
+
+        executionCircuitBreaker.execute(() => undefined);
+
+        expect(executionCircuitBreaker.state).toBe(CircuitState.Closed);
+        expect(executionCircuitBreaker.nextRetryAt).toBeUndefined();
+      });
+
+      it('should not admit probes while forced open', () => {
+        const executionCircuitBreaker = new ExecutionCircuitBreaker();
+
+        executionCircuitBreaker.forceOpen();
+
+        expect(() => executionCircuitBreaker.execute(() => undefined)).toThrow(CircuitBreakerError);
+        expect(executionCircuitBreaker.state).toBe(CircuitState.ForcedOpen);
+      });
+
+      it('should not trip while forced closed', () => {
+        const executionCircuitBreaker = new ExecutionCircuitBreaker(5000);
+
+        executionCircuitBreaker.forceClosed();
+
+        expect(() =>
+          executionCircuitBreaker.execute(() => {
+            throw new TestError();
+          }),
+        ).toThrow(TestError);
+        expect(executionCircuitBreaker.state).toBe(CircuitState.ForcedClosed);
+      });
+    });
+
+    describe('#events', () => {
+      it('should emit success and failure events with the call duration', () => {
+        const executionCircuitBreaker = new ExecutionCircuitBreaker(5000);
+
+        const success = jest.fn();
+        const failure = jest.fn();
+
+        executionCircuitBreaker.on('success', success).on('failure', failure);
+
+        executionCircuitBreaker.execute(() => undefined);
+
+        const error = new TestError();
+
+        expect(() =>
+          executionCircuitBreaker.execute(() => {
+            throw error;
+          }),
+        ).toThrow(error);
+
+        expect(success).toHaveBeenCalledWith(expect.objectContaining({ name: 'Test', duration: expect.any(Number) }));
+        expect(failure).toHaveBeenCalledWith(expect.objectContaining({ error, duration: expect.any(Number) }));
+      });
+
+      it('should emit an ignored event rather than a failure event for errors that are not failures', () => {
+        const executionCircuitBreaker = new ExecutionCircuitBreaker(5000);
+
+        const failure = jest.fn();
+        const ignored = jest.fn();
+
+        executionCircuitBreaker.on('failure', failure).on('ignored', ignored);
+
+        const error = new Error('Not a failure');
+
+        expect(() =>
+          executionCircuitBreaker.execute(() => {
+            throw error;
+          }),
+        ).toThrow(error);
+
+        expect(failure).not.toHaveBeenCalled();
+        expect(ignored).toHaveBeenCalledWith(expect.objectContaining({ error, duration: expect.any(Number) }));
+      });
+
+      it('should emit a tripped event carrying the error and the next retry', () => {
+        const executionCircuitBreaker = new ExecutionCircuitBreaker(5000);
+
+        const tripped = jest.fn();
+
+        executionCircuitBreaker.on('tripped', tripped);
+
+        const error = new TestError();
+
+        try {
+          executionCircuitBreaker.execute(() => {
+            throw error;
+          });
+        } catch (e) {
+          // do nothing
+        }
+
+        expect(tripped).toHaveBeenCalledWith(
+          expect.objectContaining({ error, nextRetryAt: executionCircuitBreaker['_nextRetry'] }),
+        );
+      });
+
+      it('should emit probeAdmitted and rejected events while half-open', () => {
+        const executionCircuitBreaker = new ExecutionCircuitBreaker(5000);
+
+        const probeAdmitted = jest.fn();
+        const rejected = jest.fn();
+
+        executionCircuitBreaker.on('probeAdmitted', probeAdmitted).on('rejected', rejected);
+
+        try {
+          executionCircuitBreaker.execute(() => {
+            throw new TestError();
+          });
+        } catch (e) {
+          // do nothing
+        }
+
+        expect(() => executionCircuitBreaker.execute(() => undefined)).toThrow(CircuitBreakerError);
+        expect(rejected).toHaveBeenCalledTimes(1);
+
+        executionCircuitBreaker['_nextRetry'] = new Date('0001-01-01T00:00:00.000Z');
+        executionCircuitBreaker.execute(() => undefined);
+
+        expect(probeAdmitted).toHaveBeenCalledWith(expect.objectContaining({ activeProbes: 1 }));
+      });
+    });
+
     describe('#reset', () => {
       it('should set _nextRetry to 0001-01-01T00:00:00.00Z', () => {
         const executionCircuitBreaker = new ExecutionCircuitBreaker();
@@ -549,6 +987,61 @@ describe('Base classes', () => {
     });
   });
 
+  describe('EventEmitterBase', () => {
+    interface ITestEvents {
+      test: number;
+    }
+
+    class EventEmitter extends EventEmitterBase<ITestEvents> {
+      public fire(payload: number): boolean {
+        return this.emit('test', payload);
+      }
+    }
+
+    describe('#on', () => {
+      it('should invoke the listener every time the event is emitted', () => {
+        const emitter = new EventEmitter();
+        const listener = jest.fn();
+
+        emitter.on('test', listener);
+
+        expect(emitter.fire(1)).toBe(true);
+        emitter.fire(2);
+
+        expect(listener).toHaveBeenCalledTimes(2);
+        expect(listener).toHaveBeenLastCalledWith(2);
+      });
+    });
+
+    describe('#once', () => {
+      it('should invoke the listener at most once', () => {
+        const emitter = new EventEmitter();
+        const listener = jest.fn();
+
+        emitter.once('test', listener);
+
+        emitter.fire(1);
+        emitter.fire(2);
+
+        expect(listener).toHaveBeenCalledTimes(1);
+      });
+    });
+
+    describe('#off', () => {
+      it('should remove the listener', () => {
+        const emitter = new EventEmitter();
+        const listener = jest.fn();
+
+        emitter.on('test', listener);
+        emitter.off('test', listener);
+
+        expect(emitter.fire(1)).toBe(false);
+        expect(emitter.listenerCount('test')).toBe(0);
+        expect(listener).not.toHaveBeenCalled();
+      });
+    });
+  });
+
   describe('TripReasonAuthorityBase', () => {
     class TestError extends Error {
       constructor() {
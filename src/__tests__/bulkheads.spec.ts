@@ -0,0 +1,197 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+	File Name: bulkheads.spec.ts
+	Description: Test specification for the bulkhead classes.
+	Written by: Nikita Petko
+*/
+
+import VirtualClock from '../sentinels/clocks/virtual_clock';
+import Bulkhead, { BulkheadRejectedError } from '../sentinels/bulkheads/bulkhead';
+
+describe('Bulkheads', () => {
+  describe('Bulkhead', () => {
+    const deferred = () => {
+      let resolve: (value: string) => void;
+      const promise = new Promise<string>((r) => (resolve = r));
+
+      return { promise, resolve: (value: string) => resolve(value) };
+    };
+
+    describe('#constructor', () => {
+      it('should construct a new instance of the Bulkhead class', () => {
+        const bulkhead = new Bulkhead('Test bulkhead', 2);
+
+        expect(bulkhead).toBeInstanceOf(Bulkhead);
+        expect(bulkhead.name).toBe('Test bulkhead');
+        expect(bulkhead.activeCalls).toBe(0);
+        expect(bulkhead.queuedCalls).toBe(0);
+      });
+
+      it('should throw an error if the name is not specified', () => {
+        expect(() => new Bulkhead('', 2)).toThrow();
+      });
+
+      it('should throw an error if the maximum concurrent calls is not a positive integer', () => {
+        expect(() => new Bulkhead('Test bulkhead', 0)).toThrow();
+        expect(() => new Bulkhead('Test bulkhead', 1.5)).toThrow();
+      });
+
+      it('should throw an error if the options are out of range', () => {
+        expect(() => new Bulkhead('Test bulkhead', 1, { maxQueuedCalls: -1 })).toThrow();
+        expect(() => new Bulkhead('Test bulkhead', 1, { queueTimeout: 0 })).toThrow();
+      });
+    });
+
+    describe('#execute', () => {
+      it('should return the result of the action and free the slot', () => {
+        const bulkhead = new Bulkhead('Test bulkhead', 1);
+
+        expect(bulkhead.execute(() => bulkhead.activeCalls)).toBe(1);
+        expect(bulkhead.activeCalls).toBe(0);
+      });
+
+      it('should free the slot if the action throws', () => {
+        const bulkhead = new Bulkhead('Test bulkhead', 1);
+
+        expect(() =>
+          bulkhead.execute(() => {
+            throw new Error('Test error');
+          }),
+        ).toThrow('Test error');
+        expect(bulkhead.activeCalls).toBe(0);
+      });
+
+      it('should reject the call if no slot is free', async () => {
+        const bulkhead = new Bulkhead('Test bulkhead', 1, { maxQueuedCalls: 1 });
+        const { promise, resolve } = deferred();
+
+        const running = bulkhead.executeAsync(() => promise);
+
+        expect(() => bulkhead.execute(() => 'done')).toThrow(BulkheadRejectedError);
+
+        resolve('done');
+        await running;
+      });
+    });
+
+    describe('#executeAsync', () => {
+      it('should run calls up to the limit at the same time', async () => {
+        const bulkhead = new Bulkhead('Test bulkhead', 2);
+        const first = deferred();
+        const second = deferred();
+
+        const calls = [bulkhead.executeAsync(() => first.promise), bulkhead.executeAsync(() => second.promise)];
+
+        await Promise.resolve();
+        expect(bulkhead.activeCalls).toBe(2);
+
+        first.resolve('first');
+        second.resolve('second');
+
+        await expect(Promise.all(calls)).resolves.toEqual(['first', 'second']);
+        expect(bulkhead.activeCalls).toBe(0);
+      });
+
+      it('should reject the call if the bulkhead and its queue are full', async () => {
+        const bulkhead = new Bulkhead('Test bulkhead', 1);
+        const { promise, resolve } = deferred();
+
+        const running = bulkhead.executeAsync(() => promise);
+
+        await expect(bulkhead.executeAsync(async () => 'done')).rejects.toThrow('is full with 1 active calls.');
+
+        resolve('done');
+        await running;
+      });
+
+      it('should queue calls until a slot is free', async () => {
+        const bulkhead = new Bulkhead('Test bulkhead', 1, { maxQueuedCalls: 1 });
+        const { promise, resolve } = deferred();
+        const action = jest.fn(async () => 'queued');
+
+        const running = bulkhead.executeAsync(() => promise);
+        const queued = bulkhead.executeAsync(action);
+
+        await Promise.resolve();
+        expect(bulkhead.activeCalls).toBe(1);
+        expect(bulkhead.queuedCalls).toBe(1);
+        expect(action).not.toHaveBeenCalled();
+
+        resolve('running');
+
+        await expect(running).resolves.toBe('running');
+        await expect(queued).resolves.toBe('queued');
+        expect(bulkhead.activeCalls).toBe(0);
+        expect(bulkhead.queuedCalls).toBe(0);
+      });
+
+      it('should reject a queued call once the queue timeout expires', async () => {
+        const clock = new VirtualClock();
+        const bulkhead = new Bulkhead('Test bulkhead', 1, { maxQueuedCalls: 2, queueTimeout: 100, clock });
+        const { promise, resolve } = deferred();
+
+        const running = bulkhead.executeAsync(() => promise);
+        const timedOut = bulkhead.executeAsync(async () => 'timed out');
+
+        clock.advance(50);
+        const admitted = bulkhead.executeAsync(async () => 'admitted');
+
+        clock.advance(50);
+        await expect(timedOut).rejects.toThrow(BulkheadRejectedError);
+        expect(bulkhead.queuedCalls).toBe(1);
+
+        resolve('running');
+        await expect(running).resolves.toBe('running');
+        await expect(admitted).resolves.toBe('admitted');
+        expect(clock.pendingTimers).toBe(0);
+      });
+
+      it('should pass the signal of the caller to the action', async () => {
+        const bulkhead = new Bulkhead('Test bulkhead', 1);
+        const controller = new AbortController();
+        const action = jest.fn(async () => 'done');
+
+        await expect(bulkhead.executeAsync(action, { signal: controller.signal })).resolves.toBe('done');
+        expect(action).toHaveBeenCalledWith(controller.signal);
+      });
+
+      it('should stop waiting for a slot once the signal is aborted', async () => {
+        const clock = new VirtualClock();
+        const bulkhead = new Bulkhead('Test bulkhead', 1, { maxQueuedCalls: 1, queueTimeout: 100, clock });
+        const { promise, resolve } = deferred();
+        const controller = new AbortController();
+        const action = jest.fn(async () => 'cancelled');
+
+        const running = bulkhead.executeAsync(() => promise);
+        const cancelled = bulkhead.executeAsync(action, { signal: controller.signal });
+
+        controller.abort(new Error('Cancelled'));
+
+        await expect(cancelled).rejects.toThrow('Cancelled');
+        expect(bulkhead.queuedCalls).toBe(0);
+        expect(clock.pendingTimers).toBe(0);
+        await expect(bulkhead.executeAsync(action, { signal: controller.signal })).rejects.toThrow('Cancelled');
+        expect(action).not.toHaveBeenCalled();
+
+        resolve('running');
+        await expect(running).resolves.toBe('running');
+        expect(bulkhead.activeCalls).toBe(0);
+      });
+    });
+  });
+});
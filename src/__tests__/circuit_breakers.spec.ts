@@ -23,9 +23,15 @@
 /* eslint-disable @typescript-eslint/no-unused-vars */
 /* eslint-disable @typescript-eslint/no-explicit-any */
 
+import VirtualClock from '../sentinels/clocks/virtual_clock';
+import { CircuitState } from '../sentinels/enums/circuit_state';
+import { FailureSource } from '../sentinels/enums/failure_source';
+import { CircuitBreakerError } from '../sentinels/base/circuit_breaker_base';
+import { SlowCallError, TimeoutError, FallbackError } from '../sentinels/base/execution_circuit_breaker_base';
 import CircuitBreaker from '../sentinels/circuit_breakers/circuit_breaker';
 import ExecutionCircuitBreaker from '../sentinels/circuit_breakers/execution_circuit_breaker';
 import ThresholdExecutionCircuitBreaker from '../sentinels/circuit_breakers/threshold_execution_circuit_breaker';
+import FailureRateExecutionCircuitBreaker from '../sentinels/circuit_breakers/failure_rate_execution_circuit_breaker';
 
 describe('Circuit breakers', () => {
   describe('CircuitBreaker', () => {
@@ -102,6 +108,123 @@ describe('Circuit breakers', () => {
       });
     });
 
+    describe('#execute', () => {
+      it('should return the result of the action', () => {
+        const circuitBreaker = new ExecutionCircuitBreaker(
+          'Test circuit breaker',
+          (ex) => true,
+          () => 0,
+        );
+
+        const result: number = circuitBreaker.execute(() => 42);
+
+        expect(result).toBe(42);
+      });
+    });
+
+    describe('#executeAsync', () => {
+      it('should resolve with the result of the action', async () => {
+        const circuitBreaker = new ExecutionCircuitBreaker(
+          'Test circuit breaker',
+          (ex) => true,
+          () => 0,
+        );
+
+        const result: { value: string } = await circuitBreaker.executeAsync(async () => ({ value: 'test' }));
+
+        expect(result).toEqual({ value: 'test' });
+      });
+    });
+
+    describe('#clock', () => {
+      it('should use the given clock for the retry interval', () => {
+        const clock = new VirtualClock(1000);
+        const circuitBreaker = new ExecutionCircuitBreaker(
+          'Test circuit breaker',
+          (ex) => true,
+          () => 500,
+          { clock },
+        );
+
+        expect(() =>
+          circuitBreaker.execute(() => {
+            throw new Error('Test error');
+          }),
+        ).toThrow('Test error');
+
+        expect(circuitBreaker.trippedAt).toEqual(new Date(1000));
+        expect(circuitBreaker.nextRetryAt).toEqual(new Date(1500));
+
+        clock.advance(500);
+
+        expect(circuitBreaker.state).toBe(CircuitState.HalfOpen);
+
+        circuitBreaker.execute(() => undefined);
+
+        expect(circuitBreaker.state).toBe(CircuitState.Closed);
+      });
+    });
+
+    describe('#statistics', () => {
+      it('should record successes, failures and rejections', () => {
+        const clock = new VirtualClock();
+        const circuitBreaker = new ExecutionCircuitBreaker(
+          'Test circuit breaker',
+          (ex) => !(ex instanceof TypeError),
+          () => 1000,
+          { clock },
+        );
+
+        circuitBreaker.execute(() => 1);
+        expect(() =>
+          circuitBreaker.execute(() => {
+            throw new TypeError('Not a failure');
+          }),
+        ).toThrow(TypeError);
+        expect(() =>
+          circuitBreaker.execute(() => {
+            throw new Error('Test error');
+          }),
+        ).toThrow('Test error');
+        expect(() => circuitBreaker.execute(() => 1)).toThrow(CircuitBreakerError);
+
+        expect(circuitBreaker.statistics).toEqual({
+          successes: 2,
+          failures: 1,
+          rejections: 1,
+          timeouts: 0,
+          slowCalls: 0,
+        });
+      });
+
+      it('should clear the statistics once the circuit breaker closes', () => {
+        const clock = new VirtualClock();
+        const circuitBreaker = new ExecutionCircuitBreaker(
+          'Test circuit breaker',
+          (ex) => true,
+          () => 1000,
+          { clock },
+        );
+
+        expect(() =>
+          circuitBreaker.execute(() => {
+            throw new Error('Test error');
+          }),
+        ).toThrow('Test error');
+        clock.advance(1000);
+        circuitBreaker.execute(() => 1);
+
+        expect(circuitBreaker.state).toBe(CircuitState.Closed);
+        expect(circuitBreaker.statistics).toEqual({
+          successes: 0,
+          failures: 0,
+          rejections: 0,
+          timeouts: 0,
+          slowCalls: 0,
+        });
+      });
+    });
+
     describe('#retryInterval', () => {
       it('should return the retry interval', () => {
         const circuitBreaker = new ExecutionCircuitBreaker(
@@ -113,9 +236,643 @@ describe('Circuit breakers', () => {
         expect(circuitBreaker['retryInterval']).toBe(0);
       });
     });
+
+    describe('#slowCalls', () => {
+      const slowAction = (clock: VirtualClock, duration: number) => async () => {
+        clock.advance(duration);
+
+        return 'done';
+      };
+
+      it('should throw if the slow call options are out of range', () => {
+        const create = (options: object) =>
+          new ExecutionCircuitBreaker(
+            'Test circuit breaker',
+            (ex) => true,
+            () => 1000,
+            options,
+          );
+
+        expect(() => create({ slowCallDuration: 0 })).toThrow();
+        expect(() => create({ slowCallRateThreshold: 0 })).toThrow();
+        expect(() => create({ slowCallRateThreshold: 101 })).toThrow();
+        expect(() => create({ slowCallCountThreshold: 0 })).toThrow();
+      });
+
+      it('should count slow calls without tripping if no threshold is specified', async () => {
+        const clock = new VirtualClock();
+        const circuitBreaker = new ExecutionCircuitBreaker(
+          'Test circuit breaker',
+          (ex) => true,
+          () => 1000,
+          {
+            clock,
+            slowCallDuration: 100,
+          },
+        );
+        const onSlowCall = jest.fn();
+
+        circuitBreaker.on('slowCall', onSlowCall);
+
+        await expect(circuitBreaker.executeAsync(slowAction(clock, 100))).resolves.toBe('done');
+        await expect(circuitBreaker.executeAsync(slowAction(clock, 99))).resolves.toBe('done');
+
+        expect(circuitBreaker.statistics.slowCalls).toBe(1);
+        expect(circuitBreaker.isTripped).toBe(false);
+        expect(onSlowCall).toHaveBeenCalledTimes(1);
+        expect(onSlowCall.mock.calls[0][0].duration).toBe(100);
+      });
+
+      it('should trip once the slow call count reaches the threshold even if every call succeeds', async () => {
+        const clock = new VirtualClock();
+        const circuitBreaker = new ExecutionCircuitBreaker(
+          'Test circuit breaker',
+          (ex) => true,
+          () => 1000,
+          {
+            clock,
+            slowCallDuration: 100,
+            slowCallCountThreshold: 2,
+          },
+        );
+        const onTripped = jest.fn();
+
+        circuitBreaker.on('tripped', onTripped);
+
+        await circuitBreaker.executeAsync(slowAction(clock, 150));
+        expect(circuitBreaker.isTripped).toBe(false);
+
+        await expect(circuitBreaker.executeAsync(slowAction(clock, 150))).resolves.toBe('done');
+        expect(circuitBreaker.state).toBe(CircuitState.Open);
+        expect(onTripped.mock.calls[0][0].error).toBeInstanceOf(SlowCallError);
+        expect(onTripped.mock.calls[0][0].error.duration).toBe(150);
+      });
+
+      it('should trip once the slow call rate reaches the threshold', async () => {
+        const clock = new VirtualClock();
+        const circuitBreaker = new ExecutionCircuitBreaker(
+          'Test circuit breaker',
+          (ex) => false,
+          () => 1000,
+          {
+            clock,
+            slowCallDuration: 100,
+            slowCallRateThreshold: 50,
+          },
+        );
+
+        await circuitBreaker.executeAsync(slowAction(clock, 10));
+        await circuitBreaker.executeAsync(slowAction(clock, 10));
+        await circuitBreaker.executeAsync(slowAction(clock, 100));
+        expect(circuitBreaker.isTripped).toBe(false);
+
+        await expect(
+          circuitBreaker.executeAsync(async () => {
+            clock.advance(100);
+
+            throw new Error('Test error');
+          }),
+        ).rejects.toThrow('Test error');
+        expect(circuitBreaker.isTripped).toBe(true);
+        expect(circuitBreaker.statistics.slowCalls).toBe(2);
+      });
+
+      it('should reopen on a slow probe', async () => {
+        const clock = new VirtualClock();
+        const circuitBreaker = new ExecutionCircuitBreaker(
+          'Test circuit breaker',
+          (ex) => true,
+          () => 1000,
+          {
+            clock,
+            slowCallDuration: 100,
+            slowCallCountThreshold: 5,
+          },
+        );
+
+        await expect(
+          circuitBreaker.executeAsync(async () => {
+            throw new Error('Test error');
+          }),
+        ).rejects.toThrow('Test error');
+        clock.advance(1000);
+        expect(circuitBreaker.state).toBe(CircuitState.HalfOpen);
+
+        await circuitBreaker.executeAsync(slowAction(clock, 100));
+        expect(circuitBreaker.state).toBe(CircuitState.Open);
+
+        clock.advance(1000);
+        await circuitBreaker.executeAsync(slowAction(clock, 10));
+        expect(circuitBreaker.state).toBe(CircuitState.Closed);
+      });
+    });
+  });
+
+  describe('ExecutionCircuitBreaker timeouts', () => {
+    const hang = (signal: AbortSignal) =>
+      new Promise<string>((_, reject) => signal.addEventListener('abort', () => reject(new Error('Aborted'))));
+
+    describe('#executeAsync', () => {
+      it('should throw if the timeout option is not greater than zero', () => {
+        expect(
+          () =>
+            new ExecutionCircuitBreaker(
+              'Test circuit breaker',
+              (ex) => false,
+              () => 1000,
+              { timeout: 0 },
+            ),
+        ).toThrow();
+      });
+
+      it('should throw if the timeout for the call is not greater than zero', async () => {
+        const circuitBreaker = new ExecutionCircuitBreaker(
+          'Test circuit breaker',
+          (ex) => false,
+          () => 1000,
+        );
+
+        await expect(circuitBreaker.executeAsync(async () => 'done', -1)).rejects.toThrow(
+          'The timeout must be greater than zero.',
+        );
+      });
+
+      it('should reject with a TimeoutError and abort the signal once the timeout expires', async () => {
+        const clock = new VirtualClock();
+        const circuitBreaker = new ExecutionCircuitBreaker(
+          'Test circuit breaker',
+          (ex) => false,
+          () => 1000,
+          {
+            clock,
+            timeout: 100,
+          },
+        );
+        let signal: AbortSignal;
+
+        const promise = circuitBreaker.executeAsync((s) => {
+          signal = s;
+
+          return hang(s);
+        });
+
+        clock.advance(99);
+        expect(signal.aborted).toBe(false);
+
+        clock.advance(1);
+        await expect(promise).rejects.toBeInstanceOf(TimeoutError);
+        expect(signal.aborted).toBe(true);
+        expect(signal.reason).toBeInstanceOf(TimeoutError);
+        expect(signal.reason.timeout).toBe(100);
+        expect(circuitBreaker.statistics.timeouts).toBe(1);
+      });
+
+      it('should prefer the timeout given for the call', async () => {
+        const clock = new VirtualClock();
+        const circuitBreaker = new ExecutionCircuitBreaker(
+          'Test circuit breaker',
+          (ex) => false,
+          () => 1000,
+          {
+            clock,
+            timeout: 100,
+          },
+        );
+
+        const promise = circuitBreaker.executeAsync(hang, 10);
+
+        clock.advance(10);
+        await expect(promise).rejects.toThrow('timed out after 10ms');
+      });
+
+      it('should count a timeout as a failure even if the failure detector ignores it', async () => {
+        const clock = new VirtualClock();
+        const circuitBreaker = new ThresholdExecutionCircuitBreaker(
+          'Test circuit breaker',
+          (ex) => false,
+          () => 1000,
+          () => 0,
+          () => 1000,
+          { clock, timeout: 100 },
+        );
+
+        const promise = circuitBreaker.executeAsync(hang);
+
+        clock.advance(100);
+        await expect(promise).rejects.toBeInstanceOf(TimeoutError);
+        expect(circuitBreaker.isTripped).toBe(true);
+        expect(circuitBreaker.statistics.failures).toBe(1);
+      });
+
+      it('should settle with the action and clear the timer if it finishes in time', async () => {
+        const clock = new VirtualClock();
+        const circuitBreaker = new FailureRateExecutionCircuitBreaker(
+          'Test circuit breaker',
+          (ex) => true,
+          () => 1000,
+          1,
+          () => 100,
+          { clock, timeout: 100 },
+        );
+
+        await expect(circuitBreaker.executeAsync(async () => 'done')).resolves.toBe('done');
+        expect(clock.pendingTimers).toBe(0);
+
+        await expect(
+          circuitBreaker.executeAsync(async () => {
+            throw new Error('Test error');
+          }),
+        ).rejects.toThrow('Test error');
+        expect(clock.pendingTimers).toBe(0);
+        expect(circuitBreaker.statistics.timeouts).toBe(0);
+      });
+
+      it('should clear the timer if the action throws synchronously', async () => {
+        const clock = new VirtualClock();
+        const circuitBreaker = new ExecutionCircuitBreaker(
+          'Test circuit breaker',
+          (ex) => false,
+          () => 1000,
+          {
+            clock,
+            timeout: 100,
+          },
+        );
+
+        await expect(
+          circuitBreaker.executeAsync(() => {
+            throw new Error('Test error');
+          }),
+        ).rejects.toThrow('Test error');
+        expect(clock.pendingTimers).toBe(0);
+      });
+    });
+  });
+
+  describe('ExecutionCircuitBreaker cancellation', () => {
+    const hang = (signal: AbortSignal) =>
+      new Promise<string>((_, reject) => signal.addEventListener('abort', () => reject(signal.reason)));
+
+    describe('#executeAsync', () => {
+      it('should abort the action and count it as neither a success nor a failure once cancelled', async () => {
+        const circuitBreaker = new ExecutionCircuitBreaker(
+          'Test circuit breaker',
+          (ex) => true,
+          () => 1000,
+        );
+        const fallback = jest.fn(() => 'fallback');
+        const controller = new AbortController();
+        const reason = new Error('Cancelled');
+
+        const promise = circuitBreaker.executeAsync(hang, { signal: controller.signal, fallback });
+
+        controller.abort(reason);
+
+        await expect(promise).rejects.toBe(reason);
+        expect(fallback).not.toHaveBeenCalled();
+        expect(circuitBreaker.isTripped).toBe(false);
+        expect(circuitBreaker.statistics).toEqual(expect.objectContaining({ successes: 0, failures: 0 }));
+      });
+
+      it('should not count an action that resolves after it was cancelled as a success', async () => {
+        const circuitBreaker = new ExecutionCircuitBreaker(
+          'Test circuit breaker',
+          (ex) => true,
+          () => 1000,
+        );
+        const controller = new AbortController();
+
+        const promise = circuitBreaker.executeAsync(
+          (signal) => new Promise<string>((resolve) => signal.addEventListener('abort', () => resolve('late'))),
+          { signal: controller.signal },
+        );
+
+        controller.abort();
+
+        await expect(promise).resolves.toBe('late');
+        expect(circuitBreaker.statistics.successes).toBe(0);
+      });
+
+      it('should reject straight away if the signal is already aborted', async () => {
+        const circuitBreaker = new ExecutionCircuitBreaker(
+          'Test circuit breaker',
+          (ex) => true,
+          () => 1000,
+        );
+        const action = jest.fn(async () => 'done');
+        const controller = new AbortController();
+
+        controller.abort(new Error('Cancelled'));
+
+        await expect(circuitBreaker.executeAsync(action, { signal: controller.signal })).rejects.toThrow('Cancelled');
+        expect(action).not.toHaveBeenCalled();
+      });
+    });
+  });
+
+  describe('ExecutionCircuitBreaker fallbacks', () => {
+    const fail = () => {
+      throw new Error('Test error');
+    };
+
+    describe('#execute', () => {
+      it('should return the result of the fallback if the action fails', () => {
+        const circuitBreaker = new ExecutionCircuitBreaker(
+          'Test circuit breaker',
+          (ex) => false,
+          () => 1000,
+        );
+        const fallback = jest.fn(() => 'fallback');
+
+        expect(circuitBreaker.execute(fail, { fallback })).toBe('fallback');
+        expect(fallback).toHaveBeenCalledWith(expect.objectContaining({ message: 'Test error' }), FailureSource.Action);
+      });
+
+      it('should still count the failure of the action', () => {
+        const circuitBreaker = new ExecutionCircuitBreaker(
+          'Test circuit breaker',
+          (ex) => true,
+          () => 1000,
+        );
+
+        circuitBreaker.execute(fail, { fallback: () => 'fallback' });
+
+        expect(circuitBreaker.isTripped).toBe(true);
+        expect(circuitBreaker.statistics.failures).toBe(1);
+      });
+
+      it('should return the result of the fallback if the circuit is open', () => {
+        const circuitBreaker = new ExecutionCircuitBreaker(
+          'Test circuit breaker',
+          (ex) => true,
+          () => 1000,
+        );
+        const action = jest.fn(() => 'done');
+        const fallback = jest.fn(() => 'fallback');
+
+        circuitBreaker.trip();
+
+        expect(circuitBreaker.execute(action, { fallback })).toBe('fallback');
+        expect(action).not.toHaveBeenCalled();
+        expect(fallback).toHaveBeenCalledWith(expect.any(CircuitBreakerError), FailureSource.CircuitOpen);
+      });
+
+      it('should not call the fallback if the action succeeds', () => {
+        const circuitBreaker = new ExecutionCircuitBreaker(
+          'Test circuit breaker',
+          (ex) => true,
+          () => 1000,
+        );
+        const fallback = jest.fn(() => 'fallback');
+
+        expect(circuitBreaker.execute(() => 'done', { fallback })).toBe('done');
+        expect(fallback).not.toHaveBeenCalled();
+      });
+
+      it('should throw a FallbackError holding both errors if the fallback fails', () => {
+        const circuitBreaker = new ExecutionCircuitBreaker(
+          'Test circuit breaker',
+          (ex) => false,
+          () => 1000,
+        );
+        const fallbackFailure = new Error('Fallback error');
+
+        let error: FallbackError;
+
+        try {
+          circuitBreaker.execute(fail, {
+            fallback: () => {
+              throw fallbackFailure;
+            },
+          });
+        } catch (e) {
+          error = e;
+        }
+
+        expect(error).toBeInstanceOf(FallbackError);
+        expect(error.name).toBe('Fallback Error');
+        expect(error.primaryError.message).toBe('Test error');
+        expect(error.fallbackError).toBe(fallbackFailure);
+        expect(error.cause).toBe(fallbackFailure);
+      });
+    });
+
+    describe('#executeAsync', () => {
+      it('should resolve with the result of an asynchronous fallback if the action fails', async () => {
+        const circuitBreaker = new ExecutionCircuitBreaker(
+          'Test circuit breaker',
+          (ex) => false,
+          () => 1000,
+        );
+        const fallback = jest.fn(async () => 'fallback');
+
+        await expect(
+          circuitBreaker.executeAsync(
+            async () => {
+              throw new Error('Test error');
+            },
+            { fallback },
+          ),
+        ).resolves.toBe('fallback');
+        expect(fallback).toHaveBeenCalledWith(expect.objectContaining({ message: 'Test error' }), FailureSource.Action);
+      });
+
+      it('should resolve with the result of the fallback if the call times out', async () => {
+        const clock = new VirtualClock();
+        const circuitBreaker = new ExecutionCircuitBreaker(
+          'Test circuit breaker',
+          (ex) => false,
+          () => 1000,
+          { clock },
+        );
+        const fallback = jest.fn(() => 'fallback');
+
+        const promise = circuitBreaker.executeAsync(
+          (signal) =>
+            new Promise<string>((_, reject) => signal.addEventListener('abort', () => reject(new Error('Aborted')))),
+          { timeout: 100, fallback },
+        );
+
+        clock.advance(100);
+        await expect(promise).resolves.toBe('fallback');
+        expect(fallback).toHaveBeenCalledWith(expect.any(TimeoutError), FailureSource.Timeout);
+      });
+
+      it('should resolve with the result of the fallback if the circuit is open', async () => {
+        const circuitBreaker = new ExecutionCircuitBreaker(
+          'Test circuit breaker',
+          (ex) => true,
+          () => 1000,
+        );
+        const fallback = jest.fn(() => 'fallback');
+
+        circuitBreaker.trip();
+
+        await expect(circuitBreaker.executeAsync(async () => 'done', { fallback })).resolves.toBe('fallback');
+        expect(fallback).toHaveBeenCalledWith(expect.any(CircuitBreakerError), FailureSource.CircuitOpen);
+      });
+
+      it('should reject with the error of the call if there is no fallback', async () => {
+        const circuitBreaker = new ExecutionCircuitBreaker(
+          'Test circuit breaker',
+          (ex) => true,
+          () => 1000,
+        );
+
+        circuitBreaker.trip();
+
+        await expect(circuitBreaker.executeAsync(async () => 'done', {})).rejects.toBeInstanceOf(CircuitBreakerError);
+      });
+
+      it('should reject with a FallbackError if the fallback rejects', async () => {
+        const circuitBreaker = new ExecutionCircuitBreaker(
+          'Test circuit breaker',
+          (ex) => false,
+          () => 1000,
+        );
+
+        const promise = circuitBreaker.executeAsync(
+          async () => {
+            throw new Error('Test error');
+          },
+          {
+            fallback: async () => {
+              throw new Error('Fallback error');
+            },
+          },
+        );
+
+        await expect(promise).rejects.toBeInstanceOf(FallbackError);
+        await expect(promise).rejects.toMatchObject({
+          primaryError: { message: 'Test error' },
+          fallbackError: { message: 'Fallback error' },
+        });
+      });
+    });
   });
 
   describe('ThresholdExecutionCircuitBreaker', () => {
+    describe('#minimumCalls', () => {
+      const fail = () => {
+        throw new Error('Test error');
+      };
+
+      it('should throw if minimumCalls is less than zero', () => {
+        expect(
+          () =>
+            new ThresholdExecutionCircuitBreaker(
+              'Test circuit breaker',
+              (ex) => true,
+              () => 0,
+              () => 0,
+              () => 0,
+              {
+                minimumCalls: -1,
+              },
+            ),
+        ).toThrow();
+      });
+
+      it('should not trip until enough calls have finished in the rolling window', () => {
+        const clock = new VirtualClock();
+        const circuitBreaker = new ThresholdExecutionCircuitBreaker(
+          'Test circuit breaker',
+          (ex) => true,
+          () => 1000,
+          () => 0,
+          () => 60000,
+          { clock, minimumCalls: 3 },
+        );
+
+        expect(() => circuitBreaker.execute(fail)).toThrow('Test error');
+        expect(() => circuitBreaker.execute(fail)).toThrow('Test error');
+        expect(circuitBreaker.isTripped).toBe(false);
+
+        clock.advance(10000);
+        expect(() => circuitBreaker.execute(fail)).toThrow('Test error');
+        expect(circuitBreaker.isTripped).toBe(false);
+
+        expect(() => circuitBreaker.execute(fail)).toThrow('Test error');
+        expect(() => circuitBreaker.execute(fail)).toThrow('Test error');
+        expect(circuitBreaker.isTripped).toBe(true);
+      });
+
+      it('should let a failed probe reopen the circuit regardless of the minimum', () => {
+        const clock = new VirtualClock();
+        const circuitBreaker = new ThresholdExecutionCircuitBreaker(
+          'Test circuit breaker',
+          (ex) => true,
+          () => 1000,
+          () => 0,
+          () => 60000,
+          { clock, minimumCalls: 1 },
+        );
+
+        expect(() => circuitBreaker.execute(fail)).toThrow('Test error');
+        expect(circuitBreaker.state).toBe(CircuitState.Open);
+
+        clock.advance(1000);
+        circuitBreaker['_resetErrorCount']();
+        circuitBreaker['rollingWindow'].clear();
+        expect(() => circuitBreaker.execute(fail)).toThrow('Test error');
+        expect(circuitBreaker.state).toBe(CircuitState.Open);
+      });
+
+      it('should not trip on slow calls until enough calls have finished in the rolling window', async () => {
+        const clock = new VirtualClock();
+        const circuitBreaker = new ExecutionCircuitBreaker(
+          'Test circuit breaker',
+          (ex) => true,
+          () => 1000,
+          {
+            clock,
+            slowCallDuration: 100,
+            slowCallCountThreshold: 1,
+            minimumCalls: 2,
+          },
+        );
+        const slowAction = async () => {
+          clock.advance(100);
+        };
+
+        await circuitBreaker.executeAsync(slowAction);
+        expect(circuitBreaker.isTripped).toBe(false);
+
+        await circuitBreaker.executeAsync(slowAction);
+        expect(circuitBreaker.isTripped).toBe(true);
+      });
+    });
+
+    describe('#probe', () => {
+      it('should reopen the circuit when a probe fails after the error interval has expired', () => {
+        const clock = new VirtualClock();
+        const circuitBreaker = new ThresholdExecutionCircuitBreaker(
+          'Test circuit breaker',
+          (ex) => true,
+          () => 5000,
+          () => 1,
+          () => 1000,
+          { clock },
+        );
+        const fail = () => {
+          throw new Error('Test error');
+        };
+
+        expect(() => circuitBreaker.execute(fail)).toThrow('Test error');
+        expect(() => circuitBreaker.execute(fail)).toThrow('Test error');
+        expect(circuitBreaker.state).toBe(CircuitState.Open);
+
+        clock.advance(5000);
+        expect(() => circuitBreaker.execute(fail)).toThrow('Test error');
+        expect(circuitBreaker.state).toBe(CircuitState.Open);
+
+        clock.advance(5000);
+        expect(() => circuitBreaker.execute(fail)).toThrow('Test error');
+        expect(circuitBreaker.state).toBe(CircuitState.Open);
+        expect(circuitBreaker.nextRetryAt).toEqual(new Date(15000));
+      });
+    });
+
     describe('#constructor', () => {
       it('should construct a new instance of the ThresholdExecutionCircuitBreaker class', () => {
         const circuitBreaker = new ThresholdExecutionCircuitBreaker(
@@ -195,6 +952,24 @@ describe('Circuit breakers', () => {
       });
     });
 
+    describe('#execute', () => {
+      it('should return the result of the action', async () => {
+        const circuitBreaker = new ThresholdExecutionCircuitBreaker(
+          'Test circuit breaker',
+          (ex) => true,
+          () => 0,
+          () => 0,
+          () => 0,
+        );
+
+        const result: string = circuitBreaker.execute(() => 'test');
+        const asyncResult: number[] = await circuitBreaker.executeAsync(async () => [1, 2, 3]);
+
+        expect(result).toBe('test');
+        expect(asyncResult).toEqual([1, 2, 3]);
+      });
+    });
+
     describe('#_resetErrorCount', () => {
       it('should reset the error count', () => {
         const circuitBreaker = new ThresholdExecutionCircuitBreaker(
@@ -297,6 +1072,53 @@ describe('Circuit breakers', () => {
       });
     });
 
+    describe('#rollingWindow', () => {
+      it('should trip on failures that straddle a fixed window boundary', () => {
+        const clock = new VirtualClock();
+        const circuitBreaker = new ThresholdExecutionCircuitBreaker(
+          'Test circuit breaker',
+          (ex) => true,
+          () => 1000,
+          () => 1,
+          () => 1000,
+          { clock, rollingWindow: { bucketCount: 10, bucketDuration: 100 } },
+        );
+        const fail = () => {
+          throw new Error('Test error');
+        };
+
+        clock.advanceTo(950);
+        expect(() => circuitBreaker.execute(fail)).toThrow('Test error');
+        clock.advanceTo(1050);
+        expect(circuitBreaker.isTripped).toBe(false);
+        expect(() => circuitBreaker.execute(fail)).toThrow('Test error');
+
+        expect(circuitBreaker.isTripped).toBe(true);
+        expect(circuitBreaker.statistics.failures).toBe(2);
+      });
+
+      it('should not count failures that have left the rolling window', () => {
+        const clock = new VirtualClock();
+        const circuitBreaker = new ThresholdExecutionCircuitBreaker(
+          'Test circuit breaker',
+          (ex) => true,
+          () => 1000,
+          () => 1,
+          () => 1000,
+          { clock, rollingWindow: { bucketCount: 10, bucketDuration: 100 } },
+        );
+        const fail = () => {
+          throw new Error('Test error');
+        };
+
+        expect(() => circuitBreaker.execute(fail)).toThrow('Test error');
+        clock.advance(1000);
+        expect(() => circuitBreaker.execute(fail)).toThrow('Test error');
+
+        expect(circuitBreaker.isTripped).toBe(false);
+      });
+    });
+
     describe('#retryInterval', () => {
       it('should return the retry interval', () => {
         const circuitBreaker = new ThresholdExecutionCircuitBreaker(
@@ -311,4 +1133,306 @@ describe('Circuit breakers', () => {
       });
     });
   });
+
+  describe('FailureRateExecutionCircuitBreaker', () => {
+    const succeed = () => 'ok';
+    const fail = () => {
+      throw new Error('Test error');
+    };
+
+    describe('#constructor', () => {
+      it('should construct a new instance of the FailureRateExecutionCircuitBreaker class', () => {
+        const circuitBreaker = new FailureRateExecutionCircuitBreaker(
+          'Test circuit breaker',
+          (ex) => true,
+          () => 0,
+          10,
+          () => 50,
+        );
+
+        expect(circuitBreaker).toBeInstanceOf(FailureRateExecutionCircuitBreaker);
+      });
+
+      it('should throw an error if the name is not specified', () => {
+        expect(
+          () =>
+            new FailureRateExecutionCircuitBreaker(
+              '',
+              (ex) => true,
+              () => 0,
+              10,
+              () => 50,
+            ),
+        ).toThrow();
+      });
+
+      it('should throw an error if the failureDetector function is not specified', () => {
+        expect(
+          () =>
+            new FailureRateExecutionCircuitBreaker(
+              'Test circuit breaker',
+              undefined as any,
+              () => 0,
+              10,
+              () => 50,
+            ),
+        ).toThrow();
+      });
+
+      it('should throw an error if the retryInterval function is not specified', () => {
+        expect(
+          () =>
+            new FailureRateExecutionCircuitBreaker(
+              'Test circuit breaker',
+              (ex) => true,
+              undefined as any,
+              10,
+              () => 50,
+            ),
+        ).toThrow();
+      });
+
+      it('should throw an error if the window size is not a positive integer', () => {
+        expect(
+          () =>
+            new FailureRateExecutionCircuitBreaker(
+              'Test circuit breaker',
+              (ex) => true,
+              () => 0,
+              0,
+              () => 50,
+            ),
+        ).toThrow();
+        expect(
+          () =>
+            new FailureRateExecutionCircuitBreaker(
+              'Test circuit breaker',
+              (ex) => true,
+              () => 0,
+              1.5,
+              () => 50,
+            ),
+        ).toThrow();
+      });
+
+      it('should throw an error if the failureRateThreshold function is not specified', () => {
+        expect(
+          () =>
+            new FailureRateExecutionCircuitBreaker(
+              'Test circuit breaker',
+              (ex) => true,
+              () => 0,
+              10,
+              undefined as any,
+            ),
+        ).toThrow();
+      });
+    });
+
+    describe('#name', () => {
+      it('should return the name of the circuit breaker', () => {
+        const circuitBreaker = new FailureRateExecutionCircuitBreaker(
+          'Test circuit breaker',
+          (ex) => true,
+          () => 0,
+          10,
+          () => 50,
+        );
+
+        expect(circuitBreaker['name']).toBe('Test circuit breaker');
+      });
+    });
+
+    describe('#failureRate', () => {
+      it('should be 0 when no calls have been recorded', () => {
+        const circuitBreaker = new FailureRateExecutionCircuitBreaker(
+          'Test circuit breaker',
+          (ex) => true,
+          () => 0,
+          4,
+          () => 100,
+        );
+
+        expect(circuitBreaker.failureRate).toBe(0);
+      });
+
+      it('should only count the last N calls', () => {
+        const circuitBreaker = new FailureRateExecutionCircuitBreaker(
+          'Test circuit breaker',
+          (ex) => true,
+          () => 0,
+          4,
+          () => 100,
+        );
+
+        expect(() => circuitBreaker.execute(fail)).toThrow('Test error');
+        expect(() => circuitBreaker.execute(fail)).toThrow('Test error');
+        expect(circuitBreaker.failureRate).toBe(100);
+
+        circuitBreaker.execute(succeed);
+        circuitBreaker.execute(succeed);
+        expect(circuitBreaker.failureRate).toBe(50);
+
+        circuitBreaker.execute(succeed);
+        circuitBreaker.execute(succeed);
+        expect(circuitBreaker.failureRate).toBe(0);
+        expect(circuitBreaker.isTripped).toBe(false);
+      });
+
+      it('should not count errors that are not failures', () => {
+        const circuitBreaker = new FailureRateExecutionCircuitBreaker(
+          'Test circuit breaker',
+          (ex) => false,
+          () => 0,
+          2,
+          () => 50,
+        );
+
+        expect(() => circuitBreaker.execute(fail)).toThrow('Test error');
+        expect(() => circuitBreaker.execute(fail)).toThrow('Test error');
+
+        expect(circuitBreaker.failureRate).toBe(0);
+        expect(circuitBreaker.isTripped).toBe(false);
+      });
+
+      it('should throw an error if the failure rate threshold is out of range', () => {
+        for (const threshold of [0, -50, 101, NaN]) {
+          const circuitBreaker = new FailureRateExecutionCircuitBreaker(
+            'Test circuit breaker',
+            (ex) => true,
+            () => 0,
+            1,
+            () => threshold,
+          );
+
+          expect(() => circuitBreaker.execute(fail)).toThrow(
+            `The failure rate threshold must be greater than zero and at most 100, but was ${threshold}.`,
+          );
+        }
+      });
+    });
+
+    describe('#rollingWindow', () => {
+      it('should evaluate the failure rate over the rolling window', () => {
+        const clock = new VirtualClock();
+        const circuitBreaker = new FailureRateExecutionCircuitBreaker(
+          'Test circuit breaker',
+          (ex) => true,
+          () => 1000,
+          4,
+          () => 50,
+          { clock, rollingWindow: { bucketCount: 10, bucketDuration: 100 } },
+        );
+
+        circuitBreaker.execute(succeed);
+        circuitBreaker.execute(succeed);
+        expect(() => circuitBreaker.execute(fail)).toThrow('Test error');
+        expect(circuitBreaker.failureRate).toBeCloseTo(33.33);
+        expect(circuitBreaker.isTripped).toBe(false);
+
+        clock.advance(1000);
+        expect(circuitBreaker.failureRate).toBe(0);
+
+        circuitBreaker.execute(succeed);
+        circuitBreaker.execute(succeed);
+        expect(() => circuitBreaker.execute(fail)).toThrow('Test error');
+        expect(circuitBreaker.isTripped).toBe(false);
+        expect(() => circuitBreaker.execute(fail)).toThrow('Test error');
+        expect(circuitBreaker.isTripped).toBe(true);
+      });
+    });
+
+    describe('#shouldTrip', () => {
+      it('should throw an error if the error is not specified', () => {
+        const circuitBreaker = new FailureRateExecutionCircuitBreaker(
+          'Test circuit breaker',
+          (ex) => true,
+          () => 0,
+          10,
+          () => 50,
+        );
+
+        expect(() => circuitBreaker['shouldTrip'](undefined as any)).toThrow();
+        expect(() => circuitBreaker['shouldTrip'](null as any)).toThrow();
+      });
+
+      it('should not trip before the window is full', () => {
+        const circuitBreaker = new FailureRateExecutionCircuitBreaker(
+          'Test circuit breaker',
+          (ex) => true,
+          () => 1000,
+          4,
+          () => 50,
+        );
+
+        expect(() => circuitBreaker.execute(fail)).toThrow('Test error');
+        expect(() => circuitBreaker.execute(fail)).toThrow('Test error');
+        expect(() => circuitBreaker.execute(fail)).toThrow('Test error');
+
+        expect(circuitBreaker.isTripped).toBe(false);
+      });
+
+      it('should trip once the failure rate reaches the threshold', () => {
+        const circuitBreaker = new FailureRateExecutionCircuitBreaker(
+          'Test circuit breaker',
+          (ex) => true,
+          () => 1000,
+          4,
+          () => 50,
+        );
+
+        circuitBreaker.execute(succeed);
+        circuitBreaker.execute(succeed);
+        expect(() => circuitBreaker.execute(fail)).toThrow('Test error');
+        expect(circuitBreaker.isTripped).toBe(false);
+
+        expect(() => circuitBreaker.execute(fail)).toThrow('Test error');
+        expect(circuitBreaker.isTripped).toBe(true);
+        expect(circuitBreaker.state).toBe(CircuitState.Open);
+      });
+
+      it('should reopen on a failed probe and clear the window once closed', () => {
+        const clock = new VirtualClock();
+        const circuitBreaker = new FailureRateExecutionCircuitBreaker(
+          'Test circuit breaker',
+          (ex) => true,
+          () => 1000,
+          2,
+          () => 100,
+          { clock },
+        );
+
+        expect(() => circuitBreaker.execute(fail)).toThrow('Test error');
+        expect(() => circuitBreaker.execute(fail)).toThrow('Test error');
+        expect(circuitBreaker.state).toBe(CircuitState.Open);
+
+        clock.advance(1000);
+        expect(circuitBreaker.state).toBe(CircuitState.HalfOpen);
+        expect(() => circuitBreaker.execute(fail)).toThrow('Test error');
+        expect(circuitBreaker.state).toBe(CircuitState.Open);
+
+        clock.advance(1000);
+        circuitBreaker.execute(succeed);
+        expect(circuitBreaker.state).toBe(CircuitState.Closed);
+        expect(circuitBreaker.failureRate).toBe(0);
+
+        expect(() => circuitBreaker.execute(fail)).toThrow('Test error');
+        expect(circuitBreaker.isTripped).toBe(false);
+      });
+    });
+
+    describe('#retryInterval', () => {
+      it('should return the retry interval', () => {
+        const circuitBreaker = new FailureRateExecutionCircuitBreaker(
+          'Test circuit breaker',
+          (ex) => true,
+          () => 5,
+          10,
+          () => 50,
+        );
+
+        expect(circuitBreaker['retryInterval']).toBe(5);
+      });
+    });
+  });
 });
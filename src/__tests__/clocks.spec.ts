@@ -0,0 +1,162 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+	File Name: clocks.spec.ts
+	Description: Test specification for the clock classes.
+	Written by: Nikita Petko
+*/
+
+import SystemClock from '../sentinels/clocks/system_clock';
+import VirtualClock from '../sentinels/clocks/virtual_clock';
+
+describe('Clocks', () => {
+  describe('SystemClock', () => {
+    describe('#now', () => {
+      it('should return the system time', () => {
+        const before = Date.now();
+        const now = SystemClock.instance.now();
+
+        expect(now).toBeGreaterThanOrEqual(before);
+        expect(now).toBeLessThanOrEqual(Date.now());
+      });
+    });
+
+    describe('#setTimeout', () => {
+      it('should invoke the callback once after the delay', async () => {
+        const callback = jest.fn();
+
+        SystemClock.instance.setTimeout(callback, 1);
+
+        await new Promise((resolve) => setTimeout(resolve, 20));
+
+        expect(callback).toHaveBeenCalledTimes(1);
+      });
+
+      it('should not invoke the callback if cleared', async () => {
+        const callback = jest.fn();
+
+        SystemClock.instance.clearTimeout(SystemClock.instance.setTimeout(callback, 1));
+
+        await new Promise((resolve) => setTimeout(resolve, 20));
+
+        expect(callback).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('#setInterval', () => {
+      it('should invoke the callback until cleared', async () => {
+        const callback = jest.fn();
+
+        const handle = SystemClock.instance.setInterval(callback, 1);
+
+        await new Promise((resolve) => setTimeout(resolve, 20));
+
+        SystemClock.instance.clearInterval(handle);
+
+        const calls = callback.mock.calls.length;
+
+        await new Promise((resolve) => setTimeout(resolve, 20));
+
+        expect(calls).toBeGreaterThan(0);
+        expect(callback).toHaveBeenCalledTimes(calls);
+      });
+    });
+  });
+
+  describe('VirtualClock', () => {
+    describe('#now', () => {
+      it('should start at the given time', () => {
+        expect(new VirtualClock(1000).now()).toBe(1000);
+        expect(new VirtualClock().now()).toBe(0);
+      });
+    });
+
+    describe('#advance', () => {
+      it('should move the clock forward', () => {
+        const clock = new VirtualClock();
+
+        clock.advance(500);
+
+        expect(clock.now()).toBe(500);
+      });
+
+      it('should throw if the amount is negative', () => {
+        expect(() => new VirtualClock().advance(-1)).toThrow();
+      });
+    });
+
+    describe('#advanceTo', () => {
+      it('should throw if the time is in the past', () => {
+        expect(() => new VirtualClock(1000).advanceTo(999)).toThrow();
+      });
+    });
+
+    describe('#setTimeout', () => {
+      it('should run the callback once the delay has elapsed, at the due time', () => {
+        const clock = new VirtualClock();
+        const times: number[] = [];
+
+        clock.setTimeout(() => times.push(clock.now()), 100);
+
+        clock.advance(99);
+        expect(times).toEqual([]);
+
+        clock.advance(500);
+        expect(times).toEqual([100]);
+        expect(clock.pendingTimers).toBe(0);
+      });
+
+      it('should run timers in due order', () => {
+        const clock = new VirtualClock();
+        const order: string[] = [];
+
+        clock.setTimeout(() => order.push('second'), 200);
+        clock.setTimeout(() => order.push('first'), 100);
+
+        clock.advance(200);
+
+        expect(order).toEqual(['first', 'second']);
+      });
+
+      it('should not run cleared timers', () => {
+        const clock = new VirtualClock();
+        const callback = jest.fn();
+
+        clock.clearTimeout(clock.setTimeout(callback, 100));
+        clock.advance(100);
+
+        expect(callback).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('#setInterval', () => {
+      it('should run the callback every interval until cleared', () => {
+        const clock = new VirtualClock();
+        const callback = jest.fn();
+
+        const handle = clock.setInterval(callback, 100);
+
+        clock.advance(350);
+        expect(callback).toHaveBeenCalledTimes(3);
+
+        clock.clearInterval(handle);
+        clock.advance(1000);
+        expect(callback).toHaveBeenCalledTimes(3);
+      });
+    });
+  });
+});
@@ -22,6 +22,7 @@
 
 import { Jitter } from '../sentinels/enums/jitter';
 import ExponentialBackoff from '../sentinels/exponential_backoff';
+import SeededRandomSource from '../sentinels/random/seeded_random_source';
 
 describe('ExponentialBackoff', () => {
   describe('#calculateBackoff', () => {
@@ -81,6 +82,28 @@ describe('ExponentialBackoff', () => {
       Math.random = oldMathRandom;
     });
 
+    it('should draw the jitter from the given random source', () => {
+      const baseDelay = 100;
+      const maxDelay = 1000;
+      const maxAttempts = 5;
+      const random = new SeededRandomSource(42);
+      const expectedRandom = new SeededRandomSource(42);
+
+      for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+        const expectedDelay = Math.min(baseDelay * Math.pow(2, attempt - 1), maxDelay) * expectedRandom.next();
+        const actualDelay = ExponentialBackoff.calculateBackoff(
+          attempt,
+          maxAttempts,
+          baseDelay,
+          maxDelay,
+          Jitter.Full,
+          random,
+        );
+
+        expect(actualDelay).toBe(expectedDelay);
+      }
+    });
+
     it('should set the attempt to maxAttempts if it is greater than maxAttempts', () => {
       const baseDelay = 100;
       const maxDelay = 1000;
@@ -106,16 +129,16 @@ describe('ExponentialBackoff', () => {
       }).toThrow();
     });
 
-    it('should throw an error if the maxAttempts is greater than ceilingForMaxAttempts', () => {
+    it('should cap the delay at maxDelay for any number of attempts', () => {
       const baseDelay = 100;
       const maxDelay = 1000;
       const jitter = Jitter.None;
-      const maxAttempts = ExponentialBackoff.ceilingForMaxAttempts + 1;
-      const attempt = 1;
+      const maxAttempts = 5000;
+      const attempt = 5000;
 
-      expect(() => {
-        ExponentialBackoff.calculateBackoff(attempt, maxAttempts, baseDelay, maxDelay, jitter);
-      }).toThrow();
+      const actualDelay = ExponentialBackoff.calculateBackoff(attempt, maxAttempts, baseDelay, maxDelay, jitter);
+
+      expect(actualDelay).toBe(maxDelay);
     });
   });
 });
@@ -0,0 +1,315 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+	File Name: hedged_executor.spec.ts
+	Description: Test specification for the hedged executor class.
+	Written by: Nikita Petko
+*/
+
+import VirtualClock from '../sentinels/clocks/virtual_clock';
+import HedgedExecutor, { HedgeExhaustedError } from '../sentinels/hedged_executor';
+import ExecutionCircuitBreaker from '../sentinels/circuit_breakers/execution_circuit_breaker';
+import FailureRateExecutionCircuitBreaker from '../sentinels/circuit_breakers/failure_rate_execution_circuit_breaker';
+
+describe('HedgedExecutor', () => {
+  const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+  /**
+   * A copy of an action that settles when the test says so, and rejects once aborted.
+   */
+  interface IPendingCall {
+    signal: AbortSignal;
+    resolve: (value: string) => void;
+    reject: (error: Error) => void;
+  }
+
+  const controllable = () => {
+    const calls: IPendingCall[] = [];
+    const action = (signal: AbortSignal) =>
+      new Promise<string>((resolve, reject) => {
+        calls.push({ signal, resolve, reject });
+
+        signal.addEventListener('abort', () => reject(signal.reason));
+      });
+
+    return { calls, action };
+  };
+
+  describe('#constructor', () => {
+    it('should construct a new instance of the HedgedExecutor class', () => {
+      const executor = new HedgedExecutor(3, 100);
+
+      expect(executor).toBeInstanceOf(HedgedExecutor);
+      expect(executor.maxAttempts).toBe(3);
+      expect(executor.hedgeDelay).toBe(100);
+    });
+
+    it('should throw an error if the arguments are out of range', () => {
+      expect(() => new HedgedExecutor(0, 100)).toThrow();
+      expect(() => new HedgedExecutor(1.5, 100)).toThrow();
+      expect(() => new HedgedExecutor(3, -1)).toThrow();
+    });
+  });
+
+  describe('#executeAsync', () => {
+    it('should not hedge if the first attempt answers in time', async () => {
+      const clock = new VirtualClock();
+      const executor = new HedgedExecutor(3, 100, undefined, clock);
+      const { calls, action } = controllable();
+
+      const promise = executor.executeAsync(action);
+
+      clock.advance(99);
+      calls[0].resolve('first');
+
+      await expect(promise).resolves.toBe('first');
+      expect(calls).toHaveLength(1);
+      expect(clock.pendingTimers).toBe(0);
+    });
+
+    it('should send another copy after each hedge delay, up to the maximum', async () => {
+      const clock = new VirtualClock();
+      const executor = new HedgedExecutor(3, 100, undefined, clock);
+      const { calls, action } = controllable();
+
+      const promise = executor.executeAsync(action);
+
+      clock.advance(100);
+      expect(calls).toHaveLength(2);
+
+      clock.advance(100);
+      expect(calls).toHaveLength(3);
+
+      clock.advance(1000);
+      expect(calls).toHaveLength(3);
+
+      calls[2].resolve('third');
+      await expect(promise).resolves.toBe('third');
+    });
+
+    it('should abort the other copies once one succeeds', async () => {
+      const clock = new VirtualClock();
+      const executor = new HedgedExecutor(2, 100, undefined, clock);
+      const { calls, action } = controllable();
+
+      const promise = executor.executeAsync(action);
+
+      clock.advance(100);
+      calls[1].resolve('second');
+
+      await expect(promise).resolves.toBe('second');
+      expect(calls[0].signal.aborted).toBe(true);
+      expect(calls[1].signal.aborted).toBe(false);
+    });
+
+    it('should send the next copy straight away if an attempt fails', async () => {
+      const clock = new VirtualClock();
+      const executor = new HedgedExecutor(2, 100, undefined, clock);
+      const { calls, action } = controllable();
+
+      const promise = executor.executeAsync(action);
+
+      calls[0].reject(new Error('First'));
+      await flush();
+
+      expect(calls).toHaveLength(2);
+
+      calls[1].resolve('second');
+      await expect(promise).resolves.toBe('second');
+    });
+
+    it('should reject with a HedgeExhaustedError once every copy has failed', async () => {
+      const clock = new VirtualClock();
+      const executor = new HedgedExecutor(2, 100, undefined, clock);
+      const { calls, action } = controllable();
+
+      const promise = executor.executeAsync(action);
+
+      clock.advance(100);
+      calls[1].reject(new Error('Second'));
+      await flush();
+      calls[0].reject(new Error('First'));
+
+      await expect(promise).rejects.toBeInstanceOf(HedgeExhaustedError);
+      await expect(promise).rejects.toMatchObject({
+        name: 'HedgeExhausted Error',
+        errors: [{ message: 'Second' }, { message: 'First' }],
+      });
+    });
+
+    it('should abort every copy and reject with the reason once the signal is aborted', async () => {
+      const clock = new VirtualClock();
+      const executor = new HedgedExecutor(3, 100, undefined, clock);
+      const { calls, action } = controllable();
+      const controller = new AbortController();
+      const reason = new Error('Cancelled');
+
+      const promise = executor.executeAsync(action, controller.signal);
+
+      clock.advance(100);
+      controller.abort(reason);
+
+      await expect(promise).rejects.toBe(reason);
+      expect(calls.every((call) => call.signal.aborted)).toBe(true);
+      expect(clock.pendingTimers).toBe(0);
+    });
+
+    it('should reject straight away if the signal is already aborted', async () => {
+      const executor = new HedgedExecutor(3, 100);
+      const action = jest.fn(async () => 'done');
+      const controller = new AbortController();
+
+      controller.abort(new Error('Cancelled'));
+
+      await expect(executor.executeAsync(action, controller.signal)).rejects.toThrow('Cancelled');
+      expect(action).not.toHaveBeenCalled();
+    });
+
+    it('should catch actions that throw synchronously', async () => {
+      const executor = new HedgedExecutor(1, 100);
+
+      await expect(
+        executor.executeAsync(() => {
+          throw new Error('Test error');
+        }),
+      ).rejects.toBeInstanceOf(HedgeExhaustedError);
+    });
+
+    describe('with a circuit breaker', () => {
+      it('should count every failed copy with the circuit breaker', async () => {
+        const clock = new VirtualClock();
+        const circuitBreaker = new FailureRateExecutionCircuitBreaker(
+          'Test circuit breaker',
+          () => true,
+          () => 1000,
+          10,
+          () => 100,
+          { clock, rollingWindow: {} },
+        );
+        const executor = new HedgedExecutor(3, 100, circuitBreaker, clock);
+        const { calls, action } = controllable();
+
+        const promise = executor.executeAsync(action);
+
+        calls[0].reject(new Error('First'));
+        await flush();
+        calls[1].reject(new Error('Second'));
+        await flush();
+        calls[2].resolve('third');
+
+        await expect(promise).resolves.toBe('third');
+        expect(circuitBreaker.statistics.failures).toBe(2);
+      });
+
+      it('should not count the copies it cancels as failures', async () => {
+        const clock = new VirtualClock();
+        const circuitBreaker = new ExecutionCircuitBreaker(
+          'Test circuit breaker',
+          () => true,
+          () => 1000,
+          { clock },
+        );
+        const executor = new HedgedExecutor(2, 100, circuitBreaker, clock);
+        const { calls, action } = controllable();
+
+        const promise = executor.executeAsync(action);
+
+        clock.advance(100);
+        calls[1].resolve('second');
+
+        await expect(promise).resolves.toBe('second');
+        await flush();
+        expect(circuitBreaker.isTripped).toBe(false);
+        expect(circuitBreaker.statistics).toEqual(expect.objectContaining({ successes: 1, failures: 0 }));
+      });
+
+      it('should not count the copies the caller cancels with the circuit breaker', async () => {
+        const clock = new VirtualClock();
+        const circuitBreaker = new ExecutionCircuitBreaker(
+          'Test circuit breaker',
+          () => true,
+          () => 1000,
+          { clock },
+        );
+        const executor = new HedgedExecutor(2, 100, circuitBreaker, clock);
+        const { action } = controllable();
+        const controller = new AbortController();
+
+        const promise = executor.executeAsync(action, controller.signal);
+
+        clock.advance(100);
+        controller.abort(new Error('Cancelled'));
+
+        await expect(promise).rejects.toThrow('Cancelled');
+        await flush();
+        expect(circuitBreaker.isTripped).toBe(false);
+        expect(circuitBreaker.statistics).toEqual(expect.objectContaining({ successes: 0, failures: 0 }));
+      });
+
+      it('should not send any copies once the circuit breaker is open', async () => {
+        const clock = new VirtualClock();
+        const circuitBreaker = new ExecutionCircuitBreaker(
+          'Test circuit breaker',
+          () => true,
+          () => 1000,
+          { clock },
+        );
+        const executor = new HedgedExecutor(3, 100, circuitBreaker, clock);
+        const { calls, action } = controllable();
+
+        const promise = executor.executeAsync(action);
+
+        clock.advance(100);
+        calls[0].reject(new Error('First'));
+        await flush();
+
+        expect(circuitBreaker.isTripped).toBe(true);
+
+        clock.advance(100);
+        expect(calls).toHaveLength(2);
+
+        calls[1].reject(new Error('Second'));
+        await expect(promise).rejects.toBeInstanceOf(HedgeExhaustedError);
+      });
+
+      it('should abort a copy that times out in the circuit breaker', async () => {
+        const clock = new VirtualClock();
+        const circuitBreaker = new FailureRateExecutionCircuitBreaker(
+          'Test circuit breaker',
+          () => true,
+          () => 1000,
+          10,
+          () => 100,
+          { clock, timeout: 50 },
+        );
+        const executor = new HedgedExecutor(2, 100, circuitBreaker, clock);
+        const { calls, action } = controllable();
+
+        const promise = executor.executeAsync(action);
+
+        clock.advance(50);
+        expect(calls[0].signal.aborted).toBe(true);
+
+        await flush();
+        expect(calls).toHaveLength(2);
+
+        calls[1].resolve('second');
+        await expect(promise).resolves.toBe('second');
+      });
+    });
+  });
+});
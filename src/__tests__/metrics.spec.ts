@@ -0,0 +1,293 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+	File Name: metrics.spec.ts
+	Description: Test specification for the metrics collector class.
+	Written by: Nikita Petko
+*/
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import VirtualClock from '../sentinels/clocks/virtual_clock';
+import MetricsCollector from '../sentinels/metrics/metrics_collector';
+import ServiceSentinel from '../sentinels/sentinels/service_sentinel';
+import TripReasonAuthorityBase from '../sentinels/base/trip_reason_authority_base';
+import DefaultCircuitBreakerPolicy from '../sentinels/policy/default_circuit_breaker_policy';
+import ExecutionCircuitBreaker from '../sentinels/circuit_breakers/execution_circuit_breaker';
+import DefaultCircuitBreakerPolicyConfig from '../sentinels/policy/default_circuit_breaker_policy_config';
+
+describe('MetricsCollector', () => {
+  class TripReasonAuthority extends TripReasonAuthorityBase<string> {
+    public isReasonForTrip(executionContext: string, error: Error): boolean {
+      return error !== undefined;
+    }
+  }
+
+  const fail = () => {
+    throw new Error('Test error');
+  };
+
+  const sample = (metrics: string, line: string) =>
+    metrics
+      .split('\n')
+      .find((candidate) => candidate.startsWith(line + ' '))
+      ?.slice(line.length + 1);
+
+  describe('#constructor', () => {
+    it('should throw an error if the latency buckets are invalid', () => {
+      expect(() => new MetricsCollector(undefined as any)).not.toThrow();
+      expect(() => new MetricsCollector(null as any)).toThrow();
+      expect(() => new MetricsCollector([0, 1])).toThrow();
+      expect(() => new MetricsCollector([1, 1])).toThrow();
+    });
+  });
+
+  describe('#attachCircuitBreaker', () => {
+    it('should record the calls, outcomes, trips and resets of a circuit breaker', () => {
+      const clock = new VirtualClock();
+      const collector = new MetricsCollector();
+      const circuitBreaker = new ExecutionCircuitBreaker(
+        'database',
+        () => true,
+        () => 1000,
+        { clock },
+      );
+
+      collector.attachCircuitBreaker('database', circuitBreaker);
+
+      circuitBreaker.execute(() => 'done');
+      expect(() => circuitBreaker.execute(fail)).toThrow();
+      expect(() => circuitBreaker.execute(() => 'done')).toThrow();
+      circuitBreaker.reset();
+
+      const metrics = collector.render();
+
+      expect(sample(metrics, 'sentinels_circuit_breaker_calls_total{name="database"}')).toBe('3');
+      expect(sample(metrics, 'sentinels_circuit_breaker_successes_total{name="database"}')).toBe('1');
+      expect(sample(metrics, 'sentinels_circuit_breaker_failures_total{name="database"}')).toBe('1');
+      expect(sample(metrics, 'sentinels_circuit_breaker_rejections_total{name="database"}')).toBe('1');
+      expect(sample(metrics, 'sentinels_circuit_breaker_trips_total{name="database"}')).toBe('1');
+      expect(sample(metrics, 'sentinels_circuit_breaker_resets_total{name="database"}')).toBe('1');
+    });
+
+    it('should count errors that are not failures apart from the failures', () => {
+      const collector = new MetricsCollector();
+      const circuitBreaker = new ExecutionCircuitBreaker(
+        'database',
+        (ex) => ex.message !== 'Not found',
+        () => 1000,
+        { clock: new VirtualClock() },
+      );
+
+      collector.attachCircuitBreaker('database', circuitBreaker);
+
+      expect(() =>
+        circuitBreaker.execute(() => {
+          throw new Error('Not found');
+        }),
+      ).toThrow('Not found');
+
+      const metrics = collector.render();
+
+      expect(sample(metrics, 'sentinels_circuit_breaker_calls_total{name="database"}')).toBe('1');
+      expect(sample(metrics, 'sentinels_circuit_breaker_failures_total{name="database"}')).toBe('0');
+      expect(sample(metrics, 'sentinels_circuit_breaker_ignored_total{name="database"}')).toBe('1');
+      expect(sample(metrics, 'sentinels_circuit_breaker_call_duration_seconds_count{name="database"}')).toBe('1');
+    });
+
+    it('should record the call durations in a histogram', () => {
+      const clock = new VirtualClock();
+      const collector = new MetricsCollector([0.1, 1]);
+      const circuitBreaker = new ExecutionCircuitBreaker(
+        'database',
+        () => false,
+        () => 1000,
+        { clock },
+      );
+      const call = (duration: number) => () => {
+        clock.advance(duration);
+
+        return 'done';
+      };
+
+      collector.attachCircuitBreaker('database', circuitBreaker);
+
+      circuitBreaker.execute(call(50));
+      circuitBreaker.execute(call(100));
+      circuitBreaker.execute(call(500));
+      circuitBreaker.execute(call(2000));
+
+      expect(collector.render()).toContain(
+        [
+          '# HELP sentinels_circuit_breaker_call_duration_seconds How long calls through the circuit breaker took.',
+          '# TYPE sentinels_circuit_breaker_call_duration_seconds histogram',
+          'sentinels_circuit_breaker_call_duration_seconds_bucket{name="database",le="0.1"} 2',
+          'sentinels_circuit_breaker_call_duration_seconds_bucket{name="database",le="1"} 3',
+          'sentinels_circuit_breaker_call_duration_seconds_bucket{name="database",le="+Inf"} 4',
+          'sentinels_circuit_breaker_call_duration_seconds_sum{name="database"} 2.65',
+          'sentinels_circuit_breaker_call_duration_seconds_count{name="database"} 4',
+        ].join('\n'),
+      );
+    });
+
+    it('should record the requests of a policy, which are not timed', () => {
+      const collector = new MetricsCollector();
+      const policy = new DefaultCircuitBreakerPolicy(
+        'cache',
+        new DefaultCircuitBreakerPolicyConfig(),
+        new TripReasonAuthority(),
+      );
+
+      collector.attachCircuitBreaker('cache', policy);
+
+      policy.notifyRequestFinished('Test context', new Error('Test error'));
+      expect(() => policy.throwIfTripped('Test context')).toThrow();
+
+      const metrics = collector.render();
+
+      expect(sample(metrics, 'sentinels_circuit_breaker_failures_total{name="cache"}')).toBe('1');
+      expect(sample(metrics, 'sentinels_circuit_breaker_rejections_total{name="cache"}')).toBe('1');
+      expect(sample(metrics, 'sentinels_circuit_breaker_trips_total{name="cache"}')).toBe('1');
+      expect(sample(metrics, 'sentinels_circuit_breaker_call_duration_seconds_count{name="cache"}')).toBe('0');
+    });
+
+    it('should throw an error if something is already attached under the name', () => {
+      const collector = new MetricsCollector();
+      const circuitBreaker = new ExecutionCircuitBreaker(
+        'database',
+        () => true,
+        () => 1000,
+      );
+
+      collector.attachCircuitBreaker('database', circuitBreaker);
+
+      expect(() => collector.attachCircuitBreaker('database', circuitBreaker)).toThrow('is already attached.');
+      expect(() => collector.attachCircuitBreaker('', circuitBreaker)).toThrow();
+      expect(() => collector.attachCircuitBreaker('other', undefined as any)).toThrow();
+    });
+  });
+
+  describe('#attachServiceSentinel', () => {
+    it('should record the health and health flips of a service sentinel', () => {
+      const clock = new VirtualClock();
+      const results = [false, false, true, false];
+      const collector = new MetricsCollector();
+      const sentinel = new ServiceSentinel(
+        () => results.shift(),
+        () => 100,
+        true,
+        clock,
+      );
+
+      collector.attachServiceSentinel('payments', sentinel);
+
+      clock.advance(300);
+
+      let metrics = collector.render();
+
+      expect(sample(metrics, 'sentinels_service_sentinel_healthy{name="payments"}')).toBe('1');
+      expect(sample(metrics, 'sentinels_service_sentinel_health_changes_total{name="payments"}')).toBe('2');
+
+      clock.advance(100);
+      metrics = collector.render();
+
+      expect(sample(metrics, 'sentinels_service_sentinel_healthy{name="payments"}')).toBe('0');
+      expect(sample(metrics, 'sentinels_service_sentinel_health_changes_total{name="payments"}')).toBe('3');
+
+      sentinel.dispose(true);
+    });
+
+    it('should throw an error if the sentinel is not specified', () => {
+      const collector = new MetricsCollector();
+
+      expect(() => collector.attachServiceSentinel('payments', undefined as any)).toThrow();
+    });
+  });
+
+  describe('#detach', () => {
+    it('should stop recording and drop the metrics', () => {
+      const collector = new MetricsCollector();
+      const circuitBreaker = new ExecutionCircuitBreaker(
+        'database',
+        () => true,
+        () => 1000,
+      );
+
+      collector.attachCircuitBreaker('database', circuitBreaker);
+
+      expect(collector.detach('database')).toBe(true);
+      expect(collector.detach('database')).toBe(false);
+      expect(circuitBreaker.listenerCount('success')).toBe(0);
+      expect(collector.render()).toBe('');
+    });
+
+    it('should stop listening to a service sentinel', () => {
+      const collector = new MetricsCollector();
+      const sentinel = new ServiceSentinel(
+        () => true,
+        () => 100,
+        true,
+        new VirtualClock(),
+      );
+
+      collector.attachServiceSentinel('payments', sentinel);
+
+      expect(collector.detach('payments')).toBe(true);
+      expect(sentinel.listenerCount('healthChanged')).toBe(0);
+    });
+  });
+
+  describe('#render', () => {
+    it('should render every metric family with its help and type', () => {
+      const collector = new MetricsCollector([1]);
+
+      collector.attachCircuitBreaker(
+        'database',
+        new ExecutionCircuitBreaker(
+          'database',
+          () => true,
+          () => 1000,
+        ),
+      );
+
+      const metrics = collector.render();
+
+      expect(metrics).toContain(
+        '# HELP sentinels_circuit_breaker_calls_total The number of calls through the circuit breaker.\n' +
+          '# TYPE sentinels_circuit_breaker_calls_total counter\n' +
+          'sentinels_circuit_breaker_calls_total{name="database"} 0\n',
+      );
+      expect(metrics.endsWith('\n')).toBe(true);
+      expect(metrics).not.toContain('sentinels_service_sentinel');
+    });
+
+    it('should escape the names in labels', () => {
+      const collector = new MetricsCollector();
+
+      collector.attachCircuitBreaker(
+        'a "quoted"\\name\n',
+        new ExecutionCircuitBreaker(
+          'database',
+          () => true,
+          () => 1000,
+        ),
+      );
+
+      expect(collector.render()).toContain('sentinels_circuit_breaker_calls_total{name="a \\"quoted\\"\\\\name\\n"} 0');
+    });
+  });
+});
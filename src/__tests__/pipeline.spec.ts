@@ -0,0 +1,525 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+	File Name: pipeline.spec.ts
+	Description: Test specification for resilience pipelines and their builder.
+	Written by: Nikita Petko
+*/
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import VirtualClock from '../sentinels/clocks/virtual_clock';
+import { FailureSource } from '../sentinels/enums/failure_source';
+import { RetryExhaustedError } from '../sentinels/retry_executor';
+import { CircuitBreakerError } from '../sentinels/base/circuit_breaker_base';
+import ResiliencePipeline from '../sentinels/pipeline/resilience_pipeline';
+import TripReasonAuthorityBase from '../sentinels/base/trip_reason_authority_base';
+import ConstantBackoffStrategy from '../sentinels/backoff/constant_backoff_strategy';
+import { FallbackError, TimeoutError } from '../sentinels/base/execution_circuit_breaker_base';
+import DefaultCircuitBreakerPolicy from '../sentinels/policy/default_circuit_breaker_policy';
+import ResiliencePipelineBuilder, { PipelineTimeoutError } from '../sentinels/pipeline/resilience_pipeline_builder';
+import ExecutionCircuitBreaker from '../sentinels/circuit_breakers/execution_circuit_breaker';
+import DefaultCircuitBreakerPolicyConfig from '../sentinels/policy/default_circuit_breaker_policy_config';
+import ThresholdExecutionCircuitBreaker from '../sentinels/circuit_breakers/threshold_execution_circuit_breaker';
+
+describe('Pipeline', () => {
+  const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+  class TripReasonAuthority extends TripReasonAuthorityBase<string> {
+    public isReasonForTrip(executionContext: string, error: Error): boolean {
+      return error !== undefined;
+    }
+  }
+
+  const hang = (signal: AbortSignal) =>
+    new Promise<string>((_, reject) => signal.addEventListener('abort', () => reject(signal.reason)));
+
+  describe('ResiliencePipelineBuilder', () => {
+    describe('#constructor', () => {
+      it('should throw an error if the name is not specified', () => {
+        expect(() => new ResiliencePipelineBuilder(undefined as any)).toThrow();
+      });
+    });
+
+    describe('#with', () => {
+      it('should throw an error if the arguments are out of range', () => {
+        const builder = new ResiliencePipelineBuilder<string>('Test pipeline');
+
+        expect(() => builder.withFallback(undefined as any)).toThrow();
+        expect(() => builder.withRetry(0, () => new ConstantBackoffStrategy(0))).toThrow();
+        expect(() => builder.withRetry(3, undefined as any)).toThrow();
+        expect(() => builder.withCircuitBreaker(undefined as any)).toThrow();
+        expect(() => builder.withPolicy(undefined as any, 'Test context')).toThrow();
+        expect(() => builder.withTimeout(0)).toThrow();
+      });
+
+      it('should throw an error if a layer is added twice', () => {
+        const circuitBreaker = new ExecutionCircuitBreaker(
+          'Test circuit breaker',
+          () => true,
+          () => 1000,
+        );
+        const policy = new DefaultCircuitBreakerPolicy(
+          'Test policy',
+          new DefaultCircuitBreakerPolicyConfig(),
+          new TripReasonAuthority(),
+        );
+        const builder = new ResiliencePipelineBuilder<string>('Test pipeline')
+          .withFallback(() => 'fallback')
+          .withRetry(3, () => new ConstantBackoffStrategy(0))
+          .withCircuitBreaker(circuitBreaker)
+          .withPolicy(policy, 'Test context')
+          .withTimeout(100);
+
+        expect(() => builder.withFallback(() => 'fallback')).toThrow('The pipeline already has a fallback.');
+        expect(() => builder.withRetry(3, () => new ConstantBackoffStrategy(0))).toThrow();
+        expect(() => builder.withCircuitBreaker(circuitBreaker)).toThrow();
+        expect(() => builder.withPolicy(policy, 'Test context')).toThrow();
+        expect(() => builder.withTimeout(100)).toThrow();
+      });
+    });
+
+    describe('#build', () => {
+      it('should put the layers in the defined order whatever order they were added in', () => {
+        const pipeline = new ResiliencePipelineBuilder<string>('Test pipeline')
+          .withTimeout(100)
+          .withPolicy(
+            new DefaultCircuitBreakerPolicy(
+              'Test policy',
+              new DefaultCircuitBreakerPolicyConfig(),
+              new TripReasonAuthority(),
+            ),
+            'Test context',
+          )
+          .withCircuitBreaker(
+            new ThresholdExecutionCircuitBreaker(
+              'Test circuit breaker',
+              () => true,
+              () => 1000,
+              () => 3,
+              () => 1000,
+            ),
+          )
+          .withRetry(3, () => new ConstantBackoffStrategy(10))
+          .withFallback(() => 'fallback')
+          .build();
+
+        expect(pipeline).toBeInstanceOf(ResiliencePipeline);
+        expect(pipeline.name).toBe('Test pipeline');
+        expect(pipeline.layers).toEqual([
+          'Fallback',
+          'Retry(3 attempts, ConstantBackoffStrategy)',
+          'ThresholdExecutionCircuitBreaker',
+          'DefaultCircuitBreakerPolicy',
+          'Timeout(100ms)',
+        ]);
+        expect(pipeline.description).toBe(
+          'Test pipeline: Fallback -> Retry(3 attempts, ConstantBackoffStrategy) -> ThresholdExecutionCircuitBreaker -> DefaultCircuitBreakerPolicy -> Timeout(100ms) -> Action',
+        );
+      });
+
+      it('should build an empty pipeline that just runs the action', async () => {
+        const pipeline = new ResiliencePipelineBuilder<number>('Test pipeline').build();
+
+        expect(pipeline.description).toBe('Test pipeline: Action');
+        await expect(pipeline.executeAsync(async () => 42)).resolves.toBe(42);
+      });
+
+      it('should only create a backoff strategy for the description once, when the retry is added', async () => {
+        const backoffStrategyFactory = jest.fn(() => new ConstantBackoffStrategy(0));
+        const pipeline = new ResiliencePipelineBuilder<string>('Test pipeline')
+          .withRetry(3, backoffStrategyFactory)
+          .build();
+
+        expect(backoffStrategyFactory).toHaveBeenCalledTimes(1);
+        expect(pipeline.description).toBe('Test pipeline: Retry(3 attempts, ConstantBackoffStrategy) -> Action');
+        expect(pipeline.description).toBe('Test pipeline: Retry(3 attempts, ConstantBackoffStrategy) -> Action');
+        expect(backoffStrategyFactory).toHaveBeenCalledTimes(1);
+
+        await pipeline.executeAsync(async () => 'done');
+
+        expect(backoffStrategyFactory).toHaveBeenCalledTimes(2);
+      });
+    });
+  });
+
+  describe('ResiliencePipeline', () => {
+    describe('#constructor', () => {
+      it('should throw an error if the arguments are not specified', () => {
+        expect(() => new ResiliencePipeline(undefined as any, [])).toThrow();
+        expect(() => new ResiliencePipeline('Test pipeline', undefined as any)).toThrow();
+      });
+    });
+
+    describe('#executeAsync', () => {
+      it('should reject straight away if the signal is already aborted', async () => {
+        const pipeline = new ResiliencePipelineBuilder<string>('Test pipeline').build();
+        const action = jest.fn(async () => 'done');
+        const controller = new AbortController();
+
+        controller.abort(new Error('Cancelled'));
+
+        await expect(pipeline.executeAsync(action, controller.signal)).rejects.toThrow('Cancelled');
+        expect(action).not.toHaveBeenCalled();
+      });
+
+      it('should retry failed attempts with the backoff strategy', async () => {
+        const clock = new VirtualClock();
+        const pipeline = new ResiliencePipelineBuilder<string>('Test pipeline', clock)
+          .withRetry(3, () => new ConstantBackoffStrategy(100))
+          .build();
+        const action = jest.fn().mockRejectedValueOnce(new Error('First')).mockResolvedValueOnce('done');
+
+        const promise = pipeline.executeAsync(action);
+
+        await flush();
+        expect(action).toHaveBeenCalledTimes(1);
+
+        clock.advance(100);
+        await expect(promise).resolves.toBe('done');
+        expect(action).toHaveBeenCalledTimes(2);
+      });
+
+      it('should reject with a RetryExhaustedError once every attempt has failed', async () => {
+        const pipeline = new ResiliencePipelineBuilder<string>('Test pipeline')
+          .withRetry(2, () => new ConstantBackoffStrategy(0))
+          .build();
+
+        await expect(
+          pipeline.executeAsync(async () => {
+            throw new Error('Test error');
+          }),
+        ).rejects.toBeInstanceOf(RetryExhaustedError);
+      });
+
+      it('should not retry errors the retry predicate rejects', async () => {
+        const pipeline = new ResiliencePipelineBuilder<string>('Test pipeline')
+          .withRetry(
+            3,
+            () => new ConstantBackoffStrategy(0),
+            (error) => error.message !== 'Fatal',
+          )
+          .build();
+        const action = jest.fn().mockRejectedValue(new Error('Fatal'));
+
+        await expect(pipeline.executeAsync(action)).rejects.toThrow('Fatal');
+        expect(action).toHaveBeenCalledTimes(1);
+      });
+
+      it('should send every attempt through the circuit breaker and stop retrying once it opens', async () => {
+        const circuitBreaker = new ThresholdExecutionCircuitBreaker(
+          'Test circuit breaker',
+          () => true,
+          () => 1000,
+          () => 1,
+          () => 1000,
+        );
+        const pipeline = new ResiliencePipelineBuilder<string>('Test pipeline')
+          .withRetry(
+            5,
+            () => new ConstantBackoffStrategy(0),
+            (error) => !(error instanceof CircuitBreakerError),
+          )
+          .withCircuitBreaker(circuitBreaker)
+          .build();
+        const action = jest.fn().mockRejectedValue(new Error('Test error'));
+
+        const error = (await pipeline.executeAsync(action).catch((e) => e)) as RetryExhaustedError;
+
+        expect(error).toBeInstanceOf(RetryExhaustedError);
+        expect(error.errors[error.errors.length - 1]).toBeInstanceOf(CircuitBreakerError);
+        expect(action).toHaveBeenCalledTimes(2);
+        expect(circuitBreaker.isTripped).toBe(true);
+      });
+
+      it('should abort the action when the circuit breaker times it out', async () => {
+        const clock = new VirtualClock();
+        const circuitBreaker = new ExecutionCircuitBreaker(
+          'Test circuit breaker',
+          () => false,
+          () => 1000,
+          { clock, timeout: 100 },
+        );
+        const pipeline = new ResiliencePipelineBuilder<string>('Test pipeline', clock)
+          .withCircuitBreaker(circuitBreaker)
+          .build();
+        let signal: AbortSignal;
+
+        const promise = pipeline.executeAsync((s) => {
+          signal = s;
+
+          return hang(s);
+        });
+
+        clock.advance(100);
+        await expect(promise).rejects.toBeInstanceOf(TimeoutError);
+        expect(signal.aborted).toBe(true);
+      });
+
+      it('should not count attempts the caller cancels as failures of the circuit breaker', async () => {
+        const circuitBreaker = new ExecutionCircuitBreaker(
+          'Test circuit breaker',
+          () => true,
+          () => 1000,
+        );
+        const pipeline = new ResiliencePipelineBuilder<string>('Test pipeline')
+          .withCircuitBreaker(circuitBreaker)
+          .build();
+        const controller = new AbortController();
+
+        const promise = pipeline.executeAsync(hang, controller.signal);
+
+        await flush();
+        controller.abort(new Error('Cancelled'));
+
+        await expect(promise).rejects.toThrow('Cancelled');
+        expect(circuitBreaker.isTripped).toBe(false);
+        expect(circuitBreaker.statistics.failures).toBe(0);
+      });
+
+      it('should check and notify the policy for every attempt', async () => {
+        const policy = new DefaultCircuitBreakerPolicy(
+          'Test policy',
+          new DefaultCircuitBreakerPolicyConfig(),
+          new TripReasonAuthority(),
+        );
+        const pipeline = new ResiliencePipelineBuilder<string>('Test pipeline')
+          .withPolicy(policy, 'Test context')
+          .build();
+
+        await expect(pipeline.executeAsync(async () => 'done')).resolves.toBe('done');
+        await expect(
+          pipeline.executeAsync(async () => {
+            throw new Error('Test error');
+          }),
+        ).rejects.toThrow('Test error');
+        await expect(pipeline.executeAsync(async () => 'done')).rejects.toBeInstanceOf(CircuitBreakerError);
+        expect(policy.statistics.successes).toBe(1);
+        expect(policy.statistics.failures).toBe(1);
+      });
+
+      it('should not count attempts the caller cancels as failures of the policy', async () => {
+        const policy = new DefaultCircuitBreakerPolicy(
+          'Test policy',
+          new DefaultCircuitBreakerPolicyConfig(),
+          new TripReasonAuthority(),
+        );
+        const pipeline = new ResiliencePipelineBuilder<string>('Test pipeline')
+          .withPolicy(policy, 'Test context')
+          .build();
+        const controller = new AbortController();
+
+        const promise = pipeline.executeAsync(hang, controller.signal);
+
+        await flush();
+        controller.abort(new Error('Cancelled'));
+
+        await expect(promise).rejects.toThrow('Cancelled');
+        expect(policy.statistics.failures).toBe(0);
+        await expect(pipeline.executeAsync(async () => 'done')).resolves.toBe('done');
+      });
+
+      it('should time out each attempt and abort its signal', async () => {
+        const clock = new VirtualClock();
+        const pipeline = new ResiliencePipelineBuilder<string>('Test pipeline', clock).withTimeout(100).build();
+        let signal: AbortSignal;
+
+        const promise = pipeline.executeAsync((s) => {
+          signal = s;
+
+          return hang(s);
+        });
+
+        clock.advance(99);
+        expect(signal.aborted).toBe(false);
+
+        clock.advance(1);
+        await expect(promise).rejects.toBeInstanceOf(PipelineTimeoutError);
+        await expect(promise).rejects.toThrow('timed out after 100ms');
+        await expect(promise).rejects.toThrow(/pipeline 'Test pipeline'/);
+        expect(signal.reason).toBeInstanceOf(TimeoutError);
+      });
+
+      it('should stop following the signal of the caller once an attempt times out', async () => {
+        const clock = new VirtualClock();
+        const pipeline = new ResiliencePipelineBuilder<string>('Test pipeline', clock).withTimeout(100).build();
+        const controller = new AbortController();
+        const removeEventListener = jest.spyOn(controller.signal, 'removeEventListener');
+
+        const promise = pipeline.executeAsync(() => new Promise<string>(() => undefined), controller.signal);
+
+        clock.advance(100);
+        await expect(promise).rejects.toBeInstanceOf(PipelineTimeoutError);
+        expect(removeEventListener).toHaveBeenCalledWith('abort', expect.any(Function));
+      });
+
+      it('should clear the timeout once the attempt settles', async () => {
+        const clock = new VirtualClock();
+        const pipeline = new ResiliencePipelineBuilder<string>('Test pipeline', clock).withTimeout(100).build();
+
+        await expect(pipeline.executeAsync(async () => 'done')).resolves.toBe('done');
+        await expect(
+          pipeline.executeAsync(async () => {
+            throw new Error('Test error');
+          }),
+        ).rejects.toThrow('Test error');
+        expect(clock.pendingTimers).toBe(0);
+      });
+
+      it('should count timed out attempts as failures of the circuit breaker', async () => {
+        const clock = new VirtualClock();
+        const circuitBreaker = new ExecutionCircuitBreaker(
+          'Test circuit breaker',
+          () => false,
+          () => 1000,
+          { clock },
+        );
+        const pipeline = new ResiliencePipelineBuilder<string>('Test pipeline', clock)
+          .withCircuitBreaker(circuitBreaker)
+          .withTimeout(100)
+          .build();
+
+        const promise = pipeline.executeAsync(hang);
+
+        clock.advance(100);
+        await expect(promise).rejects.toBeInstanceOf(TimeoutError);
+        expect(circuitBreaker.isTripped).toBe(true);
+      });
+
+      it('should serve the fallback with where the failure came from', async () => {
+        const clock = new VirtualClock();
+        const circuitBreaker = new ExecutionCircuitBreaker(
+          'Test circuit breaker',
+          () => true,
+          () => 1000,
+          { clock },
+        );
+        const fallback = jest.fn(async () => 'fallback');
+        const pipeline = new ResiliencePipelineBuilder<string>('Test pipeline', clock)
+          .withFallback(fallback)
+          .withCircuitBreaker(circuitBreaker)
+          .withTimeout(100)
+          .build();
+
+        const promise = pipeline.executeAsync(hang);
+
+        clock.advance(100);
+        await expect(promise).resolves.toBe('fallback');
+        expect(fallback).toHaveBeenLastCalledWith(expect.any(TimeoutError), FailureSource.Timeout);
+
+        await expect(pipeline.executeAsync(hang)).resolves.toBe('fallback');
+        expect(fallback).toHaveBeenLastCalledWith(expect.any(CircuitBreakerError), FailureSource.CircuitOpen);
+
+        circuitBreaker.reset();
+
+        await expect(
+          pipeline.executeAsync(async () => {
+            throw new Error('Test error');
+          }),
+        ).resolves.toBe('fallback');
+        expect(fallback).toHaveBeenLastCalledWith(
+          expect.objectContaining({ message: 'Test error' }),
+          FailureSource.Action,
+        );
+      });
+
+      it('should tell the fallback the source of the last attempt once retries are exhausted', async () => {
+        const clock = new VirtualClock();
+        const fallback = jest.fn(() => 'fallback');
+        const pipeline = new ResiliencePipelineBuilder<string>('Test pipeline', clock)
+          .withFallback(fallback)
+          .withRetry(2, () => new ConstantBackoffStrategy(0))
+          .withTimeout(100)
+          .build();
+
+        const promise = pipeline.executeAsync(hang);
+
+        clock.advance(100);
+        await flush();
+        clock.advance(0);
+        await flush();
+        clock.advance(100);
+
+        await expect(promise).resolves.toBe('fallback');
+        expect(fallback).toHaveBeenCalledWith(expect.any(RetryExhaustedError), FailureSource.Timeout);
+      });
+
+      it('should reject with a FallbackError if the fallback fails', async () => {
+        const pipeline = new ResiliencePipelineBuilder<string>('Test pipeline')
+          .withFallback(() => {
+            throw new Error('Fallback error');
+          })
+          .build();
+
+        const promise = pipeline.executeAsync(async () => {
+          throw new Error('Test error');
+        });
+
+        await expect(promise).rejects.toBeInstanceOf(FallbackError);
+        await expect(promise).rejects.toMatchObject({ primaryError: { message: 'Test error' } });
+      });
+
+      it('should not fall back or retry once the signal is aborted', async () => {
+        const clock = new VirtualClock();
+        const fallback = jest.fn(() => 'fallback');
+        const pipeline = new ResiliencePipelineBuilder<string>('Test pipeline', clock)
+          .withFallback(fallback)
+          .withRetry(3, () => new ConstantBackoffStrategy(100))
+          .withCircuitBreaker(
+            new ExecutionCircuitBreaker(
+              'Test circuit breaker',
+              () => false,
+              () => 1000,
+              { clock },
+            ),
+          )
+          .withTimeout(1000)
+          .build();
+        const controller = new AbortController();
+        const action = jest.fn(hang);
+
+        const promise = pipeline.executeAsync(action, controller.signal);
+
+        await flush();
+        controller.abort(new Error('Cancelled'));
+
+        await expect(promise).rejects.toThrow('Cancelled');
+        expect(action).toHaveBeenCalledTimes(1);
+        expect(fallback).not.toHaveBeenCalled();
+        expect(clock.pendingTimers).toBe(0);
+      });
+
+      it('should stop waiting between attempts once the signal is aborted', async () => {
+        const clock = new VirtualClock();
+        const pipeline = new ResiliencePipelineBuilder<string>('Test pipeline', clock)
+          .withRetry(3, () => new ConstantBackoffStrategy(100))
+          .build();
+        const controller = new AbortController();
+
+        const promise = pipeline.executeAsync(async () => {
+          throw new Error('Test error');
+        }, controller.signal);
+
+        await flush();
+        controller.abort(new Error('Cancelled'));
+
+        await expect(promise).rejects.toThrow('Cancelled');
+        expect(clock.pendingTimers).toBe(0);
+      });
+    });
+  });
+});
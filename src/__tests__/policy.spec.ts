@@ -23,6 +23,8 @@
 /* eslint-disable @typescript-eslint/no-unused-vars */
 /* eslint-disable @typescript-eslint/no-explicit-any */
 
+import { CircuitState } from '../sentinels/enums/circuit_state';
+import VirtualClock from '../sentinels/clocks/virtual_clock';
 import TripReasonAuthorityBase from '../sentinels/base/trip_reason_authority_base';
 import DefaultCircuitBreakerPolicy from '../sentinels/policy/default_circuit_breaker_policy';
 import DefaultCircuitBreakerPolicyConfig from '../sentinels/policy/default_circuit_breaker_policy_config';
@@ -149,6 +151,396 @@ describe('Circuit breaker policies', () => {
       });
     });
 
+    describe('#halfOpen', () => {
+      class CircuitBreakerPolicyConfig extends DefaultCircuitBreakerPolicyConfig {
+        public get halfOpenMaxProbes(): number {
+          return 2;
+        }
+      }
+
+      const createHalfOpenPolicy = () => {
+        const policy = new DefaultCircuitBreakerPolicy(
+          'Test Circuit Breaker',
+          new CircuitBreakerPolicyConfig(),
+          new TripReasonAuthority(),
+        );
+
+        policy['_circuitBreaker'].trip();
+        policy['_nextRetry'] = Date.now() - 1000;
+
+        return policy;
+      };
+
+      it('should throw if halfOpenMaxProbes is less than one', () => {
+        class InvalidCircuitBreakerPolicyConfig extends DefaultCircuitBreakerPolicyConfig {
+          public get halfOpenMaxProbes(): number {
+            return 0;
+          }
+        }
+
+        expect(() => {
+          new DefaultCircuitBreakerPolicy(
+            'Test Circuit Breaker',
+            new InvalidCircuitBreakerPolicyConfig(),
+            new TripReasonAuthority(),
+          );
+        }).toThrow();
+      });
+
+      it('should only admit halfOpenMaxProbes concurrent probes', () => {
+        const policy = createHalfOpenPolicy();
+
+        expect(() => policy.throwIfTripped('Other context')).not.toThrow();
+        expect(() => policy.throwIfTripped('Other context')).not.toThrow();
+        expect(() => policy.throwIfTripped('Other context')).toThrow();
+      });
+
+      it('should admit a single probe if the config does not specify halfOpenMaxProbes', () => {
+        const policy = new DefaultCircuitBreakerPolicy(
+          'Test Circuit Breaker',
+          { retryInterval: 250, failuresAllowedBeforeTrip: 0 },
+          new TripReasonAuthority(),
+        );
+
+        policy['_circuitBreaker'].trip();
+        policy['_nextRetry'] = Date.now() - 1000;
+
+        expect(() => policy.throwIfTripped('Other context')).not.toThrow();
+        expect(() => policy.throwIfTripped('Other context')).toThrow();
+      });
+
+      it('should close once every probe has succeeded', () => {
+        const policy = createHalfOpenPolicy();
+
+        policy.throwIfTripped('Other context');
+        policy.throwIfTripped('Other context');
+
+        policy.notifyRequestFinished('Other context', undefined as any);
+
+        expect(policy['_circuitBreaker'].isTripped).toBe(true);
+
+        policy.notifyRequestFinished('Other context', undefined as any);
+
+        expect(policy['_circuitBreaker'].isTripped).toBe(false);
+      });
+
+      it('should reopen immediately if a probe fails', () => {
+        const policy = createHalfOpenPolicy();
+
+        policy.throwIfTripped('Other context');
+        policy.throwIfTripped('Other context');
+
+        policy.notifyRequestFinished('Other context', new Error('Test error'));
+
+        expect(policy['_nextRetry']).toBeGreaterThan(Date.now());
+        expect(() => policy.throwIfTripped('Other context')).toThrow();
+
+        policy.notifyRequestFinished('Other context', undefined as any);
+
+        expect(policy['_circuitBreaker'].isTripped).toBe(true);
+      });
+
+      it('should not let a request admitted before the trip close the circuit while a probe is running', () => {
+        const policy = createHalfOpenPolicy();
+
+        policy.throwIfTripped('Probe context');
+        policy.notifyRequestFinished('Late context', undefined as any);
+
+        expect(policy['_circuitBreaker'].isTripped).toBe(true);
+        expect(policy['_activeProbes']).toBe(1);
+        expect(policy.statistics.successes).toBe(1);
+
+        policy.notifyRequestFinished('Late context', new Error('Test error'));
+
+        expect(policy.state).toBe(CircuitState.HalfOpen);
+
+        policy.throwIfTripped('Probe context');
+        policy.notifyRequestFinished('Probe context', undefined as any);
+        policy.notifyRequestFinished('Probe context', undefined as any);
+
+        expect(policy['_circuitBreaker'].isTripped).toBe(false);
+      });
+    });
+
+    describe('#state', () => {
+      it('should report the state of the circuit breaker', () => {
+        const policy = new DefaultCircuitBreakerPolicy(
+          'Test Circuit Breaker',
+          new DefaultCircuitBreakerPolicyConfig(),
+          new TripReasonAuthority(),
+        );
+
+        expect(policy.state).toBe(CircuitState.Closed);
+        expect(policy.trippedAt).toBeUndefined();
+
+        policy.notifyRequestFinished('Test context', new Error('Test error'));
+
+        expect(policy.state).toBe(CircuitState.Open);
+        expect(policy.trippedAt).toBeInstanceOf(Date);
+        expect(policy.nextRetryAt).toEqual(new Date(policy['_nextRetry']));
+
+        policy['_nextRetry'] = Date.now() - 1000;
+
+        expect(policy.state).toBe(CircuitState.HalfOpen);
+        expect(policy.transitions.map((transition) => transition.to)).toEqual([
+          CircuitState.Open,
+          CircuitState.HalfOpen,
+        ]);
+      });
+
+      it('should honour forced states', () => {
+        const policy = new DefaultCircuitBreakerPolicy(
+          'Test Circuit Breaker',
+          new DefaultCircuitBreakerPolicyConfig(),
+          new TripReasonAuthority(),
+        );
+
+        expect(policy.forceOpen()).toBe(true);
+        expect(policy.state).toBe(CircuitState.ForcedOpen);
+        expect(() => policy.throwIfTripped('Other context')).toThrow();
+
+        expect(policy.forceClosed()).toBe(true);
+        policy.notifyRequestFinished('Test context', new Error('Test error'));
+        expect(() => policy.throwIfTripped('Other context')).not.toThrow();
+
+        expect(policy.clearForcedState()).toBe(true);
+        expect(policy.state).toBe(CircuitState.Closed);
+      });
+    });
+
+    describe('#trip', () => {
+      it('should trip the circuit breaker until the retry interval has passed', () => {
+        const clock = new VirtualClock(1000);
+        const policy = new DefaultCircuitBreakerPolicy(
+          'Test Circuit Breaker',
+          new DefaultCircuitBreakerPolicyConfig(),
+          new TripReasonAuthority(),
+          clock,
+        );
+        const tripped = jest.fn();
+
+        policy.on('tripped', tripped);
+
+        expect(policy.trip()).toBe(true);
+        expect(policy.trip()).toBe(false);
+        expect(policy.state).toBe(CircuitState.Open);
+        expect(policy.nextRetryAt).toEqual(new Date(1250));
+        expect(tripped).toHaveBeenCalledTimes(1);
+        expect(tripped).toHaveBeenCalledWith(expect.objectContaining({ error: undefined }));
+        expect(() => policy.throwIfTripped('Other context')).toThrow();
+
+        clock.advance(250);
+
+        expect(policy.state).toBe(CircuitState.HalfOpen);
+      });
+
+      it('should not push back the retry of a circuit breaker that is already open', () => {
+        const clock = new VirtualClock(1000);
+        const policy = new DefaultCircuitBreakerPolicy(
+          'Test Circuit Breaker',
+          new DefaultCircuitBreakerPolicyConfig(),
+          new TripReasonAuthority(),
+          clock,
+        );
+
+        policy.trip();
+        clock.advance(200);
+
+        expect(policy.trip()).toBe(false);
+        expect(policy.nextRetryAt).toEqual(new Date(1250));
+
+        policy.forceOpen();
+
+        expect(policy.trip()).toBe(false);
+        expect(policy['_nextRetry']).toBe(1250);
+      });
+
+      it('should reopen a half-open circuit breaker', () => {
+        const clock = new VirtualClock(1000);
+        const policy = new DefaultCircuitBreakerPolicy(
+          'Test Circuit Breaker',
+          new DefaultCircuitBreakerPolicyConfig(),
+          new TripReasonAuthority(),
+          clock,
+        );
+
+        policy.trip();
+        clock.advance(250);
+
+        expect(policy.trip()).toBe(true);
+        expect(policy.state).toBe(CircuitState.Open);
+        expect(policy.nextRetryAt).toEqual(new Date(1500));
+      });
+
+      it('should not trip a circuit breaker that is forced closed', () => {
+        const policy = new DefaultCircuitBreakerPolicy(
+          'Test Circuit Breaker',
+          new DefaultCircuitBreakerPolicyConfig(),
+          new TripReasonAuthority(),
+        );
+
+        policy.forceClosed();
+
+        expect(policy.trip()).toBe(false);
+        expect(policy.state).toBe(CircuitState.ForcedClosed);
+      });
+    });
+
+    describe('#reset', () => {
+      it('should close a tripped circuit breaker and clear its statistics', () => {
+        const policy = new DefaultCircuitBreakerPolicy(
+          'Test Circuit Breaker',
+          new DefaultCircuitBreakerPolicyConfig(),
+          new TripReasonAuthority(),
+        );
+        const reset = jest.fn();
+
+        policy.on('reset', reset);
+        policy.notifyRequestFinished('Other context', new Error('Test error'));
+
+        expect(policy.reset()).toBe(true);
+        expect(policy.reset()).toBe(false);
+        expect(policy.state).toBe(CircuitState.Closed);
+        expect(policy.statistics.failures).toBe(0);
+        expect(reset).toHaveBeenCalledTimes(1);
+        expect(() => policy.throwIfTripped('Other context')).not.toThrow();
+      });
+    });
+
+    describe('#clock', () => {
+      it('should use the given clock for the retry interval', () => {
+        const clock = new VirtualClock(1000);
+        const policy = new DefaultCircuitBreakerPolicy(
+          'Test Circuit Breaker',
+          new DefaultCircuitBreakerPolicyConfig(),
+          new TripReasonAuthority(),
+          clock,
+        );
+
+        policy.notifyRequestFinished('Test context', new Error('Test error'));
+
+        expect(policy.trippedAt).toEqual(new Date(1000));
+        expect(policy.nextRetryAt).toEqual(new Date(1250));
+        expect(() => policy.throwIfTripped('Other context')).toThrow();
+
+        clock.advance(250);
+
+        expect(policy.state).toBe(CircuitState.HalfOpen);
+        expect(() => policy.throwIfTripped('Other context')).not.toThrow();
+      });
+    });
+
+    describe('#minimumCalls', () => {
+      const createPolicy = (minimumCalls: number, clock: VirtualClock) => {
+        const config = new DefaultCircuitBreakerPolicyConfig();
+
+        config.minimumCalls = minimumCalls;
+
+        return new DefaultCircuitBreakerPolicy('Test Circuit Breaker', config, new TripReasonAuthority(), clock);
+      };
+
+      it('should throw if minimumCalls is less than zero', () => {
+        expect(() => {
+          new DefaultCircuitBreakerPolicy(
+            'Test Circuit Breaker',
+            { minimumCalls: -1 } as any,
+            new TripReasonAuthority(),
+          );
+        }).toThrow();
+      });
+
+      it('should not trip until enough requests have finished in the current window', () => {
+        const policy = createPolicy(3, new VirtualClock());
+
+        policy.notifyRequestFinished('Other context', undefined as any);
+        policy.notifyRequestFinished('Test context', new Error('Test error'));
+        expect(policy.state).toBe(CircuitState.Closed);
+
+        policy.notifyRequestFinished('Test context', new Error('Test error'));
+        expect(policy.state).toBe(CircuitState.Open);
+        expect(policy.statistics).toEqual({ successes: 1, failures: 2, rejections: 0, timeouts: 0, slowCalls: 0 });
+      });
+
+      it('should not count requests that have left the window', () => {
+        const clock = new VirtualClock();
+        const policy = createPolicy(2, clock);
+
+        policy.notifyRequestFinished('Test context', new Error('Test error'));
+        clock.advance(10000);
+        policy.notifyRequestFinished('Test context', new Error('Test error'));
+
+        expect(policy.state).toBe(CircuitState.Closed);
+      });
+
+      it('should clear the window once the circuit breaker closes', () => {
+        const clock = new VirtualClock();
+        const policy = createPolicy(2, clock);
+
+        policy.notifyRequestFinished('Test context', new Error('Test error'));
+        policy.notifyRequestFinished('Test context', new Error('Test error'));
+        expect(policy.state).toBe(CircuitState.Open);
+
+        clock.advance(250);
+        policy.throwIfTripped('Other context');
+        policy.notifyRequestFinished('Other context', undefined as any);
+        expect(policy.state).toBe(CircuitState.Closed);
+        expect(policy.statistics.failures).toBe(0);
+
+        policy.notifyRequestFinished('Test context', new Error('Test error'));
+        expect(policy.state).toBe(CircuitState.Closed);
+      });
+    });
+
+    describe('#events', () => {
+      it('should emit failure and tripped events', () => {
+        const policy = new DefaultCircuitBreakerPolicy(
+          'Test Circuit Breaker',
+          new DefaultCircuitBreakerPolicyConfig(),
+          new TripReasonAuthority(),
+        );
+
+        const failure = jest.fn();
+        const tripped = jest.fn();
+
+        policy.on('failure', failure).on('tripped', tripped);
+
+        const error = new Error('Test error');
+
+        policy.notifyRequestFinished('Other context', error);
+
+        expect(failure).toHaveBeenCalledWith(expect.objectContaining({ name: 'Test Circuit Breaker', error }));
+        expect(tripped).toHaveBeenCalledWith(expect.objectContaining({ error, nextRetryAt: policy.nextRetryAt }));
+      });
+
+      it('should emit rejected, probeAdmitted, success and reset events', () => {
+        const policy = new DefaultCircuitBreakerPolicy(
+          'Test Circuit Breaker',
+          new DefaultCircuitBreakerPolicyConfig(),
+          new TripReasonAuthority(),
+        );
+
+        const rejected = jest.fn();
+        const probeAdmitted = jest.fn();
+        const success = jest.fn();
+        const reset = jest.fn();
+
+        policy.on('rejected', rejected).on('probeAdmitted', probeAdmitted).on('success', success).on('reset', reset);
+
+        policy.notifyRequestFinished('Other context', new Error('Test error'));
+
+        expect(() => policy.throwIfTripped('Other context')).toThrow();
+        expect(rejected).toHaveBeenCalledTimes(1);
+
+        policy['_nextRetry'] = Date.now() - 1000;
+        policy.throwIfTripped('Other context');
+        policy.notifyRequestFinished('Other context', undefined as any);
+
+        expect(probeAdmitted).toHaveBeenCalledWith(expect.objectContaining({ activeProbes: 1 }));
+        expect(success).toHaveBeenCalledTimes(1);
+        expect(reset).toHaveBeenCalledWith(expect.objectContaining({ trippedFor: expect.any(Number) }));
+      });
+    });
+
     describe('#onSuccessfulRequest', () => {
       it('should reset the circuit breaker', () => {
         const policy = new DefaultCircuitBreakerPolicy(
@@ -158,6 +550,8 @@ describe('Circuit breaker policies', () => {
         );
 
         policy['_circuitBreaker'].trip();
+        policy['_nextRetry'] = Date.now() - 1000;
+        policy.throwIfTripped('Test context');
 
         policy['onSuccessfulRequest']('Test context');
 
@@ -229,6 +623,24 @@ describe('Circuit breaker policies', () => {
 
         expect(policy['isCircuitBreakerOpen']('Test context')[0]).toBe(false);
       });
+
+      it('should allow the configured number of failures before tripping a new policy', () => {
+        const config = new DefaultCircuitBreakerPolicyConfig();
+
+        config.failuresAllowedBeforeTrip = 3;
+
+        const policy = new DefaultCircuitBreakerPolicy('Test Circuit Breaker', config, new TripReasonAuthority());
+
+        for (let i = 0; i < 3; i++) {
+          policy.notifyRequestFinished('Test context', new Error('Test error'));
+        }
+
+        expect(policy.state).toBe(CircuitState.Closed);
+
+        policy.notifyRequestFinished('Test context', new Error('Test error'));
+
+        expect(policy.state).toBe(CircuitState.Open);
+      });
     });
   });
 
@@ -265,6 +677,50 @@ describe('Circuit breaker policies', () => {
       });
     });
 
+    describe('#halfOpenMaxProbes', () => {
+      it('should default to 1', () => {
+        expect(new DefaultCircuitBreakerPolicyConfig().halfOpenMaxProbes).toBe(1);
+      });
+
+      it('should set the value', () => {
+        const config = new DefaultCircuitBreakerPolicyConfig();
+
+        config.halfOpenMaxProbes = 3;
+
+        expect(config.halfOpenMaxProbes).toBe(3);
+      });
+
+      it('should throw if the value is less than 1', () => {
+        const config = new DefaultCircuitBreakerPolicyConfig();
+
+        expect(() => {
+          config.halfOpenMaxProbes = 0;
+        }).toThrow();
+      });
+    });
+
+    describe('#minimumCalls', () => {
+      it('should default to 0', () => {
+        expect(new DefaultCircuitBreakerPolicyConfig().minimumCalls).toBe(0);
+      });
+
+      it('should set the value', () => {
+        const config = new DefaultCircuitBreakerPolicyConfig();
+
+        config.minimumCalls = 10;
+
+        expect(config.minimumCalls).toBe(10);
+      });
+
+      it('should throw if the value is less than 0', () => {
+        const config = new DefaultCircuitBreakerPolicyConfig();
+
+        expect(() => {
+          config.minimumCalls = -1;
+        }).toThrow();
+      });
+    });
+
     describe('#retryInterval', () => {
       it('should return 1000', () => {
         expect(new CircuitBreakerPolicyConfig().retryInterval).toBe(1000);
@@ -0,0 +1,96 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+	File Name: random.spec.ts
+	Description: Test specification for the random source classes.
+	Written by: Nikita Petko
+*/
+
+import MathRandomSource from '../sentinels/random/math_random_source';
+import SeededRandomSource from '../sentinels/random/seeded_random_source';
+
+describe('Random sources', () => {
+  describe('MathRandomSource', () => {
+    describe('#next', () => {
+      it('should return the value of Math.random', () => {
+        const random = jest.spyOn(Math, 'random').mockReturnValue(0.25);
+
+        try {
+          expect(MathRandomSource.instance.next()).toBe(0.25);
+        } finally {
+          random.mockRestore();
+        }
+      });
+    });
+  });
+
+  describe('SeededRandomSource', () => {
+    describe('#constructor', () => {
+      it('should throw an error if the seed is not an integer', () => {
+        expect(() => new SeededRandomSource(1.5)).toThrow();
+        expect(() => new SeededRandomSource(NaN)).toThrow();
+      });
+
+      it('should only use the lower 32 bits of the seed', () => {
+        expect(new SeededRandomSource(-1).seed).toBe(4294967295);
+        expect(new SeededRandomSource(2 ** 32 + 7).next()).toBe(new SeededRandomSource(7).next());
+      });
+    });
+
+    describe('#next', () => {
+      it('should return the same sequence for the same seed', () => {
+        const first = new SeededRandomSource(42);
+        const second = new SeededRandomSource(42);
+
+        for (let i = 0; i < 100; i++) {
+          expect(first.next()).toBe(second.next());
+        }
+      });
+
+      it('should return different sequences for different seeds', () => {
+        expect(new SeededRandomSource(1).next()).not.toBe(new SeededRandomSource(2).next());
+      });
+
+      it('should return numbers in the range [0, 1)', () => {
+        const random = new SeededRandomSource(1234);
+        let sum = 0;
+
+        for (let i = 0; i < 1000; i++) {
+          const value = random.next();
+
+          expect(value).toBeGreaterThanOrEqual(0);
+          expect(value).toBeLessThan(1);
+
+          sum += value;
+        }
+
+        expect(sum / 1000).toBeCloseTo(0.5, 1);
+      });
+    });
+
+    describe('#reset', () => {
+      it('should start the sequence again from the seed', () => {
+        const random = new SeededRandomSource(42);
+        const values = [random.next(), random.next(), random.next()];
+
+        random.reset();
+
+        expect([random.next(), random.next(), random.next()]).toEqual(values);
+      });
+    });
+  });
+});
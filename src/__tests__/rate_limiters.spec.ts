@@ -0,0 +1,220 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+	File Name: rate_limiters.spec.ts
+	Description: Test specification for the rate limiter classes.
+	Written by: Nikita Petko
+*/
+
+import VirtualClock from '../sentinels/clocks/virtual_clock';
+import { RateLimitExceededError } from '../sentinels/base/rate_limiter_base';
+import TokenBucketRateLimiter from '../sentinels/rate_limiters/token_bucket_rate_limiter';
+import SlidingLogRateLimiter from '../sentinels/rate_limiters/sliding_log_rate_limiter';
+
+describe('Rate limiters', () => {
+  describe('RateLimiterBase', () => {
+    describe('#getTimeUntilNextPermit', () => {
+      it('should throw an error if the number of permits is not a positive integer', () => {
+        const rateLimiter = new TokenBucketRateLimiter('Test rate limiter', 1, 1);
+
+        expect(() => rateLimiter.getTimeUntilNextPermit(0)).toThrow();
+        expect(() => rateLimiter.getTimeUntilNextPermit(1.5)).toThrow();
+        expect(() => rateLimiter.tryAcquire(-1)).toThrow();
+      });
+    });
+
+    describe('#acquire', () => {
+      it('should wait until the permits are available', async () => {
+        const clock = new VirtualClock();
+        const rateLimiter = new TokenBucketRateLimiter('Test rate limiter', 1, 10, clock);
+        const acquired = jest.fn();
+
+        await rateLimiter.acquire();
+        const promise = rateLimiter.acquire().then(acquired);
+
+        clock.advance(99);
+        await Promise.resolve();
+        expect(acquired).not.toHaveBeenCalled();
+
+        clock.advance(1);
+        await promise;
+        expect(acquired).toHaveBeenCalled();
+      });
+
+      it('should throw if the permits will not be available within the maximum wait', async () => {
+        const clock = new VirtualClock();
+        const rateLimiter = new TokenBucketRateLimiter('Test rate limiter', 1, 10, clock);
+
+        await rateLimiter.acquire();
+
+        await expect(rateLimiter.acquire(1, 50)).rejects.toThrow(RateLimitExceededError);
+        await expect(rateLimiter.acquire(1, 50)).rejects.toHaveProperty('retryAfter', 100);
+      });
+
+      it('should throw if more permits are requested than can ever be granted', async () => {
+        const rateLimiter = new TokenBucketRateLimiter('Test rate limiter', 2, 10);
+
+        await expect(rateLimiter.acquire(3)).rejects.toThrow('can never grant that many permits at once');
+      });
+    });
+
+    describe('#execute', () => {
+      it('should return the result of the action if a permit is available', () => {
+        const rateLimiter = new TokenBucketRateLimiter('Test rate limiter', 1, 1, new VirtualClock());
+
+        expect(rateLimiter.execute(() => 'done')).toBe('done');
+        expect(() => rateLimiter.execute(() => 'done')).toThrow('retry after 1000ms');
+      });
+    });
+
+    describe('#executeAsync', () => {
+      it('should reject straight away by default if no permit is available', async () => {
+        const rateLimiter = new TokenBucketRateLimiter('Test rate limiter', 1, 1, new VirtualClock());
+
+        await expect(rateLimiter.executeAsync(async () => 'done')).resolves.toBe('done');
+        await expect(rateLimiter.executeAsync(async () => 'done')).rejects.toThrow(RateLimitExceededError);
+      });
+
+      it('should wait up to the maximum wait for a permit', async () => {
+        const clock = new VirtualClock();
+        const rateLimiter = new TokenBucketRateLimiter('Test rate limiter', 1, 1, clock);
+
+        await rateLimiter.executeAsync(async () => 'first');
+        const promise = rateLimiter.executeAsync(async () => 'second', 1000);
+
+        clock.advance(1000);
+        await expect(promise).resolves.toBe('second');
+      });
+
+      it('should pass the signal of the caller to the action', async () => {
+        const rateLimiter = new TokenBucketRateLimiter('Test rate limiter', 1, 1, new VirtualClock());
+        const controller = new AbortController();
+        const action = jest.fn(async () => 'done');
+
+        await expect(rateLimiter.executeAsync(action, { maxWait: 0, signal: controller.signal })).resolves.toBe('done');
+        expect(action).toHaveBeenCalledWith(controller.signal);
+      });
+
+      it('should stop waiting for a permit once the signal is aborted', async () => {
+        const clock = new VirtualClock();
+        const rateLimiter = new TokenBucketRateLimiter('Test rate limiter', 1, 1, clock);
+        const controller = new AbortController();
+        const action = jest.fn(async () => 'cancelled');
+
+        await rateLimiter.executeAsync(async () => 'first');
+        const promise = rateLimiter.executeAsync(action, { maxWait: 1000, signal: controller.signal });
+
+        await Promise.resolve();
+        controller.abort(new Error('Cancelled'));
+
+        await expect(promise).rejects.toThrow('Cancelled');
+        expect(clock.pendingTimers).toBe(0);
+        expect(action).not.toHaveBeenCalled();
+      });
+    });
+  });
+
+  describe('TokenBucketRateLimiter', () => {
+    describe('#constructor', () => {
+      it('should construct a new instance of the TokenBucketRateLimiter class', () => {
+        const rateLimiter = new TokenBucketRateLimiter('Test rate limiter', 5, 1);
+
+        expect(rateLimiter).toBeInstanceOf(TokenBucketRateLimiter);
+        expect(rateLimiter.name).toBe('Test rate limiter');
+        expect(rateLimiter.availableTokens).toBe(5);
+      });
+
+      it('should throw an error if the arguments are out of range', () => {
+        expect(() => new TokenBucketRateLimiter('', 5, 1)).toThrow();
+        expect(() => new TokenBucketRateLimiter('Test rate limiter', 0, 1)).toThrow();
+        expect(() => new TokenBucketRateLimiter('Test rate limiter', 5, 0)).toThrow();
+      });
+    });
+
+    describe('#tryAcquire', () => {
+      it('should allow bursts up to the capacity and refill at a steady rate', () => {
+        const clock = new VirtualClock();
+        const rateLimiter = new TokenBucketRateLimiter('Test rate limiter', 3, 2, clock);
+
+        expect(rateLimiter.tryAcquire(3)).toBe(true);
+        expect(rateLimiter.tryAcquire()).toBe(false);
+        expect(rateLimiter.getTimeUntilNextPermit()).toBe(500);
+        expect(rateLimiter.getTimeUntilNextPermit(2)).toBe(1000);
+
+        clock.advance(500);
+        expect(rateLimiter.tryAcquire()).toBe(true);
+        expect(rateLimiter.tryAcquire()).toBe(false);
+      });
+
+      it('should not fill the bucket beyond its capacity', () => {
+        const clock = new VirtualClock();
+        const rateLimiter = new TokenBucketRateLimiter('Test rate limiter', 3, 2, clock);
+
+        clock.advance(60000);
+
+        expect(rateLimiter.availableTokens).toBe(3);
+        expect(rateLimiter.getTimeUntilNextPermit(4)).toBe(Infinity);
+      });
+    });
+  });
+
+  describe('SlidingLogRateLimiter', () => {
+    describe('#constructor', () => {
+      it('should construct a new instance of the SlidingLogRateLimiter class', () => {
+        const rateLimiter = new SlidingLogRateLimiter('Test rate limiter', 5, 1000);
+
+        expect(rateLimiter).toBeInstanceOf(SlidingLogRateLimiter);
+        expect(rateLimiter.usedPermits).toBe(0);
+      });
+
+      it('should throw an error if the arguments are out of range', () => {
+        expect(() => new SlidingLogRateLimiter('', 5, 1000)).toThrow();
+        expect(() => new SlidingLogRateLimiter('Test rate limiter', 0, 1000)).toThrow();
+        expect(() => new SlidingLogRateLimiter('Test rate limiter', 5, 0)).toThrow();
+      });
+    });
+
+    describe('#tryAcquire', () => {
+      it('should allow the limit within any window', () => {
+        const clock = new VirtualClock();
+        const rateLimiter = new SlidingLogRateLimiter('Test rate limiter', 2, 1000, clock);
+
+        expect(rateLimiter.tryAcquire()).toBe(true);
+        clock.advance(400);
+        expect(rateLimiter.tryAcquire()).toBe(true);
+        expect(rateLimiter.tryAcquire()).toBe(false);
+        expect(rateLimiter.getTimeUntilNextPermit()).toBe(600);
+        expect(rateLimiter.getTimeUntilNextPermit(2)).toBe(1000);
+        expect(rateLimiter.getTimeUntilNextPermit(3)).toBe(Infinity);
+
+        clock.advance(600);
+        expect(rateLimiter.usedPermits).toBe(1);
+        expect(rateLimiter.tryAcquire()).toBe(true);
+        expect(rateLimiter.tryAcquire()).toBe(false);
+      });
+
+      it('should log every permit taken at once', () => {
+        const clock = new VirtualClock();
+        const rateLimiter = new SlidingLogRateLimiter('Test rate limiter', 3, 1000, clock);
+
+        expect(rateLimiter.tryAcquire(2)).toBe(true);
+        expect(rateLimiter.usedPermits).toBe(2);
+        expect(rateLimiter.tryAcquire(2)).toBe(false);
+      });
+    });
+  });
+});
@@ -0,0 +1,238 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+	File Name: registry.spec.ts
+	Description: Test specification for the circuit breaker registry class.
+	Written by: Nikita Petko
+*/
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import { CircuitState } from '../sentinels/enums/circuit_state';
+import TripReasonAuthorityBase from '../sentinels/base/trip_reason_authority_base';
+import CircuitBreaker from '../sentinels/circuit_breakers/circuit_breaker';
+import CircuitBreakerRegistry from '../sentinels/registry/circuit_breaker_registry';
+import DefaultCircuitBreakerPolicy from '../sentinels/policy/default_circuit_breaker_policy';
+import ExecutionCircuitBreaker from '../sentinels/circuit_breakers/execution_circuit_breaker';
+import DefaultCircuitBreakerPolicyConfig from '../sentinels/policy/default_circuit_breaker_policy_config';
+
+describe('CircuitBreakerRegistry', () => {
+  class TripReasonAuthority extends TripReasonAuthorityBase<string> {
+    public isReasonForTrip(executionContext: string, error: Error): boolean {
+      return error !== undefined;
+    }
+  }
+
+  const createCircuitBreaker = (name: string) =>
+    new ExecutionCircuitBreaker(
+      name,
+      () => true,
+      () => 1000,
+    );
+  const createPolicy = (circuitBreakerIdentifier: string) =>
+    new DefaultCircuitBreakerPolicy<string>(
+      circuitBreakerIdentifier,
+      new DefaultCircuitBreakerPolicyConfig(),
+      new TripReasonAuthority(),
+    );
+
+  describe('#getOrCreateCircuitBreaker', () => {
+    it('should create and register a circuit breaker the first time', () => {
+      const registry = new CircuitBreakerRegistry();
+      const factory = jest.fn(createCircuitBreaker);
+
+      const circuitBreaker = registry.getOrCreateCircuitBreaker('database', factory, ['storage']);
+
+      expect(circuitBreaker).toBeInstanceOf(ExecutionCircuitBreaker);
+      expect(circuitBreaker['name']).toBe('database');
+      expect(factory).toHaveBeenCalledWith('database');
+      expect(registry.size).toBe(1);
+      expect(registry.has('database')).toBe(true);
+      expect(registry.get('database')).toBe(circuitBreaker);
+    });
+
+    it('should return the registered circuit breaker afterwards', () => {
+      const registry = new CircuitBreakerRegistry();
+      const factory = jest.fn(createCircuitBreaker);
+
+      const first = registry.getOrCreateCircuitBreaker('database', factory);
+      const second = registry.getOrCreateCircuitBreaker('database', factory);
+
+      expect(second).toBe(first);
+      expect(factory).toHaveBeenCalledTimes(1);
+    });
+
+    it('should throw an error if a policy is registered under the name', () => {
+      const registry = new CircuitBreakerRegistry();
+
+      registry.getOrCreatePolicy('database', createPolicy);
+
+      expect(() => registry.getOrCreateCircuitBreaker('database', createCircuitBreaker)).toThrow(
+        'is already registered, but not as a circuit breaker.',
+      );
+    });
+
+    it('should throw an error if a circuit breaker of another class is registered under the name', () => {
+      const registry = new CircuitBreakerRegistry();
+
+      registry.getOrCreateCircuitBreaker('database', (name) => new CircuitBreaker(name));
+
+      expect(() =>
+        registry.getOrCreateCircuitBreaker('database', createCircuitBreaker, [], ExecutionCircuitBreaker),
+      ).toThrow('is already registered, but not as a ExecutionCircuitBreaker.');
+      expect(() =>
+        registry.getOrCreateCircuitBreaker(
+          'payments',
+          (name) => new CircuitBreaker(name) as any,
+          [],
+          ExecutionCircuitBreaker,
+        ),
+      ).toThrow('did not create a ExecutionCircuitBreaker.');
+      expect(
+        registry.getOrCreateCircuitBreaker('database', (name) => new CircuitBreaker(name), [], CircuitBreaker),
+      ).toBe(registry.get('database'));
+    });
+
+    it('should throw an error if the factory does not create a circuit breaker', () => {
+      const registry = new CircuitBreakerRegistry();
+
+      expect(() => registry.getOrCreateCircuitBreaker('database', () => ({} as any))).toThrow();
+      expect(registry.has('database')).toBe(false);
+    });
+
+    it('should throw an error if the arguments are not specified', () => {
+      const registry = new CircuitBreakerRegistry();
+
+      expect(() => registry.getOrCreateCircuitBreaker('', createCircuitBreaker)).toThrow();
+      expect(() => registry.getOrCreateCircuitBreaker(undefined as any, createCircuitBreaker)).toThrow();
+      expect(() => registry.getOrCreateCircuitBreaker('database', undefined as any)).toThrow();
+    });
+  });
+
+  describe('#getOrCreatePolicy', () => {
+    it('should create a policy once and return it afterwards', () => {
+      const registry = new CircuitBreakerRegistry();
+      const factory = jest.fn(createPolicy);
+
+      const first = registry.getOrCreatePolicy('cache', factory, ['storage']);
+      const second = registry.getOrCreatePolicy('cache', factory);
+
+      expect(first).toBeInstanceOf(DefaultCircuitBreakerPolicy);
+      expect(second).toBe(first);
+      expect(factory).toHaveBeenCalledTimes(1);
+    });
+
+    it('should throw an error if a circuit breaker is registered under the identifier', () => {
+      const registry = new CircuitBreakerRegistry();
+
+      registry.getOrCreateCircuitBreaker('cache', createCircuitBreaker);
+
+      expect(() => registry.getOrCreatePolicy('cache', createPolicy)).toThrow(
+        'is already registered, but not as a policy.',
+      );
+    });
+  });
+
+  describe('#list', () => {
+    it('should list the registrations in the order they were registered', () => {
+      const registry = new CircuitBreakerRegistry();
+
+      const database = registry.getOrCreateCircuitBreaker('database', createCircuitBreaker, ['storage', 'storage']);
+      const cache = registry.getOrCreatePolicy('cache', createPolicy, ['storage', 'fast']);
+      const payments = registry.getOrCreateCircuitBreaker('payments', (name) => new CircuitBreaker(name));
+
+      expect(registry.list()).toEqual([
+        { name: 'database', tags: ['storage'], circuitBreaker: database },
+        { name: 'cache', tags: ['storage', 'fast'], circuitBreaker: cache },
+        { name: 'payments', tags: [], circuitBreaker: payments },
+      ]);
+    });
+
+    it('should filter the registrations by tag', () => {
+      const registry = new CircuitBreakerRegistry();
+
+      registry.getOrCreateCircuitBreaker('database', createCircuitBreaker, ['storage']);
+      registry.getOrCreatePolicy('cache', createPolicy, ['storage', 'fast']);
+      registry.getOrCreateCircuitBreaker('payments', createCircuitBreaker);
+
+      expect(registry.list('storage').map((registration) => registration.name)).toEqual(['database', 'cache']);
+      expect(registry.list('fast').map((registration) => registration.name)).toEqual(['cache']);
+      expect(registry.list('unknown')).toEqual([]);
+    });
+
+    it('should not let the listed registrations change the registry', () => {
+      const registry = new CircuitBreakerRegistry();
+
+      registry.getOrCreateCircuitBreaker('database', createCircuitBreaker, ['storage']);
+
+      (registry.list()[0].tags as string[]).push('fast');
+
+      expect(registry.list('fast')).toEqual([]);
+      expect(registry.list()[0].tags).toEqual(['storage']);
+    });
+  });
+
+  describe('#remove', () => {
+    it('should remove the registration', () => {
+      const registry = new CircuitBreakerRegistry();
+      const factory = jest.fn(createCircuitBreaker);
+
+      const first = registry.getOrCreateCircuitBreaker('database', factory);
+
+      expect(registry.remove('database')).toBe(true);
+      expect(registry.remove('database')).toBe(false);
+      expect(registry.get('database')).toBeUndefined();
+      expect(registry.getOrCreateCircuitBreaker('database', factory)).not.toBe(first);
+    });
+  });
+
+  describe('#tripAll', () => {
+    it('should trip the circuit breakers and policies with the tag', () => {
+      const registry = new CircuitBreakerRegistry();
+
+      const database = registry.getOrCreateCircuitBreaker('database', createCircuitBreaker, ['storage']);
+      const cache = registry.getOrCreatePolicy('cache', createPolicy, ['storage']);
+      const payments = registry.getOrCreateCircuitBreaker('payments', createCircuitBreaker);
+
+      expect(registry.tripAll('storage')).toBe(2);
+      expect(database.isTripped).toBe(true);
+      expect(cache.state).toBe(CircuitState.Open);
+      expect(payments.isTripped).toBe(false);
+
+      expect(registry.tripAll()).toBe(1);
+      expect(payments.isTripped).toBe(true);
+    });
+  });
+
+  describe('#resetAll', () => {
+    it('should reset the circuit breakers and policies that are tripped', () => {
+      const registry = new CircuitBreakerRegistry();
+
+      const database = registry.getOrCreateCircuitBreaker('database', createCircuitBreaker, ['storage']);
+      const cache = registry.getOrCreatePolicy('cache', createPolicy, ['storage']);
+
+      registry.getOrCreateCircuitBreaker('payments', createCircuitBreaker);
+      database.trip();
+      cache.trip();
+
+      expect(registry.resetAll()).toBe(2);
+      expect(database.state).toBe(CircuitState.Closed);
+      expect(cache.state).toBe(CircuitState.Closed);
+      expect(registry.resetAll('storage')).toBe(0);
+    });
+  });
+});
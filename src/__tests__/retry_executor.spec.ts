@@ -0,0 +1,193 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+	File Name: retry_executor.spec.ts
+	Description: Test specification for the retry executor class.
+	Written by: Nikita Petko
+*/
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import { Jitter } from '../sentinels/enums/jitter';
+import VirtualClock from '../sentinels/clocks/virtual_clock';
+import SeededRandomSource from '../sentinels/random/seeded_random_source';
+import RetryExecutor, { RetryExhaustedError } from '../sentinels/retry_executor';
+
+describe('RetryExecutor', () => {
+  const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+  describe('#constructor', () => {
+    it('should construct a new instance of the RetryExecutor class', () => {
+      const executor = new RetryExecutor(3, 100, 1000, Jitter.None, () => true);
+
+      expect(executor).toBeInstanceOf(RetryExecutor);
+      expect(executor.maxAttempts).toBe(3);
+    });
+
+    it('should throw an error if the arguments are out of range', () => {
+      expect(() => new RetryExecutor(0, 100, 1000, Jitter.None, () => true)).toThrow();
+      expect(() => new RetryExecutor(3, -1, 1000, Jitter.None, () => true)).toThrow();
+      expect(() => new RetryExecutor(3, 100, -1, Jitter.None, () => true)).toThrow();
+      expect(() => new RetryExecutor(3, 100, 50, Jitter.None, () => true)).toThrow(
+        'maxDelay cannot be less than baseDelay.',
+      );
+      expect(() => new RetryExecutor(1.5, 100, 1000, Jitter.None, () => true)).toThrow(
+        'maxAttempts must be a positive integer.',
+      );
+      expect(() => new RetryExecutor(3, 100, 1000, Jitter.None, undefined as any)).toThrow();
+    });
+  });
+
+  describe('#executeAsync', () => {
+    it('should return the result of the first successful attempt', async () => {
+      const clock = new VirtualClock();
+      const executor = new RetryExecutor(3, 100, 1000, Jitter.None, () => true, clock);
+      const action = jest.fn().mockRejectedValueOnce(new Error('First')).mockResolvedValueOnce('done');
+
+      const promise = executor.executeAsync(action);
+
+      await flush();
+      expect(action).toHaveBeenCalledTimes(1);
+
+      clock.advance(99);
+      await flush();
+      expect(action).toHaveBeenCalledTimes(1);
+
+      clock.advance(1);
+      await expect(promise).resolves.toBe('done');
+      expect(action).toHaveBeenCalledTimes(2);
+    });
+
+    it('should back off exponentially up to the maximum delay', async () => {
+      const clock = new VirtualClock();
+      const executor = new RetryExecutor(4, 100, 150, Jitter.None, () => true, clock);
+      const attemptTimes: number[] = [];
+
+      const promise = executor.executeAsync(async () => {
+        attemptTimes.push(clock.now());
+
+        throw new Error(`Attempt ${attemptTimes.length}`);
+      });
+      const settled = promise.catch((e) => e);
+
+      for (const delay of [100, 150, 150]) {
+        await flush();
+        clock.advance(delay);
+      }
+
+      const error = await settled;
+
+      expect(attemptTimes).toEqual([0, 100, 250, 400]);
+      expect(error).toBeInstanceOf(RetryExhaustedError);
+      expect(error).toBeInstanceOf(AggregateError);
+      expect(error.message).toBe('The action failed after 4 attempts.');
+      expect(error.errors.map((e: Error) => e.message)).toEqual(['Attempt 1', 'Attempt 2', 'Attempt 3', 'Attempt 4']);
+    });
+
+    it('should jitter the delays with the given random source', async () => {
+      const clock = new VirtualClock();
+      const executor = new RetryExecutor(2, 100, 1000, Jitter.Full, () => true, clock, new SeededRandomSource(42));
+      const action = jest.fn().mockRejectedValueOnce(new Error('First')).mockResolvedValueOnce('done');
+      const expectedDelay = 100 * new SeededRandomSource(42).next();
+
+      const promise = executor.executeAsync(action);
+
+      await flush();
+      clock.advance(expectedDelay);
+
+      await expect(promise).resolves.toBe('done');
+      expect(clock.now()).toBe(expectedDelay);
+    });
+
+    it('should rethrow an error that is not retryable', async () => {
+      const executor = new RetryExecutor(3, 100, 1000, Jitter.None, (ex) => !(ex instanceof TypeError));
+      const action = jest.fn().mockRejectedValue(new TypeError('Not retryable'));
+
+      await expect(executor.executeAsync(action)).rejects.toThrow(TypeError);
+      expect(action).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report the retried failures when a later attempt fails with an error that is not retryable', async () => {
+      const clock = new VirtualClock();
+      const executor = new RetryExecutor(3, 100, 1000, Jitter.None, (ex) => !(ex instanceof TypeError), clock);
+      const action = jest
+        .fn()
+        .mockRejectedValueOnce(new Error('Retryable'))
+        .mockRejectedValueOnce(new TypeError('Not retryable'));
+
+      const promise = executor.executeAsync(action);
+      const settled = promise.catch((e) => e);
+
+      await flush();
+      clock.advance(100);
+
+      const error = (await settled) as RetryExhaustedError;
+
+      expect(error).toBeInstanceOf(RetryExhaustedError);
+      expect(error.message).toBe('The action failed after 2 attempts.');
+      expect(error.errors.map((e: Error) => e.message)).toEqual(['Retryable', 'Not retryable']);
+      expect(action).toHaveBeenCalledTimes(2);
+    });
+
+    it('should pass the abort signal to the action', async () => {
+      const executor = new RetryExecutor(1, 0, 0, Jitter.None, () => true);
+      const controller = new AbortController();
+
+      await expect(executor.executeAsync(async (signal) => signal, controller.signal)).resolves.toBe(controller.signal);
+    });
+
+    it('should not make an attempt once aborted', async () => {
+      const executor = new RetryExecutor(3, 100, 1000, Jitter.None, () => true);
+      const controller = new AbortController();
+      const action = jest.fn();
+
+      controller.abort(new Error('Aborted'));
+
+      await expect(executor.executeAsync(action, controller.signal)).rejects.toThrow('Aborted');
+      expect(action).not.toHaveBeenCalled();
+    });
+
+    it('should stop waiting between attempts once aborted', async () => {
+      const clock = new VirtualClock();
+      const executor = new RetryExecutor(3, 100, 1000, Jitter.None, () => true, clock);
+      const controller = new AbortController();
+      const action = jest.fn().mockRejectedValue(new Error('Test error'));
+
+      const promise = executor.executeAsync(action, controller.signal);
+
+      await flush();
+      controller.abort(new Error('Aborted'));
+
+      await expect(promise).rejects.toThrow('Aborted');
+      expect(action).toHaveBeenCalledTimes(1);
+      expect(clock.pendingTimers).toBe(0);
+    });
+
+    it('should rethrow the error of an attempt that failed because it was aborted', async () => {
+      const executor = new RetryExecutor(3, 100, 1000, Jitter.None, () => true);
+      const controller = new AbortController();
+
+      await expect(
+        executor.executeAsync(async () => {
+          controller.abort();
+
+          throw new Error('Cancelled');
+        }, controller.signal),
+      ).rejects.toThrow('Cancelled');
+    });
+  });
+});
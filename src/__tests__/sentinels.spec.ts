@@ -23,9 +23,12 @@
 /* eslint-disable @typescript-eslint/no-unused-vars */
 /* eslint-disable @typescript-eslint/no-explicit-any */
 
+import VirtualClock from '../sentinels/clocks/virtual_clock';
 import ServiceSentinel from '../sentinels/sentinels/service_sentinel';
 import TogglableServiceSentinel from '../sentinels/sentinels/togglable_service_sentinel';
 
+const flushPromises = () => new Promise((resolve) => setImmediate(resolve));
+
 describe('Sentinels', () => {
   describe('ServiceSentinel', () => {
     describe('#constructor', () => {
@@ -46,6 +49,13 @@ describe('Sentinels', () => {
         expect(() => new ServiceSentinel(() => true, null as any, true)).toThrow();
         expect(() => new ServiceSentinel(() => true, undefined as any, true)).toThrow();
       });
+
+      it('should throw if the health check timeout is not greater than zero', () => {
+        expect(() => new ServiceSentinel(() => true, () => 100, true, undefined, 0)).toThrow(
+          'The healthCheckTimeout parameter must be greater than zero.',
+        );
+        expect(() => new ServiceSentinel(() => true, () => 100, true, undefined, -1)).toThrow();
+      });
     });
 
     describe('#isHealthy', () => {
@@ -58,6 +68,187 @@ describe('Sentinels', () => {
       });
     });
 
+    describe('#monitor', () => {
+      it('should run the health check every monitor interval', () => {
+        const clock = new VirtualClock();
+        const healthCheck = jest.fn(() => false);
+        const sentinel = new ServiceSentinel(healthCheck, () => 100, true, clock);
+
+        clock.advance(99);
+
+        expect(sentinel.isHealthy).toBe(true);
+
+        clock.advance(1);
+
+        expect(healthCheck).toHaveBeenCalledTimes(1);
+        expect(sentinel.isHealthy).toBe(false);
+
+        sentinel.dispose(true);
+      });
+
+      it('should be unhealthy if the health check throws', () => {
+        const clock = new VirtualClock();
+        const sentinel = new ServiceSentinel(
+          () => {
+            throw new Error('Test error');
+          },
+          () => 100,
+          true,
+          clock,
+        );
+
+        clock.advance(100);
+
+        expect(sentinel.isHealthy).toBe(false);
+
+        sentinel.dispose(true);
+      });
+
+      it('should emit a healthChanged event only when the health status flips', () => {
+        const clock = new VirtualClock(1000);
+        const results = [true, false, false, true];
+        const sentinel = new ServiceSentinel(() => results.shift(), () => 100, true, clock);
+        const healthChanged = jest.fn();
+
+        sentinel.on('healthChanged', healthChanged);
+        clock.advance(400);
+
+        expect(healthChanged.mock.calls).toEqual([
+          [{ isHealthy: false, timestamp: new Date(1200) }],
+          [{ isHealthy: true, timestamp: new Date(1400) }],
+        ]);
+
+        sentinel.dispose(true);
+      });
+
+      it('should stop running the health check once disposed', () => {
+        const clock = new VirtualClock();
+        const healthCheck = jest.fn(() => true);
+        const sentinel = new ServiceSentinel(healthCheck, () => 100, true, clock);
+
+        sentinel.dispose(true);
+        sentinel['monitor']();
+        clock.advance(1000);
+
+        expect(healthCheck).not.toHaveBeenCalled();
+        expect(clock.pendingTimers).toBe(0);
+      });
+
+      it('should set the health status once an asynchronous health check resolves', async () => {
+        const clock = new VirtualClock();
+        const sentinel = new ServiceSentinel(async () => false, () => 100, true, clock);
+
+        clock.advance(100);
+
+        expect(sentinel.isHealthy).toBe(true);
+
+        await flushPromises();
+
+        expect(sentinel.isHealthy).toBe(false);
+        expect(sentinel.isChecking).toBe(false);
+
+        sentinel.dispose(true);
+      });
+
+      it('should not start a second health check while one is still running', async () => {
+        const clock = new VirtualClock();
+        let resolveCheck: (isHealthy: boolean) => void = () => undefined;
+        const healthCheck = jest.fn(
+          () =>
+            new Promise<boolean>((resolve) => {
+              resolveCheck = resolve;
+            }),
+        );
+        const sentinel = new ServiceSentinel(healthCheck, () => 100, true, clock);
+
+        clock.advance(200);
+
+        expect(healthCheck).toHaveBeenCalledTimes(1);
+        expect(sentinel.isChecking).toBe(true);
+
+        resolveCheck(false);
+        await flushPromises();
+
+        expect(sentinel.isChecking).toBe(false);
+        expect(sentinel.isHealthy).toBe(false);
+
+        clock.advance(100);
+
+        expect(healthCheck).toHaveBeenCalledTimes(2);
+
+        sentinel.dispose(true);
+      });
+
+      it('should be unhealthy if the asynchronous health check rejects', async () => {
+        const clock = new VirtualClock();
+        const sentinel = new ServiceSentinel(
+          () => Promise.reject(new Error('Test error')),
+          () => 100,
+          true,
+          clock,
+        );
+
+        clock.advance(100);
+        await flushPromises();
+
+        expect(sentinel.isHealthy).toBe(false);
+
+        sentinel.dispose(true);
+      });
+
+      it('should be unhealthy and abort the health check if it times out', async () => {
+        const clock = new VirtualClock();
+        const signals: AbortSignal[] = [];
+        const healthCheck = jest.fn((signal: AbortSignal) => {
+          signals.push(signal);
+
+          return new Promise<boolean>(() => undefined);
+        });
+        const sentinel = new ServiceSentinel(healthCheck, () => 100, true, clock, 50);
+
+        clock.advance(149);
+
+        expect(sentinel.isHealthy).toBe(true);
+        expect(signals[0].aborted).toBe(false);
+
+        clock.advance(1);
+
+        expect(sentinel.isHealthy).toBe(false);
+        expect(sentinel.isChecking).toBe(false);
+        expect(signals[0].aborted).toBe(true);
+        expect(signals[0].reason.message).toBe('The health check timed out after 50ms.');
+
+        clock.advance(50);
+
+        expect(healthCheck).toHaveBeenCalledTimes(2);
+
+        sentinel.dispose(true);
+      });
+
+      it('should ignore an asynchronous health check that settles after timing out', async () => {
+        const clock = new VirtualClock();
+        let resolveCheck: (isHealthy: boolean) => void = () => undefined;
+        const sentinel = new ServiceSentinel(
+          () =>
+            new Promise<boolean>((resolve) => {
+              resolveCheck = resolve;
+            }),
+          () => 100,
+          true,
+          clock,
+          50,
+        );
+
+        clock.advance(150);
+        resolveCheck(true);
+        await flushPromises();
+
+        expect(sentinel.isHealthy).toBe(false);
+
+        sentinel.dispose(true);
+      });
+    });
+
     describe('#dispose', () => {
       it('should dispose the sentinel', () => {
         const sentinel = new ServiceSentinel(() => true, () => 100, true);
@@ -85,6 +276,28 @@ describe('Sentinels', () => {
 
         sentinel.dispose(true);
       });
+
+      it('should abort a running health check', () => {
+        const clock = new VirtualClock();
+        let checkSignal: AbortSignal | undefined;
+        const sentinel = new ServiceSentinel(
+          (signal: AbortSignal) => {
+            checkSignal = signal;
+
+            return new Promise<boolean>(() => undefined);
+          },
+          () => 100,
+          true,
+          clock,
+        );
+
+        clock.advance(100);
+        sentinel.dispose(true);
+
+        expect(checkSignal?.aborted).toBe(true);
+        expect(checkSignal?.reason.message).toBe('The sentinel was disposed.');
+        expect(sentinel.isChecking).toBe(false);
+      });
     });
   });
 
@@ -97,6 +310,23 @@ describe('Sentinels', () => {
 
         sentinel.dispose(true);
       });
+
+      it('should pass the health check timeout to the ServiceSentinel', () => {
+        const clock = new VirtualClock();
+        const sentinel = new TogglableServiceSentinel(
+          () => new Promise<boolean>(() => undefined),
+          () => 100,
+          true,
+          clock,
+          50,
+        );
+
+        clock.advance(150);
+
+        expect(sentinel.isHealthy).toBe(false);
+
+        sentinel.dispose(true);
+      });
     });
 
     describe('#start', () => {
@@ -123,6 +353,26 @@ describe('Sentinels', () => {
       });
     });
 
+    describe('#clock', () => {
+      it('should schedule the monitor on the given clock when restarted', () => {
+        const clock = new VirtualClock();
+        const healthCheck = jest.fn(() => true);
+        const sentinel = new TogglableServiceSentinel(healthCheck, () => 100, true, clock);
+
+        sentinel.stop();
+        clock.advance(100);
+
+        expect(healthCheck).not.toHaveBeenCalled();
+
+        sentinel.start();
+        clock.advance(100);
+
+        expect(healthCheck).toHaveBeenCalledTimes(1);
+
+        sentinel.dispose(true);
+      });
+    });
+
     describe('#stop', () => {
       it('should stop the sentinel', () => {
         const sentinel = new TogglableServiceSentinel(() => true, () => 100, true);
@@ -144,6 +394,40 @@ describe('Sentinels', () => {
 
         sentinel.dispose(true);
       });
+
+      it('should abort a running health check and ignore its result', async () => {
+        const clock = new VirtualClock();
+        let checkSignal: AbortSignal | undefined;
+        let resolveCheck: (isHealthy: boolean) => void;
+        const sentinel = new TogglableServiceSentinel(
+          (signal: AbortSignal) => {
+            checkSignal = signal;
+
+            return new Promise<boolean>((resolve) => (resolveCheck = resolve));
+          },
+          () => 100,
+          true,
+          clock,
+          50,
+        );
+
+        clock.advance(100);
+        expect(sentinel.isChecking).toBe(true);
+
+        sentinel.stop();
+
+        expect(checkSignal?.aborted).toBe(true);
+        expect(checkSignal?.reason.message).toBe('The sentinel was stopped.');
+        expect(sentinel.isChecking).toBe(false);
+        expect(clock.pendingTimers).toBe(0);
+
+        resolveCheck(false);
+        await Promise.resolve();
+
+        expect(sentinel.isHealthy).toBe(true);
+
+        sentinel.dispose(true);
+      });
     });
   });
 });
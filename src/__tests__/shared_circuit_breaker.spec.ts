@@ -0,0 +1,372 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+	File Name: shared_circuit_breaker.spec.ts
+	Description: Test specification for the shared circuit breaker class.
+	Written by: Nikita Petko
+*/
+
+import { MessageChannel } from 'worker_threads';
+import VirtualClock from '../sentinels/clocks/virtual_clock';
+import { CircuitState } from '../sentinels/enums/circuit_state';
+import { CircuitBreakerError } from '../sentinels/base/circuit_breaker_base';
+import { TimeoutError } from '../sentinels/base/execution_circuit_breaker_base';
+import SharedCircuitBreaker from '../sentinels/circuit_breakers/shared_circuit_breaker';
+import ISharedCircuitBreakerOptions from '../sentinels/interfaces/shared_circuit_breaker_options';
+
+describe('SharedCircuitBreaker', () => {
+  const fail = () => {
+    throw new Error('Test error');
+  };
+
+  const create = (options?: ISharedCircuitBreakerOptions) =>
+    new SharedCircuitBreaker(
+      'database',
+      () => true,
+      () => 1000,
+      options,
+    );
+
+  // Posting the buffer clones it the same way as posting it to a worker thread, which shares its memory.
+  const post = (buffer: SharedArrayBuffer): Promise<SharedArrayBuffer> =>
+    new Promise((resolve) => {
+      const { port1, port2 } = new MessageChannel();
+
+      port2.once('message', (message) => {
+        port1.close();
+        port2.close();
+        resolve(message);
+      });
+      port1.postMessage(buffer);
+    });
+
+  const createPair = async (options?: ISharedCircuitBreakerOptions) => {
+    const first = create(options);
+    const second = create({ ...options, buffer: await post(first.buffer) });
+
+    return [first, second];
+  };
+
+  describe('#constructor', () => {
+    it('should validate its arguments', () => {
+      expect(
+        () =>
+          new SharedCircuitBreaker(
+            '',
+            () => true,
+            () => 1000,
+          ),
+      ).toThrow('name cannot be null, undefined or empty.');
+      expect(() => new SharedCircuitBreaker('database', undefined, () => 1000)).toThrow(
+        'failureDetector cannot be null or undefined.',
+      );
+      expect(() => new SharedCircuitBreaker('database', () => true, undefined)).toThrow(
+        'retryIntervalCalculator cannot be null or undefined.',
+      );
+      expect(() => create({ failuresAllowedBeforeTrip: -1 })).toThrow(
+        'The failuresAllowedBeforeTrip option cannot be less than zero.',
+      );
+      expect(() => create({ buffer: new ArrayBuffer(72) as SharedArrayBuffer })).toThrow(
+        'The buffer option must be a SharedArrayBuffer.',
+      );
+      expect(() => create({ buffer: new SharedArrayBuffer(8) })).toThrow('The buffer option must be 72 bytes long.');
+    });
+
+    it('should allocate a buffer when none is given', () => {
+      const circuitBreaker = create();
+
+      expect(circuitBreaker.buffer).toBeInstanceOf(SharedArrayBuffer);
+      expect(circuitBreaker.buffer.byteLength).toBe(SharedCircuitBreaker.bufferByteLength);
+      expect(circuitBreaker.state).toBe(CircuitState.Closed);
+      expect(circuitBreaker.trippedAt).toBeUndefined();
+      expect(circuitBreaker.nextRetryAt).toBeUndefined();
+    });
+  });
+
+  describe('#execute', () => {
+    it('should stop calls in every worker once one of them trips the circuit', async () => {
+      const clock = new VirtualClock(1000);
+      const [first, second] = await createPair({ clock });
+      const onTripped = jest.fn();
+
+      second.on('tripped', onTripped);
+
+      expect(first.execute(() => 'done')).toBe('done');
+      expect(() => first.execute(fail)).toThrow('Test error');
+
+      expect(second.isTripped).toBe(true);
+      expect(second.trippedAt).toEqual(new Date(1000));
+      expect(second.nextRetryAt).toEqual(new Date(2000));
+      expect(() => second.execute(() => 'done')).toThrow(CircuitBreakerError);
+      expect(onTripped).not.toHaveBeenCalled();
+      expect(second.sharedStatistics).toEqual({
+        successes: 1,
+        failures: 1,
+        rejections: 1,
+        trips: 1,
+        resets: 0,
+        consecutiveFailures: 1,
+      });
+    });
+
+    it('should count consecutive failures across workers', async () => {
+      const [first, second] = await createPair({ failuresAllowedBeforeTrip: 2 });
+
+      expect(() => first.execute(fail)).toThrow('Test error');
+      expect(() => second.execute(fail)).toThrow('Test error');
+      expect(first.sharedStatistics.consecutiveFailures).toBe(2);
+      expect(first.isTripped).toBe(false);
+
+      second.execute(() => 'done');
+
+      expect(first.sharedStatistics.consecutiveFailures).toBe(0);
+
+      expect(() => first.execute(fail)).toThrow('Test error');
+      expect(() => second.execute(fail)).toThrow('Test error');
+      expect(() => first.execute(fail)).toThrow('Test error');
+      expect(second.isTripped).toBe(true);
+    });
+
+    it('should not trip on errors that are not failures', () => {
+      const circuitBreaker = new SharedCircuitBreaker(
+        'database',
+        () => false,
+        () => 1000,
+      );
+
+      expect(() => circuitBreaker.execute(fail)).toThrow('Test error');
+      expect(circuitBreaker.isTripped).toBe(false);
+      expect(circuitBreaker.sharedStatistics.failures).toBe(0);
+      expect(circuitBreaker.sharedStatistics.consecutiveFailures).toBe(0);
+    });
+
+    it('should not trip before the minimum number of calls', () => {
+      const circuitBreaker = create({ minimumCalls: 2 });
+
+      expect(() => circuitBreaker.execute(fail)).toThrow('Test error');
+      expect(circuitBreaker.isTripped).toBe(false);
+      expect(() => circuitBreaker.execute(fail)).toThrow('Test error');
+      expect(circuitBreaker.isTripped).toBe(true);
+    });
+
+    it('should serve the fallback of a rejected call', async () => {
+      const [first, second] = await createPair();
+
+      first.trip();
+
+      expect(second.execute(() => 'done', { fallback: () => 'fallback' })).toBe('fallback');
+      expect(first.sharedStatistics.rejections).toBe(1);
+    });
+
+    it('should not let calls admitted before a trip trip the circuit again', async () => {
+      const clock = new VirtualClock(1000);
+      const [first, second] = await createPair({ clock });
+
+      expect(() =>
+        first.execute(() => {
+          expect(() => second.execute(fail)).toThrow('Test error');
+
+          clock.advance(1000);
+
+          fail();
+        }),
+      ).toThrow('Test error');
+
+      expect(second.sharedStatistics.trips).toBe(1);
+      expect(first.state).toBe(CircuitState.HalfOpen);
+    });
+  });
+
+  describe('#executeAsync', () => {
+    it('should time out calls and trip the circuit in every worker', async () => {
+      const clock = new VirtualClock(1000);
+      const [first, second] = await createPair({ clock, timeout: 100 });
+      let signal: AbortSignal;
+
+      const call = first.executeAsync((callSignal) => {
+        signal = callSignal;
+
+        return new Promise<string>(() => undefined);
+      });
+
+      clock.advance(100);
+
+      await expect(call).rejects.toBeInstanceOf(TimeoutError);
+      expect(signal.aborted).toBe(true);
+      expect(second.isTripped).toBe(true);
+      expect(second.nextRetryAt).toEqual(new Date(2100));
+    });
+
+    it('should abort the signal of a cancelled call without counting it', async () => {
+      const [first] = await createPair();
+      const controller = new AbortController();
+      let signal: AbortSignal;
+
+      const call = first.executeAsync(
+        (callSignal) => {
+          signal = callSignal;
+
+          return new Promise<string>((_, reject) =>
+            callSignal.addEventListener('abort', () => reject(callSignal.reason)),
+          );
+        },
+        { signal: controller.signal },
+      );
+
+      controller.abort(new Error('Cancelled'));
+
+      await expect(call).rejects.toThrow('Cancelled');
+      expect(signal.aborted).toBe(true);
+      expect(first.isTripped).toBe(false);
+      expect(first.sharedStatistics.failures).toBe(0);
+    });
+
+    it('should trip on slow calls', async () => {
+      const clock = new VirtualClock(1000);
+      const circuitBreaker = create({ clock, slowCallDuration: 50, slowCallCountThreshold: 1 });
+
+      await circuitBreaker.executeAsync(async () => {
+        clock.advance(50);
+
+        return 'done';
+      });
+
+      expect(circuitBreaker.isTripped).toBe(true);
+      expect(circuitBreaker.sharedStatistics.trips).toBe(1);
+    });
+
+    it('should admit exactly one probe across workers once the retry is due', async () => {
+      const clock = new VirtualClock(1000);
+      const [first, second] = await createPair({ clock });
+      const onProbeAdmitted = jest.fn();
+      const onReset = jest.fn();
+
+      first.on('probeAdmitted', onProbeAdmitted).on('reset', onReset);
+
+      await expect(first.executeAsync(async () => fail())).rejects.toThrow('Test error');
+
+      clock.advance(1000);
+
+      let finishProbe: (result: string) => void;
+      const probe = first.executeAsync(() => new Promise<string>((resolve) => (finishProbe = resolve)));
+
+      expect(second.state).toBe(CircuitState.HalfOpen);
+      await expect(second.executeAsync(async () => 'done')).rejects.toBeInstanceOf(CircuitBreakerError);
+
+      finishProbe('done');
+
+      await expect(probe).resolves.toBe('done');
+      expect(second.state).toBe(CircuitState.Closed);
+      await expect(second.executeAsync(async () => 'done')).resolves.toBe('done');
+      expect(onProbeAdmitted).toHaveBeenCalledWith(expect.objectContaining({ activeProbes: 1 }));
+      expect(onReset).toHaveBeenCalledWith({ name: 'database', timestamp: new Date(2000), trippedFor: 1000 });
+      expect(first.transitions.map((transition) => transition.to)).toEqual([
+        CircuitState.Open,
+        CircuitState.HalfOpen,
+        CircuitState.Closed,
+      ]);
+    });
+
+    it('should reopen the circuit in every worker when the probe fails', async () => {
+      const clock = new VirtualClock(1000);
+      const [first, second] = await createPair({ clock });
+
+      first.trip();
+      clock.advance(1000);
+
+      await expect(second.executeAsync(async () => fail())).rejects.toThrow('Test error');
+
+      expect(first.state).toBe(CircuitState.Open);
+      expect(first.trippedAt).toEqual(new Date(2000));
+      expect(first.nextRetryAt).toEqual(new Date(3000));
+      expect(first.sharedStatistics.trips).toBe(2);
+    });
+  });
+
+  describe('#reset', () => {
+    it('should close the circuit in every worker', async () => {
+      const [first, second] = await createPair();
+
+      expect(first.reset()).toBe(false);
+
+      first.trip();
+
+      expect(second.reset()).toBe(true);
+      expect(first.reset()).toBe(false);
+      expect(first.isTripped).toBe(false);
+      expect(first.sharedStatistics.resets).toBe(1);
+    });
+  });
+
+  describe('#trip', () => {
+    it('should trip the circuit once across workers', async () => {
+      const [first, second] = await createPair();
+
+      expect(first.trip()).toBe(true);
+      expect(second.trip()).toBe(false);
+      expect(first.sharedStatistics.trips).toBe(1);
+    });
+
+    it('should keep the dates of the trip when another worker fails to trip it later', async () => {
+      const clock = new VirtualClock(1000);
+      const [first, second] = await createPair({ clock });
+
+      first.trip();
+      clock.advance(500);
+
+      expect(second.trip()).toBe(false);
+      expect(first.trippedAt).toEqual(new Date(1000));
+      expect(first.nextRetryAt).toEqual(new Date(2000));
+    });
+  });
+
+  describe('#forceOpen', () => {
+    it('should hold the circuit open in every worker until cleared', async () => {
+      const clock = new VirtualClock(1000);
+      const [first, second] = await createPair({ clock });
+
+      expect(first.forceOpen()).toBe(true);
+      expect(first.forceOpen()).toBe(false);
+
+      clock.advance(5000);
+
+      expect(second.state).toBe(CircuitState.ForcedOpen);
+      expect(second.trippedAt).toEqual(new Date(1000));
+      expect(second.nextRetryAt).toBeUndefined();
+      expect(second.reset()).toBe(false);
+      expect(second.trip()).toBe(false);
+      expect(() => second.test()).toThrow('has been tripped for 5 seconds.');
+      expect(second.clearForcedState()).toBe(true);
+      expect(first.clearForcedState()).toBe(false);
+      expect(first.state).toBe(CircuitState.Closed);
+    });
+  });
+
+  describe('#forceClosed', () => {
+    it('should hold the circuit closed in every worker until cleared', async () => {
+      const [first, second] = await createPair();
+
+      expect(first.forceClosed()).toBe(true);
+      expect(first.forceClosed()).toBe(false);
+
+      expect(() => second.execute(fail)).toThrow('Test error');
+      expect(second.state).toBe(CircuitState.ForcedClosed);
+      expect(second.clearForcedState()).toBe(true);
+      expect(first.state).toBe(CircuitState.Closed);
+    });
+  });
+});
@@ -0,0 +1,506 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+	File Name: snapshots.spec.ts
+	Description: Test specification for the snapshots of circuit breakers, policies and sentinels.
+	Written by: Nikita Petko
+*/
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import VirtualClock from '../sentinels/clocks/virtual_clock';
+import { CircuitState } from '../sentinels/enums/circuit_state';
+import RollingWindow from '../sentinels/statistics/rolling_window';
+import SnapshotFile from '../sentinels/snapshots/snapshot_file';
+import ServiceSentinel from '../sentinels/sentinels/service_sentinel';
+import TripReasonAuthorityBase from '../sentinels/base/trip_reason_authority_base';
+import DefaultCircuitBreakerPolicy from '../sentinels/policy/default_circuit_breaker_policy';
+import ExecutionCircuitBreaker from '../sentinels/circuit_breakers/execution_circuit_breaker';
+import DefaultCircuitBreakerPolicyConfig from '../sentinels/policy/default_circuit_breaker_policy_config';
+import ThresholdExecutionCircuitBreaker from '../sentinels/circuit_breakers/threshold_execution_circuit_breaker';
+import FailureRateExecutionCircuitBreaker from '../sentinels/circuit_breakers/failure_rate_execution_circuit_breaker';
+
+describe('Snapshots', () => {
+  class TripReasonAuthority extends TripReasonAuthorityBase<string> {
+    public isReasonForTrip(executionContext: string, error: Error): boolean {
+      return error !== undefined;
+    }
+  }
+
+  const fail = () => {
+    throw new Error('Test error');
+  };
+
+  const roundTrip = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+  const createCircuitBreaker = (clock: VirtualClock) =>
+    new ExecutionCircuitBreaker(
+      'database',
+      () => true,
+      () => 1000,
+      { clock, rollingWindow: {} },
+    );
+
+  const createPolicy = (clock: VirtualClock) => {
+    const config = new DefaultCircuitBreakerPolicyConfig();
+
+    config.retryInterval = 1000;
+    config.failuresAllowedBeforeTrip = 2;
+
+    return new DefaultCircuitBreakerPolicy<string>('cache', config, new TripReasonAuthority(), clock);
+  };
+
+  describe('RollingWindow', () => {
+    it('should restore the buckets it captured', () => {
+      const clock = new VirtualClock(10000);
+      const window = new RollingWindow(4, 1000, clock);
+
+      window.recordFailure();
+      clock.advance(1000);
+      window.recordSuccess();
+      window.recordSlowCall();
+
+      const snapshot = roundTrip(window.snapshot());
+      const restored = new RollingWindow(4, 1000, clock);
+
+      restored.restore(snapshot);
+
+      expect(snapshot.map((bucket) => bucket.start)).toEqual([10000, 11000]);
+      expect(restored.counts).toEqual(window.counts);
+
+      clock.advance(3000);
+
+      expect(restored.counts).toEqual({ successes: 1, failures: 0, rejections: 0, timeouts: 0, slowCalls: 1 });
+    });
+
+    it('should discard the counts recorded before the restore', () => {
+      const window = new RollingWindow();
+
+      window.recordFailure();
+      window.restore([]);
+
+      expect(window.counts.failures).toBe(0);
+      expect(() => window.restore(undefined)).toThrow('buckets cannot be null or undefined.');
+    });
+  });
+
+  describe('ExecutionCircuitBreaker', () => {
+    it('should capture the trip state and statistics as JSON', () => {
+      const clock = new VirtualClock(1000);
+      const circuitBreaker = createCircuitBreaker(clock);
+
+      expect(() => circuitBreaker.execute(fail)).toThrow('Test error');
+
+      expect(roundTrip(circuitBreaker.snapshot())).toEqual({
+        name: 'database',
+        state: CircuitState.Open,
+        trippedAt: new Date(1000).toISOString(),
+        nextRetryAt: new Date(2000).toISOString(),
+        counters: {},
+        window: [{ start: 1000, successes: 0, failures: 1, rejections: 0, timeouts: 0, slowCalls: 0 }],
+      });
+    });
+
+    it('should stay tripped after a restore, then admit a probe once the retry is due', () => {
+      const clock = new VirtualClock(1000);
+      const circuitBreaker = createCircuitBreaker(clock);
+
+      expect(() => circuitBreaker.execute(fail)).toThrow('Test error');
+
+      const snapshot = roundTrip(circuitBreaker.snapshot());
+      const restored = createCircuitBreaker(clock);
+      const onTripped = jest.fn();
+
+      restored.on('tripped', onTripped);
+      restored.restore(snapshot);
+
+      expect(onTripped).not.toHaveBeenCalled();
+      expect(restored.state).toBe(CircuitState.Open);
+      expect(restored.trippedAt).toEqual(new Date(1000));
+      expect(restored.nextRetryAt).toEqual(new Date(2000));
+      expect(restored.statistics.failures).toBe(1);
+      expect(() => restored.execute(() => 'done')).toThrow();
+
+      clock.advance(1000);
+
+      expect(restored.execute(() => 'done')).toBe('done');
+      expect(restored.state).toBe(CircuitState.Closed);
+    });
+
+    it('should restore a half-open circuit breaker as open, ready to probe', () => {
+      const clock = new VirtualClock(1000);
+      const circuitBreaker = createCircuitBreaker(clock);
+
+      expect(() => circuitBreaker.execute(fail)).toThrow('Test error');
+
+      clock.advance(1000);
+
+      const snapshot = roundTrip(circuitBreaker.snapshot());
+      const restored = createCircuitBreaker(clock);
+
+      restored.restore(snapshot);
+
+      expect(snapshot.state).toBe(CircuitState.HalfOpen);
+      expect(restored.state).toBe(CircuitState.HalfOpen);
+      expect(restored.execute(() => 'done')).toBe('done');
+    });
+
+    it('should keep the probe limit when restored while a probe is in flight', async () => {
+      const clock = new VirtualClock(1000);
+      const circuitBreaker = createCircuitBreaker(clock);
+
+      expect(() => circuitBreaker.execute(fail)).toThrow('Test error');
+
+      clock.advance(1000);
+
+      let finishProbe: () => void;
+      const probe = circuitBreaker.executeAsync(() => new Promise<void>((resolve) => (finishProbe = resolve)));
+
+      circuitBreaker.restore(roundTrip(circuitBreaker.snapshot()));
+
+      expect(circuitBreaker.state).toBe(CircuitState.HalfOpen);
+      expect(() => circuitBreaker.execute(() => 'done')).toThrow();
+
+      finishProbe();
+      await probe;
+
+      expect(circuitBreaker.state).toBe(CircuitState.HalfOpen);
+
+      let finishNextProbe: () => void;
+      const nextProbe = circuitBreaker.executeAsync(() => new Promise<void>((resolve) => (finishNextProbe = resolve)));
+
+      expect(() => circuitBreaker.execute(() => 'done')).toThrow();
+
+      finishNextProbe();
+      await nextProbe;
+
+      expect(circuitBreaker.state).toBe(CircuitState.Closed);
+    });
+
+    it('should close a tripped circuit breaker restored from a closed one', () => {
+      const clock = new VirtualClock();
+      const circuitBreaker = createCircuitBreaker(clock);
+      const snapshot = circuitBreaker.snapshot();
+
+      expect(() => circuitBreaker.execute(fail)).toThrow('Test error');
+
+      circuitBreaker.restore(snapshot);
+
+      expect(circuitBreaker.state).toBe(CircuitState.Closed);
+      expect(circuitBreaker.trippedAt).toBeUndefined();
+      expect(circuitBreaker.nextRetryAt).toBeUndefined();
+      expect(circuitBreaker.statistics.failures).toBe(0);
+    });
+
+    it('should restore forced states', () => {
+      const circuitBreaker = createCircuitBreaker(new VirtualClock());
+
+      circuitBreaker.forceOpen();
+
+      const restored = createCircuitBreaker(new VirtualClock());
+
+      restored.restore(roundTrip(circuitBreaker.snapshot()));
+
+      expect(restored.state).toBe(CircuitState.ForcedOpen);
+      expect(restored.isTripped).toBe(true);
+    });
+
+    it('should refuse snapshots of other circuit breakers, or without a known state', () => {
+      const circuitBreaker = createCircuitBreaker(new VirtualClock());
+      const snapshot = circuitBreaker.snapshot();
+
+      expect(() => circuitBreaker.restore(undefined)).toThrow('snapshot cannot be null or undefined.');
+      expect(() => circuitBreaker.restore({ ...snapshot, name: 'cache' })).toThrow('cannot be restored into');
+      expect(() => circuitBreaker.restore({ ...snapshot, state: 42 })).toThrow('has an unknown state: 42.');
+    });
+  });
+
+  describe('ThresholdExecutionCircuitBreaker', () => {
+    it('should restore its error count', () => {
+      const clock = new VirtualClock(1000);
+      const create = () =>
+        new ThresholdExecutionCircuitBreaker(
+          'database',
+          () => true,
+          () => 1000,
+          () => 2,
+          () => 60000,
+          { clock },
+        );
+      const circuitBreaker = create();
+
+      expect(() => circuitBreaker.execute(fail)).toThrow('Test error');
+      expect(() => circuitBreaker.execute(fail)).toThrow('Test error');
+
+      const snapshot = roundTrip(circuitBreaker.snapshot());
+      const restored = create();
+
+      restored.restore(snapshot);
+
+      expect(snapshot.counters).toEqual({ errorCount: 2, errorCountIntervalEnd: 61000 });
+      expect(restored.isTripped).toBe(false);
+      expect(() => restored.execute(fail)).toThrow('Test error');
+      expect(restored.isTripped).toBe(true);
+    });
+  });
+
+  describe('FailureRateExecutionCircuitBreaker', () => {
+    it('should restore the outcomes in its window, oldest first', () => {
+      const create = (windowSize: number) =>
+        new FailureRateExecutionCircuitBreaker(
+          'database',
+          () => true,
+          () => 1000,
+          windowSize,
+          () => 50,
+        );
+      const circuitBreaker = create(4);
+
+      circuitBreaker.execute(() => 'done');
+      expect(() => circuitBreaker.execute(fail)).toThrow('Test error');
+      circuitBreaker.execute(() => 'done');
+
+      const snapshot = roundTrip(circuitBreaker.snapshot());
+      const restored = create(4);
+      const shrunk = create(2);
+
+      restored.restore(snapshot);
+      shrunk.restore(snapshot);
+
+      expect(snapshot.counters).toEqual({ outcomes: [0, 1, 0] });
+      expect(restored.failureRate).toBeCloseTo(100 / 3);
+      expect(shrunk.failureRate).toBe(50);
+      expect(restored.snapshot().counters).toEqual(snapshot.counters);
+    });
+  });
+
+  describe('DefaultCircuitBreakerPolicy', () => {
+    it('should restore its trip state and consecutive failures', () => {
+      const clock = new VirtualClock(1000);
+      const policy = createPolicy(clock);
+
+      policy.notifyRequestFinished('Test context', undefined);
+      policy.notifyRequestFinished('Test context', new Error('Test error'));
+      policy.notifyRequestFinished('Test context', new Error('Test error'));
+
+      const closed = roundTrip(policy.snapshot());
+
+      policy.notifyRequestFinished('Test context', new Error('Test error'));
+
+      const tripped = roundTrip(policy.snapshot());
+      const restoredClosed = createPolicy(clock);
+      const restoredTripped = createPolicy(clock);
+
+      restoredClosed.restore(closed);
+      restoredTripped.restore(tripped);
+
+      expect(closed).toEqual(
+        expect.objectContaining({ state: CircuitState.Closed, counters: { consecutiveFailures: 2 } }),
+      );
+      expect(restoredClosed.statistics).toEqual(expect.objectContaining({ successes: 1, failures: 2 }));
+
+      restoredClosed.notifyRequestFinished('Test context', new Error('Test error'));
+
+      expect(restoredClosed.state).toBe(CircuitState.Open);
+
+      expect(restoredTripped.state).toBe(CircuitState.Open);
+      expect(restoredTripped.trippedAt).toEqual(new Date(1000));
+      expect(restoredTripped.nextRetryAt).toEqual(new Date(2000));
+      expect(() => restoredTripped.throwIfTripped('Test context')).toThrow();
+
+      clock.advance(1000);
+
+      expect(() => restoredTripped.throwIfTripped('Test context')).not.toThrow();
+
+      restoredTripped.notifyRequestFinished('Test context', undefined);
+
+      expect(restoredTripped.state).toBe(CircuitState.Closed);
+    });
+
+    it('should keep the probe limit when restored while a probe is in flight', () => {
+      const clock = new VirtualClock(1000);
+      const policy = createPolicy(clock);
+
+      policy.trip();
+      clock.advance(1000);
+
+      expect(() => policy.throwIfTripped('Probe')).not.toThrow();
+
+      policy.restore(roundTrip(policy.snapshot()));
+
+      expect(() => policy.throwIfTripped('Other')).toThrow();
+
+      policy.notifyRequestFinished('Probe', undefined);
+
+      expect(policy.state).toBe(CircuitState.HalfOpen);
+      expect(() => policy.throwIfTripped('Next probe')).not.toThrow();
+      expect(() => policy.throwIfTripped('Other')).toThrow();
+
+      policy.notifyRequestFinished('Next probe', undefined);
+
+      expect(policy.state).toBe(CircuitState.Closed);
+    });
+  });
+
+  describe('ServiceSentinel', () => {
+    it('should restore its health status until the next health check', () => {
+      const clock = new VirtualClock();
+      const sentinel = new ServiceSentinel(
+        () => true,
+        () => 100,
+        false,
+        clock,
+      );
+      const restored = new ServiceSentinel(
+        () => true,
+        () => 100,
+        true,
+        clock,
+      );
+      const onHealthChanged = jest.fn();
+
+      restored.on('healthChanged', onHealthChanged);
+      restored.restore(roundTrip(sentinel.snapshot()));
+
+      expect(restored.isHealthy).toBe(false);
+      expect(onHealthChanged).not.toHaveBeenCalled();
+      expect(() => restored.restore(undefined)).toThrow('snapshot cannot be null or undefined.');
+
+      clock.advance(100);
+
+      expect(restored.isHealthy).toBe(true);
+
+      sentinel.dispose(true);
+      restored.dispose(true);
+    });
+  });
+
+  describe('SnapshotFile', () => {
+    let directory: string;
+
+    beforeEach(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'sentinels-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('should require a path', () => {
+      expect(() => new SnapshotFile('')).toThrow('filePath cannot be null, undefined or empty.');
+    });
+
+    it('should save and load the snapshots of its targets', () => {
+      const clock = new VirtualClock(1000);
+      const file = new SnapshotFile(path.join(directory, 'state', 'sentinels.json'));
+      const circuitBreaker = createCircuitBreaker(clock);
+      const sentinel = new ServiceSentinel(
+        () => true,
+        () => 100,
+        false,
+        clock,
+      );
+
+      expect(() => circuitBreaker.execute(fail)).toThrow('Test error');
+
+      file.save({ database: circuitBreaker, health: sentinel });
+
+      const restoredCircuitBreaker = createCircuitBreaker(clock);
+      const restoredSentinel = new ServiceSentinel(
+        () => true,
+        () => 100,
+        true,
+        clock,
+      );
+      const untouched = createPolicy(clock);
+
+      expect(file.path).toBe(path.join(directory, 'state', 'sentinels.json'));
+      expect(fs.readdirSync(path.dirname(file.path))).toEqual(['sentinels.json']);
+      expect(file.load({ database: restoredCircuitBreaker, health: restoredSentinel, cache: untouched })).toEqual([
+        'database',
+        'health',
+      ]);
+      expect(restoredCircuitBreaker.isTripped).toBe(true);
+      expect(restoredSentinel.isHealthy).toBe(false);
+      expect(untouched.state).toBe(CircuitState.Closed);
+
+      sentinel.dispose(true);
+      restoredSentinel.dispose(true);
+    });
+
+    it('should save and load the snapshots of its targets asynchronously', async () => {
+      const clock = new VirtualClock(1000);
+      const file = new SnapshotFile(path.join(directory, 'sentinels.json'));
+      const policy = createPolicy(clock);
+
+      policy.trip();
+
+      await file.saveAsync({ cache: policy });
+
+      const restored = createPolicy(clock);
+
+      await expect(file.loadAsync({ cache: restored })).resolves.toEqual(['cache']);
+      expect(restored.state).toBe(CircuitState.Open);
+    });
+
+    it('should not let concurrent saves share a temporary file', async () => {
+      const clock = new VirtualClock(1000);
+      const file = new SnapshotFile(path.join(directory, 'sentinels.json'));
+      const policy = createPolicy(clock);
+
+      policy.trip();
+
+      await expect(
+        Promise.all([
+          file.saveAsync({ cache: policy }),
+          file.saveAsync({ cache: policy }),
+          file.saveAsync({ cache: policy }),
+        ]),
+      ).resolves.toBeDefined();
+      expect(fs.readdirSync(directory)).toEqual(['sentinels.json']);
+
+      const restored = createPolicy(clock);
+
+      await expect(file.loadAsync({ cache: restored })).resolves.toEqual(['cache']);
+      expect(restored.state).toBe(CircuitState.Open);
+    });
+
+    it('should restore nothing when the file does not exist', async () => {
+      const file = new SnapshotFile(path.join(directory, 'missing.json'));
+      const circuitBreaker = createCircuitBreaker(new VirtualClock());
+
+      expect(file.load({ database: circuitBreaker })).toEqual([]);
+      await expect(file.loadAsync({ database: circuitBreaker })).resolves.toEqual([]);
+    });
+
+    it('should refuse files that are not snapshot files', async () => {
+      const file = new SnapshotFile(path.join(directory, 'sentinels.json'));
+      const circuitBreaker = createCircuitBreaker(new VirtualClock());
+
+      fs.writeFileSync(file.path, 'not json');
+
+      expect(() => file.load({ database: circuitBreaker })).toThrow(`'${file.path}' is not a snapshot file.`);
+
+      fs.writeFileSync(file.path, JSON.stringify({ version: 2, snapshots: {} }));
+
+      await expect(file.loadAsync({ database: circuitBreaker })).rejects.toThrow(
+        `'${file.path}' is not a snapshot file of version 1.`,
+      );
+    });
+  });
+});
@@ -0,0 +1,451 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+	File Name: state.spec.ts
+	Description: Test specification for sharing the state of circuit breakers through circuit state stores.
+	Written by: Nikita Petko
+*/
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import VirtualClock from '../sentinels/clocks/virtual_clock';
+import { CircuitState } from '../sentinels/enums/circuit_state';
+import TripReasonAuthorityBase from '../sentinels/base/trip_reason_authority_base';
+import FileCircuitStateStore from '../sentinels/state/file_circuit_state_store';
+import ICircuitBreakerSnapshot from '../sentinels/interfaces/circuit_breaker_snapshot';
+import InMemoryCircuitStateStore from '../sentinels/state/in_memory_circuit_state_store';
+import CircuitStateSynchronizer from '../sentinels/state/circuit_state_synchronizer';
+import DefaultCircuitBreakerPolicy from '../sentinels/policy/default_circuit_breaker_policy';
+import ExecutionCircuitBreaker from '../sentinels/circuit_breakers/execution_circuit_breaker';
+import DefaultCircuitBreakerPolicyConfig from '../sentinels/policy/default_circuit_breaker_policy_config';
+
+describe('State', () => {
+  class TripReasonAuthority extends TripReasonAuthorityBase<string> {
+    public isReasonForTrip(executionContext: string, error: Error): boolean {
+      return error !== undefined;
+    }
+  }
+
+  const fail = () => {
+    throw new Error('Test error');
+  };
+
+  const snapshot = (state: CircuitState): ICircuitBreakerSnapshot => ({ name: 'database', state, counters: {} });
+
+  const createCircuitBreaker = (clock: VirtualClock) =>
+    new ExecutionCircuitBreaker(
+      'database',
+      () => true,
+      () => 1000,
+      { clock },
+    );
+
+  describe('InMemoryCircuitStateStore', () => {
+    it('should only write when the version is the expected one', async () => {
+      const store = new InMemoryCircuitStateStore();
+
+      await expect(store.getAsync('database')).resolves.toBeUndefined();
+      await expect(store.compareAndSetAsync('database', 1, snapshot(CircuitState.Open))).resolves.toBe(false);
+      await expect(store.compareAndSetAsync('database', 0, snapshot(CircuitState.Open))).resolves.toBe(true);
+      await expect(store.compareAndSetAsync('database', 0, snapshot(CircuitState.Closed))).resolves.toBe(false);
+      await expect(store.compareAndSetAsync('database', 1, snapshot(CircuitState.Closed))).resolves.toBe(true);
+      await expect(store.getAsync('database')).resolves.toEqual({
+        version: 2,
+        snapshot: snapshot(CircuitState.Closed),
+      });
+      expect(store.size).toBe(1);
+    });
+
+    it('should not share the stored snapshots with their writers and readers', async () => {
+      const store = new InMemoryCircuitStateStore();
+      const written = { ...snapshot(CircuitState.Open), counters: { errorCount: 1 } };
+
+      await store.compareAndSetAsync('database', 0, written);
+
+      written.counters.errorCount = 2;
+      ((await store.getAsync('database')).snapshot.counters as Record<string, number>).errorCount = 3;
+
+      expect((await store.getAsync('database')).snapshot.counters).toEqual({ errorCount: 1 });
+    });
+
+    it('should delete stored states', async () => {
+      const store = new InMemoryCircuitStateStore();
+
+      await store.compareAndSetAsync('database', 0, snapshot(CircuitState.Open));
+
+      await expect(store.deleteAsync('database')).resolves.toBe(true);
+      await expect(store.deleteAsync('database')).resolves.toBe(false);
+      await expect(store.compareAndSetAsync('database', 0, snapshot(CircuitState.Open))).resolves.toBe(true);
+    });
+
+    it('should require a snapshot', async () => {
+      await expect(new InMemoryCircuitStateStore().compareAndSetAsync('database', 0, undefined)).rejects.toThrow(
+        'snapshot cannot be null or undefined.',
+      );
+    });
+  });
+
+  describe('FileCircuitStateStore', () => {
+    let directory: string;
+    let filePath: string;
+
+    beforeEach(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'sentinels-'));
+      filePath = path.join(directory, 'state', 'circuits.json');
+    });
+
+    afterEach(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('should validate its options', () => {
+      expect(() => new FileCircuitStateStore('')).toThrow('filePath cannot be null, undefined or empty.');
+      expect(() => new FileCircuitStateStore(filePath, { lockTimeout: -1 })).toThrow(
+        'The lockTimeout option cannot be less than zero.',
+      );
+      expect(() => new FileCircuitStateStore(filePath, { lockRetryDelay: 0 })).toThrow(
+        'The lockRetryDelay option must be greater than zero.',
+      );
+      expect(() => new FileCircuitStateStore(filePath, { staleLockAge: 0 })).toThrow(
+        'The staleLockAge option must be greater than zero.',
+      );
+    });
+
+    it('should share the state between stores on the same file', async () => {
+      const first = new FileCircuitStateStore(filePath);
+      const second = new FileCircuitStateStore(filePath);
+
+      await expect(first.getAsync('database')).resolves.toBeUndefined();
+      await expect(first.compareAndSetAsync('database', 0, snapshot(CircuitState.Open))).resolves.toBe(true);
+      await expect(second.compareAndSetAsync('database', 0, snapshot(CircuitState.Closed))).resolves.toBe(false);
+      await expect(second.getAsync('database')).resolves.toEqual({ version: 1, snapshot: snapshot(CircuitState.Open) });
+      expect(fs.readdirSync(path.dirname(filePath))).toEqual(['circuits.json']);
+    });
+
+    it('should let exactly one of concurrent writers win', async () => {
+      const stores = [1, 2, 3, 4].map(() => new FileCircuitStateStore(filePath, { lockRetryDelay: 1 }));
+
+      const results = await Promise.all(
+        stores.map((store) => store.compareAndSetAsync('database', 0, snapshot(CircuitState.Open))),
+      );
+
+      expect(results.filter((result) => result)).toHaveLength(1);
+      await expect(stores[0].getAsync('database')).resolves.toEqual(expect.objectContaining({ version: 1 }));
+    });
+
+    it('should time out waiting for a lock that is held', async () => {
+      const store = new FileCircuitStateStore(filePath, { lockTimeout: 20, lockRetryDelay: 5 });
+
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(store.lockPath, '1');
+
+      await expect(store.compareAndSetAsync('database', 0, snapshot(CircuitState.Open))).rejects.toThrow(
+        'Timed out after 20ms waiting for the lock',
+      );
+      expect(fs.existsSync(store.lockPath)).toBe(true);
+    });
+
+    it('should remove a lock abandoned by a crashed process', async () => {
+      const store = new FileCircuitStateStore(filePath, { lockTimeout: 1000, staleLockAge: 1000 });
+      const abandonedAt = new Date(Date.now() - 60000);
+
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(store.lockPath, '1');
+      fs.utimesSync(store.lockPath, abandonedAt, abandonedAt);
+
+      await expect(store.compareAndSetAsync('database', 0, snapshot(CircuitState.Open))).resolves.toBe(true);
+      expect(fs.existsSync(store.lockPath)).toBe(false);
+    });
+
+    it('should not release a lock that another writer has taken over', async () => {
+      const store = new FileCircuitStateStore(filePath);
+
+      await store['_withLockAsync'](async () => fs.writeFileSync(store.lockPath, 'Other writer'));
+
+      expect(fs.readFileSync(store.lockPath, 'utf8')).toBe('Other writer');
+      expect(fs.readdirSync(path.dirname(filePath))).toEqual(['circuits.json.lock']);
+    });
+
+    it('should not remove a stale lock once another writer has replaced it', async () => {
+      const store = new FileCircuitStateStore(filePath);
+
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(store.lockPath, 'Fresh writer');
+
+      await store['_removeLockAsync']('Stale writer');
+
+      expect(fs.readFileSync(store.lockPath, 'utf8')).toBe('Fresh writer');
+      expect(fs.readdirSync(path.dirname(filePath))).toEqual(['circuits.json.lock']);
+    });
+
+    it('should keep a lock taken by a third writer while handing a lock back', async () => {
+      const store = new FileCircuitStateStore(filePath);
+
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(store.lockPath, 'Fresh writer');
+
+      const spy = jest.spyOn(fs.promises, 'readFile').mockImplementationOnce(async () => {
+        // Another writer takes the lock while the fresh writer's lock is moved aside.
+        fs.writeFileSync(store.lockPath, 'Third writer');
+
+        return 'Fresh writer';
+      });
+
+      try {
+        await store['_removeLockAsync']('Stale writer');
+      } finally {
+        spy.mockRestore();
+      }
+
+      expect(fs.readFileSync(store.lockPath, 'utf8')).toBe('Third writer');
+      expect(fs.readdirSync(path.dirname(filePath))).toEqual(['circuits.json.lock']);
+    });
+
+    it('should delete stored states', async () => {
+      const store = new FileCircuitStateStore(filePath);
+
+      await store.compareAndSetAsync('database', 0, snapshot(CircuitState.Open));
+
+      await expect(store.deleteAsync('database')).resolves.toBe(true);
+      await expect(store.deleteAsync('database')).resolves.toBe(false);
+      await expect(store.getAsync('database')).resolves.toBeUndefined();
+    });
+
+    it('should refuse files that are not circuit state files', async () => {
+      const store = new FileCircuitStateStore(filePath);
+
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, 'not json');
+
+      await expect(store.getAsync('database')).rejects.toThrow('is not a circuit state file.');
+      await expect(store.compareAndSetAsync('database', 0, snapshot(CircuitState.Open))).rejects.toThrow(
+        'is not a circuit state file.',
+      );
+      expect(fs.existsSync(store.lockPath)).toBe(false);
+    });
+  });
+
+  describe('CircuitStateSynchronizer', () => {
+    it('should validate its arguments', () => {
+      const store = new InMemoryCircuitStateStore();
+      const circuitBreaker = createCircuitBreaker(new VirtualClock());
+
+      expect(() => new CircuitStateSynchronizer('', store, circuitBreaker)).toThrow(
+        'name cannot be null, undefined or empty.',
+      );
+      expect(() => new CircuitStateSynchronizer('database', undefined, circuitBreaker)).toThrow(
+        'store cannot be null or undefined.',
+      );
+      expect(() => new CircuitStateSynchronizer('database', store, undefined)).toThrow(
+        'circuitBreaker cannot be null or undefined.',
+      );
+      expect(() => new CircuitStateSynchronizer('database', store, circuitBreaker, { pollInterval: 0 })).toThrow(
+        'The pollInterval option must be greater than zero.',
+      );
+    });
+
+    it('should share trips and resets between circuit breakers', async () => {
+      const clock = new VirtualClock(1000);
+      const store = new InMemoryCircuitStateStore();
+      const first = createCircuitBreaker(clock);
+      const second = createCircuitBreaker(clock);
+      const firstSynchronizer = new CircuitStateSynchronizer('database', store, first, { clock, pollInterval: 100 });
+      const secondSynchronizer = new CircuitStateSynchronizer('database', store, second, { clock, pollInterval: 100 });
+
+      await firstSynchronizer.startAsync();
+      await secondSynchronizer.startAsync();
+
+      expect(() => first.execute(fail)).toThrow('Test error');
+
+      await firstSynchronizer.pullAsync();
+
+      expect(firstSynchronizer.version).toBe(1);
+      expect(second.isTripped).toBe(false);
+
+      clock.advance(100);
+      await secondSynchronizer.pullAsync();
+
+      expect(second.state).toBe(CircuitState.Open);
+      expect(second.nextRetryAt).toEqual(new Date(2000));
+      expect(secondSynchronizer.version).toBe(1);
+
+      clock.advance(900);
+
+      expect(second.execute(() => 'done')).toBe('done');
+
+      await secondSynchronizer.pullAsync();
+      clock.advance(100);
+      await firstSynchronizer.pullAsync();
+
+      expect(secondSynchronizer.version).toBe(2);
+      expect(first.state).toBe(CircuitState.Closed);
+
+      firstSynchronizer.stop();
+      secondSynchronizer.stop();
+    });
+
+    it('should adopt the state of the winner when it loses a race', async () => {
+      const clock = new VirtualClock(1000);
+      const store = new InMemoryCircuitStateStore();
+      const first = createCircuitBreaker(clock);
+      const second = createCircuitBreaker(clock);
+      const firstSynchronizer = new CircuitStateSynchronizer('database', store, first, { clock });
+      const secondSynchronizer = new CircuitStateSynchronizer('database', store, second, { clock });
+
+      expect(() => first.execute(fail)).toThrow('Test error');
+
+      clock.advance(500);
+
+      expect(() => second.execute(fail)).toThrow('Test error');
+
+      await expect(firstSynchronizer.pushAsync()).resolves.toBe(true);
+      await expect(secondSynchronizer.pushAsync()).resolves.toBe(false);
+
+      expect(secondSynchronizer.version).toBe(1);
+      expect(second.trippedAt).toEqual(new Date(1000));
+      expect(second.nextRetryAt).toEqual(new Date(2000));
+    });
+
+    it('should keep the probe limit when a poll restores a newer state while a probe is in flight', async () => {
+      const clock = new VirtualClock(1000);
+      const store = new InMemoryCircuitStateStore();
+      const circuitBreaker = createCircuitBreaker(clock);
+      const synchronizer = new CircuitStateSynchronizer('database', store, circuitBreaker, {
+        clock,
+        pollInterval: 100,
+      });
+
+      await synchronizer.startAsync();
+
+      expect(() => circuitBreaker.execute(fail)).toThrow('Test error');
+
+      await synchronizer.pullAsync();
+      clock.advance(1000);
+
+      let finishProbe: () => void;
+      const probe = circuitBreaker.executeAsync(() => new Promise<void>((resolve) => (finishProbe = resolve)));
+
+      await store.compareAndSetAsync('database', synchronizer.version, {
+        ...snapshot(CircuitState.Open),
+        trippedAt: new Date(1500).toISOString(),
+        nextRetryAt: new Date(2000).toISOString(),
+      });
+
+      clock.advance(100);
+      await synchronizer.pullAsync();
+
+      expect(synchronizer.version).toBe(2);
+      expect(circuitBreaker.state).toBe(CircuitState.HalfOpen);
+      expect(() => circuitBreaker.execute(() => 'done')).toThrow();
+
+      finishProbe();
+      await probe;
+
+      let finishNextProbe: () => void;
+      const nextProbe = circuitBreaker.executeAsync(() => new Promise<void>((resolve) => (finishNextProbe = resolve)));
+
+      expect(() => circuitBreaker.execute(() => 'done')).toThrow();
+
+      finishNextProbe();
+      await nextProbe;
+
+      expect(circuitBreaker.state).toBe(CircuitState.Closed);
+
+      synchronizer.stop();
+    });
+
+    it('should adopt the stored state when started', async () => {
+      const clock = new VirtualClock(1000);
+      const store = new InMemoryCircuitStateStore();
+      const circuitBreaker = createCircuitBreaker(clock);
+      const synchronizer = new CircuitStateSynchronizer('database', store, circuitBreaker, { clock });
+
+      await store.compareAndSetAsync('database', 0, {
+        ...snapshot(CircuitState.Open),
+        trippedAt: new Date(500).toISOString(),
+        nextRetryAt: new Date(1500).toISOString(),
+      });
+      await synchronizer.startAsync();
+      await synchronizer.startAsync();
+
+      expect(synchronizer.isStarted).toBe(true);
+      expect(circuitBreaker.state).toBe(CircuitState.Open);
+      expect(clock.pendingTimers).toBe(1);
+
+      synchronizer.stop();
+      synchronizer.stop();
+
+      expect(synchronizer.isStarted).toBe(false);
+      expect(clock.pendingTimers).toBe(0);
+
+      circuitBreaker.reset();
+      await synchronizer.pullAsync();
+
+      expect(synchronizer.version).toBe(1);
+    });
+
+    it('should share the state of policies', async () => {
+      const clock = new VirtualClock(1000);
+      const store = new InMemoryCircuitStateStore();
+      const config = new DefaultCircuitBreakerPolicyConfig();
+      const createPolicy = () =>
+        new DefaultCircuitBreakerPolicy<string>('cache', config, new TripReasonAuthority(), clock);
+      const first = createPolicy();
+      const second = createPolicy();
+      const firstSynchronizer = new CircuitStateSynchronizer('cache', store, first, { clock });
+      const secondSynchronizer = new CircuitStateSynchronizer('cache', store, second, { clock });
+
+      await firstSynchronizer.startAsync();
+      await secondSynchronizer.startAsync();
+
+      first.trip();
+
+      await firstSynchronizer.pullAsync();
+      await secondSynchronizer.pullAsync();
+
+      expect(second.state).toBe(CircuitState.Open);
+      expect(() => second.throwIfTripped('Test context')).toThrow();
+
+      firstSynchronizer.stop();
+      secondSynchronizer.stop();
+    });
+
+    it('should report the errors of the store met in the background', async () => {
+      const clock = new VirtualClock();
+      const store = new InMemoryCircuitStateStore();
+      const circuitBreaker = createCircuitBreaker(clock);
+      const synchronizer = new CircuitStateSynchronizer('database', store, circuitBreaker, { clock });
+      const error = new Error('Store error');
+
+      synchronizer.onError = jest.fn();
+      jest.spyOn(store, 'compareAndSetAsync').mockRejectedValue(error);
+
+      await synchronizer.startAsync();
+
+      expect(() => circuitBreaker.execute(fail)).toThrow('Test error');
+
+      await expect(synchronizer.pullAsync()).resolves.toBe(false);
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(synchronizer.onError).toHaveBeenCalledWith(error);
+      expect(synchronizer.version).toBe(0);
+
+      synchronizer.stop();
+    });
+  });
+});
@@ -0,0 +1,120 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+	File Name: statistics.spec.ts
+	Description: Test specification for the statistics classes.
+	Written by: Nikita Petko
+*/
+
+import VirtualClock from '../sentinels/clocks/virtual_clock';
+import RollingWindow from '../sentinels/statistics/rolling_window';
+
+describe('Statistics', () => {
+  describe('RollingWindow', () => {
+    describe('#constructor', () => {
+      it('should default to 10 buckets of 1 second', () => {
+        const window = new RollingWindow();
+
+        expect(window.bucketCount).toBe(10);
+        expect(window.bucketDuration).toBe(1000);
+        expect(window.windowDuration).toBe(10000);
+      });
+
+      it('should throw an error if the bucket count is not a positive integer', () => {
+        expect(() => new RollingWindow(0, 1000)).toThrow();
+        expect(() => new RollingWindow(2.5, 1000)).toThrow();
+      });
+
+      it('should throw an error if the bucket duration is not positive', () => {
+        expect(() => new RollingWindow(10, 0)).toThrow();
+        expect(() => new RollingWindow(10, NaN)).toThrow();
+      });
+    });
+
+    describe('#counts', () => {
+      it('should count each kind of call', () => {
+        const window = new RollingWindow(10, 1000, new VirtualClock());
+
+        window.recordSuccess();
+        window.recordSuccess();
+        window.recordFailure();
+        window.recordRejection();
+        window.recordTimeout();
+        window.recordSlowCall();
+
+        expect(window.counts).toEqual({ successes: 2, failures: 1, rejections: 1, timeouts: 1, slowCalls: 1 });
+      });
+
+      it('should expire buckets one at a time as time moves on', () => {
+        const clock = new VirtualClock();
+        const window = new RollingWindow(3, 1000, clock);
+
+        window.recordFailure();
+        clock.advance(1000);
+        window.recordFailure();
+        clock.advance(1000);
+        window.recordFailure();
+
+        expect(window.counts.failures).toBe(3);
+
+        clock.advance(1000);
+        expect(window.counts.failures).toBe(2);
+
+        clock.advance(1000);
+        expect(window.counts.failures).toBe(1);
+
+        clock.advance(1000);
+        expect(window.counts.failures).toBe(0);
+      });
+
+      it('should count failures that straddle a bucket boundary', () => {
+        const clock = new VirtualClock();
+        const window = new RollingWindow(10, 1000, clock);
+
+        clock.advanceTo(9999);
+        window.recordFailure();
+        clock.advanceTo(10000);
+        window.recordFailure();
+
+        expect(window.counts.failures).toBe(2);
+      });
+
+      it('should reuse a bucket once its counts have expired', () => {
+        const clock = new VirtualClock();
+        const window = new RollingWindow(2, 1000, clock);
+
+        window.recordSuccess();
+        clock.advance(2000);
+        window.recordFailure();
+
+        expect(window.counts).toEqual({ successes: 0, failures: 1, rejections: 0, timeouts: 0, slowCalls: 0 });
+      });
+    });
+
+    describe('#clear', () => {
+      it('should discard all recorded counts', () => {
+        const window = new RollingWindow(10, 1000, new VirtualClock());
+
+        window.recordSuccess();
+        window.recordFailure();
+        window.clear();
+
+        expect(window.counts).toEqual({ successes: 0, failures: 0, rejections: 0, timeouts: 0, slowCalls: 0 });
+      });
+    });
+  });
+});
@@ -0,0 +1,293 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+	File Name: tracing.spec.ts
+	Description: Test specification for tracing breakers, policies and sentinels.
+	Written by: Nikita Petko
+*/
+
+/* eslint-disable @typescript-eslint/naming-convention */
+
+import VirtualClock from '../sentinels/clocks/virtual_clock';
+import InMemoryTracer from '../sentinels/tracing/in_memory_tracer';
+import { SpanStatusCode } from '../sentinels/enums/span_status_code';
+import ServiceSentinel from '../sentinels/sentinels/service_sentinel';
+import { CircuitBreakerError } from '../sentinels/base/circuit_breaker_base';
+import TripReasonAuthorityBase from '../sentinels/base/trip_reason_authority_base';
+import DefaultCircuitBreakerPolicy from '../sentinels/policy/default_circuit_breaker_policy';
+import ExecutionCircuitBreaker from '../sentinels/circuit_breakers/execution_circuit_breaker';
+import DefaultCircuitBreakerPolicyConfig from '../sentinels/policy/default_circuit_breaker_policy_config';
+
+describe('Tracing', () => {
+  class TripReasonAuthority extends TripReasonAuthorityBase<string> {
+    public isReasonForTrip(executionContext: string, error: Error): boolean {
+      return error !== undefined;
+    }
+  }
+
+  const fail = () => {
+    throw new Error('Test error');
+  };
+
+  describe('InMemoryTracer', () => {
+    it('should record spans with their attributes, events, exceptions, status and timing', () => {
+      const clock = new VirtualClock(1000);
+      const tracer = new InMemoryTracer(clock);
+      const error = new Error('Test error');
+
+      const span = tracer.startSpan('test', { attributes: { a: 1 } });
+
+      span.setAttribute('b', 'two').setAttributes({ c: true });
+      clock.advance(10);
+      span.addEvent('event', { d: 4 });
+      span.recordException(error);
+      span.setStatus({ code: SpanStatusCode.Error, message: 'Test error' });
+
+      expect(span.ended).toBe(false);
+      expect(span.endTime).toBeUndefined();
+
+      clock.advance(10);
+      span.end();
+      clock.advance(10);
+      span.end();
+
+      expect(tracer.spans).toEqual([span]);
+      expect(span.name).toBe('test');
+      expect(span.attributes).toEqual({ a: 1, b: 'two', c: true });
+      expect(span.events).toEqual([
+        { name: 'event', attributes: { d: 4 }, time: 1010 },
+        {
+          name: 'exception',
+          attributes: { 'exception.type': 'Error', 'exception.message': 'Test error' },
+          time: 1010,
+        },
+      ]);
+      expect(span.exceptions).toEqual([error]);
+      expect(span.status).toEqual({ code: SpanStatusCode.Error, message: 'Test error' });
+      expect(span.startTime).toBe(1000);
+      expect(span.endTime).toBe(1020);
+      expect(span.ended).toBe(true);
+    });
+
+    it('should find spans by name and forget them once cleared', () => {
+      const tracer = new InMemoryTracer();
+
+      tracer.startSpan('a');
+      tracer.startSpan('b');
+      tracer.startSpan('a');
+
+      expect(tracer.getSpans('a')).toHaveLength(2);
+      expect(tracer.startSpan('c').status).toEqual({ code: SpanStatusCode.Unset });
+
+      tracer.clear();
+
+      expect(tracer.spans).toEqual([]);
+    });
+  });
+
+  describe('ExecutionCircuitBreaker', () => {
+    it('should trace nothing without a tracer', () => {
+      const circuitBreaker = new ExecutionCircuitBreaker(
+        'database',
+        () => true,
+        () => 1000,
+      );
+
+      expect(circuitBreaker.tracer).toBeUndefined();
+      expect(circuitBreaker.execute(() => 'done')).toBe('done');
+    });
+
+    it('should trace an admitted call that succeeds', () => {
+      const tracer = new InMemoryTracer();
+      const circuitBreaker = new ExecutionCircuitBreaker(
+        'database',
+        () => true,
+        () => 1000,
+      );
+
+      circuitBreaker.tracer = tracer;
+      circuitBreaker.execute(() => 'done');
+
+      const [span] = tracer.spans;
+
+      expect(tracer.spans).toHaveLength(1);
+      expect(span.name).toBe('sentinels.execute');
+      expect(span.attributes).toEqual({
+        'sentinels.name': 'database',
+        'sentinels.state': 'Closed',
+        'sentinels.probe': false,
+      });
+      expect(span.events.map((event) => event.name)).toEqual(['sentinels.admitted', 'sentinels.success']);
+      expect(span.status).toEqual({ code: SpanStatusCode.Ok });
+      expect(span.ended).toBe(true);
+    });
+
+    it('should trace a failed call that trips the circuit breaker, then a rejected call', () => {
+      const tracer = new InMemoryTracer();
+      const circuitBreaker = new ExecutionCircuitBreaker(
+        'database',
+        () => true,
+        () => 1000,
+      );
+
+      circuitBreaker.tracer = tracer;
+
+      expect(() => circuitBreaker.execute(fail)).toThrow('Test error');
+      expect(() => circuitBreaker.execute(() => 'done')).toThrow(CircuitBreakerError);
+
+      const [failed, rejected] = tracer.spans;
+
+      expect(tracer.spans).toHaveLength(2);
+      expect(failed.events.map((event) => event.name)).toEqual([
+        'sentinels.admitted',
+        'sentinels.failure',
+        'exception',
+        'sentinels.tripped',
+        'exception',
+      ]);
+      expect(failed.events[3].attributes).toEqual(
+        expect.objectContaining({ 'sentinels.name': 'database', 'sentinels.next_retry_at': expect.any(String) }),
+      );
+      expect(failed.status).toEqual({ code: SpanStatusCode.Error, message: 'Test error' });
+      expect(failed.ended).toBe(true);
+
+      expect(rejected.attributes['sentinels.state']).toBe('Open');
+      expect(rejected.events.map((event) => event.name)).toEqual(['sentinels.rejected', 'exception']);
+      expect(rejected.exceptions[0]).toBeInstanceOf(CircuitBreakerError);
+      expect(rejected.status.code).toBe(SpanStatusCode.Error);
+      expect(rejected.ended).toBe(true);
+    });
+
+    it('should trace probes and the reset they cause', async () => {
+      const clock = new VirtualClock();
+      const tracer = new InMemoryTracer(clock);
+      const circuitBreaker = new ExecutionCircuitBreaker(
+        'database',
+        () => true,
+        () => 1000,
+        { clock },
+      );
+
+      expect(() => circuitBreaker.execute(fail)).toThrow();
+
+      circuitBreaker.tracer = tracer;
+      clock.advance(1000);
+
+      await expect(circuitBreaker.executeAsync(async () => 'done')).resolves.toBe('done');
+
+      const [span] = tracer.spans;
+
+      expect(span.attributes['sentinels.state']).toBe('HalfOpen');
+      expect(span.attributes['sentinels.probe']).toBe(true);
+      expect(span.events.map((event) => event.name)).toEqual([
+        'sentinels.probeAdmitted',
+        'sentinels.admitted',
+        'sentinels.success',
+        'sentinels.reset',
+      ]);
+      expect(span.events[0].attributes['sentinels.active_probes']).toBe(1);
+      expect(span.events[3].attributes['sentinels.tripped_for']).toBe(1000);
+      expect(span.status.code).toBe(SpanStatusCode.Ok);
+    });
+
+    it('should trace asynchronous calls that fail or are rejected', async () => {
+      const tracer = new InMemoryTracer();
+      const circuitBreaker = new ExecutionCircuitBreaker(
+        'database',
+        () => true,
+        () => 1000,
+      );
+
+      circuitBreaker.tracer = tracer;
+
+      await expect(circuitBreaker.executeAsync(async () => fail())).rejects.toThrow('Test error');
+      await expect(circuitBreaker.executeAsync(async () => 'done')).rejects.toBeInstanceOf(CircuitBreakerError);
+
+      expect(tracer.spans.map((span) => [span.status.code, span.ended])).toEqual([
+        [SpanStatusCode.Error, true],
+        [SpanStatusCode.Error, true],
+      ]);
+    });
+
+    it('should trace manual trips as spans of their own', () => {
+      const tracer = new InMemoryTracer();
+      const circuitBreaker = new ExecutionCircuitBreaker(
+        'database',
+        () => true,
+        () => 1000,
+      );
+
+      circuitBreaker.tracer = tracer;
+      circuitBreaker.trip();
+
+      expect(tracer.spans.map((span) => span.name)).toEqual(['sentinels.tripped']);
+      expect(tracer.spans[0].status.code).toBe(SpanStatusCode.Unset);
+      expect(tracer.spans[0].ended).toBe(true);
+    });
+  });
+
+  describe('DefaultCircuitBreakerPolicy', () => {
+    it('should trace each decision as a span of its own', () => {
+      const tracer = new InMemoryTracer();
+      const policy = new DefaultCircuitBreakerPolicy(
+        'cache',
+        new DefaultCircuitBreakerPolicyConfig(),
+        new TripReasonAuthority(),
+      );
+
+      policy.tracer = tracer;
+      policy.notifyRequestFinished('Test context', new Error('Test error'));
+
+      expect(() => policy.throwIfTripped('Test context')).toThrow();
+
+      policy.reset();
+
+      expect(tracer.spans.map((span) => span.name)).toEqual([
+        'sentinels.failure',
+        'sentinels.tripped',
+        'sentinels.rejected',
+        'sentinels.reset',
+      ]);
+      expect(tracer.spans[0].attributes).toEqual({ 'sentinels.name': 'cache' });
+      expect(tracer.spans[0].status).toEqual({ code: SpanStatusCode.Error, message: 'Test error' });
+      expect(tracer.spans[2].exceptions[0]).toBeInstanceOf(CircuitBreakerError);
+      expect(tracer.spans.every((span) => span.ended)).toBe(true);
+    });
+  });
+
+  describe('ServiceSentinel', () => {
+    it('should trace health flips', () => {
+      const clock = new VirtualClock();
+      const tracer = new InMemoryTracer(clock);
+      const sentinel = new ServiceSentinel(
+        () => false,
+        () => 100,
+        true,
+        clock,
+      );
+
+      sentinel.tracer = tracer;
+      clock.advance(200);
+
+      expect(tracer.spans.map((span) => [span.name, span.attributes])).toEqual([
+        ['sentinels.healthChanged', { 'sentinels.is_healthy': false }],
+      ]);
+
+      sentinel.dispose(true);
+    });
+  });
+});
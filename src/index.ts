@@ -21,11 +21,14 @@
 */
 
 import CircuitBreakerBase from './sentinels/base/circuit_breaker_base';
+import EventEmitterBase, { EventListener } from './sentinels/base/event_emitter_base';
 import TripReasonAuthorityBase from './sentinels/base/trip_reason_authority_base';
 import CircuitBreakerPolicyBase from './sentinels/base/circuit_breaker_policy_base';
 import ExecutionCircuitBreakerBase, { Action, AsyncAction } from './sentinels/base/execution_circuit_breaker_base';
+import RateLimiterBase from './sentinels/base/rate_limiter_base';
+import BackoffStrategyBase from './sentinels/base/backoff_strategy_base';
 
-import CircuitBreaker from './sentinels/circuit_breakers/circuit_breaker';
+import CircuitBreaker, { NextRetryGetter } from './sentinels/circuit_breakers/circuit_breaker';
 import ExecutionCircuitBreaker, {
   FailureDetector,
   RetryIntervalCalculator,
@@ -34,53 +37,242 @@ import ThresholdExecutionCircuitBreaker, {
   ErrorCountGetter,
   ErrorIntervalGetter,
 } from './sentinels/circuit_breakers/threshold_execution_circuit_breaker';
+import FailureRateExecutionCircuitBreaker, {
+  FailureRateThresholdGetter,
+} from './sentinels/circuit_breakers/failure_rate_execution_circuit_breaker';
+import SharedCircuitBreaker from './sentinels/circuit_breakers/shared_circuit_breaker';
 
 export { Jitter } from './sentinels/enums/jitter';
+export { CircuitState } from './sentinels/enums/circuit_state';
+export { FailureSource } from './sentinels/enums/failure_source';
+export { SpanStatusCode } from './sentinels/enums/span_status_code';
 export { CircuitBreakerError } from './sentinels/base/circuit_breaker_base';
+export { SlowCallError, TimeoutError, FallbackError } from './sentinels/base/execution_circuit_breaker_base';
+export { BulkheadRejectedError } from './sentinels/bulkheads/bulkhead';
+export { RateLimitExceededError } from './sentinels/base/rate_limiter_base';
+export { RetryExhaustedError } from './sentinels/retry_executor';
+export { HedgeExhaustedError } from './sentinels/hedged_executor';
 
 import DefaultCircuitBreakerPolicy from './sentinels/policy/default_circuit_breaker_policy';
 import DefaultCircuitBreakerPolicyConfig from './sentinels/policy/default_circuit_breaker_policy_config';
 
 import TogglableServiceSentinel from './sentinels/sentinels/togglable_service_sentinel';
-import ServiceSentinel, { HealthCheck, MonitorIntervalGetter } from './sentinels/sentinels/service_sentinel';
+import ServiceSentinel, {
+  HealthCheck,
+  AsyncHealthCheck,
+  MonitorIntervalGetter,
+} from './sentinels/sentinels/service_sentinel';
 
 import ExponentialBackoff from './sentinels/exponential_backoff';
+import RetryExecutor, { RetryPredicate } from './sentinels/retry_executor';
+import HedgedExecutor from './sentinels/hedged_executor';
+
+import ResiliencePipeline from './sentinels/pipeline/resilience_pipeline';
+import ResiliencePipelineBuilder, {
+  BackoffStrategyFactory,
+  PipelineTimeoutError,
+} from './sentinels/pipeline/resilience_pipeline_builder';
+
+import ExponentialBackoffStrategy from './sentinels/backoff/exponential_backoff_strategy';
+import LinearBackoffStrategy from './sentinels/backoff/linear_backoff_strategy';
+import ConstantBackoffStrategy from './sentinels/backoff/constant_backoff_strategy';
+import FibonacciBackoffStrategy from './sentinels/backoff/fibonacci_backoff_strategy';
+import DecorrelatedJitterBackoffStrategy from './sentinels/backoff/decorrelated_jitter_backoff_strategy';
+
+import SystemClock from './sentinels/clocks/system_clock';
+import VirtualClock from './sentinels/clocks/virtual_clock';
+
+import MathRandomSource from './sentinels/random/math_random_source';
+import SeededRandomSource from './sentinels/random/seeded_random_source';
+
+import RollingWindow from './sentinels/statistics/rolling_window';
+
+import MetricsCollector from './sentinels/metrics/metrics_collector';
+
+import InMemoryTracer from './sentinels/tracing/in_memory_tracer';
+import InMemorySpan, { IInMemorySpanEvent } from './sentinels/tracing/in_memory_span';
+
+import SnapshotFile, { SnapshotTargets } from './sentinels/snapshots/snapshot_file';
+
+import InMemoryCircuitStateStore from './sentinels/state/in_memory_circuit_state_store';
+import FileCircuitStateStore from './sentinels/state/file_circuit_state_store';
+import CircuitStateSynchronizer, {
+  StoreErrorHandler,
+  SynchronizedCircuitBreaker,
+} from './sentinels/state/circuit_state_synchronizer';
+
+import Bulkhead from './sentinels/bulkheads/bulkhead';
+
+import CircuitBreakerRegistry, {
+  CircuitBreakerFactory,
+  RegisteredCircuitBreaker,
+} from './sentinels/registry/circuit_breaker_registry';
+
+import TokenBucketRateLimiter from './sentinels/rate_limiters/token_bucket_rate_limiter';
+import SlidingLogRateLimiter from './sentinels/rate_limiters/sliding_log_rate_limiter';
 
 import ISentinel from './sentinels/interfaces/sentinel';
+import IClock, { TimerCallback, TimerHandle } from './sentinels/interfaces/clock';
 import ICircuitBreaker from './sentinels/interfaces/circuit_breaker';
+import ICircuitStateTransition from './sentinels/interfaces/circuit_state_transition';
+import ICircuitBreakerEvents, {
+  ICircuitBreakerEvent,
+  ICircuitBreakerTrippedEvent,
+  ICircuitBreakerResetEvent,
+  ICircuitBreakerRejectedEvent,
+  ICircuitBreakerProbeAdmittedEvent,
+  ICircuitBreakerSuccessEvent,
+  ICircuitBreakerFailureEvent,
+  ICircuitBreakerIgnoredEvent,
+  ICircuitBreakerSlowCallEvent,
+} from './sentinels/interfaces/circuit_breaker_events';
 import ITripReasonAuthority from './sentinels/interfaces/trip_reason_authority';
 import ICircuitBreakerPolicy, {
   OnRequestToOpen,
   OnTerminatingRequest,
 } from './sentinels/interfaces/circuit_breaker_policy';
 import IDefaultCircuitBreakerPolicyConfig from './sentinels/interfaces/default_circuit_breaker_policy_config';
+import IExecutionCircuitBreakerOptions from './sentinels/interfaces/execution_circuit_breaker_options';
+import IExecuteAsyncOptions, { Fallback, AsyncFallback, IExecuteOptions } from './sentinels/interfaces/execute_options';
+import IRollingWindowOptions from './sentinels/interfaces/rolling_window_options';
+import IRollingWindowCounts from './sentinels/interfaces/rolling_window_counts';
+import IBulkheadOptions from './sentinels/interfaces/bulkhead_options';
+import IBulkheadExecuteOptions from './sentinels/interfaces/bulkhead_execute_options';
+import IRateLimiterExecuteOptions from './sentinels/interfaces/rate_limiter_execute_options';
+import IBackoffStrategy from './sentinels/interfaces/backoff_strategy';
+import IRandomSource from './sentinels/interfaces/random_source';
+import IPipelineLayer from './sentinels/interfaces/pipeline_layer';
+import ICircuitBreakerRegistration from './sentinels/interfaces/circuit_breaker_registration';
+import IServiceSentinelEvents, {
+  IServiceSentinelHealthChangedEvent,
+} from './sentinels/interfaces/service_sentinel_events';
+import ISpan, { ISpanStatus, SpanAttributes, SpanAttributeValue } from './sentinels/interfaces/span';
+import ITracer, { ISpanOptions } from './sentinels/interfaces/tracer';
+import ISnapshottable from './sentinels/interfaces/snapshottable';
+import ICircuitBreakerSnapshot from './sentinels/interfaces/circuit_breaker_snapshot';
+import IServiceSentinelSnapshot from './sentinels/interfaces/service_sentinel_snapshot';
+import IRollingWindowBucket from './sentinels/interfaces/rolling_window_bucket';
+import ICircuitStateStore, { IStoredCircuitState } from './sentinels/interfaces/circuit_state_store';
+import IFileCircuitStateStoreOptions from './sentinels/interfaces/file_circuit_state_store_options';
+import ICircuitStateSynchronizerOptions from './sentinels/interfaces/circuit_state_synchronizer_options';
+import ISharedCircuitBreakerOptions from './sentinels/interfaces/shared_circuit_breaker_options';
+import ISharedCircuitBreakerCounts from './sentinels/interfaces/shared_circuit_breaker_counts';
 
 export {
   CircuitBreakerBase,
+  EventEmitterBase,
+  EventListener,
   CircuitBreakerPolicyBase,
   Action,
   AsyncAction,
   ExecutionCircuitBreakerBase,
+  RateLimiterBase,
+  BackoffStrategyBase,
   TripReasonAuthorityBase,
   CircuitBreaker,
+  NextRetryGetter,
   FailureDetector,
   RetryIntervalCalculator,
   ExecutionCircuitBreaker,
   ErrorCountGetter,
   ErrorIntervalGetter,
   ThresholdExecutionCircuitBreaker,
+  FailureRateThresholdGetter,
+  FailureRateExecutionCircuitBreaker,
+  SharedCircuitBreaker,
   DefaultCircuitBreakerPolicy,
   DefaultCircuitBreakerPolicyConfig,
   HealthCheck,
+  AsyncHealthCheck,
   MonitorIntervalGetter,
   ServiceSentinel,
   TogglableServiceSentinel,
   ExponentialBackoff,
+  RetryPredicate,
+  RetryExecutor,
+  HedgedExecutor,
+  ResiliencePipeline,
+  ResiliencePipelineBuilder,
+  BackoffStrategyFactory,
+  PipelineTimeoutError,
+  ExponentialBackoffStrategy,
+  LinearBackoffStrategy,
+  ConstantBackoffStrategy,
+  FibonacciBackoffStrategy,
+  DecorrelatedJitterBackoffStrategy,
+  SystemClock,
+  VirtualClock,
+  MathRandomSource,
+  SeededRandomSource,
+  RollingWindow,
+  MetricsCollector,
+  InMemoryTracer,
+  InMemorySpan,
+  IInMemorySpanEvent,
+  SnapshotFile,
+  SnapshotTargets,
+  InMemoryCircuitStateStore,
+  FileCircuitStateStore,
+  CircuitStateSynchronizer,
+  StoreErrorHandler,
+  SynchronizedCircuitBreaker,
+  Bulkhead,
+  CircuitBreakerRegistry,
+  CircuitBreakerFactory,
+  RegisteredCircuitBreaker,
+  TokenBucketRateLimiter,
+  SlidingLogRateLimiter,
+  IClock,
+  TimerCallback,
+  TimerHandle,
   ISentinel,
   ICircuitBreaker,
+  ICircuitStateTransition,
+  ICircuitBreakerEvents,
+  ICircuitBreakerEvent,
+  ICircuitBreakerTrippedEvent,
+  ICircuitBreakerResetEvent,
+  ICircuitBreakerRejectedEvent,
+  ICircuitBreakerProbeAdmittedEvent,
+  ICircuitBreakerSuccessEvent,
+  ICircuitBreakerFailureEvent,
+  ICircuitBreakerIgnoredEvent,
+  ICircuitBreakerSlowCallEvent,
   ITripReasonAuthority,
   OnRequestToOpen,
   OnTerminatingRequest,
   ICircuitBreakerPolicy,
   IDefaultCircuitBreakerPolicyConfig,
+  IExecutionCircuitBreakerOptions,
+  Fallback,
+  AsyncFallback,
+  IExecuteOptions,
+  IExecuteAsyncOptions,
+  IRollingWindowOptions,
+  IRollingWindowCounts,
+  IBulkheadOptions,
+  IBulkheadExecuteOptions,
+  IRateLimiterExecuteOptions,
+  IBackoffStrategy,
+  IRandomSource,
+  IPipelineLayer,
+  ICircuitBreakerRegistration,
+  IServiceSentinelEvents,
+  IServiceSentinelHealthChangedEvent,
+  ISpan,
+  ISpanStatus,
+  SpanAttributes,
+  SpanAttributeValue,
+  ITracer,
+  ISpanOptions,
+  ISnapshottable,
+  ICircuitBreakerSnapshot,
+  IServiceSentinelSnapshot,
+  IRollingWindowBucket,
+  ICircuitStateStore,
+  IStoredCircuitState,
+  IFileCircuitStateStoreOptions,
+  ICircuitStateSynchronizerOptions,
+  ISharedCircuitBreakerOptions,
+  ISharedCircuitBreakerCounts,
 };
@@ -0,0 +1,56 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+	File Name: constant_backoff_strategy.ts
+	Description: Backoff strategy that waits the same delay on every attempt.
+	Written by: Nikita Petko
+*/
+
+import BackoffStrategyBase from '../base/backoff_strategy_base';
+
+/**
+ * Backoff strategy that waits the same delay on every attempt.
+ */
+export default class ConstantBackoffStrategy extends BackoffStrategyBase {
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _delay: number;
+
+  /**
+   * Construct a new instance of the ConstantBackoffStrategy class.
+   * @param {number} delay The delay in milliseconds.
+   */
+  public constructor(delay: number) {
+    if (!(delay >= 0)) {
+      throw new Error('delay cannot be less than zero.');
+    }
+
+    super();
+
+    this._delay = delay;
+  }
+
+  /**
+   * Calculate the delay for the given attempt.
+   * @returns {number} The delay in milliseconds.
+   * @override
+   */
+  protected calculateDelay(): number {
+    return this._delay;
+  }
+}
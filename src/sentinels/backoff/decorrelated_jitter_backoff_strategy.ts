@@ -0,0 +1,98 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+	File Name: decorrelated_jitter_backoff_strategy.ts
+	Description: Backoff strategy that picks each delay at random based on the previous one.
+	Written by: Nikita Petko
+*/
+
+import IRandomSource from '../interfaces/random_source';
+import MathRandomSource from '../random/math_random_source';
+import BackoffStrategyBase from '../base/backoff_strategy_base';
+
+/**
+ * Backoff strategy that picks each delay at random between the base delay and three times the previous delay.
+ * @remarks This is the decorrelated jitter described in the AWS Architecture Blog post "Exponential Backoff And
+ * Jitter", which spreads retries out better than jittering an exponential delay.
+ */
+export default class DecorrelatedJitterBackoffStrategy extends BackoffStrategyBase {
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _baseDelay: number;
+
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _maxDelay: number;
+
+  /**
+   * @internal This is a private member.
+   */
+  private _previousDelay: number;
+
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _random: IRandomSource;
+
+  /**
+   * Construct a new instance of the DecorrelatedJitterBackoffStrategy class.
+   * @param {number} baseDelay The minimum delay in milliseconds.
+   * @param {number} maxDelay The maximum delay in milliseconds.
+   * @param {IRandomSource} random The source of random numbers, defaults to Math.random.
+   */
+  public constructor(baseDelay: number, maxDelay: number, random?: IRandomSource) {
+    if (!(baseDelay >= 0) || !(maxDelay >= 0)) {
+      throw new Error('baseDelay and maxDelay cannot be less than zero.');
+    }
+
+    super();
+
+    this._baseDelay = baseDelay;
+    this._maxDelay = maxDelay;
+    this._previousDelay = baseDelay;
+    this._random = random ?? MathRandomSource.instance;
+  }
+
+  /**
+   * Calculate the delay for the next attempt.
+   * @returns {number} The delay in milliseconds.
+   * @override
+   */
+  protected calculateDelay(): number {
+    const upper = Math.min(this._previousDelay * 3, this._maxDelay);
+    const delay = Math.min(
+      this._baseDelay + this._random.next() * Math.max(upper - this._baseDelay, 0),
+      this._maxDelay,
+    );
+
+    this._previousDelay = delay;
+
+    return delay;
+  }
+
+  /**
+   * Start a new sequence of retries.
+   * @override
+   */
+  public reset(): void {
+    super.reset();
+
+    this._previousDelay = this._baseDelay;
+  }
+}
@@ -0,0 +1,127 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+	File Name: exponential_backoff_strategy.ts
+	Description: Backoff strategy that doubles the delay on every attempt.
+	Written by: Nikita Petko
+*/
+
+import { Jitter } from '../enums/jitter';
+import IRandomSource from '../interfaces/random_source';
+import MathRandomSource from '../random/math_random_source';
+import BackoffStrategyBase from '../base/backoff_strategy_base';
+
+/**
+ * Backoff strategy that doubles the delay on every attempt, up to a maximum.
+ */
+export default class ExponentialBackoffStrategy extends BackoffStrategyBase {
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _baseDelay: number;
+
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _maxDelay: number;
+
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _jitter: Jitter;
+
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _random: IRandomSource;
+
+  /**
+   * Construct a new instance of the ExponentialBackoffStrategy class.
+   * @param {number} baseDelay The delay of the first attempt in milliseconds.
+   * @param {number} maxDelay The maximum delay in milliseconds.
+   * @param {Jitter} jitter The jitter applied to the delays, defaults to none.
+   * @param {IRandomSource} random The source of random numbers for the jitter, defaults to Math.random.
+   */
+  public constructor(baseDelay: number, maxDelay: number, jitter = Jitter.None, random?: IRandomSource) {
+    if (!(baseDelay >= 0) || !(maxDelay >= 0)) {
+      throw new Error('baseDelay and maxDelay cannot be less than zero.');
+    }
+
+    super();
+
+    this._baseDelay = baseDelay;
+    this._maxDelay = maxDelay;
+    this._jitter = jitter;
+    this._random = random ?? MathRandomSource.instance;
+  }
+
+  /**
+   * Calculate the exponential delay for the given attempt.
+   * @param {number} attempt The attempt number, starting from 1.
+   * @param {number} baseDelay The delay of the first attempt in milliseconds.
+   * @param {number} maxDelay The maximum delay in milliseconds.
+   * @param {Jitter} jitter The jitter applied to the delay.
+   * @param {IRandomSource} random The source of random numbers for the jitter, defaults to Math.random.
+   * @returns {number} The delay in milliseconds.
+   * @remarks The delay is capped before it is doubled past the maximum, so any attempt number is safe.
+   */
+  public static calculateDelay(
+    attempt: number,
+    baseDelay: number,
+    maxDelay: number,
+    jitter: Jitter,
+    random: IRandomSource = MathRandomSource.instance,
+  ): number {
+    const exponent = attempt - 1;
+
+    let delay: number;
+
+    if (baseDelay === 0) {
+      delay = 0;
+    } else if (exponent >= Math.log2(maxDelay / baseDelay)) {
+      delay = maxDelay;
+    } else {
+      delay = baseDelay * Math.pow(2, exponent);
+    }
+
+    const nextRandomValue = random.next();
+    switch (jitter) {
+      case Jitter.Full:
+        return delay * nextRandomValue;
+      case Jitter.Equal:
+        return delay * (0.5 + nextRandomValue * 0.5);
+      default:
+        return delay;
+    }
+  }
+
+  /**
+   * Calculate the delay for the given attempt.
+   * @param {number} attempt The attempt number, starting from 1.
+   * @returns {number} The delay in milliseconds.
+   * @override
+   */
+  protected calculateDelay(attempt: number): number {
+    return ExponentialBackoffStrategy.calculateDelay(
+      attempt,
+      this._baseDelay,
+      this._maxDelay,
+      this._jitter,
+      this._random,
+    );
+  }
+}
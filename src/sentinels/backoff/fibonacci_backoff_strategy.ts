@@ -0,0 +1,92 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+	File Name: fibonacci_backoff_strategy.ts
+	Description: Backoff strategy that grows the delay along the Fibonacci sequence.
+	Written by: Nikita Petko
+*/
+
+import BackoffStrategyBase from '../base/backoff_strategy_base';
+
+/**
+ * Backoff strategy that grows the delay along the Fibonacci sequence, up to a maximum.
+ * @remarks The delays are baseDelay × 1, 1, 2, 3, 5, 8 and so on.
+ */
+export default class FibonacciBackoffStrategy extends BackoffStrategyBase {
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _baseDelay: number;
+
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _maxDelay: number;
+
+  /**
+   * @internal This is a private member.
+   */
+  private _previous = 0;
+
+  /**
+   * @internal This is a private member.
+   */
+  private _current = 1;
+
+  /**
+   * Construct a new instance of the FibonacciBackoffStrategy class.
+   * @param {number} baseDelay The delay of the first attempt in milliseconds.
+   * @param {number} maxDelay The maximum delay in milliseconds.
+   */
+  public constructor(baseDelay: number, maxDelay: number) {
+    if (!(baseDelay >= 0) || !(maxDelay >= 0)) {
+      throw new Error('baseDelay and maxDelay cannot be less than zero.');
+    }
+
+    super();
+
+    this._baseDelay = baseDelay;
+    this._maxDelay = maxDelay;
+  }
+
+  /**
+   * Calculate the delay for the next attempt.
+   * @returns {number} The delay in milliseconds.
+   * @override
+   */
+  protected calculateDelay(): number {
+    const delay = Math.min(this._baseDelay * this._current, this._maxDelay);
+
+    // Stop advancing the sequence once the maximum is reached, so it never overflows.
+    if (delay < this._maxDelay) {
+      [this._previous, this._current] = [this._current, this._previous + this._current];
+    }
+
+    return delay;
+  }
+
+  /**
+   * Start a new sequence of retries.
+   * @override
+   */
+  public reset(): void {
+    super.reset();
+
+    this._previous = 0;
+    this._current = 1;
+  }
+}
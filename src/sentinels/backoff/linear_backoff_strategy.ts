@@ -0,0 +1,71 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+	File Name: linear_backoff_strategy.ts
+	Description: Backoff strategy that grows the delay by a fixed increment on every attempt.
+	Written by: Nikita Petko
+*/
+
+import BackoffStrategyBase from '../base/backoff_strategy_base';
+
+/**
+ * Backoff strategy that grows the delay by a fixed increment on every attempt, up to a maximum.
+ */
+export default class LinearBackoffStrategy extends BackoffStrategyBase {
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _baseDelay: number;
+
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _increment: number;
+
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _maxDelay: number;
+
+  /**
+   * Construct a new instance of the LinearBackoffStrategy class.
+   * @param {number} baseDelay The delay of the first attempt in milliseconds.
+   * @param {number} increment The amount the delay grows by on every attempt in milliseconds.
+   * @param {number} maxDelay The maximum delay in milliseconds.
+   */
+  public constructor(baseDelay: number, increment: number, maxDelay: number) {
+    if (!(baseDelay >= 0) || !(increment >= 0) || !(maxDelay >= 0)) {
+      throw new Error('baseDelay, increment and maxDelay cannot be less than zero.');
+    }
+
+    super();
+
+    this._baseDelay = baseDelay;
+    this._increment = increment;
+    this._maxDelay = maxDelay;
+  }
+
+  /**
+   * Calculate the delay for the given attempt.
+   * @param {number} attempt The attempt number, starting from 1.
+   * @returns {number} The delay in milliseconds.
+   * @override
+   */
+  protected calculateDelay(attempt: number): number {
+    return Math.min(this._baseDelay + this._increment * (attempt - 1), this._maxDelay);
+  }
+}
@@ -0,0 +1,63 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+	File Name: backoff_strategy_base.ts
+	Description: Base class for backoff strategies.
+	Written by: Nikita Petko
+*/
+
+import IBackoffStrategy from '../interfaces/backoff_strategy';
+
+/**
+ * Base class for backoff strategies.
+ */
+export default abstract class BackoffStrategyBase implements IBackoffStrategy {
+  /**
+   * @internal This is a private member.
+   */
+  private _attempt = 0;
+
+  /**
+   * The number of delays calculated since the strategy was created or reset.
+   * @returns {number} The attempt number of the last delay.
+   */
+  public get attempt(): number {
+    return this._attempt;
+  }
+
+  /**
+   * Calculate the delay for the given attempt.
+   * @param {number} attempt The attempt number, starting from 1.
+   * @returns {number} The delay in milliseconds.
+   */
+  protected abstract calculateDelay(attempt: number): number;
+
+  /**
+   * Calculate the delay before the next retry.
+   * @returns {number} The delay in milliseconds.
+   */
+  public nextDelay(): number {
+    return this.calculateDelay(++this._attempt);
+  }
+
+  /**
+   * Start a new sequence of retries.
+   */
+  public reset(): void {
+    this._attempt = 0;
+  }
+}
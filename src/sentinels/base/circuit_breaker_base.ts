@@ -20,7 +20,17 @@
 	Written by: Nikita Petko
 */
 
+/* eslint-disable @typescript-eslint/no-unused-vars */
+
+import EventEmitterBase from './event_emitter_base';
+import IClock from '../interfaces/clock';
+import SystemClock from '../clocks/system_clock';
+import { CircuitState } from '../enums/circuit_state';
 import ICircuitBreaker from '../interfaces/circuit_breaker';
+import ICircuitBreakerEvents from '../interfaces/circuit_breaker_events';
+import ISnapshottable from '../interfaces/snapshottable';
+import ICircuitBreakerSnapshot from '../interfaces/circuit_breaker_snapshot';
+import ICircuitStateTransition from '../interfaces/circuit_state_transition';
 
 /**
  * Error thrown when the circuit breaker is tripped.
@@ -40,35 +50,231 @@ export class CircuitBreakerError extends Error {
 /**
  * Base class for circuit breakers.
  */
-export default abstract class CircuitBreakerBase implements ICircuitBreaker {
+export default abstract class CircuitBreakerBase
+  extends EventEmitterBase<ICircuitBreakerEvents>
+  implements ICircuitBreaker, ISnapshottable<ICircuitBreakerSnapshot>
+{
+  /**
+   * The maximum number of state transitions kept in the transition history.
+   */
+  public static readonly maxTransitionHistory = 100;
+
   /**
    * @internal This is a private member.
    */
-  private _isTripped = false;
+  private _state: CircuitState = CircuitState.Closed;
 
   /**
-   * The name of the circuit breaker.
+   * @internal This is a private member.
    */
-  protected abstract get name(): string;
+  private _trippedAt: Date | undefined;
 
   /**
-   * The date when the circuit breaker was tripped.
-   * If the circuit breaker is not tripped, this value is undefined.
+   * @internal This is a private member.
    */
-  protected trippedAt: Date | undefined;
+  private readonly _transitions: ICircuitStateTransition[] = [];
+
+  /**
+   * The clock used to tell the time.
+   */
+  protected readonly clock: IClock;
+
+  /**
+   * Construct a new instance of the CircuitBreakerBase class.
+   * @param {IClock} clock The clock used to tell the time, defaults to the system clock.
+   */
+  public constructor(clock?: IClock) {
+    super();
+
+    this.clock = clock ?? SystemClock.instance;
+  }
+
+  /**
+   * The name of the circuit breaker.
+   */
+  protected abstract get name(): string;
 
   /**
    * Gets the current date time.
    */
   protected get now(): Date {
-    return new Date();
+    return new Date(this.clock.now());
+  }
+
+  /**
+   * The date when the circuit breaker schedules its next retry once tripped.
+   * Circuit breakers without a retry window never become half-open.
+   */
+  protected get scheduledRetry(): Date | undefined {
+    return undefined;
   }
 
   /**
    * Is the circuit breaker tripped?
    */
   public get isTripped(): boolean {
-    return this._isTripped;
+    const state = this.loadState();
+
+    return state === CircuitState.Open || state === CircuitState.HalfOpen || state === CircuitState.ForcedOpen;
+  }
+
+  /**
+   * The current state of the circuit breaker.
+   */
+  public get state(): CircuitState {
+    if (this.loadState() === CircuitState.Open) {
+      const scheduledRetry = this.scheduledRetry;
+
+      if (scheduledRetry !== undefined && this.now.getTime() >= scheduledRetry.getTime()) {
+        this.transitionFrom([CircuitState.Open], CircuitState.HalfOpen, scheduledRetry);
+      }
+    }
+
+    return this.loadState();
+  }
+
+  /**
+   * The date when the circuit breaker was tripped.
+   * If the circuit breaker is not tripped, this value is undefined.
+   */
+  public get trippedAt(): Date | undefined {
+    return this.loadTrippedAt();
+  }
+
+  /**
+   * The date when the circuit breaker will next admit a probe request.
+   * If no retry is scheduled, this value is undefined.
+   */
+  public get nextRetryAt(): Date | undefined {
+    const state = this.loadState();
+
+    if (state !== CircuitState.Open && state !== CircuitState.HalfOpen) {
+      return undefined;
+    }
+
+    return this.scheduledRetry;
+  }
+
+  /**
+   * The most recent state transitions of the circuit breaker, oldest first.
+   */
+  public get transitions(): ICircuitStateTransition[] {
+    return [...this._transitions];
+  }
+
+  /**
+   * Is the circuit breaker in a forced state?
+   */
+  protected get isForced(): boolean {
+    const state = this.loadState();
+
+    return state === CircuitState.ForcedOpen || state === CircuitState.ForcedClosed;
+  }
+
+  /**
+   * Read the stored state, without moving a circuit breaker whose retry is due to half-open.
+   * Circuit breakers that keep their state elsewhere override this along with compareExchangeState.
+   * @returns {CircuitState} The stored state.
+   */
+  protected loadState(): CircuitState {
+    return this._state;
+  }
+
+  /**
+   * Store the given state, unless the stored state is no longer the expected one.
+   * @param {CircuitState} expected The state the circuit breaker is expected to be in.
+   * @param {CircuitState} state The state to store.
+   * @returns {boolean} True if the state was stored, or false if the stored state had changed.
+   */
+  protected compareExchangeState(expected: CircuitState, state: CircuitState): boolean {
+    if (this._state !== expected) {
+      return false;
+    }
+
+    this._state = state;
+
+    return true;
+  }
+
+  /**
+   * Read the stored date when the circuit breaker was tripped.
+   * @returns {Date | undefined} The date when the circuit breaker was tripped, or undefined if it is not tripped.
+   */
+  protected loadTrippedAt(): Date | undefined {
+    return this._trippedAt;
+  }
+
+  /**
+   * Store the date when the circuit breaker was tripped.
+   * @param {Date | undefined} trippedAt The date when the circuit breaker was tripped, or undefined once it is not.
+   */
+  protected storeTrippedAt(trippedAt: Date | undefined): void {
+    this._trippedAt = trippedAt;
+  }
+
+  /**
+   * Invoked once the circuit breaker has tripped, before the tripped event is emitted.
+   * Circuit breakers that schedule a retry override this.
+   * @param {Date} trippedAt The date when the circuit breaker was tripped.
+   */
+  protected onTripped(trippedAt: Date): void {
+    // Nothing to schedule by default.
+  }
+
+  /**
+   * @internal This is a private member.
+   * @param {CircuitState} from The state moved from.
+   * @param {CircuitState} to The state moved to.
+   * @param {Date} at The date of the transition.
+   */
+  private _recordTransition(from: CircuitState, to: CircuitState, at: Date): void {
+    this._transitions.push({ from, to, at });
+
+    if (this._transitions.length > CircuitBreakerBase.maxTransitionHistory) {
+      this._transitions.shift();
+    }
+  }
+
+  /**
+   * Move the circuit breaker to the given state and record the transition.
+   * @param {CircuitState} state The state to move to.
+   * @param {Date} at The date of the transition, defaults to now.
+   */
+  protected transitionTo(state: CircuitState, at: Date = this.now): void {
+    let from: CircuitState;
+
+    do {
+      from = this.loadState();
+
+      if (from === state) {
+        return;
+      }
+    } while (!this.compareExchangeState(from, state));
+
+    this._recordTransition(from, state, at);
+  }
+
+  /**
+   * Move the circuit breaker to the given state if it is in one of the expected states, and record the transition.
+   * @param {CircuitState[]} expected The states the circuit breaker may be moved from.
+   * @param {CircuitState} state The state to move to.
+   * @param {Date} at The date of the transition, defaults to now.
+   * @returns {boolean} True if the circuit breaker was moved, or false if it was in none of the expected states.
+   */
+  protected transitionFrom(expected: readonly CircuitState[], state: CircuitState, at: Date = this.now): boolean {
+    let from: CircuitState;
+
+    do {
+      from = this.loadState();
+
+      if (!expected.includes(from)) {
+        return false;
+      }
+    } while (!this.compareExchangeState(from, state));
+
+    this._recordTransition(from, state, at);
+
+    return true;
   }
 
   /**
@@ -76,12 +282,18 @@ export default abstract class CircuitBreakerBase implements ICircuitBreaker {
    * @returns {boolean} True if the circuit breaker was reset, false otherwise.
    */
   public reset(): boolean {
-    if (!this._isTripped) {
+    const now = this.now;
+    const trippedAt = this.loadTrippedAt();
+
+    if (!this.transitionFrom([CircuitState.Open, CircuitState.HalfOpen], CircuitState.Closed, now)) {
       return false;
     }
 
-    this._isTripped = false;
-    this.trippedAt = undefined;
+    const trippedFor = now.getTime() - (trippedAt?.getTime() ?? now.getTime());
+
+    this.storeTrippedAt(undefined);
+
+    this.emit('reset', { name: this.name, timestamp: now, trippedFor });
 
     return true;
   }
@@ -91,33 +303,142 @@ export default abstract class CircuitBreakerBase implements ICircuitBreaker {
    * @throws {Error} If the circuit breaker is tripped.
    */
   public test(): void {
-    if (this._isTripped) {
-      throw this.getTripError();
+    if (this.isTripped) {
+      const error = this.getTripError();
+
+      this.emit('rejected', { name: this.name, timestamp: this.now, error });
+
+      throw error;
     }
   }
 
   /**
-   * Trips the circuit breaker.
+   * Trips the circuit breaker. A half-open circuit breaker is reopened.
    * @returns {boolean} True if the circuit breaker was tripped, false otherwise.
    */
   public trip(): boolean {
-    if (this._isTripped) {
+    return this.tripWithCause(undefined);
+  }
+
+  /**
+   * Trips the circuit breaker because of the given error. A half-open circuit breaker is reopened.
+   * @param {Error | undefined} cause The error that caused the trip, or undefined if tripped manually.
+   * @returns {boolean} True if the circuit breaker was tripped, false otherwise.
+   */
+  protected tripWithCause(cause: Error | undefined): boolean {
+    const trippedAt = this.now;
+
+    if (!this.transitionFrom([CircuitState.Closed, CircuitState.HalfOpen], CircuitState.Open, trippedAt)) {
+      return false;
+    }
+
+    this.storeTrippedAt(trippedAt);
+    this.onTripped(trippedAt);
+
+    this.emit('tripped', {
+      name: this.name,
+      timestamp: trippedAt,
+      error: cause,
+      nextRetryAt: this.nextRetryAt,
+    });
+
+    return true;
+  }
+
+  /**
+   * Forces the circuit breaker open until the forced state is cleared.
+   * @returns {boolean} True if the state was changed, false otherwise.
+   */
+  public forceOpen(): boolean {
+    const trippedAt = this.now;
+    const expected = [CircuitState.Closed, CircuitState.Open, CircuitState.HalfOpen, CircuitState.ForcedClosed];
+
+    if (!this.transitionFrom(expected, CircuitState.ForcedOpen, trippedAt)) {
+      return false;
+    }
+
+    this.storeTrippedAt(trippedAt);
+
+    return true;
+  }
+
+  /**
+   * Forces the circuit breaker closed until the forced state is cleared.
+   * @returns {boolean} True if the state was changed, false otherwise.
+   */
+  public forceClosed(): boolean {
+    const expected = [CircuitState.Closed, CircuitState.Open, CircuitState.HalfOpen, CircuitState.ForcedOpen];
+
+    if (!this.transitionFrom(expected, CircuitState.ForcedClosed)) {
+      return false;
+    }
+
+    this.storeTrippedAt(undefined);
+
+    return true;
+  }
+
+  /**
+   * Clears a forced state, closing the circuit breaker.
+   * @returns {boolean} True if a forced state was cleared, false otherwise.
+   */
+  public clearForcedState(): boolean {
+    if (!this.transitionFrom([CircuitState.ForcedOpen, CircuitState.ForcedClosed], CircuitState.Closed)) {
       return false;
     }
 
-    this._isTripped = true;
-    this.trippedAt = this.now;
+    this.storeTrippedAt(undefined);
 
     return true;
   }
 
+  /**
+   * Capture the state of the circuit breaker, so that it can be restored after a restart.
+   * @returns {ICircuitBreakerSnapshot} A JSON-serializable snapshot of the state.
+   */
+  public snapshot(): ICircuitBreakerSnapshot {
+    return {
+      name: this.name,
+      state: this.state,
+      trippedAt: this.loadTrippedAt()?.toISOString(),
+      nextRetryAt: this.nextRetryAt?.toISOString(),
+      counters: {},
+    };
+  }
+
+  /**
+   * Restore the state captured in the given snapshot. No events are emitted.
+   * @param {ICircuitBreakerSnapshot} snapshot The snapshot to restore.
+   * @throws {Error} If the snapshot was taken from a circuit breaker with another name.
+   */
+  public restore(snapshot: ICircuitBreakerSnapshot): void {
+    if (snapshot === undefined || snapshot === null) {
+      throw new Error('snapshot cannot be null or undefined.');
+    }
+
+    if (snapshot.name !== this.name) {
+      throw new Error(`The snapshot of '${snapshot.name}' cannot be restored into '${this.name}'.`);
+    }
+
+    if (CircuitState[snapshot.state] === undefined) {
+      throw new Error(`The snapshot of '${snapshot.name}' has an unknown state: ${snapshot.state}.`);
+    }
+
+    // Probes in flight did not survive the snapshot, so a half-open circuit breaker starts over as open.
+    const state = snapshot.state === CircuitState.HalfOpen ? CircuitState.Open : snapshot.state;
+    const isTripped = state === CircuitState.Open || state === CircuitState.ForcedOpen;
+
+    this.transitionTo(state);
+    this.storeTrippedAt(isTripped ? new Date(snapshot.trippedAt ?? this.now.getTime()) : undefined);
+  }
+
   /**
    * Get the trip error.
    * @returns {Error} The trip error.
    */
   public getTripError(): Error {
     const now = this.now.getTime();
-    const trippedAt = now - (this.trippedAt?.getTime() ?? now);
+    const trippedAt = now - (this.loadTrippedAt()?.getTime() ?? now);
     const seconds = trippedAt / 1000;
 
     return new CircuitBreakerError(`'${this.name}' has been tripped for ${seconds} seconds.`);
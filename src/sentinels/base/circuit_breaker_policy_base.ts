@@ -20,7 +20,13 @@
 	Written by: Nikita Petko
 */
 
+/* eslint-disable @typescript-eslint/no-unused-vars */
+
+import EventEmitterBase from './event_emitter_base';
+import IClock from '../interfaces/clock';
+import SystemClock from '../clocks/system_clock';
 import ITripReasonAuthority from '../interfaces/trip_reason_authority';
+import ICircuitBreakerEvents from '../interfaces/circuit_breaker_events';
 import ICircuitBreakerPolicy, { OnRequestToOpen, OnTerminatingRequest } from '../interfaces/circuit_breaker_policy';
 
 /**
@@ -28,6 +34,7 @@ import ICircuitBreakerPolicy, { OnRequestToOpen, OnTerminatingRequest } from '..
  * @template TExecutionContext The type of the execution context.
  */
 export default abstract class CircuitBreakerPolicyBase<TExecutionContext>
+  extends EventEmitterBase<ICircuitBreakerEvents>
   implements ICircuitBreakerPolicy<TExecutionContext>
 {
   /**
@@ -35,16 +42,46 @@ export default abstract class CircuitBreakerPolicyBase<TExecutionContext>
    */
   private readonly _tripReasonAuthority: ITripReasonAuthority<TExecutionContext>;
 
+  /**
+   * The clock used to tell the time.
+   */
+  protected readonly clock: IClock;
+
   /**
    * Construct a new instance of the CircuitBreakerPolicyBase class.
    * @param {ITripReasonAuthority<TExecutionContext>} tripReasonAuthority The trip reason authority.
+   * @param {IClock} clock The clock used to tell the time, defaults to the system clock.
    */
-  protected constructor(tripReasonAuthority: ITripReasonAuthority<TExecutionContext>) {
+  protected constructor(tripReasonAuthority: ITripReasonAuthority<TExecutionContext>, clock?: IClock) {
     if (tripReasonAuthority === undefined || tripReasonAuthority === null) {
       throw new Error('The trip reason authority cannot be null or undefined.');
     }
 
+    super();
+
     this._tripReasonAuthority = tripReasonAuthority;
+    this.clock = clock ?? SystemClock.instance;
+  }
+
+  /**
+   * Gets the current date time.
+   */
+  protected get now(): Date {
+    return new Date(this.clock.now());
+  }
+
+  /**
+   * The name of the policy, used in emitted events.
+   */
+  protected get name(): string {
+    return this.constructor.name;
+  }
+
+  /**
+   * The date when the policy schedules its next retry once tripped, used in emitted events.
+   */
+  protected get scheduledRetry(): Date | undefined {
+    return undefined;
   }
 
   /**
@@ -65,9 +102,14 @@ export default abstract class CircuitBreakerPolicyBase<TExecutionContext>
   public notifyRequestFinished(executionContext: TExecutionContext, error: Error): void {
     try {
       if (this._tripReasonAuthority.isReasonForTrip(executionContext, error)) {
+        this.emit('failure', { name: this.name, timestamp: this.now, error, duration: undefined });
         this.onRequestToOpen?.();
-        this.tryToTripCircuitBreaker(executionContext);
+
+        if (this.tryToTripCircuitBreaker(executionContext)) {
+          this.emit('tripped', { name: this.name, timestamp: this.now, error, nextRetryAt: this.scheduledRetry });
+        }
       } else {
+        this.emit('success', { name: this.name, timestamp: this.now, duration: undefined });
         this.onSuccessfulRequest(executionContext);
       }
     } finally {
@@ -75,6 +117,18 @@ export default abstract class CircuitBreakerPolicyBase<TExecutionContext>
     }
   }
 
+  /**
+   * Notify the policy that the caller cancelled a request, which counts as neither a success nor a failure.
+   * @param {TExecutionContext} executionContext The execution context.
+   */
+  public notifyRequestCancelled(executionContext: TExecutionContext): void {
+    try {
+      this.onCancelledRequest(executionContext);
+    } finally {
+      this.onNotified(executionContext);
+    }
+  }
+
   /**
    * Throw if the circuit breaker is tripped.
    * @param {TExecutionContext} executionContext The execution context.
@@ -86,6 +140,7 @@ export default abstract class CircuitBreakerPolicyBase<TExecutionContext>
       return;
     }
 
+    this.emit('rejected', { name: this.name, timestamp: this.now, error: ex });
     this.onTerminatingRequest?.();
     throw ex;
   }
@@ -111,6 +166,15 @@ export default abstract class CircuitBreakerPolicyBase<TExecutionContext>
    */
   protected abstract onSuccessfulRequest(executionContext: TExecutionContext): void;
 
+  /**
+   * An action to perform when the caller cancelled a request.
+   * @param {TExecutionContext} executionContext The execution context.
+   * @returns {void}
+   */
+  protected onCancelledRequest(executionContext: TExecutionContext): void {
+    // Nothing to release by default.
+  }
+
   /**
    * An action to perform when the policy is notified.
    * @param {TExecutionContext} executionContext The execution context.
@@ -0,0 +1,176 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+	File Name: event_emitter_base.ts
+	Description: Base class for components that emit typed events.
+	Written by: Nikita Petko
+*/
+
+import { EventEmitter } from 'events';
+import ITracer from '../interfaces/tracer';
+import { SpanStatusCode } from '../enums/span_status_code';
+import ISpan, { SpanAttributes } from '../interfaces/span';
+
+/**
+ * Represents a listener for an event with the given payload.
+ * @param {TPayload} payload The event payload.
+ */
+export type EventListener<TPayload> = (payload: TPayload) => void;
+
+/**
+ * Base class for components that emit typed events.
+ * @template TEvents A map of event names to their payload types.
+ */
+export default abstract class EventEmitterBase<TEvents extends object> {
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _emitter = new EventEmitter();
+
+  /**
+   * The tracer that records every emitted event, if any.
+   * Events are added to the active span when there is one, and recorded as short spans of their own otherwise.
+   */
+  public tracer: ITracer | undefined;
+
+  /**
+   * The span of the call being executed, which emitted events are added to.
+   * @returns {ISpan | undefined} The active span, or undefined if there is none.
+   */
+  protected get activeSpan(): ISpan | undefined {
+    return undefined;
+  }
+
+  /**
+   * @internal This is a private member.
+   * @param {Record<string, unknown>} payload The event payload.
+   * @returns {SpanAttributes} The span attributes for the payload.
+   */
+  private static _toAttributes(payload: Record<string, unknown>): SpanAttributes {
+    const attributes: SpanAttributes = {};
+
+    for (const [key, value] of Object.entries(payload)) {
+      if (key === 'timestamp') {
+        continue;
+      }
+
+      const attribute = `sentinels.${key.replace(/[A-Z]/g, (letter) => `_${letter.toLowerCase()}`)}`;
+
+      if (value instanceof Date) {
+        attributes[attribute] = value.toISOString();
+      } else if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+        attributes[attribute] = value;
+      }
+    }
+
+    return attributes;
+  }
+
+  /**
+   * @internal This is a private member.
+   * @param {string} event The event name.
+   * @param {unknown} payload The event payload.
+   */
+  private _trace(event: string, payload: unknown): void {
+    const activeSpan = this.activeSpan;
+
+    if (activeSpan === undefined && this.tracer === undefined) {
+      return;
+    }
+
+    const name = `sentinels.${event}`;
+    const fields = (payload ?? {}) as Record<string, unknown>;
+    const attributes = EventEmitterBase._toAttributes(fields);
+    const error = fields.error as Error | undefined;
+
+    if (activeSpan !== undefined) {
+      activeSpan.addEvent(name, attributes);
+
+      if (error !== undefined) {
+        activeSpan.recordException(error);
+      }
+
+      return;
+    }
+
+    const span = this.tracer.startSpan(name, { attributes });
+
+    if (error !== undefined) {
+      span.recordException(error);
+      span.setStatus({ code: SpanStatusCode.Error, message: error?.message });
+    }
+
+    span.end();
+  }
+
+  /**
+   * Add a listener for the given event.
+   * @param {TEvent} event The event name.
+   * @param {EventListener} listener The listener.
+   * @returns {this} This instance, for chaining.
+   */
+  public on<TEvent extends keyof TEvents & string>(event: TEvent, listener: EventListener<TEvents[TEvent]>): this {
+    this._emitter.on(event, listener);
+
+    return this;
+  }
+
+  /**
+   * Add a listener that is invoked at most once for the given event.
+   * @param {TEvent} event The event name.
+   * @param {EventListener} listener The listener.
+   * @returns {this} This instance, for chaining.
+   */
+  public once<TEvent extends keyof TEvents & string>(event: TEvent, listener: EventListener<TEvents[TEvent]>): this {
+    this._emitter.once(event, listener);
+
+    return this;
+  }
+
+  /**
+   * Remove a listener for the given event.
+   * @param {TEvent} event The event name.
+   * @param {EventListener} listener The listener.
+   * @returns {this} This instance, for chaining.
+   */
+  public off<TEvent extends keyof TEvents & string>(event: TEvent, listener: EventListener<TEvents[TEvent]>): this {
+    this._emitter.off(event, listener);
+
+    return this;
+  }
+
+  /**
+   * Get the number of listeners for the given event.
+   * @param {TEvent} event The event name.
+   * @returns {number} The number of listeners.
+   */
+  public listenerCount<TEvent extends keyof TEvents & string>(event: TEvent): number {
+    return this._emitter.listenerCount(event);
+  }
+
+  /**
+   * Emit the given event to its listeners, and to the tracer.
+   * @param {TEvent} event The event name.
+   * @param {object} payload The event payload.
+   * @returns {boolean} True if the event had listeners, otherwise false.
+   */
+  protected emit<TEvent extends keyof TEvents & string>(event: TEvent, payload: TEvents[TEvent]): boolean {
+    this._trace(event, payload);
+
+    return this._emitter.emit(event, payload);
+  }
+}
@@ -20,18 +20,105 @@
 	Written by: Nikita Petko
 */
 
-import CircuitBreakerBase, { CircuitBreakerError } from './circuit_breaker_base';
+/* eslint-disable @typescript-eslint/no-unused-vars */
+
+import CircuitBreakerBase from './circuit_breaker_base';
+import { CircuitState } from '../enums/circuit_state';
+import { FailureSource } from '../enums/failure_source';
+import { SpanStatusCode } from '../enums/span_status_code';
+import ISpan from '../interfaces/span';
+import RollingWindow from '../statistics/rolling_window';
+import IRollingWindowCounts from '../interfaces/rolling_window_counts';
+import ICircuitBreakerSnapshot from '../interfaces/circuit_breaker_snapshot';
+import IExecutionCircuitBreakerOptions from '../interfaces/execution_circuit_breaker_options';
+import IExecuteAsyncOptions, { Fallback, AsyncFallback, IExecuteOptions } from '../interfaces/execute_options';
 
 /**
  * Represents a function that can be executed by an execution circuit breaker.
+ * @template TResult The type of the result of the function.
+ * @returns {TResult} The result of the function.
  */
-export type Action = () => void;
+export type Action<TResult = void> = () => TResult;
 
 /**
  * Represents a function that can be executed by an execution circuit breaker asynchronously.
- * @returns {Promise<void>} A promise that resolves when the function has completed.
+ * @template TResult The type of the result of the function.
+ * @param {AbortSignal} signal The signal that is aborted when the call times out.
+ * @returns {Promise<TResult>} A promise that resolves with the result of the function when it has completed.
+ */
+export type AsyncAction<TResult = void> = (signal: AbortSignal) => Promise<TResult>;
+
+/**
+ * Error thrown when a call executed by an execution circuit breaker times out.
  */
-export type AsyncAction = () => Promise<void>;
+export class TimeoutError extends Error {
+  /**
+   * The timeout that expired, in milliseconds.
+   */
+  public readonly timeout: number;
+
+  /**
+   * Construct a new instance of the TimeoutError class.
+   * @param {string} name The name of the circuit breaker.
+   * @param {number} timeout The timeout that expired, in milliseconds.
+   */
+  public constructor(name: string, timeout: number) {
+    super(`The call through the circuit breaker '${name}' timed out after ${timeout}ms.`);
+
+    this.name = 'Timeout Error';
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * Error used as the cause when slow calls trip an execution circuit breaker.
+ */
+export class SlowCallError extends Error {
+  /**
+   * How long the call that tripped the circuit breaker took, in milliseconds.
+   */
+  public readonly duration: number;
+
+  /**
+   * Construct a new instance of the SlowCallError class.
+   * @param {string} name The name of the circuit breaker.
+   * @param {number} duration How long the call took, in milliseconds.
+   */
+  public constructor(name: string, duration: number) {
+    super(`The circuit breaker '${name}' was tripped by slow calls, the last taking ${duration}ms.`);
+
+    this.name = 'SlowCall Error';
+    this.duration = duration;
+  }
+}
+
+/**
+ * Error thrown when the fallback of a failed call fails too.
+ */
+export class FallbackError extends Error {
+  /**
+   * The error the call failed with.
+   */
+  public readonly primaryError: Error;
+
+  /**
+   * The error the fallback failed with.
+   */
+  public readonly fallbackError: Error;
+
+  /**
+   * Construct a new instance of the FallbackError class.
+   * @param {Error} primaryError The error the call failed with.
+   * @param {Error} fallbackError The error the fallback failed with.
+   */
+  public constructor(primaryError: Error, fallbackError: Error) {
+    super(`The fallback failed after the call failed: ${fallbackError?.message}`, { cause: fallbackError });
+
+    this.name = 'Fallback Error';
+    this.primaryError = primaryError;
+    this.fallbackError = fallbackError;
+  }
+}
 
 /**
  * Base class for execution circuit breakers.
@@ -50,8 +137,123 @@ export default abstract class ExecutionCircuitBreakerBase extends CircuitBreaker
   /**
    * @internal This is a private member.
    */
-  private get _isTimeForRetry(): boolean {
-    return super.now.getTime() >= this._nextRetry.getTime();
+  private _activeProbes = 0;
+
+  /**
+   * @internal This is a private member.
+   */
+  private _successfulProbes = 0;
+
+  /**
+   * @internal This is a private member.
+   */
+  private _halfOpenEpoch = 0;
+
+  /**
+   * @internal This is a private member.
+   */
+  private _activeSpan: ISpan | undefined;
+
+  /**
+   * The optional settings of the circuit breaker.
+   */
+  protected readonly options: IExecutionCircuitBreakerOptions;
+
+  /**
+   * The rolling window the call statistics are recorded in.
+   */
+  protected readonly rollingWindow: RollingWindow;
+
+  /**
+   * Construct a new instance of the ExecutionCircuitBreakerBase class.
+   * @param {IExecutionCircuitBreakerOptions} options The optional settings of the circuit breaker.
+   */
+  protected constructor(options?: IExecutionCircuitBreakerOptions) {
+    super(options?.clock);
+
+    options = options ?? {};
+
+    if (options.halfOpenMaxProbes !== undefined && options.halfOpenMaxProbes < 1) {
+      throw new Error('The halfOpenMaxProbes option cannot be less than one.');
+    }
+
+    if (options.slowCallDuration !== undefined && !(options.slowCallDuration > 0)) {
+      throw new Error('The slowCallDuration option must be greater than zero.');
+    }
+
+    if (
+      options.slowCallRateThreshold !== undefined &&
+      !(options.slowCallRateThreshold > 0 && options.slowCallRateThreshold <= 100)
+    ) {
+      throw new Error('The slowCallRateThreshold option must be greater than zero and at most 100.');
+    }
+
+    if (options.slowCallCountThreshold !== undefined && options.slowCallCountThreshold < 1) {
+      throw new Error('The slowCallCountThreshold option cannot be less than one.');
+    }
+
+    if (options.minimumCalls !== undefined && options.minimumCalls < 0) {
+      throw new Error('The minimumCalls option cannot be less than zero.');
+    }
+
+    if (options.timeout !== undefined && !(options.timeout > 0)) {
+      throw new Error('The timeout option must be greater than zero.');
+    }
+
+    this.options = options;
+    this.rollingWindow = new RollingWindow(
+      options.rollingWindow?.bucketCount,
+      options.rollingWindow?.bucketDuration,
+      this.clock,
+    );
+  }
+
+  /**
+   * The span of the call being executed, which emitted events are added to.
+   * @returns {ISpan | undefined} The active span, or undefined if there is none.
+   * @override
+   */
+  protected get activeSpan(): ISpan | undefined {
+    return this._activeSpan;
+  }
+
+  /**
+   * The counts of the calls recorded in the rolling window, for diagnostics.
+   * @returns {IRollingWindowCounts} A snapshot of the counts.
+   */
+  public get statistics(): IRollingWindowCounts {
+    return this.rollingWindow.counts;
+  }
+
+  /**
+   * Was a rolling window configured for the circuit breaker to evaluate against?
+   */
+  protected get usesRollingWindow(): boolean {
+    return this.options.rollingWindow !== undefined;
+  }
+
+  /**
+   * The date when the circuit breaker schedules its next retry once tripped.
+   * @override
+   */
+  protected get scheduledRetry(): Date {
+    return this._nextRetry;
+  }
+
+  /**
+   * Store the date when the circuit breaker schedules its next retry.
+   * Circuit breakers that keep their state elsewhere override this along with the getter.
+   * @param {Date} value The date of the next retry.
+   */
+  protected set scheduledRetry(value: Date) {
+    this._nextRetry = value;
+  }
+
+  /**
+   * The half-open epoch, which moves on whenever the results of the probes in flight are to be discarded.
+   */
+  protected get halfOpenEpoch(): number {
+    return this._halfOpenEpoch;
   }
 
   /**
@@ -59,21 +261,286 @@ export default abstract class ExecutionCircuitBreakerBase extends CircuitBreaker
    */
   protected abstract get retryInterval(): number;
 
+  /**
+   * The maximum number of probe calls admitted concurrently while the circuit breaker is half-open.
+   */
+  protected get halfOpenMaxProbes(): number {
+    return this.options.halfOpenMaxProbes ?? 1;
+  }
+
+  /**
+   * Admit a probe call, unless as many probes as the circuit breaker allows are already in flight.
+   * @returns {number | undefined} The number of probes in flight including the new one, or undefined if it was not admitted.
+   */
+  protected acquireProbe(): number | undefined {
+    if (!this._shouldRetry || this._activeProbes >= this.halfOpenMaxProbes) {
+      return undefined;
+    }
+
+    return ++this._activeProbes;
+  }
+
+  /**
+   * Release a probe call admitted by acquireProbe once it has finished.
+   */
+  protected releaseProbe(): void {
+    this._activeProbes--;
+  }
+
+  /**
+   * Count a successful probe call of the given half-open epoch.
+   * @param {number} epoch The half-open epoch the probe was admitted in.
+   * @returns {number} The number of successful probes in the epoch, or zero if the epoch has ended.
+   */
+  protected countSuccessfulProbe(epoch: number): number {
+    if (epoch !== this._halfOpenEpoch) {
+      return 0;
+    }
+
+    return ++this._successfulProbes;
+  }
+
+  /**
+   * End the given half-open epoch, discarding the results of its probes, unless it has already ended.
+   * @param {number} epoch The half-open epoch to end.
+   */
+  protected endHalfOpenEpoch(epoch: number): void {
+    if (epoch !== this._halfOpenEpoch) {
+      return;
+    }
+
+    this._successfulProbes = 0;
+    this._halfOpenEpoch++;
+  }
+
+  /**
+   * Schedule the retry of the trip.
+   * @param {Date} trippedAt The date when the circuit breaker was tripped.
+   * @override
+   */
+  protected onTripped(trippedAt: Date): void {
+    this.scheduledRetry = new Date(trippedAt.getTime() + this.retryInterval);
+  }
+
   /**
    * @internal This is a private member.
+   * @returns {boolean} True if the call was admitted as a half-open probe, otherwise false.
    */
-  private _attemptToProceed(): void {
-    try {
-      this.test();
-    } catch (e) {
-      if (!(e instanceof CircuitBreakerError)) {
-        throw e;
+  private _attemptToProceed(): boolean {
+    if (this.state === CircuitState.HalfOpen) {
+      const activeProbes = this.acquireProbe();
+
+      if (activeProbes !== undefined) {
+        this.emit('probeAdmitted', { name: this.name, timestamp: super.now, activeProbes });
+
+        return true;
       }
+    }
 
-      if (!this._isTimeForRetry || !this._shouldRetry) {
-        throw e;
+    if (this.isTripped) {
+      this.rollingWindow.recordRejection();
+    }
+
+    this.test();
+
+    return false;
+  }
+
+  /**
+   * @internal This is a private member.
+   * @param {Error} error The error that was thrown.
+   * @param {boolean} isProbe Was the call admitted as a half-open probe?
+   * @param {number} epoch The half-open epoch the call was admitted in.
+   * @param {number} startedAt The time the call started, in milliseconds since the epoch.
+   */
+  private _onActionFailed(error: Error, isProbe: boolean, epoch: number, startedAt: number): void {
+    const now = super.now;
+    const duration = now.getTime() - startedAt;
+
+    const isFailure = this.isFailure(error);
+
+    if (isFailure) {
+      this.emit('failure', { name: this.name, timestamp: now, error, duration });
+      this.rollingWindow.recordFailure();
+      this.onFailedExecution();
+    } else {
+      this.emit('ignored', { name: this.name, timestamp: now, error, duration });
+      this.rollingWindow.recordSuccess();
+    }
+
+    const isSlow = this._recordDuration(duration, now);
+
+    let cause: Error | undefined;
+
+    // A failed probe reopens the circuit, whatever the trip policy would make of the error on its own.
+    if (isProbe && isFailure) {
+      cause = error;
+    } else if (this.shouldTrip(error)) {
+      cause = error;
+    } else if (isSlow && this._shouldTripOnSlowCall()) {
+      cause = new SlowCallError(this.name, duration);
+    }
+
+    // A call admitted before the circuit breaker tripped has its outcome recorded, but only probes have a say in reopening it.
+    if (!isProbe && this.isTripped) {
+      return;
+    }
+
+    if (cause !== undefined && this._hasMinimumThroughput) {
+      this._trip(cause, isProbe, epoch);
+    }
+  }
+
+  /**
+   * @internal This is a private member.
+   * @returns {boolean} True if enough calls have finished in the rolling window for the circuit breaker to trip.
+   */
+  private get _hasMinimumThroughput(): boolean {
+    // Probes always have a say, however few calls are in the window.
+    if (this.isTripped) {
+      return true;
+    }
+
+    const { successes, failures } = this.rollingWindow.counts;
+
+    return successes + failures >= (this.options.minimumCalls ?? 0);
+  }
+
+  /**
+   * @internal This is a private member.
+   * @param {number} duration How long the call took, in milliseconds.
+   * @param {Date} now The date when the call finished.
+   * @returns {boolean} True if the call was slow, otherwise false.
+   */
+  private _recordDuration(duration: number, now: Date): boolean {
+    if (this.options.slowCallDuration === undefined || duration < this.options.slowCallDuration) {
+      return false;
+    }
+
+    this.rollingWindow.recordSlowCall();
+    this.emit('slowCall', { name: this.name, timestamp: now, duration });
+
+    return true;
+  }
+
+  /**
+   * @internal This is a private member.
+   * @returns {boolean} True if the slow calls in the rolling window should trip the circuit breaker, otherwise false.
+   */
+  private _shouldTripOnSlowCall(): boolean {
+    const { slowCallRateThreshold, slowCallCountThreshold } = this.options;
+
+    if (slowCallRateThreshold === undefined && slowCallCountThreshold === undefined) {
+      return false;
+    }
+
+    // Only probes run while tripped, and any slow probe reopens the circuit.
+    if (this.isTripped) {
+      return true;
+    }
+
+    const { successes, failures, slowCalls } = this.rollingWindow.counts;
+
+    if (slowCallCountThreshold !== undefined && slowCalls >= slowCallCountThreshold) {
+      return true;
+    }
+
+    return slowCallRateThreshold !== undefined && (slowCalls / (successes + failures)) * 100 >= slowCallRateThreshold;
+  }
+
+  /**
+   * @internal This is a private member.
+   * @param {Error} cause The error that tripped the circuit breaker.
+   * @param {boolean} isProbe Was the call admitted as a half-open probe?
+   * @param {number} epoch The half-open epoch the call was admitted in.
+   */
+  private _trip(cause: Error, isProbe: boolean, epoch: number): void {
+    // A failed probe reopens the circuit, discarding the results of any other probes still in flight.
+    if (isProbe) {
+      this.endHalfOpenEpoch(epoch);
+    }
+
+    this.tripWithCause(cause);
+  }
+
+  /**
+   * @internal This is a private member.
+   * @template TResult The type of the result of the action.
+   * @param {AsyncAction<TResult>} action The action to run.
+   * @param {AbortController} controller The controller aborted once the timeout expires.
+   * @param {number} timeout The timeout in milliseconds, or undefined to wait for the action indefinitely.
+   * @returns {Promise<TResult>} A promise that settles with the action, or rejects with a TimeoutError once the timeout expires.
+   */
+  private _runWithTimeout<TResult>(
+    action: AsyncAction<TResult>,
+    controller: AbortController,
+    timeout: number | undefined,
+  ): Promise<TResult> {
+    if (timeout === undefined) {
+      return action(controller.signal);
+    }
+
+    return new Promise<TResult>((resolve, reject) => {
+      const timer = this.clock.setTimeout(() => {
+        const error = new TimeoutError(this.name, timeout);
+
+        this.rollingWindow.recordTimeout();
+        controller.abort(error);
+        reject(error);
+      }, timeout);
+
+      const settle = () => this.clock.clearTimeout(timer);
+
+      try {
+        action(controller.signal).then(
+          (result) => {
+            settle();
+            resolve(result);
+          },
+          (error) => {
+            settle();
+            reject(error);
+          },
+        );
+      } catch (e) {
+        settle();
+        reject(e);
       }
+    });
+  }
+
+  /**
+   * @internal This is a private member.
+   * @param {boolean} isProbe Was the call admitted as a half-open probe?
+   * @param {number} epoch The half-open epoch the call was admitted in.
+   * @param {number} startedAt The time the call started, in milliseconds since the epoch.
+   */
+  private _onActionSucceeded(isProbe: boolean, epoch: number, startedAt: number): void {
+    const now = super.now;
+    const duration = now.getTime() - startedAt;
+
+    this.emit('success', { name: this.name, timestamp: now, duration });
+    this.rollingWindow.recordSuccess();
+    this.onSuccessfulExecution();
+
+    const isSlow = this._recordDuration(duration, now);
+
+    // A call admitted before the circuit breaker tripped has its outcome recorded, but only probes have a say in closing it.
+    if (!isProbe && this.isTripped) {
+      return;
     }
+
+    if (isSlow && this._shouldTripOnSlowCall() && this._hasMinimumThroughput) {
+      this._trip(new SlowCallError(this.name, duration), isProbe, epoch);
+
+      return;
+    }
+
+    if (isProbe && this.countSuccessfulProbe(epoch) < this.halfOpenMaxProbes) {
+      return;
+    }
+
+    this.reset();
   }
 
   /**
@@ -84,50 +551,353 @@ export default abstract class ExecutionCircuitBreakerBase extends CircuitBreaker
   protected abstract shouldTrip(error: Error): boolean;
 
   /**
-   * Execute the given circuit action.
-   * @param {Action} action The action to execute.
+   * Is the given error counted as a failure in the call statistics?
+   * Errors that are not failures are counted as successes, while timeouts are always failures.
+   * @param {Error} error The error that was thrown.
+   * @returns {boolean} True if the error is a failure, false otherwise.
+   */
+  protected isFailure(error: Error): boolean {
+    return true;
+  }
+
+  /**
+   * Invoked when an action throws an error counted as a failure, before the circuit breaker decides whether to trip.
+   * Circuit breakers that track failures override this.
+   */
+  protected onFailedExecution(): void {
+    // Nothing to track by default.
+  }
+
+  /**
+   * Invoked when an action completes without throwing, before the circuit breaker is reset.
+   * Circuit breakers that track successes override this.
+   */
+  protected onSuccessfulExecution(): void {
+    // Nothing to track by default.
+  }
+
+  /**
+   * @internal This is a private member.
+   * @template TResult The type of the result.
+   * @param {Fallback<TResult>} fallback The fallback, or undefined to rethrow the error.
+   * @param {Error} error The error the call failed with.
+   * @param {FailureSource} source Where the failure came from.
+   * @returns {TResult} The result of the fallback.
    */
-  public execute(action: Action): void {
-    this._attemptToProceed();
+  private static _fallBack<TResult>(
+    fallback: Fallback<TResult> | undefined,
+    error: Error,
+    source: FailureSource,
+  ): TResult {
+    if (fallback === undefined) {
+      throw error;
+    }
 
     try {
-      action();
+      return fallback(error, source);
     } catch (e) {
-      if (this.shouldTrip(e)) {
-        this._nextRetry = new Date(super.now.getTime() + this.retryInterval);
-        this.trip();
-      }
+      throw new FallbackError(error, e);
+    }
+  }
+
+  /**
+   * @internal This is a private member.
+   * @template TResult The type of the result.
+   * @param {AsyncFallback<TResult>} fallback The fallback, or undefined to rethrow the error.
+   * @param {Error} error The error the call failed with.
+   * @param {FailureSource} source Where the failure came from.
+   * @returns {Promise<TResult>} A promise that resolves with the result of the fallback.
+   */
+  private static async _fallBackAsync<TResult>(
+    fallback: AsyncFallback<TResult> | undefined,
+    error: Error,
+    source: FailureSource,
+  ): Promise<TResult> {
+    if (fallback === undefined) {
+      throw error;
+    }
+
+    try {
+      return await fallback(error, source);
+    } catch (e) {
+      throw new FallbackError(error, e);
+    }
+  }
+
+  /**
+   * @internal This is a private member.
+   * @param {ISpan} span The span.
+   * @param {Error} error The error the call failed with, if it failed.
+   */
+  private static _endSpan(span: ISpan | undefined, error?: Error): void {
+    if (span === undefined) {
+      return;
+    }
+
+    if (error !== undefined) {
+      span.setStatus({ code: SpanStatusCode.Error, message: error?.message });
+    } else {
+      span.setStatus({ code: SpanStatusCode.Ok });
+    }
+
+    span.end();
+  }
+
+  /**
+   * @internal This is a private member.
+   * @returns {ISpan | undefined} The span of a new call, or undefined if there is no tracer.
+   */
+  private _startSpan(): ISpan | undefined {
+    return this.tracer
+      ?.startSpan('sentinels.execute')
+      .setAttribute('sentinels.name', this.name)
+      .setAttribute('sentinels.state', CircuitState[this.state]);
+  }
+
+  /**
+   * @internal This is a private member.
+   * @template T The type of the result of the function.
+   * @param {ISpan} span The span to add the events emitted by the function to.
+   * @param {Function} fn The function.
+   * @returns {T} The result of the function.
+   */
+  private _inSpan<T>(span: ISpan | undefined, fn: () => T): T {
+    const previous = this._activeSpan;
+
+    this._activeSpan = span;
+
+    try {
+      return fn();
+    } finally {
+      this._activeSpan = previous;
+    }
+  }
+
+  /**
+   * @internal This is a private member.
+   * @param {ISpan} span The span of the call.
+   * @returns {boolean} True if the call was admitted as a half-open probe, otherwise false.
+   */
+  private _admit(span: ISpan | undefined): boolean {
+    const isProbe = this._inSpan(span, () => this._attemptToProceed());
+
+    span?.setAttribute('sentinels.probe', isProbe).addEvent('sentinels.admitted');
+
+    return isProbe;
+  }
+
+  /**
+   * @internal This is a private member.
+   * @template TResult The type of the result of the action.
+   * @param {Action<TResult>} action The action to run.
+   * @param {boolean} isProbe Was the call admitted as a half-open probe?
+   * @param {ISpan} span The span of the call.
+   * @returns {TResult} The result of the action.
+   */
+  private _invoke<TResult>(action: Action<TResult>, isProbe: boolean, span: ISpan | undefined): TResult {
+    const epoch = this.halfOpenEpoch;
+    const startedAt = super.now.getTime();
+
+    let result: TResult;
+
+    try {
+      result = action();
+    } catch (e) {
+      this._inSpan(span, () => this._onActionFailed(e, isProbe, epoch, startedAt));
 
       throw e;
     } finally {
       this._shouldRetry = true;
+
+      if (isProbe) {
+        this.releaseProbe();
+      }
     }
 
-    this.reset();
+    this._inSpan(span, () => this._onActionSucceeded(isProbe, epoch, startedAt));
+
+    return result;
   }
 
   /**
-   * Execute the given circuit action asynchronously.
-   * @param {AsyncAction} action The action to execute.
-   * @returns {Promise<void>} A promise that resolves when the action is executed.
+   * @internal This is a private member.
+   * @template TResult The type of the result of the action.
+   * @param {AsyncAction<TResult>} action The action to run.
+   * @param {boolean} isProbe Was the call admitted as a half-open probe?
+   * @param {AbortController} controller The controller aborted once the timeout expires.
+   * @param {number} timeout The timeout in milliseconds, or undefined to wait for the action indefinitely.
+   * @param {AbortSignal} cancelSignal The signal the caller aborts to cancel the call, if any.
+   * @param {ISpan} span The span of the call.
+   * @returns {Promise<TResult>} A promise that resolves with the result of the action.
    */
-  public async executeAsync(action: AsyncAction): Promise<void> {
-    this._attemptToProceed();
+  private async _invokeAsync<TResult>(
+    action: AsyncAction<TResult>,
+    isProbe: boolean,
+    controller: AbortController,
+    timeout: number | undefined,
+    cancelSignal: AbortSignal | undefined,
+    span: ISpan | undefined,
+  ): Promise<TResult> {
+    const epoch = this.halfOpenEpoch;
+    const startedAt = super.now.getTime();
+
+    let result: TResult;
 
     try {
-      await action();
+      result = await this._runWithTimeout(action, controller, timeout);
     } catch (e) {
-      if (this.shouldTrip(e)) {
-        this._nextRetry = new Date(super.now.getTime() + this.retryInterval);
-        this.trip();
+      if (!cancelSignal?.aborted) {
+        this._inSpan(span, () => this._onActionFailed(e, isProbe, epoch, startedAt));
       }
 
       throw e;
     } finally {
       this._shouldRetry = true;
+
+      if (isProbe) {
+        this.releaseProbe();
+      }
     }
 
-    this.reset();
+    // A call the caller cancelled says nothing about the health of the dependency, however it ended.
+    if (!cancelSignal?.aborted) {
+      this._inSpan(span, () => this._onActionSucceeded(isProbe, epoch, startedAt));
+    }
+
+    return result;
+  }
+
+  /**
+   * Execute the given circuit action.
+   * @template TResult The type of the result of the action.
+   * @param {Action<TResult>} action The action to execute.
+   * @param {IExecuteOptions<TResult>} options The options for this call.
+   * @returns {TResult} The result of the action, or of the fallback if the call was rejected or failed.
+   * @throws {FallbackError} The call failed, and so did its fallback.
+   */
+  public execute<TResult>(action: Action<TResult>, options?: IExecuteOptions<TResult>): TResult {
+    const span = this._startSpan();
+
+    let isProbe: boolean;
+
+    try {
+      isProbe = this._admit(span);
+    } catch (e) {
+      ExecutionCircuitBreakerBase._endSpan(span, e);
+
+      return ExecutionCircuitBreakerBase._fallBack(options?.fallback, e, FailureSource.CircuitOpen);
+    }
+
+    let result: TResult;
+
+    try {
+      result = this._invoke(action, isProbe, span);
+    } catch (e) {
+      ExecutionCircuitBreakerBase._endSpan(span, e);
+
+      return ExecutionCircuitBreakerBase._fallBack(options?.fallback, e, FailureSource.Action);
+    }
+
+    ExecutionCircuitBreakerBase._endSpan(span);
+
+    return result;
+  }
+
+  /**
+   * Execute the given circuit action asynchronously.
+   * @template TResult The type of the result of the action.
+   * @param {AsyncAction<TResult>} action The action to execute.
+   * @param {number | IExecuteAsyncOptions<TResult>} options The options for this call, or its timeout in milliseconds.
+   * @returns {Promise<TResult>} A promise that resolves with the result of the action, or of the fallback if the call was rejected, timed out or failed.
+   * @throws {FallbackError} The call failed, and so did its fallback.
+   * @throws {Error} The reason the call was cancelled, if the caller aborted its signal.
+   */
+  public async executeAsync<TResult>(
+    action: AsyncAction<TResult>,
+    options?: number | IExecuteAsyncOptions<TResult>,
+  ): Promise<TResult> {
+    const callOptions: IExecuteAsyncOptions<TResult> =
+      typeof options === 'number' ? { timeout: options } : options ?? {};
+    const timeout = callOptions.timeout ?? this.options.timeout;
+    const fallback = callOptions.fallback;
+    const cancelSignal = callOptions.signal;
+
+    if (timeout !== undefined && !(timeout > 0)) {
+      throw new Error('The timeout must be greater than zero.');
+    }
+
+    cancelSignal?.throwIfAborted();
+
+    const span = this._startSpan();
+
+    let isProbe: boolean;
+
+    try {
+      isProbe = this._admit(span);
+    } catch (e) {
+      ExecutionCircuitBreakerBase._endSpan(span, e);
+
+      return await ExecutionCircuitBreakerBase._fallBackAsync(fallback, e, FailureSource.CircuitOpen);
+    }
+
+    const controller = new AbortController();
+    const onCancel = () => controller.abort(cancelSignal.reason);
+
+    cancelSignal?.addEventListener('abort', onCancel, { once: true });
+
+    let result: TResult;
+
+    try {
+      result = await this._invokeAsync(action, isProbe, controller, timeout, cancelSignal, span);
+    } catch (e) {
+      if (cancelSignal?.aborted) {
+        ExecutionCircuitBreakerBase._endSpan(span, e);
+
+        throw e;
+      }
+
+      const source =
+        controller.signal.aborted && controller.signal.reason === e ? FailureSource.Timeout : FailureSource.Action;
+
+      ExecutionCircuitBreakerBase._endSpan(span, e);
+
+      return await ExecutionCircuitBreakerBase._fallBackAsync(fallback, e, source);
+    } finally {
+      cancelSignal?.removeEventListener('abort', onCancel);
+    }
+
+    ExecutionCircuitBreakerBase._endSpan(span);
+
+    return result;
+  }
+
+  /**
+   * Capture the state of the circuit breaker, including its rolling window.
+   * @returns {ICircuitBreakerSnapshot} A JSON-serializable snapshot of the state.
+   * @override
+   */
+  public snapshot(): ICircuitBreakerSnapshot {
+    return { ...super.snapshot(), window: this.rollingWindow.snapshot() };
+  }
+
+  /**
+   * Restore the state captured in the given snapshot. No events are emitted.
+   * @param {ICircuitBreakerSnapshot} snapshot The snapshot to restore.
+   * @throws {Error} If the snapshot was taken from a circuit breaker with another name.
+   * @override
+   */
+  public restore(snapshot: ICircuitBreakerSnapshot): void {
+    super.restore(snapshot);
+
+    this.scheduledRetry = new Date(snapshot.nextRetryAt ?? '0001-01-01T00:00:00Z');
+
+    // Probes still in flight keep their slot until they finish, but their results no longer count.
+    this.endHalfOpenEpoch(this.halfOpenEpoch);
+
+    // No call has run through a restored circuit breaker yet, but it must still admit a probe once the retry is due.
+    this._shouldRetry = true;
+
+    this.rollingWindow.restore(snapshot.window ?? []);
   }
 
   /**
@@ -135,7 +905,14 @@ export default abstract class ExecutionCircuitBreakerBase extends CircuitBreaker
    * @returns {boolean} True if the circuit breaker was reset, false otherwise.
    */
   public reset(): boolean {
-    this._nextRetry = new Date('0001-01-01T00:00:00Z');
-    return super.reset();
+    if (!super.reset()) {
+      return false;
+    }
+
+    this.scheduledRetry = new Date('0001-01-01T00:00:00Z');
+    this.endHalfOpenEpoch(this.halfOpenEpoch);
+    this.rollingWindow.clear();
+
+    return true;
   }
 }
@@ -0,0 +1,222 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+	File Name: rate_limiter_base.ts
+	Description: Base class for in-process rate limiters.
+	Written by: Nikita Petko
+*/
+
+import IClock from '../interfaces/clock';
+import SystemClock from '../clocks/system_clock';
+import { Action, AsyncAction } from './execution_circuit_breaker_base';
+import IRateLimiterExecuteOptions from '../interfaces/rate_limiter_execute_options';
+
+/**
+ * Error thrown when a rate limiter has no permit for a call.
+ */
+export class RateLimitExceededError extends Error {
+  /**
+   * How long in milliseconds until the permits become available, or Infinity if they never will.
+   */
+  public readonly retryAfter: number;
+
+  /**
+   * Construct a new instance of the RateLimitExceededError class.
+   * @param {string} name The name of the rate limiter.
+   * @param {number} retryAfter How long in milliseconds until the permits become available.
+   */
+  public constructor(name: string, retryAfter: number) {
+    super(
+      Number.isFinite(retryAfter)
+        ? `The rate limit of '${name}' has been exceeded, retry after ${retryAfter}ms.`
+        : `The rate limit of '${name}' can never grant that many permits at once.`,
+    );
+
+    this.name = 'RateLimitExceeded Error';
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * Base class for in-process rate limiters.
+ */
+export default abstract class RateLimiterBase {
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _name: string;
+
+  /**
+   * The clock used to tell the time.
+   */
+  protected readonly clock: IClock;
+
+  /**
+   * Construct a new instance of the RateLimiterBase class.
+   * @param {string} name The name of the rate limiter.
+   * @param {IClock} clock The clock used to tell the time, defaults to the system clock.
+   */
+  protected constructor(name: string, clock?: IClock) {
+    if (name === undefined || name === null || name === '') {
+      throw new Error('name cannot be null, undefined or empty.');
+    }
+
+    this._name = name;
+    this.clock = clock ?? SystemClock.instance;
+  }
+
+  /**
+   * The name of the rate limiter.
+   * @returns {string} The name of the rate limiter.
+   */
+  public get name(): string {
+    return this._name;
+  }
+
+  /**
+   * How long until the given number of permits are available.
+   * @param {number} permits The number of permits.
+   * @returns {number} The time in milliseconds, 0 if available now, or Infinity if they never will be.
+   */
+  protected abstract timeUntilAvailable(permits: number): number;
+
+  /**
+   * Take the given number of permits, which are known to be available.
+   * @param {number} permits The number of permits.
+   */
+  protected abstract consume(permits: number): void;
+
+  /**
+   * @internal This is a private member.
+   * @param {number} permits The number of permits.
+   */
+  private static _validatePermits(permits: number): void {
+    if (!Number.isInteger(permits) || permits < 1) {
+      throw new Error('permits must be a positive integer.');
+    }
+  }
+
+  /**
+   * @internal This is a private member.
+   * @param {number} ms The delay in milliseconds.
+   * @param {AbortSignal} signal The signal the caller aborts to stop waiting, if any.
+   * @returns {Promise<void>} A promise that resolves after the delay, or rejects with the reason the signal was aborted.
+   */
+  private _delay(ms: number, signal: AbortSignal | undefined): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        this.clock.clearTimeout(timer);
+        reject(signal.reason);
+      };
+      const timer = this.clock.setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * How long until the given number of permits are available.
+   * @param {number} permits The number of permits, defaults to 1.
+   * @returns {number} The time in milliseconds, 0 if available now, or Infinity if they never will be.
+   */
+  public getTimeUntilNextPermit(permits = 1): number {
+    RateLimiterBase._validatePermits(permits);
+
+    return this.timeUntilAvailable(permits);
+  }
+
+  /**
+   * Take the given number of permits if they are available now.
+   * @param {number} permits The number of permits, defaults to 1.
+   * @returns {boolean} True if the permits were taken, otherwise false.
+   */
+  public tryAcquire(permits = 1): boolean {
+    if (this.getTimeUntilNextPermit(permits) > 0) {
+      return false;
+    }
+
+    this.consume(permits);
+
+    return true;
+  }
+
+  /**
+   * Wait until the given number of permits are available and take them.
+   * @param {number} permits The number of permits, defaults to 1.
+   * @param {number} maxWait The longest time in milliseconds to wait, or undefined to wait as long as it takes.
+   * @param {AbortSignal} signal The signal the caller aborts to stop waiting, if any.
+   * @returns {Promise<void>} A promise that resolves once the permits have been taken.
+   * @throws {RateLimitExceededError} The permits will not be available within the maximum wait.
+   * @throws {Error} The reason the wait was cancelled, if the caller aborted its signal.
+   * @remarks Concurrent waiters are not served in order, and a waiter may wait again if another took the permits first.
+   */
+  public async acquire(permits = 1, maxWait?: number, signal?: AbortSignal): Promise<void> {
+    const deadline = maxWait === undefined ? Infinity : this.clock.now() + maxWait;
+
+    signal?.throwIfAborted();
+
+    while (!this.tryAcquire(permits)) {
+      const wait = this.timeUntilAvailable(permits);
+
+      if (this.clock.now() + wait > deadline || !Number.isFinite(wait)) {
+        throw new RateLimitExceededError(this._name, wait);
+      }
+
+      await this._delay(wait, signal);
+    }
+  }
+
+  /**
+   * Execute the given action if a permit is available now.
+   * @template TResult The type of the result of the action.
+   * @param {Action<TResult>} action The action to execute.
+   * @returns {TResult} The result of the action.
+   * @throws {RateLimitExceededError} No permit is available.
+   */
+  public execute<TResult>(action: Action<TResult>): TResult {
+    if (!this.tryAcquire()) {
+      throw new RateLimitExceededError(this._name, this.timeUntilAvailable(1));
+    }
+
+    return action();
+  }
+
+  /**
+   * Execute the given action asynchronously once a permit is available.
+   * @template TResult The type of the result of the action.
+   * @param {AsyncAction<TResult>} action The action to execute.
+   * @param {number | IRateLimiterExecuteOptions} options The options for this call, or the longest time in milliseconds to wait for a permit.
+   * @returns {Promise<TResult>} A promise that resolves with the result of the action when it is executed.
+   * @throws {RateLimitExceededError} No permit is available within the maximum wait.
+   * @throws {Error} The reason the call was cancelled, if the caller aborted its signal before the call got a permit.
+   * @remarks The action is passed the signal of the caller, or a signal that is never aborted if the caller gave none.
+   */
+  public async executeAsync<TResult>(
+    action: AsyncAction<TResult>,
+    options?: number | IRateLimiterExecuteOptions,
+  ): Promise<TResult> {
+    const callOptions: IRateLimiterExecuteOptions = typeof options === 'number' ? { maxWait: options } : options ?? {};
+    const signal = callOptions.signal;
+
+    await this.acquire(1, callOptions.maxWait ?? 0, signal);
+
+    return action(signal ?? new AbortController().signal);
+  }
+}
@@ -0,0 +1,279 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+	File Name: bulkhead.ts
+	Description: Limits the number of concurrent calls to a dependency.
+	Written by: Nikita Petko
+*/
+
+import IClock, { TimerHandle } from '../interfaces/clock';
+import SystemClock from '../clocks/system_clock';
+import IBulkheadOptions from '../interfaces/bulkhead_options';
+import IBulkheadExecuteOptions from '../interfaces/bulkhead_execute_options';
+import { Action, AsyncAction } from '../base/execution_circuit_breaker_base';
+
+/**
+ * Error thrown when a bulkhead rejects a call.
+ */
+export class BulkheadRejectedError extends Error {
+  /**
+   * Construct a new instance of the BulkheadRejectedError class.
+   * @param {string} message The error message.
+   */
+  public constructor(message: string) {
+    super(message);
+
+    this.name = 'BulkheadRejected Error';
+  }
+}
+
+/**
+ * @internal This is a private member.
+ */
+interface IQueuedCall {
+  admit: () => void;
+  timer: TimerHandle | undefined;
+}
+
+/**
+ * Limits the number of concurrent calls to a dependency.
+ * @remarks Calls beyond the limit made with executeAsync wait in a bounded queue for a free slot, while calls made with
+ * execute cannot wait and are rejected straight away.
+ */
+export default class Bulkhead {
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _name: string;
+
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _maxConcurrentCalls: number;
+
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _maxQueuedCalls: number;
+
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _queueTimeout: number | undefined;
+
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _clock: IClock;
+
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _queue: IQueuedCall[] = [];
+
+  /**
+   * @internal This is a private member.
+   */
+  private _activeCalls = 0;
+
+  /**
+   * Construct a new instance of the Bulkhead class.
+   * @param {string} name The name of the bulkhead.
+   * @param {number} maxConcurrentCalls The maximum number of calls that may run at the same time.
+   * @param {IBulkheadOptions} options The optional settings of the bulkhead.
+   */
+  public constructor(name: string, maxConcurrentCalls: number, options?: IBulkheadOptions) {
+    if (name === undefined || name === null || name === '') {
+      throw new Error('name cannot be null, undefined or empty.');
+    }
+
+    if (!Number.isInteger(maxConcurrentCalls) || maxConcurrentCalls < 1) {
+      throw new Error('maxConcurrentCalls must be a positive integer.');
+    }
+
+    options = options ?? {};
+
+    if (
+      options.maxQueuedCalls !== undefined &&
+      !(Number.isInteger(options.maxQueuedCalls) && options.maxQueuedCalls >= 0)
+    ) {
+      throw new Error('The maxQueuedCalls option must be a non-negative integer.');
+    }
+
+    if (options.queueTimeout !== undefined && !(options.queueTimeout > 0)) {
+      throw new Error('The queueTimeout option must be greater than zero.');
+    }
+
+    this._name = name;
+    this._maxConcurrentCalls = maxConcurrentCalls;
+    this._maxQueuedCalls = options.maxQueuedCalls ?? 0;
+    this._queueTimeout = options.queueTimeout;
+    this._clock = options.clock ?? SystemClock.instance;
+  }
+
+  /**
+   * The name of the bulkhead.
+   * @returns {string} The name of the bulkhead.
+   */
+  public get name(): string {
+    return this._name;
+  }
+
+  /**
+   * The number of calls running at the moment.
+   * @returns {number} The number of active calls.
+   */
+  public get activeCalls(): number {
+    return this._activeCalls;
+  }
+
+  /**
+   * The number of calls waiting for a free slot at the moment.
+   * @returns {number} The number of queued calls.
+   */
+  public get queuedCalls(): number {
+    return this._queue.length;
+  }
+
+  /**
+   * @internal This is a private member.
+   * @returns {BulkheadRejectedError} The error calls are rejected with when the bulkhead is full.
+   */
+  private _createFullError(): BulkheadRejectedError {
+    return new BulkheadRejectedError(`The bulkhead '${this._name}' is full with ${this._activeCalls} active calls.`);
+  }
+
+  /**
+   * @internal This is a private member.
+   */
+  private _release(): void {
+    const next = this._queue.shift();
+
+    // The slot is handed straight to the next queued call, so the active count stays the same.
+    if (next === undefined) {
+      this._activeCalls--;
+
+      return;
+    }
+
+    if (next.timer !== undefined) {
+      this._clock.clearTimeout(next.timer);
+    }
+
+    next.admit();
+  }
+
+  /**
+   * @internal This is a private member.
+   * @param {AbortSignal} signal The signal the caller aborts to stop waiting, if any.
+   * @returns {Promise<void>} A promise that resolves once the call holds a slot.
+   */
+  private _acquire(signal: AbortSignal | undefined): Promise<void> {
+    if (this._activeCalls < this._maxConcurrentCalls) {
+      this._activeCalls++;
+
+      return Promise.resolve();
+    }
+
+    if (this._queue.length >= this._maxQueuedCalls) {
+      return Promise.reject(this._createFullError());
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        this._queue.splice(this._queue.indexOf(queuedCall), 1);
+
+        if (queuedCall.timer !== undefined) {
+          this._clock.clearTimeout(queuedCall.timer);
+        }
+
+        reject(signal.reason);
+      };
+      const queuedCall: IQueuedCall = {
+        admit: () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        },
+        timer: undefined,
+      };
+
+      if (this._queueTimeout !== undefined) {
+        queuedCall.timer = this._clock.setTimeout(() => {
+          this._queue.splice(this._queue.indexOf(queuedCall), 1);
+          signal?.removeEventListener('abort', onAbort);
+
+          reject(
+            new BulkheadRejectedError(
+              `The call waited more than ${this._queueTimeout}ms for a free slot in the bulkhead '${this._name}'.`,
+            ),
+          );
+        }, this._queueTimeout);
+      }
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this._queue.push(queuedCall);
+    });
+  }
+
+  /**
+   * Execute the given action if a slot is free.
+   * @template TResult The type of the result of the action.
+   * @param {Action<TResult>} action The action to execute.
+   * @returns {TResult} The result of the action.
+   * @throws {BulkheadRejectedError} The bulkhead has no free slot.
+   */
+  public execute<TResult>(action: Action<TResult>): TResult {
+    if (this._activeCalls >= this._maxConcurrentCalls) {
+      throw this._createFullError();
+    }
+
+    this._activeCalls++;
+
+    try {
+      return action();
+    } finally {
+      this._release();
+    }
+  }
+
+  /**
+   * Execute the given action asynchronously once a slot is free.
+   * @template TResult The type of the result of the action.
+   * @param {AsyncAction<TResult>} action The action to execute.
+   * @param {IBulkheadExecuteOptions} options The options for this call.
+   * @returns {Promise<TResult>} A promise that resolves with the result of the action when it is executed.
+   * @throws {BulkheadRejectedError} The bulkhead and its queue are full, or the queue timeout expired.
+   * @throws {Error} The reason the call was cancelled, if the caller aborted its signal before the call got a slot.
+   * @remarks The action is passed the signal of the caller, or a signal that is never aborted if the caller gave none.
+   */
+  public async executeAsync<TResult>(
+    action: AsyncAction<TResult>,
+    options?: IBulkheadExecuteOptions,
+  ): Promise<TResult> {
+    const signal = options?.signal;
+
+    signal?.throwIfAborted();
+
+    await this._acquire(signal);
+
+    try {
+      return await action(signal ?? new AbortController().signal);
+    } finally {
+      this._release();
+    }
+  }
+}
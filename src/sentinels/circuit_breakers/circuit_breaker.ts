@@ -20,8 +20,15 @@
 	Written by: Nikita Petko
 */
 
+import IClock from '../interfaces/clock';
 import CircuitBreakerBase from '../base/circuit_breaker_base';
 
+/**
+ * Represents a function to get the date when a tripped circuit breaker schedules its next retry.
+ * @returns {Date | undefined} The date of the next retry, or undefined if no retry is scheduled.
+ */
+export type NextRetryGetter = () => Date | undefined;
+
 /**
  * Simple circuit breaker. Provides an implementation for the name property.
  */
@@ -31,14 +38,22 @@ export default class CircuitBreaker extends CircuitBreakerBase {
    */
   private readonly _name: string;
 
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _nextRetryGetter: NextRetryGetter | undefined;
+
   /**
    * Construct a new instance of the CircuitBreaker class.
    * @param {string} name The name of the circuit breaker.
+   * @param {NextRetryGetter} nextRetryGetter The function to get the date of the next retry once tripped.
+   * @param {IClock} clock The clock used to tell the time, defaults to the system clock.
    */
-  constructor(name: string) {
-    super();
+  constructor(name: string, nextRetryGetter?: NextRetryGetter, clock?: IClock) {
+    super(clock);
 
     this._name = name;
+    this._nextRetryGetter = nextRetryGetter;
   }
 
   /**
@@ -49,4 +64,13 @@ export default class CircuitBreaker extends CircuitBreakerBase {
   protected get name(): string {
     return this._name;
   }
+
+  /**
+   * The date when the circuit breaker schedules its next retry once tripped.
+   * @returns {Date | undefined} The date of the next retry, or undefined if no retry is scheduled.
+   * @override
+   */
+  protected get scheduledRetry(): Date | undefined {
+    return this._nextRetryGetter?.();
+  }
 }
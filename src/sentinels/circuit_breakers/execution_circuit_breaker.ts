@@ -20,7 +20,8 @@
 	Written by: Nikita Petko
 */
 
-import ExecutionCircuitBreakerBase from '../base/execution_circuit_breaker_base';
+import ExecutionCircuitBreakerBase, { TimeoutError } from '../base/execution_circuit_breaker_base';
+import IExecutionCircuitBreakerOptions from '../interfaces/execution_circuit_breaker_options';
 
 /**
  * Represents a function to determine if an error is a failure.
@@ -59,8 +60,14 @@ export default class ExecutionCircuitBreaker extends ExecutionCircuitBreakerBase
    * @param {string} name The name of the circuit breaker.
    * @param {FailureDetector} failureDetector The function to determine if an error is a failure.
    * @param {RetryIntervalCalculator} retryIntervalCalculator The function to calculate the retry interval.
+   * @param {IExecutionCircuitBreakerOptions} options The optional settings of the circuit breaker.
    */
-  public constructor(name: string, failureDetector: FailureDetector, retryIntervalCalculator: RetryIntervalCalculator) {
+  public constructor(
+    name: string,
+    failureDetector: FailureDetector,
+    retryIntervalCalculator: RetryIntervalCalculator,
+    options?: IExecutionCircuitBreakerOptions,
+  ) {
     if (name === undefined || name === null || name === '') {
       throw new Error('The name parameter is required.');
     }
@@ -73,7 +80,7 @@ export default class ExecutionCircuitBreaker extends ExecutionCircuitBreakerBase
       throw new Error('The retryIntervalCalculator parameter is required.');
     }
 
-    super();
+    super(options);
 
     this._name = name;
     this._failureDetector = failureDetector;
@@ -96,7 +103,17 @@ export default class ExecutionCircuitBreaker extends ExecutionCircuitBreakerBase
    * @override
    */
   protected shouldTrip(error: Error): boolean {
-    return this._failureDetector(error);
+    return this.isFailure(error);
+  }
+
+  /**
+   * Is the given error counted as a failure in the call statistics?
+   * @param {Error} error The error that was thrown.
+   * @returns {boolean} True if the error is a failure, false otherwise.
+   * @override
+   */
+  protected isFailure(error: Error): boolean {
+    return error instanceof TimeoutError || this._failureDetector(error);
   }
 
   /**
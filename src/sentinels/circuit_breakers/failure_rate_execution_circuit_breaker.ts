@@ -0,0 +1,323 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+	File Name: failure_rate_execution_circuit_breaker.ts
+	Description: Execution circuit breaker that trips on the failure rate of the last N calls.
+	Written by: Nikita Petko
+*/
+
+import ExecutionCircuitBreakerBase, { TimeoutError } from '../base/execution_circuit_breaker_base';
+import { FailureDetector, RetryIntervalCalculator } from './execution_circuit_breaker';
+import IExecutionCircuitBreakerOptions from '../interfaces/execution_circuit_breaker_options';
+import ICircuitBreakerSnapshot from '../interfaces/circuit_breaker_snapshot';
+
+/**
+ * Represents a function to get the failure rate for tripping the circuit breaker.
+ * @returns {number} The failure rate for tripping the circuit breaker, as a percentage between 0 and 100.
+ */
+export type FailureRateThresholdGetter = () => number;
+
+/**
+ * Execution circuit breaker that trips on the failure rate of the last N calls.
+ * @remarks The outcomes of the last N calls are kept in a ring buffer, and the failure rate is only
+ * evaluated once the buffer is full. When a rolling window is configured, the failure rate is calculated over the
+ * calls in the rolling window instead.
+ */
+export default class FailureRateExecutionCircuitBreaker extends ExecutionCircuitBreakerBase {
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _name: string;
+
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _failureDetector: FailureDetector;
+
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _retryIntervalCalculator: RetryIntervalCalculator;
+
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _failureRateThresholdGetter: FailureRateThresholdGetter;
+
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _outcomes: boolean[];
+
+  /**
+   * @internal This is a private member.
+   */
+  private _nextOutcome = 0;
+
+  /**
+   * @internal This is a private member.
+   */
+  private _recordedOutcomes = 0;
+
+  /**
+   * @internal This is a private member.
+   */
+  private _failures = 0;
+
+  /**
+   * Construct a new instance of the FailureRateExecutionCircuitBreaker class.
+   * @param {string} name The name of the circuit breaker.
+   * @param {FailureDetector} failureDetector The function to determine if an error is a failure.
+   * @param {RetryIntervalCalculator} retryIntervalCalculator The function to calculate the retry interval.
+   * @param {number} windowSize The number of most recent calls the failure rate is calculated over. When a rolling window is configured, the minimum number of calls in the rolling window before the failure rate is evaluated.
+   * @param {FailureRateThresholdGetter} failureRateThresholdGetter The function to get the failure rate for tripping the circuit breaker.
+   * @param {IExecutionCircuitBreakerOptions} options The optional settings of the circuit breaker.
+   */
+  public constructor(
+    name: string,
+    failureDetector: FailureDetector,
+    retryIntervalCalculator: RetryIntervalCalculator,
+    windowSize: number,
+    failureRateThresholdGetter: FailureRateThresholdGetter,
+    options?: IExecutionCircuitBreakerOptions,
+  ) {
+    if (name === undefined || name === null || name === '') {
+      throw new Error('name cannot be null, undefined or empty.');
+    }
+
+    if (failureDetector === undefined || failureDetector === null) {
+      throw new Error('failureDetector cannot be null or undefined.');
+    }
+
+    if (retryIntervalCalculator === undefined || retryIntervalCalculator === null) {
+      throw new Error('retryIntervalCalculator cannot be null or undefined.');
+    }
+
+    if (!Number.isInteger(windowSize) || windowSize < 1) {
+      throw new Error('windowSize must be a positive integer.');
+    }
+
+    if (failureRateThresholdGetter === undefined || failureRateThresholdGetter === null) {
+      throw new Error('failureRateThresholdGetter cannot be null or undefined.');
+    }
+
+    super(options);
+
+    this._name = name;
+    this._failureDetector = failureDetector;
+    this._retryIntervalCalculator = retryIntervalCalculator;
+    this._failureRateThresholdGetter = failureRateThresholdGetter;
+    this._outcomes = new Array<boolean>(windowSize).fill(false);
+  }
+
+  /**
+   * The failure rate of the calls in the window, as a percentage between 0 and 100.
+   * @returns {number} The failure rate, or 0 if no calls have been recorded.
+   */
+  public get failureRate(): number {
+    if (this.usesRollingWindow) {
+      const { successes, failures } = this.rollingWindow.counts;
+
+      return successes + failures === 0 ? 0 : (failures / (successes + failures)) * 100;
+    }
+
+    if (this._recordedOutcomes === 0) {
+      return 0;
+    }
+
+    return (this._failures / this._recordedOutcomes) * 100;
+  }
+
+  /**
+   * @internal This is a private member.
+   * @returns {number} The number of calls the failure rate is currently calculated over.
+   */
+  private get _evaluatedCalls(): number {
+    if (this.usesRollingWindow) {
+      const { successes, failures } = this.rollingWindow.counts;
+
+      return successes + failures;
+    }
+
+    return this._recordedOutcomes;
+  }
+
+  /**
+   * @internal This is a private member.
+   * @returns {number} The failure rate for tripping the circuit breaker, as a percentage between 0 and 100.
+   * @throws {Error} The failure rate threshold getter returned a value out of range.
+   */
+  private get _failureRateThreshold(): number {
+    const threshold = this._failureRateThresholdGetter();
+
+    if (!(threshold > 0 && threshold <= 100)) {
+      throw new Error(`The failure rate threshold must be greater than zero and at most 100, but was ${threshold}.`);
+    }
+
+    return threshold;
+  }
+
+  /**
+   * @internal This is a private member.
+   * @param {boolean} isFailure Did the call fail?
+   */
+  private _recordOutcome(isFailure: boolean): void {
+    if (this._recordedOutcomes === this._outcomes.length) {
+      if (this._outcomes[this._nextOutcome]) {
+        this._failures--;
+      }
+    } else {
+      this._recordedOutcomes++;
+    }
+
+    this._outcomes[this._nextOutcome] = isFailure;
+    this._nextOutcome = (this._nextOutcome + 1) % this._outcomes.length;
+
+    if (isFailure) {
+      this._failures++;
+    }
+  }
+
+  /**
+   * @internal This is a private member.
+   */
+  private _clearOutcomes(): void {
+    this._outcomes.fill(false);
+    this._nextOutcome = 0;
+    this._recordedOutcomes = 0;
+    this._failures = 0;
+  }
+
+  /**
+   * The name of the circuit breaker.
+   * @returns {string} The name of the circuit breaker.
+   * @override
+   */
+  protected get name(): string {
+    return this._name;
+  }
+
+  /**
+   * Should the circuit breaker be tripped.
+   * @param {Error} error The error.
+   * @returns {boolean} True if the circuit breaker should be tripped, otherwise false.
+   * @override
+   */
+  protected shouldTrip(error: Error): boolean {
+    if (error === undefined || error === null) {
+      throw new Error('error cannot be null or undefined.');
+    }
+
+    const isFailure = this.isFailure(error);
+
+    // Only probes run while tripped, and any failed probe reopens the circuit.
+    if (this.isTripped) {
+      return isFailure;
+    }
+
+    this._recordOutcome(isFailure);
+
+    if (!isFailure || this._evaluatedCalls < this._outcomes.length) {
+      return false;
+    }
+
+    return this.failureRate >= this._failureRateThreshold;
+  }
+
+  /**
+   * Is the given error counted as a failure in the call statistics?
+   * @param {Error} error The error that was thrown.
+   * @returns {boolean} True if the error is a failure, false otherwise.
+   * @override
+   */
+  protected isFailure(error: Error): boolean {
+    return error instanceof TimeoutError || this._failureDetector(error);
+  }
+
+  /**
+   * Record a successful call in the window.
+   * @override
+   */
+  protected onSuccessfulExecution(): void {
+    if (!this.isTripped) {
+      this._recordOutcome(false);
+    }
+  }
+
+  /**
+   * Get the retry interval.
+   * @returns {number} The retry interval.
+   * @override
+   */
+  protected get retryInterval(): number {
+    return this._retryIntervalCalculator();
+  }
+
+  /**
+   * Capture the state of the circuit breaker, including the outcomes in its window.
+   * @returns {ICircuitBreakerSnapshot} A JSON-serializable snapshot of the state.
+   * @override
+   */
+  public snapshot(): ICircuitBreakerSnapshot {
+    const outcomes: number[] = [];
+    const oldest = (this._nextOutcome - this._recordedOutcomes + this._outcomes.length) % this._outcomes.length;
+
+    for (let i = 0; i < this._recordedOutcomes; i++) {
+      outcomes.push(this._outcomes[(oldest + i) % this._outcomes.length] ? 1 : 0);
+    }
+
+    const snapshot = super.snapshot();
+
+    return { ...snapshot, counters: { ...snapshot.counters, outcomes } };
+  }
+
+  /**
+   * Restore the state captured in the given snapshot. No events are emitted.
+   * @param {ICircuitBreakerSnapshot} snapshot The snapshot to restore.
+   * @throws {Error} If the snapshot was taken from a circuit breaker with another name.
+   * @override
+   */
+  public restore(snapshot: ICircuitBreakerSnapshot): void {
+    super.restore(snapshot);
+
+    this._clearOutcomes();
+
+    const outcomes = snapshot.counters.outcomes;
+
+    if (Array.isArray(outcomes)) {
+      // Replaying the outcomes oldest first keeps the most recent ones should the window have shrunk since.
+      for (const outcome of outcomes) {
+        this._recordOutcome(outcome === 1);
+      }
+    }
+  }
+
+  /**
+   * Reset the circuit breaker, clearing the window once it closes.
+   * @returns {boolean} True if the circuit breaker was reset, false otherwise.
+   * @override
+   */
+  public reset(): boolean {
+    if (!super.reset()) {
+      return false;
+    }
+
+    this._clearOutcomes();
+
+    return true;
+  }
+}
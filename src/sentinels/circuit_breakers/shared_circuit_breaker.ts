@@ -0,0 +1,459 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+	File Name: shared_circuit_breaker.ts
+	Description: Circuit breaker whose state lives in a SharedArrayBuffer, shared by every worker thread it is posted to.
+	Written by: Nikita Petko
+*/
+
+import { CircuitState } from '../enums/circuit_state';
+import ExecutionCircuitBreaker, { FailureDetector, RetryIntervalCalculator } from './execution_circuit_breaker';
+import ISharedCircuitBreakerCounts from '../interfaces/shared_circuit_breaker_counts';
+import ISharedCircuitBreakerOptions from '../interfaces/shared_circuit_breaker_options';
+
+/**
+ * @internal This is a private member.
+ */
+enum Int32Slot {
+  ActiveProbes = 0,
+  ConsecutiveFailures = 1,
+  SuccessfulProbes = 2,
+  HalfOpenEpoch = 3,
+}
+
+/**
+ * @internal This is a private member.
+ */
+enum BigInt64Slot {
+  Circuit = 0,
+  TrippedAt = 1,
+  Successes = 2,
+  Failures = 3,
+  Rejections = 4,
+  Trips = 5,
+  Resets = 6,
+}
+
+/**
+ * Execution circuit breaker whose state, timestamps and counters live in a SharedArrayBuffer and are updated with
+ * Atomics, so that every worker thread constructed over the same buffer sees one consistent circuit.
+ * @remarks Post the buffer to a worker and construct a circuit breaker over it there, with the same name and settings.
+ * Transitions are made with compare-and-exchange, so exactly one worker wins each trip, reset and probe.
+ * Events, the transition history and the rolling window behind minimumCalls and the slow call thresholds are local to
+ * each worker.
+ */
+export default class SharedCircuitBreaker extends ExecutionCircuitBreaker {
+  /**
+   * The size of the buffer the state lives in, in bytes.
+   */
+  public static readonly bufferByteLength = 72;
+
+  /**
+   * @internal This is a private member.
+   */
+  private static readonly _int32ByteLength = 16;
+
+  /**
+   * @internal This is a private member.
+   */
+  private static readonly _stateBits = 3n;
+
+  /**
+   * @internal This is a private member.
+   */
+  private static readonly _stateMask = 7n;
+
+  /**
+   * The retry of a trip whose retry is not scheduled yet, the latest time a Date can hold.
+   * @internal This is a private member.
+   */
+  private static readonly _pendingRetry = 8.64e15;
+
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _failuresAllowedBeforeTrip: number;
+
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _buffer: SharedArrayBuffer;
+
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _int32: Int32Array;
+
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _bigInt64: BigInt64Array;
+
+  /**
+   * Construct a new instance of the SharedCircuitBreaker class.
+   * @param {string} name The name of the circuit breaker.
+   * @param {FailureDetector} failureDetector The function to determine if an error is a failure.
+   * @param {RetryIntervalCalculator} retryIntervalCalculator The function to calculate the retry interval.
+   * @param {ISharedCircuitBreakerOptions} options The optional settings of the circuit breaker.
+   */
+  public constructor(
+    name: string,
+    failureDetector: FailureDetector,
+    retryIntervalCalculator: RetryIntervalCalculator,
+    options?: ISharedCircuitBreakerOptions,
+  ) {
+    if (name === undefined || name === null || name === '') {
+      throw new Error('name cannot be null, undefined or empty.');
+    }
+
+    if (failureDetector === undefined || failureDetector === null) {
+      throw new Error('failureDetector cannot be null or undefined.');
+    }
+
+    if (retryIntervalCalculator === undefined || retryIntervalCalculator === null) {
+      throw new Error('retryIntervalCalculator cannot be null or undefined.');
+    }
+
+    options = options ?? {};
+
+    if (options.failuresAllowedBeforeTrip !== undefined && options.failuresAllowedBeforeTrip < 0) {
+      throw new Error('The failuresAllowedBeforeTrip option cannot be less than zero.');
+    }
+
+    // Buffers posted from another realm are not instances of the SharedArrayBuffer of this one.
+    if (
+      options.buffer !== undefined &&
+      Object.prototype.toString.call(options.buffer) !== '[object SharedArrayBuffer]'
+    ) {
+      throw new Error('The buffer option must be a SharedArrayBuffer.');
+    }
+
+    if (options.buffer !== undefined && options.buffer.byteLength !== SharedCircuitBreaker.bufferByteLength) {
+      throw new Error(`The buffer option must be ${SharedCircuitBreaker.bufferByteLength} bytes long.`);
+    }
+
+    super(name, failureDetector, retryIntervalCalculator, options);
+
+    this._failuresAllowedBeforeTrip = options.failuresAllowedBeforeTrip ?? 0;
+    this._buffer = options.buffer ?? new SharedArrayBuffer(SharedCircuitBreaker.bufferByteLength);
+    this._int32 = new Int32Array(this._buffer, 0, SharedCircuitBreaker._int32ByteLength / 4);
+    this._bigInt64 = new BigInt64Array(this._buffer, SharedCircuitBreaker._int32ByteLength);
+  }
+
+  /**
+   * The buffer the state lives in, to post to the workers that share the circuit breaker.
+   * @returns {SharedArrayBuffer} The buffer.
+   */
+  public get buffer(): SharedArrayBuffer {
+    return this._buffer;
+  }
+
+  /**
+   * The counts of the calls made through every worker sharing the buffer, for diagnostics.
+   * The statistics property holds the rolling window of this worker.
+   * @returns {ISharedCircuitBreakerCounts} A snapshot of the counts.
+   */
+  public get sharedStatistics(): ISharedCircuitBreakerCounts {
+    return {
+      successes: Number(Atomics.load(this._bigInt64, BigInt64Slot.Successes)),
+      failures: Number(Atomics.load(this._bigInt64, BigInt64Slot.Failures)),
+      rejections: Number(Atomics.load(this._bigInt64, BigInt64Slot.Rejections)),
+      trips: Number(Atomics.load(this._bigInt64, BigInt64Slot.Trips)),
+      resets: Number(Atomics.load(this._bigInt64, BigInt64Slot.Resets)),
+      consecutiveFailures: Atomics.load(this._int32, Int32Slot.ConsecutiveFailures),
+    };
+  }
+
+  /**
+   * @internal This is a private member.
+   * @param {bigint} circuit The word holding the state and the next retry.
+   * @returns {CircuitState} The state held in the word.
+   */
+  private static _unpackState(circuit: bigint): CircuitState {
+    return Number(circuit & SharedCircuitBreaker._stateMask);
+  }
+
+  /**
+   * @internal This is a private member.
+   * @param {bigint} circuit The word holding the state and the next retry.
+   * @returns {number} The next retry held in the word, in milliseconds since the epoch.
+   */
+  private static _unpackRetry(circuit: bigint): number {
+    return Number(circuit >> SharedCircuitBreaker._stateBits);
+  }
+
+  /**
+   * @internal This is a private member.
+   * @param {CircuitState} state The state.
+   * @param {number} retry The next retry, in milliseconds since the epoch.
+   * @returns {bigint} The word holding the state and the next retry.
+   */
+  private static _pack(state: CircuitState, retry: number): bigint {
+    return (BigInt(retry) << SharedCircuitBreaker._stateBits) | BigInt(state);
+  }
+
+  /**
+   * Read the state from the buffer.
+   * @returns {CircuitState} The stored state.
+   * @override
+   */
+  protected loadState(): CircuitState {
+    return SharedCircuitBreaker._unpackState(Atomics.load(this._bigInt64, BigInt64Slot.Circuit));
+  }
+
+  /**
+   * Store the given state in the buffer, unless another worker changed it first.
+   * @param {CircuitState} expected The state the circuit breaker is expected to be in.
+   * @param {CircuitState} state The state to store.
+   * @returns {boolean} True if the state was stored, or false if the stored state had changed.
+   * @override
+   */
+  protected compareExchangeState(expected: CircuitState, state: CircuitState): boolean {
+    let circuit = Atomics.load(this._bigInt64, BigInt64Slot.Circuit);
+
+    for (;;) {
+      if (SharedCircuitBreaker._unpackState(circuit) !== expected) {
+        return false;
+      }
+
+      let retry = SharedCircuitBreaker._unpackRetry(circuit);
+
+      // The circuit may have been reset and tripped again since the retry was seen to be due.
+      if (state === CircuitState.HalfOpen && this.clock.now() < retry) {
+        return false;
+      }
+
+      // The state and the retry share a word, so no worker sees a new trip due before its retry is scheduled.
+      if (state === CircuitState.Open) {
+        retry = SharedCircuitBreaker._pendingRetry;
+      }
+
+      const previous = Atomics.compareExchange(
+        this._bigInt64,
+        BigInt64Slot.Circuit,
+        circuit,
+        SharedCircuitBreaker._pack(state, retry),
+      );
+
+      if (previous === circuit) {
+        return true;
+      }
+
+      circuit = previous;
+    }
+  }
+
+  /**
+   * Read the date when the circuit breaker was tripped from the buffer.
+   * @returns {Date | undefined} The date when the circuit breaker was tripped, or undefined if it is not tripped.
+   * @override
+   */
+  protected loadTrippedAt(): Date | undefined {
+    if (!this.isTripped) {
+      return undefined;
+    }
+
+    return new Date(Number(Atomics.load(this._bigInt64, BigInt64Slot.TrippedAt)));
+  }
+
+  /**
+   * Store the date when the circuit breaker was tripped in the buffer.
+   * @param {Date | undefined} trippedAt The date when the circuit breaker was tripped, or undefined once it is not.
+   * @override
+   */
+  protected storeTrippedAt(trippedAt: Date | undefined): void {
+    // The date is only read while tripped, so clearing it could only race a trip made meanwhile by another worker.
+    if (trippedAt !== undefined) {
+      Atomics.store(this._bigInt64, BigInt64Slot.TrippedAt, BigInt(trippedAt.getTime()));
+    }
+  }
+
+  /**
+   * Read the date of the next retry from the buffer.
+   * @returns {Date} The date when the circuit breaker schedules its next retry.
+   * @override
+   */
+  protected get scheduledRetry(): Date {
+    return new Date(SharedCircuitBreaker._unpackRetry(Atomics.load(this._bigInt64, BigInt64Slot.Circuit)));
+  }
+
+  /**
+   * Store the date of the next retry in the buffer, unless the circuit breaker has closed since.
+   * @param {Date} value The date of the next retry.
+   * @override
+   */
+  protected set scheduledRetry(value: Date) {
+    let circuit = Atomics.load(this._bigInt64, BigInt64Slot.Circuit);
+
+    for (;;) {
+      const state = SharedCircuitBreaker._unpackState(circuit);
+
+      if (state !== CircuitState.Open && state !== CircuitState.HalfOpen) {
+        return;
+      }
+
+      const previous = Atomics.compareExchange(
+        this._bigInt64,
+        BigInt64Slot.Circuit,
+        circuit,
+        SharedCircuitBreaker._pack(state, value.getTime()),
+      );
+
+      if (previous === circuit) {
+        return;
+      }
+
+      circuit = previous;
+    }
+  }
+
+  /**
+   * The half-open epoch in the buffer.
+   * @override
+   */
+  protected get halfOpenEpoch(): number {
+    return Atomics.load(this._int32, Int32Slot.HalfOpenEpoch);
+  }
+
+  /**
+   * Admit a probe call, unless the workers already have as many probes in flight as the circuit breaker allows.
+   * Any worker may probe, including one that has made no call since another worker tripped the circuit.
+   * @returns {number | undefined} The number of probes in flight including the new one, or undefined if it was not admitted.
+   * @override
+   */
+  protected acquireProbe(): number | undefined {
+    let activeProbes = Atomics.load(this._int32, Int32Slot.ActiveProbes);
+
+    while (activeProbes < this.halfOpenMaxProbes) {
+      const previous = Atomics.compareExchange(this._int32, Int32Slot.ActiveProbes, activeProbes, activeProbes + 1);
+
+      if (previous === activeProbes) {
+        return activeProbes + 1;
+      }
+
+      activeProbes = previous;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Release a probe call admitted by acquireProbe once it has finished.
+   * @override
+   */
+  protected releaseProbe(): void {
+    Atomics.sub(this._int32, Int32Slot.ActiveProbes, 1);
+  }
+
+  /**
+   * Count a successful probe call of the given half-open epoch in the buffer.
+   * @param {number} epoch The half-open epoch the probe was admitted in.
+   * @returns {number} The number of successful probes in the epoch, or zero if the epoch has ended.
+   * @override
+   */
+  protected countSuccessfulProbe(epoch: number): number {
+    if (Atomics.load(this._int32, Int32Slot.HalfOpenEpoch) !== epoch) {
+      return 0;
+    }
+
+    return Atomics.add(this._int32, Int32Slot.SuccessfulProbes, 1) + 1;
+  }
+
+  /**
+   * End the given half-open epoch in every worker, unless it has already ended.
+   * @param {number} epoch The half-open epoch to end.
+   * @override
+   */
+  protected endHalfOpenEpoch(epoch: number): void {
+    if (Atomics.compareExchange(this._int32, Int32Slot.HalfOpenEpoch, epoch, epoch + 1) === epoch) {
+      Atomics.store(this._int32, Int32Slot.SuccessfulProbes, 0);
+    }
+  }
+
+  /**
+   * Count the trip and schedule its retry.
+   * @param {Date} trippedAt The date when the circuit breaker was tripped.
+   * @override
+   */
+  protected onTripped(trippedAt: Date): void {
+    super.onTripped(trippedAt);
+
+    Atomics.add(this._bigInt64, BigInt64Slot.Trips, 1n);
+  }
+
+  /**
+   * Count the successful call, which ends the run of consecutive failures.
+   * @override
+   */
+  protected onSuccessfulExecution(): void {
+    Atomics.add(this._bigInt64, BigInt64Slot.Successes, 1n);
+    Atomics.store(this._int32, Int32Slot.ConsecutiveFailures, 0);
+  }
+
+  /**
+   * Count the failure, which extends the run of consecutive failures.
+   * @override
+   */
+  protected onFailedExecution(): void {
+    Atomics.add(this._bigInt64, BigInt64Slot.Failures, 1n);
+    Atomics.add(this._int32, Int32Slot.ConsecutiveFailures, 1);
+  }
+
+  /**
+   * Trip once more consecutive failures than allowed have been counted across workers.
+   * @param {Error} error The error that was thrown.
+   * @returns {boolean} True if the circuit breaker should be tripped, otherwise false.
+   * @override
+   */
+  protected shouldTrip(error: Error): boolean {
+    return (
+      this.isFailure(error) &&
+      Atomics.load(this._int32, Int32Slot.ConsecutiveFailures) > this._failuresAllowedBeforeTrip
+    );
+  }
+
+  /**
+   * Test the circuit breaker, counting the rejection if it is tripped.
+   * @throws {CircuitBreakerError} The circuit breaker is tripped.
+   * @override
+   */
+  public test(): void {
+    try {
+      super.test();
+    } catch (e) {
+      Atomics.add(this._bigInt64, BigInt64Slot.Rejections, 1n);
+
+      throw e;
+    }
+  }
+
+  /**
+   * Reset the circuit breaker in every worker.
+   * @returns {boolean} True if the circuit breaker was reset, otherwise false.
+   * @override
+   */
+  public reset(): boolean {
+    if (!super.reset()) {
+      return false;
+    }
+
+    Atomics.store(this._int32, Int32Slot.ConsecutiveFailures, 0);
+    Atomics.add(this._bigInt64, BigInt64Slot.Resets, 1n);
+
+    return true;
+  }
+}
@@ -20,7 +20,9 @@
 	Written by: Nikita Petko
 */
 
-import ExecutionCircuitBreakerBase from '../base/execution_circuit_breaker_base';
+import ExecutionCircuitBreakerBase, { TimeoutError } from '../base/execution_circuit_breaker_base';
+import IExecutionCircuitBreakerOptions from '../interfaces/execution_circuit_breaker_options';
+import ICircuitBreakerSnapshot from '../interfaces/circuit_breaker_snapshot';
 import { FailureDetector, RetryIntervalCalculator } from './execution_circuit_breaker';
 
 /**
@@ -82,6 +84,7 @@ export default class ThresholdExecutionCircuitBreaker extends ExecutionCircuitBr
    * @param {RetryIntervalCalculator} retryIntervalCalculator The function to calculate the retry interval.
    * @param {ErrorCountGetter} errorCountGetter The function to get the error count for tripping the circuit breaker.
    * @param {ErrorIntervalGetter} errorIntervalGetter The function to get the error interval for tripping the circuit breaker.
+   * @param {IExecutionCircuitBreakerOptions} options The optional settings of the circuit breaker.
    */
   public constructor(
     name: string,
@@ -89,6 +92,7 @@ export default class ThresholdExecutionCircuitBreaker extends ExecutionCircuitBr
     retryIntervalCalculator: RetryIntervalCalculator,
     errorCountGetter: ErrorCountGetter,
     errorIntervalGetter: ErrorIntervalGetter,
+    options?: IExecutionCircuitBreakerOptions,
   ) {
     if (name === undefined || name === null || name === '') {
       throw new Error('name cannot be null, undefined or empty.');
@@ -110,7 +114,7 @@ export default class ThresholdExecutionCircuitBreaker extends ExecutionCircuitBr
       throw new Error('errorIntervalGetter cannot be null or undefined.');
     }
 
-    super();
+    super(options);
 
     this._name = name;
     this._failureDetector = failureDetector;
@@ -146,7 +150,11 @@ export default class ThresholdExecutionCircuitBreaker extends ExecutionCircuitBr
       throw new Error('error cannot be null or undefined.');
     }
 
-    if (this._failureDetector(error)) {
+    if (this.isFailure(error)) {
+      if (this.usesRollingWindow) {
+        return this.isTripped || this.rollingWindow.counts.failures > this._errorCountGetter();
+      }
+
       if (super.now.getTime() > this._errorCountIntervalEnd) {
         this._resetErrorCount();
       }
@@ -161,6 +169,16 @@ export default class ThresholdExecutionCircuitBreaker extends ExecutionCircuitBr
     return false;
   }
 
+  /**
+   * Is the given error counted as a failure in the call statistics?
+   * @param {Error} error The error that was thrown.
+   * @returns {boolean} True if the error is a failure, false otherwise.
+   * @override
+   */
+  protected isFailure(error: Error): boolean {
+    return error instanceof TimeoutError || this._failureDetector(error);
+  }
+
   /**
    * Get the retry interval.
    * @returns {number} The retry interval.
@@ -169,4 +187,38 @@ export default class ThresholdExecutionCircuitBreaker extends ExecutionCircuitBr
   protected get retryInterval(): number {
     return this._retryIntervalCalculator();
   }
+
+  /**
+   * Capture the state of the circuit breaker, including its error count.
+   * @returns {ICircuitBreakerSnapshot} A JSON-serializable snapshot of the state.
+   * @override
+   */
+  public snapshot(): ICircuitBreakerSnapshot {
+    const snapshot = super.snapshot();
+
+    return {
+      ...snapshot,
+      counters: {
+        ...snapshot.counters,
+        errorCount: this._errorCount ?? 0,
+        errorCountIntervalEnd: this._errorCountIntervalEnd,
+      },
+    };
+  }
+
+  /**
+   * Restore the state captured in the given snapshot. No events are emitted.
+   * @param {ICircuitBreakerSnapshot} snapshot The snapshot to restore.
+   * @throws {Error} If the snapshot was taken from a circuit breaker with another name.
+   * @override
+   */
+  public restore(snapshot: ICircuitBreakerSnapshot): void {
+    super.restore(snapshot);
+
+    const { errorCount, errorCountIntervalEnd } = snapshot.counters;
+
+    this._errorCount = typeof errorCount === 'number' ? errorCount : 0;
+    this._errorCountIntervalEnd =
+      typeof errorCountIntervalEnd === 'number' ? errorCountIntervalEnd : new Date('0001-01-01T00:00:00Z').getTime();
+  }
 }
@@ -0,0 +1,77 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+	File Name: system_clock.ts
+	Description: Clock backed by the system time and the Node.js timers.
+	Written by: Nikita Petko
+*/
+
+import IClock, { TimerCallback, TimerHandle } from '../interfaces/clock';
+
+/**
+ * Clock backed by the system time and the Node.js timers.
+ */
+export default class SystemClock implements IClock {
+  /**
+   * The shared instance used when no clock is specified.
+   */
+  public static readonly instance: SystemClock = new SystemClock();
+
+  /**
+   * Get the current time.
+   * @returns {number} The current time in milliseconds since the epoch.
+   */
+  public now(): number {
+    return Date.now();
+  }
+
+  /**
+   * Invoke the callback once after the given delay.
+   * @param {TimerCallback} callback The callback.
+   * @param {number} delay The delay in milliseconds.
+   * @returns {TimerHandle} The handle of the timer.
+   */
+  public setTimeout(callback: TimerCallback, delay: number): TimerHandle {
+    return setTimeout(callback, delay);
+  }
+
+  /**
+   * Cancel a timer created by setTimeout.
+   * @param {TimerHandle} handle The handle of the timer.
+   */
+  public clearTimeout(handle: TimerHandle): void {
+    clearTimeout(handle as NodeJS.Timeout);
+  }
+
+  /**
+   * Invoke the callback repeatedly with the given interval.
+   * @param {TimerCallback} callback The callback.
+   * @param {number} interval The interval in milliseconds.
+   * @returns {TimerHandle} The handle of the timer.
+   */
+  public setInterval(callback: TimerCallback, interval: number): TimerHandle {
+    return setInterval(callback, interval);
+  }
+
+  /**
+   * Cancel a timer created by setInterval.
+   * @param {TimerHandle} handle The handle of the timer.
+   */
+  public clearInterval(handle: TimerHandle): void {
+    clearInterval(handle as NodeJS.Timeout);
+  }
+}
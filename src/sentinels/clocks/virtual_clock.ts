@@ -0,0 +1,188 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+	File Name: virtual_clock.ts
+	Description: Manually advanced clock for tests and simulations.
+	Written by: Nikita Petko
+*/
+
+import IClock, { TimerCallback, TimerHandle } from '../interfaces/clock';
+
+/**
+ * @internal This is a private member.
+ */
+interface IVirtualTimer {
+  id: number;
+  dueAt: number;
+  interval: number | undefined;
+  callback: TimerCallback;
+}
+
+/**
+ * Manually advanced clock for tests and simulations.
+ * Time only moves when advance() or advanceTo() is called, and due timers run synchronously in order.
+ */
+export default class VirtualClock implements IClock {
+  /**
+   * @internal This is a private member.
+   */
+  private _now: number;
+
+  /**
+   * @internal This is a private member.
+   */
+  private _nextTimerId = 1;
+
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _timers = new Map<number, IVirtualTimer>();
+
+  /**
+   * Construct a new instance of the VirtualClock class.
+   * @param {number} startTime The initial time in milliseconds since the epoch.
+   */
+  public constructor(startTime = 0) {
+    this._now = startTime;
+  }
+
+  /**
+   * The number of timers that have not yet fired or been cancelled.
+   * @returns {number} The number of pending timers.
+   */
+  public get pendingTimers(): number {
+    return this._timers.size;
+  }
+
+  /**
+   * Get the current time.
+   * @returns {number} The current time in milliseconds since the epoch.
+   */
+  public now(): number {
+    return this._now;
+  }
+
+  /**
+   * Invoke the callback once after the given delay.
+   * @param {TimerCallback} callback The callback.
+   * @param {number} delay The delay in milliseconds.
+   * @returns {TimerHandle} The handle of the timer.
+   */
+  public setTimeout(callback: TimerCallback, delay: number): TimerHandle {
+    return this._schedule(callback, delay, undefined);
+  }
+
+  /**
+   * Cancel a timer created by setTimeout.
+   * @param {TimerHandle} handle The handle of the timer.
+   */
+  public clearTimeout(handle: TimerHandle): void {
+    this._timers.delete(handle as number);
+  }
+
+  /**
+   * Invoke the callback repeatedly with the given interval.
+   * @param {TimerCallback} callback The callback.
+   * @param {number} interval The interval in milliseconds.
+   * @returns {TimerHandle} The handle of the timer.
+   */
+  public setInterval(callback: TimerCallback, interval: number): TimerHandle {
+    return this._schedule(callback, interval, Math.max(interval, 1));
+  }
+
+  /**
+   * Cancel a timer created by setInterval.
+   * @param {TimerHandle} handle The handle of the timer.
+   */
+  public clearInterval(handle: TimerHandle): void {
+    this._timers.delete(handle as number);
+  }
+
+  /**
+   * Move the clock forward, running every timer that becomes due on the way.
+   * @param {number} milliseconds The number of milliseconds to advance by.
+   * @throws {Error} The milliseconds cannot be negative.
+   */
+  public advance(milliseconds: number): void {
+    if (milliseconds < 0) {
+      throw new Error('The clock cannot be advanced by a negative amount.');
+    }
+
+    this.advanceTo(this._now + milliseconds);
+  }
+
+  /**
+   * Move the clock forward to the given time, running every timer that becomes due on the way.
+   * @param {number} time The time in milliseconds since the epoch.
+   * @throws {Error} The time cannot be in the past.
+   */
+  public advanceTo(time: number): void {
+    if (time < this._now) {
+      throw new Error('The clock cannot be moved backwards.');
+    }
+
+    let timer = this._nextDueTimer(time);
+
+    while (timer !== undefined) {
+      this._now = timer.dueAt;
+
+      if (timer.interval === undefined) {
+        this._timers.delete(timer.id);
+      } else {
+        timer.dueAt += timer.interval;
+      }
+
+      timer.callback();
+
+      timer = this._nextDueTimer(time);
+    }
+
+    this._now = time;
+  }
+
+  /**
+   * @internal This is a private member.
+   * @param {TimerCallback} callback The callback.
+   * @param {number} delay The delay in milliseconds.
+   * @param {number | undefined} interval The repeat interval, or undefined for a one-shot timer.
+   * @returns {number} The id of the timer.
+   */
+  private _schedule(callback: TimerCallback, delay: number, interval: number | undefined): number {
+    const id = this._nextTimerId++;
+
+    this._timers.set(id, { id, dueAt: this._now + Math.max(delay, 0), interval, callback });
+
+    return id;
+  }
+
+  /**
+   * @internal This is a private member.
+   * @param {number} until The time up to which timers are due.
+   * @returns {IVirtualTimer | undefined} The earliest due timer, if any.
+   */
+  private _nextDueTimer(until: number): IVirtualTimer | undefined {
+    let next: IVirtualTimer | undefined;
+
+    for (const timer of this._timers.values()) {
+      if (timer.dueAt <= until && (next === undefined || timer.dueAt < next.dueAt)) {
+        next = timer;
+      }
+    }
+
+    return next;
+  }
+}
@@ -0,0 +1,51 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+	File Name: circuit_state.ts
+	Description: The state of a circuit breaker.
+	Written by: Nikita Petko
+*/
+
+/**
+ * The state of a circuit breaker.
+ */
+export enum CircuitState {
+  /**
+   * The circuit is closed and requests flow through.
+   */
+  Closed = 0,
+
+  /**
+   * The circuit is open and requests are rejected.
+   */
+  Open = 1,
+
+  /**
+   * The retry window has elapsed and a limited number of probe requests are admitted.
+   */
+  HalfOpen = 2,
+
+  /**
+   * The circuit has been forced open and rejects requests until the forced state is cleared.
+   */
+  ForcedOpen = 3,
+
+  /**
+   * The circuit has been forced closed and admits requests until the forced state is cleared.
+   */
+  ForcedClosed = 4,
+}
@@ -0,0 +1,41 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+	File Name: failure_source.ts
+	Description: Where the failure of a call executed by an execution circuit breaker came from.
+	Written by: Nikita Petko
+*/
+
+/**
+ * Where the failure of a call executed by an execution circuit breaker came from.
+ */
+export enum FailureSource {
+  /**
+   * The call was rejected because the circuit breaker is open.
+   */
+  CircuitOpen = 0,
+
+  /**
+   * The call timed out.
+   */
+  Timeout = 1,
+
+  /**
+   * The action threw or rejected.
+   */
+  Action = 2,
+}
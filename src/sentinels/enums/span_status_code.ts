@@ -0,0 +1,41 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+	File Name: span_status_code.ts
+	Description: The status of a traced span, with the same values as OpenTelemetry's SpanStatusCode.
+	Written by: Nikita Petko
+*/
+
+/**
+ * The status of a traced span, with the same values as OpenTelemetry's SpanStatusCode.
+ */
+export enum SpanStatusCode {
+  /**
+   * The status has not been set.
+   */
+  Unset = 0,
+
+  /**
+   * The operation completed successfully.
+   */
+  Ok = 1,
+
+  /**
+   * The operation failed.
+   */
+  Error = 2,
+}
@@ -21,16 +21,14 @@
 */
 
 import { Jitter } from './enums/jitter';
+import IRandomSource from './interfaces/random_source';
+import ExponentialBackoffStrategy from './backoff/exponential_backoff_strategy';
 
 /**
  * A class that calculates the exponential backoff time.
+ * @remarks Use ExponentialBackoffStrategy or another IBackoffStrategy for new code.
  */
 export default class ExponentialBackoff {
-  /**
-   * The ceiling for the maximum number of attempts.
-   */
-  public static readonly ceilingForMaxAttempts = 10;
-
   /**
    * Calculates the exponential backoff time.
    * @param {number} attempt The attempt number.
@@ -38,8 +36,9 @@ export default class ExponentialBackoff {
    * @param {number} baseDelay The base delay.
    * @param {number} maxDelay The maximum delay.
    * @param {Jitter} jitter The jitter.
+   * @param {IRandomSource} random The source of random numbers for the jitter, defaults to Math.random.
    * @returns {number} The exponential backoff time.
-   * @throws {Error} The max attempts must be between 0 and 10.
+   * @throws {Error} The max attempts cannot be less than 0.
    */
   public static calculateBackoff(
     attempt: number,
@@ -47,25 +46,16 @@ export default class ExponentialBackoff {
     baseDelay: number,
     maxDelay: number,
     jitter: Jitter,
+    random?: IRandomSource,
   ): number {
-    if (maxAttempts < 0 || maxAttempts > this.ceilingForMaxAttempts) {
-      throw new Error(`The max attempts must be between 0 and ${this.ceilingForMaxAttempts}.`);
+    if (maxAttempts < 0) {
+      throw new Error('The max attempts cannot be less than 0.');
     }
 
     if (attempt > maxAttempts) {
       attempt = maxAttempts;
     }
 
-    const delay = Math.min(baseDelay * Math.pow(2, attempt - 1), maxDelay);
-
-    const nextRandomValue = Math.random();
-    switch (jitter) {
-      case Jitter.Full:
-        return delay * nextRandomValue;
-      case Jitter.Equal:
-        return delay * (0.5 + nextRandomValue * 0.5);
-      default:
-        return delay;
-    }
+    return ExponentialBackoffStrategy.calculateDelay(attempt, baseDelay, maxDelay, jitter, random);
   }
 }
@@ -0,0 +1,226 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+	File Name: hedged_executor.ts
+	Description: Sends extra copies of slow idempotent actions and settles with the first one to succeed.
+	Written by: Nikita Petko
+*/
+
+import IClock, { TimerHandle } from './interfaces/clock';
+import SystemClock from './clocks/system_clock';
+import ExecutionCircuitBreakerBase, { AsyncAction } from './base/execution_circuit_breaker_base';
+
+/**
+ * Error thrown when every hedged attempt of an action has failed.
+ */
+export class HedgeExhaustedError extends AggregateError {
+  /**
+   * Construct a new instance of the HedgeExhaustedError class.
+   * @param {Error[]} errors The errors of every attempt, in the order they failed.
+   */
+  public constructor(errors: Error[]) {
+    super(errors, `All ${errors.length} hedged attempts of the action failed.`);
+
+    this.name = 'HedgeExhausted Error';
+  }
+}
+
+/**
+ * Sends extra copies of slow idempotent actions and settles with the first one to succeed.
+ */
+export default class HedgedExecutor {
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _maxAttempts: number;
+
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _hedgeDelay: number;
+
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _circuitBreaker: ExecutionCircuitBreakerBase | undefined;
+
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _clock: IClock;
+
+  /**
+   * Construct a new instance of the HedgedExecutor class.
+   * @param {number} maxAttempts The maximum number of copies of the action in flight, including the first.
+   * @param {number} hedgeDelay The time to wait for an answer before sending the next copy in milliseconds.
+   * @param {ExecutionCircuitBreakerBase} circuitBreaker The circuit breaker every copy is executed through, if any.
+   * @param {IClock} clock The clock used to wait between copies, defaults to the system clock.
+   */
+  public constructor(
+    maxAttempts: number,
+    hedgeDelay: number,
+    circuitBreaker?: ExecutionCircuitBreakerBase,
+    clock?: IClock,
+  ) {
+    if (!Number.isInteger(maxAttempts) || maxAttempts < 1) {
+      throw new Error('maxAttempts must be a positive integer.');
+    }
+
+    if (!(hedgeDelay >= 0)) {
+      throw new Error('hedgeDelay cannot be less than zero.');
+    }
+
+    this._maxAttempts = maxAttempts;
+    this._hedgeDelay = hedgeDelay;
+    this._circuitBreaker = circuitBreaker;
+    this._clock = clock ?? SystemClock.instance;
+  }
+
+  /**
+   * The maximum number of copies of the action in flight, including the first.
+   * @returns {number} The maximum number of attempts.
+   */
+  public get maxAttempts(): number {
+    return this._maxAttempts;
+  }
+
+  /**
+   * The time to wait for an answer before sending the next copy in milliseconds.
+   * @returns {number} The hedge delay.
+   */
+  public get hedgeDelay(): number {
+    return this._hedgeDelay;
+  }
+
+  /**
+   * Execute the given action, sending another copy of it whenever the copies in flight take longer than the hedge delay or fail.
+   * @template TResult The type of the result of the action.
+   * @param {AsyncAction<TResult>} action The idempotent action to execute, which receives the abort signal of its copy.
+   * @param {AbortSignal} signal The signal that aborts every copy in flight when aborted.
+   * @returns {Promise<TResult>} A promise that resolves with the result of the first copy to succeed.
+   * @throws {HedgeExhaustedError} Every copy that was sent failed.
+   * @remarks The other copies are aborted once one succeeds, and the circuit breaker counts the copies it aborts as neither successes nor failures.
+   * No further copies are sent while the circuit breaker is open.
+   */
+  public executeAsync<TResult>(action: AsyncAction<TResult>, signal?: AbortSignal): Promise<TResult> {
+    return new Promise((resolve, reject) => {
+      signal?.throwIfAborted();
+
+      const controllers: AbortController[] = [];
+      const errors: Error[] = [];
+
+      let inFlight = 0;
+      let settled = false;
+      let timer: TimerHandle | undefined;
+
+      const stopHedging = () => {
+        if (timer !== undefined) {
+          this._clock.clearTimeout(timer);
+          timer = undefined;
+        }
+      };
+
+      const settle = () => {
+        settled = true;
+
+        stopHedging();
+        signal?.removeEventListener('abort', onAbort);
+      };
+
+      const onAbort = () => {
+        settle();
+
+        for (const controller of controllers) {
+          controller.abort(signal.reason);
+        }
+
+        reject(signal.reason);
+      };
+
+      const canHedge = () => controllers.length < this._maxAttempts && !this._circuitBreaker?.isTripped;
+
+      const run = (controller: AbortController): Promise<TResult> => {
+        // Copies cancelled by the caller or by a winning copy are not routed through the outcome of the circuit breaker.
+        if (this._circuitBreaker !== undefined) {
+          return this._circuitBreaker.executeAsync(action, { signal: controller.signal });
+        }
+
+        try {
+          return action(controller.signal);
+        } catch (e) {
+          return Promise.reject(e);
+        }
+      };
+
+      const launch = () => {
+        stopHedging();
+
+        const controller = new AbortController();
+
+        controllers.push(controller);
+        inFlight++;
+
+        run(controller).then(
+          (result) => {
+            if (settled) {
+              return;
+            }
+
+            settle();
+
+            for (const other of controllers) {
+              if (other !== controller) {
+                other.abort(new Error('Another hedged attempt of the action succeeded first.'));
+              }
+            }
+
+            resolve(result);
+          },
+          (error) => {
+            if (settled) {
+              return;
+            }
+
+            inFlight--;
+            errors.push(error);
+
+            if (canHedge()) {
+              launch();
+            } else if (inFlight === 0) {
+              settle();
+              reject(new HedgeExhaustedError(errors));
+            }
+          },
+        );
+
+        if (controllers.length < this._maxAttempts) {
+          timer = this._clock.setTimeout(() => {
+            timer = undefined;
+
+            if (canHedge()) {
+              launch();
+            }
+          }, this._hedgeDelay);
+        }
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      launch();
+    });
+  }
+}
@@ -0,0 +1,45 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+	File Name: backoff_strategy.ts
+	Description: Interface for strategies that calculate the delays between retries.
+	Written by: Nikita Petko
+*/
+
+/* eslint-disable semi */
+
+/**
+ * Interface for strategies that calculate the delays between retries.
+ * @remarks Strategies are stateful, so each sequence of retries should use its own instance or reset it first.
+ */
+export default interface IBackoffStrategy {
+  /**
+   * The number of delays calculated since the strategy was created or reset.
+   */
+  readonly attempt: number;
+
+  /**
+   * Calculate the delay before the next retry.
+   * @returns {number} The delay in milliseconds.
+   */
+  nextDelay(): number;
+
+  /**
+   * Start a new sequence of retries.
+   */
+  reset(): void;
+}
@@ -0,0 +1,46 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+	File Name: bulkhead_options.ts
+	Description: Interface for the optional settings of bulkheads.
+	Written by: Nikita Petko
+*/
+
+/* eslint-disable semi */
+
+import IClock from './clock';
+
+/**
+ * Interface for the optional settings of bulkheads.
+ */
+export default interface IBulkheadOptions {
+  /**
+   * The maximum number of calls made with executeAsync that may wait for a free slot. Defaults to 0.
+   */
+  maxQueuedCalls?: number;
+
+  /**
+   * How long in milliseconds a queued call may wait for a free slot before it is rejected.
+   * Queued calls wait indefinitely when no queue timeout is specified.
+   */
+  queueTimeout?: number;
+
+  /**
+   * The clock used to time out queued calls. Defaults to the system clock.
+   */
+  clock?: IClock;
+}
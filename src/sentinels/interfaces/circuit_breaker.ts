@@ -22,6 +22,9 @@
 
 /* eslint-disable semi */
 
+import { CircuitState } from '../enums/circuit_state';
+import ICircuitStateTransition from './circuit_state_transition';
+
 /**
  * Interface for the circuit breaker.
  */
@@ -32,6 +35,30 @@ export default interface ICircuitBreaker {
    */
   get isTripped(): boolean;
 
+  /**
+   * The current state of the circuit breaker.
+   * @returns {CircuitState} The current state of the circuit breaker.
+   */
+  get state(): CircuitState;
+
+  /**
+   * The date when the circuit breaker was tripped.
+   * @returns {Date | undefined} The date when the circuit breaker was tripped, or undefined if it is not tripped.
+   */
+  get trippedAt(): Date | undefined;
+
+  /**
+   * The date when the circuit breaker will next admit a probe request.
+   * @returns {Date | undefined} The date of the next retry, or undefined if no retry is scheduled.
+   */
+  get nextRetryAt(): Date | undefined;
+
+  /**
+   * The most recent state transitions of the circuit breaker, oldest first.
+   * @returns {ICircuitStateTransition[]} The most recent state transitions.
+   */
+  get transitions(): ICircuitStateTransition[];
+
   /**
    * Reset the circuit breaker.
    * @returns {boolean} Is the circuit breaker tripped.
@@ -50,4 +77,22 @@ export default interface ICircuitBreaker {
    * @returns {boolean} Is the circuit breaker tripped.
    */
   trip(): boolean;
+
+  /**
+   * Force the circuit breaker open until the forced state is cleared.
+   * @returns {boolean} Was the state changed.
+   */
+  forceOpen(): boolean;
+
+  /**
+   * Force the circuit breaker closed until the forced state is cleared.
+   * @returns {boolean} Was the state changed.
+   */
+  forceClosed(): boolean;
+
+  /**
+   * Clear a forced state, closing the circuit breaker.
+   * @returns {boolean} Was a forced state cleared.
+   */
+  clearForcedState(): boolean;
 }
@@ -0,0 +1,178 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+	File Name: circuit_breaker_events.ts
+	Description: Interfaces for the lifecycle events of circuit breakers and policies.
+	Written by: Nikita Petko
+*/
+
+/* eslint-disable semi */
+
+/**
+ * Interface for the payload shared by every circuit breaker event.
+ */
+export interface ICircuitBreakerEvent {
+  /**
+   * The name of the circuit breaker or policy that emitted the event.
+   */
+  readonly name: string;
+
+  /**
+   * The date when the event was emitted.
+   */
+  readonly timestamp: Date;
+}
+
+/**
+ * Interface for the payload of the tripped event.
+ */
+export interface ICircuitBreakerTrippedEvent extends ICircuitBreakerEvent {
+  /**
+   * The error that tripped the circuit breaker, or undefined if it was tripped manually.
+   */
+  readonly error: Error | undefined;
+
+  /**
+   * The date when the circuit breaker will next admit a probe request, if one is scheduled.
+   */
+  readonly nextRetryAt: Date | undefined;
+}
+
+/**
+ * Interface for the payload of the reset event.
+ */
+export interface ICircuitBreakerResetEvent extends ICircuitBreakerEvent {
+  /**
+   * How long the circuit breaker was tripped for, in milliseconds.
+   */
+  readonly trippedFor: number;
+}
+
+/**
+ * Interface for the payload of the rejected event.
+ */
+export interface ICircuitBreakerRejectedEvent extends ICircuitBreakerEvent {
+  /**
+   * The error the request was rejected with.
+   */
+  readonly error: Error;
+}
+
+/**
+ * Interface for the payload of the probeAdmitted event.
+ */
+export interface ICircuitBreakerProbeAdmittedEvent extends ICircuitBreakerEvent {
+  /**
+   * The number of probes in flight, including the one just admitted.
+   */
+  readonly activeProbes: number;
+}
+
+/**
+ * Interface for the payload of the success event.
+ */
+export interface ICircuitBreakerSuccessEvent extends ICircuitBreakerEvent {
+  /**
+   * How long the call took, in milliseconds, or undefined if the emitter does not time calls.
+   */
+  readonly duration: number | undefined;
+}
+
+/**
+ * Interface for the payload of the failure event.
+ */
+export interface ICircuitBreakerFailureEvent extends ICircuitBreakerEvent {
+  /**
+   * The error the call failed with.
+   */
+  readonly error: Error;
+
+  /**
+   * How long the call took, in milliseconds, or undefined if the emitter does not time calls.
+   */
+  readonly duration: number | undefined;
+}
+
+/**
+ * Interface for the payload of the ignored event.
+ */
+export interface ICircuitBreakerIgnoredEvent extends ICircuitBreakerEvent {
+  /**
+   * The error the call threw, which the circuit breaker does not count as a failure.
+   */
+  readonly error: Error;
+
+  /**
+   * How long the call took, in milliseconds, or undefined if the emitter does not time calls.
+   */
+  readonly duration: number | undefined;
+}
+
+/**
+ * Interface for the payload of the slowCall event.
+ */
+export interface ICircuitBreakerSlowCallEvent extends ICircuitBreakerEvent {
+  /**
+   * How long the call took, in milliseconds.
+   */
+  readonly duration: number;
+}
+
+/**
+ * Interface for the map of circuit breaker event names to their payloads.
+ */
+export default interface ICircuitBreakerEvents {
+  /**
+   * Emitted when the circuit breaker trips or reopens.
+   */
+  tripped: ICircuitBreakerTrippedEvent;
+
+  /**
+   * Emitted when the circuit breaker closes.
+   */
+  reset: ICircuitBreakerResetEvent;
+
+  /**
+   * Emitted when a request is rejected because the circuit breaker is open.
+   */
+  rejected: ICircuitBreakerRejectedEvent;
+
+  /**
+   * Emitted when a probe request is admitted while the circuit breaker is half-open.
+   */
+  probeAdmitted: ICircuitBreakerProbeAdmittedEvent;
+
+  /**
+   * Emitted when a request succeeds.
+   */
+  success: ICircuitBreakerSuccessEvent;
+
+  /**
+   * Emitted when a request fails.
+   */
+  failure: ICircuitBreakerFailureEvent;
+
+  /**
+   * Emitted when a request throws an error that is not counted as a failure.
+   */
+  ignored: ICircuitBreakerIgnoredEvent;
+
+  /**
+   * Emitted when a request takes at least as long as the slow call duration.
+   */
+  slowCall: ICircuitBreakerSlowCallEvent;
+}
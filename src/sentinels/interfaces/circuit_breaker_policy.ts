@@ -54,6 +54,12 @@ export default interface ICircuitBreakerPolicy<in TExecutionContext> {
    */
   notifyRequestFinished(executionContext: TExecutionContext, error?: Error): void;
 
+  /**
+   * Notify the policy that the caller cancelled a request, which counts as neither a success nor a failure.
+   * @param {TExecutionContext} executionContext The execution context.
+   */
+  notifyRequestCancelled(executionContext: TExecutionContext): void;
+
   /**
    * Throw if the circuit breaker is tripped.
    * @param {TExecutionContext} executionContext The execution context.
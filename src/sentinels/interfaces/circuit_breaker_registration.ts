@@ -0,0 +1,44 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+	File Name: circuit_breaker_registration.ts
+	Description: Interface for the entries of a circuit breaker registry.
+	Written by: Nikita Petko
+*/
+
+/* eslint-disable semi */
+
+/**
+ * Interface for the entries of a circuit breaker registry.
+ * @template TCircuitBreaker The type of the registered circuit breaker or policy.
+ */
+export default interface ICircuitBreakerRegistration<TCircuitBreaker> {
+  /**
+   * The name the circuit breaker or policy is registered under.
+   */
+  readonly name: string;
+
+  /**
+   * The tags of the circuit breaker or policy.
+   */
+  readonly tags: readonly string[];
+
+  /**
+   * The registered circuit breaker or policy.
+   */
+  readonly circuitBreaker: TCircuitBreaker;
+}
@@ -0,0 +1,61 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+	File Name: circuit_breaker_snapshot.ts
+	Description: Interface for the JSON-serializable snapshots of circuit breakers and policies.
+	Written by: Nikita Petko
+*/
+
+/* eslint-disable semi */
+
+import { CircuitState } from '../enums/circuit_state';
+import IRollingWindowBucket from './rolling_window_bucket';
+
+/**
+ * Interface for the JSON-serializable snapshots of circuit breakers and policies.
+ */
+export default interface ICircuitBreakerSnapshot {
+  /**
+   * The name of the circuit breaker.
+   */
+  readonly name: string;
+
+  /**
+   * The state of the circuit breaker.
+   */
+  readonly state: CircuitState;
+
+  /**
+   * The date when the circuit breaker was tripped, as an ISO 8601 string, or undefined if it is not tripped.
+   */
+  readonly trippedAt?: string;
+
+  /**
+   * The date when the circuit breaker will next admit a probe request, as an ISO 8601 string, or undefined if no retry is scheduled.
+   */
+  readonly nextRetryAt?: string;
+
+  /**
+   * The counters specific to the kind of circuit breaker, such as the consecutive failures of a policy.
+   */
+  readonly counters: Readonly<Record<string, number | number[]>>;
+
+  /**
+   * The buckets of the rolling window of the circuit breaker, if it has one.
+   */
+  readonly window?: IRollingWindowBucket[];
+}
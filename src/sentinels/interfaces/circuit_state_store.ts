@@ -0,0 +1,70 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+	File Name: circuit_state_store.ts
+	Description: Interface for stores that share the state of circuit breakers between processes.
+	Written by: Nikita Petko
+*/
+
+/* eslint-disable semi */
+
+import ICircuitBreakerSnapshot from './circuit_breaker_snapshot';
+
+/**
+ * Interface for the state of a circuit breaker held in a store.
+ */
+export interface IStoredCircuitState {
+  /**
+   * The version of the state, incremented by one on every write.
+   */
+  readonly version: number;
+
+  /**
+   * The snapshot of the circuit breaker.
+   */
+  readonly snapshot: ICircuitBreakerSnapshot;
+}
+
+/**
+ * Interface for stores that share the state of circuit breakers between processes.
+ * @remarks Every write is a compare-and-set against the version of the state, so concurrent writers cannot overwrite each other.
+ * The methods are asynchronous so that stores can be backed by remote services such as Redis.
+ */
+export default interface ICircuitStateStore {
+  /**
+   * Read the state of the given circuit breaker.
+   * @param {string} name The name of the circuit breaker.
+   * @returns {Promise<IStoredCircuitState | undefined>} A promise that resolves with the state, or undefined if none is stored.
+   */
+  getAsync(name: string): Promise<IStoredCircuitState | undefined>;
+
+  /**
+   * Write the state of the given circuit breaker, if its version is still the expected one.
+   * @param {string} name The name of the circuit breaker.
+   * @param {number} expectedVersion The version the state is expected to have, or 0 if no state is expected to be stored.
+   * @param {ICircuitBreakerSnapshot} snapshot The snapshot to write, as version expectedVersion + 1.
+   * @returns {Promise<boolean>} A promise that resolves with true if the state was written, or false if its version had changed.
+   */
+  compareAndSetAsync(name: string, expectedVersion: number, snapshot: ICircuitBreakerSnapshot): Promise<boolean>;
+
+  /**
+   * Delete the state of the given circuit breaker.
+   * @param {string} name The name of the circuit breaker.
+   * @returns {Promise<boolean>} A promise that resolves with true if a state was deleted, otherwise false.
+   */
+  deleteAsync(name: string): Promise<boolean>;
+}
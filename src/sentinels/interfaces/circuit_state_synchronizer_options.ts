@@ -0,0 +1,40 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+	File Name: circuit_state_synchronizer_options.ts
+	Description: Interface for the optional settings of circuit state synchronizers.
+	Written by: Nikita Petko
+*/
+
+/* eslint-disable semi */
+
+import IClock from './clock';
+
+/**
+ * Interface for the optional settings of circuit state synchronizers.
+ */
+export default interface ICircuitStateSynchronizerOptions {
+  /**
+   * How often in milliseconds the state is read back from the store once started. Defaults to 1000.
+   */
+  pollInterval?: number;
+
+  /**
+   * The clock used to schedule the polling. Defaults to the system clock.
+   */
+  clock?: IClock;
+}
@@ -0,0 +1,45 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+	File Name: circuit_state_transition.ts
+	Description: Interface for a recorded circuit state transition.
+	Written by: Nikita Petko
+*/
+
+/* eslint-disable semi */
+
+import { CircuitState } from '../enums/circuit_state';
+
+/**
+ * Interface for a recorded circuit state transition.
+ */
+export default interface ICircuitStateTransition {
+  /**
+   * The state the circuit breaker transitioned from.
+   */
+  readonly from: CircuitState;
+
+  /**
+   * The state the circuit breaker transitioned to.
+   */
+  readonly to: CircuitState;
+
+  /**
+   * The date when the transition happened.
+   */
+  readonly at: Date;
+}
@@ -0,0 +1,74 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+	File Name: clock.ts
+	Description: Interface for the clock and scheduler used by breakers, policies and sentinels.
+	Written by: Nikita Petko
+*/
+
+/* eslint-disable semi */
+
+/**
+ * An opaque handle to a scheduled timer.
+ */
+export type TimerHandle = unknown;
+
+/**
+ * Represents a callback invoked by a timer.
+ */
+export type TimerCallback = () => void;
+
+/**
+ * Interface for the clock and scheduler used by breakers, policies and sentinels.
+ */
+export default interface IClock {
+  /**
+   * Get the current time.
+   * @returns {number} The current time in milliseconds since the epoch.
+   */
+  now(): number;
+
+  /**
+   * Invoke the callback once after the given delay.
+   * @param {TimerCallback} callback The callback.
+   * @param {number} delay The delay in milliseconds.
+   * @returns {TimerHandle} The handle of the timer.
+   */
+  setTimeout(callback: TimerCallback, delay: number): TimerHandle;
+
+  /**
+   * Cancel a timer created by setTimeout.
+   * @param {TimerHandle} handle The handle of the timer.
+   * @returns {void}
+   */
+  clearTimeout(handle: TimerHandle): void;
+
+  /**
+   * Invoke the callback repeatedly with the given interval.
+   * @param {TimerCallback} callback The callback.
+   * @param {number} interval The interval in milliseconds.
+   * @returns {TimerHandle} The handle of the timer.
+   */
+  setInterval(callback: TimerCallback, interval: number): TimerHandle;
+
+  /**
+   * Cancel a timer created by setInterval.
+   * @param {TimerHandle} handle The handle of the timer.
+   * @returns {void}
+   */
+  clearInterval(handle: TimerHandle): void;
+}
@@ -49,4 +49,16 @@ export default interface IDefaultCircuitBreakerPolicyConfig {
    * @param {number} value The failures allowed before tripping the circuit breaker.
    */
   set failuresAllowedBeforeTrip(value: number);
+
+  /**
+   * The maximum number of probe requests admitted concurrently while the circuit breaker is half-open.
+   * The circuit breaker closes once this many probes have succeeded. Defaults to 1.
+   */
+  halfOpenMaxProbes?: number;
+
+  /**
+   * The number of requests that must have finished in the current rolling window before the circuit breaker may trip.
+   * Defaults to 0.
+   */
+  minimumCalls?: number;
 }
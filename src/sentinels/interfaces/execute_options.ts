@@ -0,0 +1,76 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+	File Name: execute_options.ts
+	Description: Interfaces for the per-call options of execution circuit breakers.
+	Written by: Nikita Petko
+*/
+
+/* eslint-disable semi */
+
+import { FailureSource } from '../enums/failure_source';
+
+/**
+ * Represents a function that serves a result in place of a failed call.
+ * @template TResult The type of the result.
+ * @param {Error} error The error the call failed with.
+ * @param {FailureSource} source Where the failure came from.
+ * @returns {TResult} The result returned to the caller instead.
+ */
+export type Fallback<TResult> = (error: Error, source: FailureSource) => TResult;
+
+/**
+ * Represents a function that serves a result in place of a failed asynchronous call.
+ * @template TResult The type of the result.
+ * @param {Error} error The error the call failed with.
+ * @param {FailureSource} source Where the failure came from.
+ * @returns {TResult | Promise<TResult>} The result returned to the caller instead.
+ */
+export type AsyncFallback<TResult> = (error: Error, source: FailureSource) => TResult | Promise<TResult>;
+
+/**
+ * Interface for the per-call options of execute.
+ * @template TResult The type of the result of the action.
+ */
+export interface IExecuteOptions<TResult> {
+  /**
+   * The function that serves a result when the call is rejected or fails.
+   */
+  fallback?: Fallback<TResult>;
+}
+
+/**
+ * Interface for the per-call options of executeAsync.
+ * @template TResult The type of the result of the action.
+ */
+export default interface IExecuteAsyncOptions<TResult> {
+  /**
+   * The timeout for the call in milliseconds, defaults to the timeout option of the circuit breaker.
+   */
+  timeout?: number;
+
+  /**
+   * The function that serves a result when the call is rejected, times out or fails.
+   */
+  fallback?: AsyncFallback<TResult>;
+
+  /**
+   * The signal the caller aborts to cancel the call, which aborts the signal passed to the action.
+   * A cancelled call counts as neither a success nor a failure, and is not served by the fallback.
+   */
+  signal?: AbortSignal;
+}
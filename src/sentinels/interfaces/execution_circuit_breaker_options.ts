@@ -0,0 +1,77 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+	File Name: execution_circuit_breaker_options.ts
+	Description: Interface for the optional settings of execution circuit breakers.
+	Written by: Nikita Petko
+*/
+
+/* eslint-disable semi */
+
+import IClock from './clock';
+import IRollingWindowOptions from './rolling_window_options';
+
+/**
+ * Interface for the optional settings of execution circuit breakers.
+ */
+export default interface IExecutionCircuitBreakerOptions {
+  /**
+   * The maximum number of probe calls admitted concurrently while the circuit breaker is half-open.
+   * The circuit breaker closes once this many probes have succeeded. Defaults to 1.
+   */
+  halfOpenMaxProbes?: number;
+
+  /**
+   * The clock used to tell the time. Defaults to the system clock.
+   */
+  clock?: IClock;
+
+  /**
+   * The rolling window the call statistics are recorded in. Defaults to 10 buckets of 1 second.
+   * When specified, threshold and failure rate circuit breakers evaluate against the rolling window instead of their own
+   * window.
+   */
+  rollingWindow?: IRollingWindowOptions;
+
+  /**
+   * The duration in milliseconds at or above which a call is considered slow.
+   * Slow calls are only counted when this is specified.
+   */
+  slowCallDuration?: number;
+
+  /**
+   * The percentage of calls in the rolling window, between 0 and 100, that must be slow for the circuit breaker to trip.
+   */
+  slowCallRateThreshold?: number;
+
+  /**
+   * The number of slow calls in the rolling window for the circuit breaker to trip.
+   */
+  slowCallCountThreshold?: number;
+
+  /**
+   * The number of calls that must have finished in the rolling window before the circuit breaker may trip.
+   * Defaults to 0.
+   */
+  minimumCalls?: number;
+
+  /**
+   * The timeout in milliseconds for calls made with executeAsync, which can be overridden per call.
+   * Calls wait indefinitely when no timeout is specified.
+   */
+  timeout?: number;
+}
@@ -0,0 +1,43 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+	File Name: file_circuit_state_store_options.ts
+	Description: Interface for the optional settings of file-backed circuit state stores.
+	Written by: Nikita Petko
+*/
+
+/* eslint-disable semi */
+
+/**
+ * Interface for the optional settings of file-backed circuit state stores.
+ */
+export default interface IFileCircuitStateStoreOptions {
+  /**
+   * How long in milliseconds a write may wait for the lock on the file before it fails. Defaults to 5000.
+   */
+  lockTimeout?: number;
+
+  /**
+   * How long in milliseconds to wait between attempts to take the lock on the file. Defaults to 10.
+   */
+  lockRetryDelay?: number;
+
+  /**
+   * How old in milliseconds a lock may get before it is considered abandoned by a crashed process and removed. Defaults to 30000.
+   */
+  staleLockAge?: number;
+}
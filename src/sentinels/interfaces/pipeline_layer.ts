@@ -0,0 +1,44 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+	File Name: pipeline_layer.ts
+	Description: Interface for the layers of a resilience pipeline.
+	Written by: Nikita Petko
+*/
+
+/* eslint-disable semi */
+
+import { AsyncAction } from '../base/execution_circuit_breaker_base';
+
+/**
+ * Interface for the layers of a resilience pipeline.
+ * @template TResult The type of the result of the pipeline.
+ */
+export default interface IPipelineLayer<TResult> {
+  /**
+   * The description of the layer, used to describe the pipeline.
+   */
+  readonly description: string;
+
+  /**
+   * Execute the next layer of the pipeline through this layer.
+   * @param {AsyncAction<TResult>} next The next layer of the pipeline, or the action itself for the innermost layer.
+   * @param {AbortSignal} signal The signal aborted when the call through the pipeline is aborted.
+   * @returns {Promise<TResult>} A promise that resolves with the result of the next layer.
+   */
+  execute(next: AsyncAction<TResult>, signal: AbortSignal): Promise<TResult>;
+}
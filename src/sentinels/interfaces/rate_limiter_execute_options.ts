@@ -0,0 +1,38 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+	File Name: rate_limiter_execute_options.ts
+	Description: Interface for the per-call options of rate limiters.
+	Written by: Nikita Petko
+*/
+
+/* eslint-disable semi */
+
+/**
+ * Interface for the per-call options of executeAsync on rate limiters.
+ */
+export default interface IRateLimiterExecuteOptions {
+  /**
+   * The longest time in milliseconds to wait for a permit, defaults to 0.
+   */
+  maxWait?: number;
+
+  /**
+   * The signal the caller aborts to cancel the call. It is passed to the action, and stops the call from waiting for a permit.
+   */
+  signal?: AbortSignal;
+}
@@ -0,0 +1,35 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+	File Name: rolling_window_bucket.ts
+	Description: Interface for the buckets of a rolling window, as captured in snapshots.
+	Written by: Nikita Petko
+*/
+
+/* eslint-disable semi */
+
+import IRollingWindowCounts from './rolling_window_counts';
+
+/**
+ * Interface for the buckets of a rolling window, as captured in snapshots.
+ */
+export default interface IRollingWindowBucket extends IRollingWindowCounts {
+  /**
+   * The start time of the bucket, in milliseconds since the epoch.
+   */
+  readonly start: number;
+}
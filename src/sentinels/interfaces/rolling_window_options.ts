@@ -0,0 +1,38 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+	File Name: rolling_window_options.ts
+	Description: Interface for the settings of a rolling window.
+	Written by: Nikita Petko
+*/
+
+/* eslint-disable semi */
+
+/**
+ * Interface for the settings of a rolling window.
+ */
+export default interface IRollingWindowOptions {
+  /**
+   * The number of buckets the window is split into. Defaults to 10.
+   */
+  bucketCount?: number;
+
+  /**
+   * The duration of each bucket in milliseconds. Defaults to 1000.
+   */
+  bucketDuration?: number;
+}
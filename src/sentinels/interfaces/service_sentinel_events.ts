@@ -0,0 +1,48 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+	File Name: service_sentinel_events.ts
+	Description: Interfaces for the events emitted by service sentinels.
+	Written by: Nikita Petko
+*/
+
+/* eslint-disable semi */
+
+/**
+ * Interface for the payload of the healthChanged event.
+ */
+export interface IServiceSentinelHealthChangedEvent {
+  /**
+   * Is the service healthy now?
+   */
+  readonly isHealthy: boolean;
+
+  /**
+   * The date when the event was emitted.
+   */
+  readonly timestamp: Date;
+}
+
+/**
+ * Interface for the map of service sentinel event names to their payloads.
+ */
+export default interface IServiceSentinelEvents {
+  /**
+   * Emitted when the health check flips the health status of the service.
+   */
+  healthChanged: IServiceSentinelHealthChangedEvent;
+}
@@ -0,0 +1,58 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+	File Name: shared_circuit_breaker_counts.ts
+	Description: Interface for the call counts of shared circuit breakers.
+	Written by: Nikita Petko
+*/
+
+/* eslint-disable semi */
+
+/**
+ * Interface for the call counts of shared circuit breakers, summed over every worker sharing the buffer.
+ */
+export default interface ISharedCircuitBreakerCounts {
+  /**
+   * The number of calls that completed without a failure.
+   */
+  readonly successes: number;
+
+  /**
+   * The number of calls that failed.
+   */
+  readonly failures: number;
+
+  /**
+   * The number of calls that were rejected without being executed.
+   */
+  readonly rejections: number;
+
+  /**
+   * The number of times the circuit breaker tripped.
+   */
+  readonly trips: number;
+
+  /**
+   * The number of times the circuit breaker was reset.
+   */
+  readonly resets: number;
+
+  /**
+   * The number of failures since the last call that completed without a failure.
+   */
+  readonly consecutiveFailures: number;
+}
@@ -0,0 +1,48 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+	File Name: shared_circuit_breaker_options.ts
+	Description: Interface for the optional settings of shared circuit breakers.
+	Written by: Nikita Petko
+*/
+
+/* eslint-disable semi */
+
+import IClock from './clock';
+import IExecutionCircuitBreakerOptions from './execution_circuit_breaker_options';
+
+/**
+ * Interface for the optional settings of shared circuit breakers.
+ */
+export default interface ISharedCircuitBreakerOptions extends IExecutionCircuitBreakerOptions {
+  /**
+   * The buffer the state lives in, taken from the buffer property of the circuit breaker in another worker.
+   * A new buffer is allocated when none is specified.
+   */
+  buffer?: SharedArrayBuffer;
+
+  /**
+   * The number of consecutive failures allowed before the circuit breaker trips. Defaults to 0.
+   */
+  failuresAllowedBeforeTrip?: number;
+
+  /**
+   * The clock used to tell the time. Defaults to the system clock.
+   * Workers sharing a buffer must tell the same time, so only the system clock is suitable across threads.
+   */
+  clock?: IClock;
+}
@@ -0,0 +1,41 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+	File Name: snapshottable.ts
+	Description: Interface for anything whose state can be captured in a snapshot and restored from it.
+	Written by: Nikita Petko
+*/
+
+/* eslint-disable semi */
+
+/**
+ * Interface for anything whose state can be captured in a snapshot and restored from it.
+ * @template TSnapshot The type of the JSON-serializable snapshot.
+ */
+export default interface ISnapshottable<TSnapshot> {
+  /**
+   * Capture the current state.
+   * @returns {TSnapshot} A JSON-serializable snapshot of the state.
+   */
+  snapshot(): TSnapshot;
+
+  /**
+   * Restore the state captured in the given snapshot.
+   * @param {TSnapshot} snapshot The snapshot to restore.
+   */
+  restore(snapshot: TSnapshot): void;
+}
@@ -0,0 +1,96 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+	File Name: span.ts
+	Description: Interface for traced spans, shaped like OpenTelemetry's Span.
+	Written by: Nikita Petko
+*/
+
+/* eslint-disable semi */
+
+import { SpanStatusCode } from '../enums/span_status_code';
+
+/**
+ * Represents the value of a span attribute.
+ */
+export type SpanAttributeValue = string | number | boolean;
+
+/**
+ * Represents the attributes of a span or span event.
+ */
+export type SpanAttributes = Record<string, SpanAttributeValue | undefined>;
+
+/**
+ * Interface for the status of a span.
+ */
+export interface ISpanStatus {
+  /**
+   * The status code.
+   */
+  code: SpanStatusCode;
+
+  /**
+   * The description of the error, if the status code is Error.
+   */
+  message?: string;
+}
+
+/**
+ * Interface for traced spans, shaped like OpenTelemetry's Span so that its spans can be used directly.
+ */
+export default interface ISpan {
+  /**
+   * Set an attribute of the span.
+   * @param {string} key The attribute key.
+   * @param {SpanAttributeValue} value The attribute value.
+   * @returns {ISpan} This span.
+   */
+  setAttribute(key: string, value: SpanAttributeValue): ISpan;
+
+  /**
+   * Set attributes of the span.
+   * @param {SpanAttributes} attributes The attributes.
+   * @returns {ISpan} This span.
+   */
+  setAttributes(attributes: SpanAttributes): ISpan;
+
+  /**
+   * Add an event to the span.
+   * @param {string} name The event name.
+   * @param {SpanAttributes} attributes The event attributes.
+   * @returns {ISpan} This span.
+   */
+  addEvent(name: string, attributes?: SpanAttributes): ISpan;
+
+  /**
+   * Record an exception as an event of the span.
+   * @param {Error} exception The exception.
+   */
+  recordException(exception: Error): void;
+
+  /**
+   * Set the status of the span.
+   * @param {ISpanStatus} status The status.
+   * @returns {ISpan} This span.
+   */
+  setStatus(status: ISpanStatus): ISpan;
+
+  /**
+   * End the span.
+   */
+  end(): void;
+}
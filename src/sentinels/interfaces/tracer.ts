@@ -0,0 +1,49 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+	File Name: tracer.ts
+	Description: Interface for tracers, shaped like OpenTelemetry's Tracer.
+	Written by: Nikita Petko
+*/
+
+/* eslint-disable semi */
+
+import ISpan, { SpanAttributes } from './span';
+
+/**
+ * Interface for the options of a new span.
+ */
+export interface ISpanOptions {
+  /**
+   * The attributes the span starts with.
+   */
+  attributes?: SpanAttributes;
+}
+
+/**
+ * Interface for tracers, shaped like OpenTelemetry's Tracer so that one can be used directly.
+ * @remarks Spans are started in the active context of the tracer, if it has one.
+ */
+export default interface ITracer {
+  /**
+   * Start a new span.
+   * @param {string} name The name of the span.
+   * @param {ISpanOptions} options The options of the span.
+   * @returns {ISpan} The span.
+   */
+  startSpan(name: string, options?: ISpanOptions): ISpan;
+}
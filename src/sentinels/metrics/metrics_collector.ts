@@ -0,0 +1,389 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+	File Name: metrics_collector.ts
+	Description: Collects metrics from circuit breakers, policies and service sentinels, and renders them for Prometheus.
+	Written by: Nikita Petko
+*/
+
+import EventEmitterBase from '../base/event_emitter_base';
+import ServiceSentinel from '../sentinels/service_sentinel';
+import ICircuitBreakerEvents from '../interfaces/circuit_breaker_events';
+
+/**
+ * @internal This is a private member.
+ */
+interface IHistogram {
+  bucketCounts: number[];
+  sum: number;
+  count: number;
+}
+
+/**
+ * @internal This is a private member.
+ */
+interface ICircuitBreakerMetrics {
+  calls: number;
+  successes: number;
+  failures: number;
+  ignored: number;
+  rejections: number;
+  trips: number;
+  resets: number;
+  callDuration: IHistogram;
+}
+
+/**
+ * @internal This is a private member.
+ */
+interface IServiceSentinelMetrics {
+  sentinel: ServiceSentinel;
+  healthChanges: number;
+}
+
+/**
+ * @internal This is a private member.
+ */
+interface IMetricFamily {
+  name: string;
+  help: string;
+  type: 'counter' | 'gauge' | 'histogram';
+  lines: string[];
+}
+
+/**
+ * Collects metrics from circuit breakers, policies and service sentinels, and renders them for Prometheus.
+ */
+export default class MetricsCollector {
+  /**
+   * The default upper bounds of the call duration histogram buckets, in seconds.
+   */
+  public static readonly defaultLatencyBuckets: readonly number[] = [
+    0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+  ];
+
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _latencyBuckets: readonly number[];
+
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _circuitBreakers = new Map<string, ICircuitBreakerMetrics>();
+
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _serviceSentinels = new Map<string, IServiceSentinelMetrics>();
+
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _detachers = new Map<string, () => void>();
+
+  /**
+   * Construct a new instance of the MetricsCollector class.
+   * @param {number[]} latencyBuckets The upper bounds of the call duration histogram buckets, in seconds.
+   */
+  public constructor(latencyBuckets: readonly number[] = MetricsCollector.defaultLatencyBuckets) {
+    if (latencyBuckets === undefined || latencyBuckets === null) {
+      throw new Error('latencyBuckets cannot be null or undefined.');
+    }
+
+    for (let i = 0; i < latencyBuckets.length; i++) {
+      if (!(latencyBuckets[i] > 0) || (i > 0 && !(latencyBuckets[i] > latencyBuckets[i - 1]))) {
+        throw new Error('latencyBuckets must be positive and in increasing order.');
+      }
+    }
+
+    this._latencyBuckets = [...latencyBuckets];
+  }
+
+  /**
+   * @internal This is a private member.
+   * @param {string} value The label value.
+   * @returns {string} The label value escaped for the Prometheus text format.
+   */
+  private static _escape(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+  }
+
+  /**
+   * @internal This is a private member.
+   * @param {number} value The sample value.
+   * @returns {string} The sample value formatted for the Prometheus text format.
+   */
+  private static _format(value: number): string {
+    if (value === Infinity) {
+      return '+Inf';
+    }
+
+    return value.toString();
+  }
+
+  /**
+   * @internal This is a private member.
+   * @param {string} name The name the circuit breaker or sentinel is attached under.
+   */
+  private _assertNotAttached(name: string): void {
+    if (name === undefined || name === null || name === '') {
+      throw new Error('name cannot be null or undefined.');
+    }
+
+    if (this._detachers.has(name)) {
+      throw new Error(`'${name}' is already attached.`);
+    }
+  }
+
+  /**
+   * Record the calls, outcomes, trips, resets and call durations of the given circuit breaker or policy.
+   * @param {string} name The name to label its metrics with.
+   * @param {EventEmitterBase<ICircuitBreakerEvents>} circuitBreaker The circuit breaker or policy.
+   * @throws {Error} Something is already attached under the name.
+   */
+  public attachCircuitBreaker(name: string, circuitBreaker: EventEmitterBase<ICircuitBreakerEvents>): void {
+    this._assertNotAttached(name);
+
+    if (circuitBreaker === undefined || circuitBreaker === null) {
+      throw new Error('circuitBreaker cannot be null or undefined.');
+    }
+
+    const metrics: ICircuitBreakerMetrics = {
+      calls: 0,
+      successes: 0,
+      failures: 0,
+      ignored: 0,
+      rejections: 0,
+      trips: 0,
+      resets: 0,
+      callDuration: { bucketCounts: this._latencyBuckets.map(() => 0), sum: 0, count: 0 },
+    };
+
+    const observe = (duration: number | undefined) => {
+      if (duration === undefined) {
+        return;
+      }
+
+      const seconds = duration / 1000;
+      const histogram = metrics.callDuration;
+
+      for (let i = 0; i < this._latencyBuckets.length; i++) {
+        if (seconds <= this._latencyBuckets[i]) {
+          histogram.bucketCounts[i]++;
+        }
+      }
+
+      histogram.sum += seconds;
+      histogram.count++;
+    };
+
+    const onSuccess = ({ duration }: { duration: number | undefined }) => {
+      metrics.calls++;
+      metrics.successes++;
+      observe(duration);
+    };
+    const onFailure = ({ duration }: { duration: number | undefined }) => {
+      metrics.calls++;
+      metrics.failures++;
+      observe(duration);
+    };
+    const onIgnored = ({ duration }: { duration: number | undefined }) => {
+      metrics.calls++;
+      metrics.ignored++;
+      observe(duration);
+    };
+    const onRejected = () => {
+      metrics.calls++;
+      metrics.rejections++;
+    };
+    const onTripped = () => metrics.trips++;
+    const onReset = () => metrics.resets++;
+
+    circuitBreaker
+      .on('success', onSuccess)
+      .on('failure', onFailure)
+      .on('ignored', onIgnored)
+      .on('rejected', onRejected)
+      .on('tripped', onTripped)
+      .on('reset', onReset);
+
+    this._circuitBreakers.set(name, metrics);
+    this._detachers.set(name, () => {
+      circuitBreaker
+        .off('success', onSuccess)
+        .off('failure', onFailure)
+        .off('ignored', onIgnored)
+        .off('rejected', onRejected)
+        .off('tripped', onTripped)
+        .off('reset', onReset);
+
+      this._circuitBreakers.delete(name);
+    });
+  }
+
+  /**
+   * Record the health and health flips of the given service sentinel.
+   * @param {string} name The name to label its metrics with.
+   * @param {ServiceSentinel} sentinel The service sentinel.
+   * @throws {Error} Something is already attached under the name.
+   */
+  public attachServiceSentinel(name: string, sentinel: ServiceSentinel): void {
+    this._assertNotAttached(name);
+
+    if (sentinel === undefined || sentinel === null) {
+      throw new Error('sentinel cannot be null or undefined.');
+    }
+
+    const metrics: IServiceSentinelMetrics = { sentinel, healthChanges: 0 };
+    const onHealthChanged = () => metrics.healthChanges++;
+
+    sentinel.on('healthChanged', onHealthChanged);
+
+    this._serviceSentinels.set(name, metrics);
+    this._detachers.set(name, () => {
+      sentinel.off('healthChanged', onHealthChanged);
+
+      this._serviceSentinels.delete(name);
+    });
+  }
+
+  /**
+   * Stop recording the metrics of whatever is attached under the given name, and drop them.
+   * @param {string} name The name.
+   * @returns {boolean} True if something was detached, otherwise false.
+   */
+  public detach(name: string): boolean {
+    const detach = this._detachers.get(name);
+
+    if (detach === undefined) {
+      return false;
+    }
+
+    detach();
+    this._detachers.delete(name);
+
+    return true;
+  }
+
+  /**
+   * Render the collected metrics in the Prometheus text exposition format, labeled by name.
+   * @returns {string} The metrics.
+   */
+  public render(): string {
+    const families: IMetricFamily[] = [];
+
+    const counter = (metric: string, help: string, value: (metrics: ICircuitBreakerMetrics) => number) => {
+      const lines = [...this._circuitBreakers].map(
+        ([name, metrics]) => `${metric}{name="${MetricsCollector._escape(name)}"} ${value(metrics)}`,
+      );
+
+      families.push({ name: metric, help, type: 'counter', lines });
+    };
+
+    counter(
+      'sentinels_circuit_breaker_calls_total',
+      'The number of calls through the circuit breaker.',
+      (m) => m.calls,
+    );
+    counter(
+      'sentinels_circuit_breaker_successes_total',
+      'The number of calls through the circuit breaker that succeeded.',
+      (m) => m.successes,
+    );
+    counter(
+      'sentinels_circuit_breaker_failures_total',
+      'The number of calls through the circuit breaker that failed.',
+      (m) => m.failures,
+    );
+    counter(
+      'sentinels_circuit_breaker_ignored_total',
+      'The number of calls through the circuit breaker that threw an error not counted as a failure.',
+      (m) => m.ignored,
+    );
+    counter(
+      'sentinels_circuit_breaker_rejections_total',
+      'The number of calls rejected because the circuit breaker was open.',
+      (m) => m.rejections,
+    );
+    counter(
+      'sentinels_circuit_breaker_trips_total',
+      'The number of times the circuit breaker tripped.',
+      (m) => m.trips,
+    );
+    counter(
+      'sentinels_circuit_breaker_resets_total',
+      'The number of times the circuit breaker closed.',
+      (m) => m.resets,
+    );
+
+    const histogram = 'sentinels_circuit_breaker_call_duration_seconds';
+    const histogramLines: string[] = [];
+
+    for (const [name, { callDuration }] of this._circuitBreakers) {
+      const label = `name="${MetricsCollector._escape(name)}"`;
+      const bounds = [...this._latencyBuckets, Infinity];
+      const counts = [...callDuration.bucketCounts, callDuration.count];
+
+      for (let i = 0; i < bounds.length; i++) {
+        histogramLines.push(`${histogram}_bucket{${label},le="${MetricsCollector._format(bounds[i])}"} ${counts[i]}`);
+      }
+
+      histogramLines.push(`${histogram}_sum{${label}} ${callDuration.sum}`);
+      histogramLines.push(`${histogram}_count{${label}} ${callDuration.count}`);
+    }
+
+    families.push({
+      name: histogram,
+      help: 'How long calls through the circuit breaker took.',
+      type: 'histogram',
+      lines: histogramLines,
+    });
+
+    const sentinels = [...this._serviceSentinels];
+
+    families.push({
+      name: 'sentinels_service_sentinel_healthy',
+      help: 'Whether the service is healthy, 1 if it is and 0 otherwise.',
+      type: 'gauge',
+      lines: sentinels.map(
+        ([name, { sentinel }]) =>
+          `sentinels_service_sentinel_healthy{name="${MetricsCollector._escape(name)}"} ${sentinel.isHealthy ? 1 : 0}`,
+      ),
+    });
+    families.push({
+      name: 'sentinels_service_sentinel_health_changes_total',
+      help: 'The number of times the health status of the service flipped.',
+      type: 'counter',
+      lines: sentinels.map(
+        ([name, { healthChanges }]) =>
+          `sentinels_service_sentinel_health_changes_total{name="${MetricsCollector._escape(name)}"} ${healthChanges}`,
+      ),
+    });
+
+    return families
+      .filter((family) => family.lines.length > 0)
+      .map((family) => [
+        `# HELP ${family.name} ${family.help}`,
+        `# TYPE ${family.name} ${family.type}`,
+        ...family.lines,
+      ])
+      .flat()
+      .map((line) => `${line}\n`)
+      .join('');
+  }
+}
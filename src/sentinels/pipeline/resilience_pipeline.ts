@@ -0,0 +1,101 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+	File Name: resilience_pipeline.ts
+	Description: Executes actions through a stack of resilience layers.
+	Written by: Nikita Petko
+*/
+
+import IPipelineLayer from '../interfaces/pipeline_layer';
+import { AsyncAction } from '../base/execution_circuit_breaker_base';
+
+/**
+ * Executes actions through a stack of resilience layers.
+ * @template TResult The type of the result of the actions.
+ */
+export default class ResiliencePipeline<TResult> {
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _name: string;
+
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _layers: ReadonlyArray<IPipelineLayer<TResult>>;
+
+  /**
+   * Construct a new instance of the ResiliencePipeline class.
+   * @param {string} name The name of the pipeline.
+   * @param {IPipelineLayer<TResult>[]} layers The layers of the pipeline, from the outermost to the innermost.
+   * @remarks Pipelines are usually created with a ResiliencePipelineBuilder, which puts the layers in a defined order.
+   */
+  public constructor(name: string, layers: IPipelineLayer<TResult>[]) {
+    if (name === undefined || name === null) {
+      throw new Error('name cannot be null or undefined.');
+    }
+
+    if (layers === undefined || layers === null) {
+      throw new Error('layers cannot be null or undefined.');
+    }
+
+    this._name = name;
+    this._layers = [...layers];
+  }
+
+  /**
+   * The name of the pipeline.
+   * @returns {string} The name of the pipeline.
+   */
+  public get name(): string {
+    return this._name;
+  }
+
+  /**
+   * The descriptions of the layers of the pipeline, from the outermost to the innermost.
+   * @returns {string[]} The descriptions of the layers.
+   */
+  public get layers(): string[] {
+    return this._layers.map((layer) => layer.description);
+  }
+
+  /**
+   * A single line describing the pipeline and its layers, for logging.
+   * @returns {string} The description of the pipeline.
+   */
+  public get description(): string {
+    return `${this._name}: ${[...this.layers, 'Action'].join(' -> ')}`;
+  }
+
+  /**
+   * Execute the given action through every layer of the pipeline.
+   * @param {AsyncAction<TResult>} action The action to execute, which receives the abort signal.
+   * @param {AbortSignal} signal The signal that aborts the call when aborted.
+   * @returns {Promise<TResult>} A promise that resolves with the result of the action, or of a fallback.
+   */
+  public async executeAsync(action: AsyncAction<TResult>, signal?: AbortSignal): Promise<TResult> {
+    signal = signal ?? new AbortController().signal;
+    signal.throwIfAborted();
+
+    const run = this._layers.reduceRight<AsyncAction<TResult>>(
+      (next, layer) => (layerSignal) => layer.execute(next, layerSignal),
+      async (actionSignal) => action(actionSignal),
+    );
+
+    return await run(signal);
+  }
+}
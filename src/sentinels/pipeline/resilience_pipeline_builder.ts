@@ -0,0 +1,441 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+	File Name: resilience_pipeline_builder.ts
+	Description: Fluent builder that composes resilience primitives into a pipeline in a defined order.
+	Written by: Nikita Petko
+*/
+
+import IClock from '../interfaces/clock';
+import SystemClock from '../clocks/system_clock';
+import ResiliencePipeline from './resilience_pipeline';
+import { FailureSource } from '../enums/failure_source';
+import IPipelineLayer from '../interfaces/pipeline_layer';
+import IBackoffStrategy from '../interfaces/backoff_strategy';
+import { AsyncFallback } from '../interfaces/execute_options';
+import { CircuitBreakerError } from '../base/circuit_breaker_base';
+import ICircuitBreakerPolicy from '../interfaces/circuit_breaker_policy';
+import RetryExecutor, { RetryExhaustedError, RetryPredicate } from '../retry_executor';
+import ExecutionCircuitBreakerBase, { FallbackError, TimeoutError } from '../base/execution_circuit_breaker_base';
+
+/**
+ * Represents a function that creates the backoff strategy for one call through a pipeline.
+ * @returns {IBackoffStrategy} A new backoff strategy.
+ */
+export type BackoffStrategyFactory = () => IBackoffStrategy;
+
+/**
+ * Error thrown when an attempt through a pipeline outlives the timeout of the pipeline.
+ */
+export class PipelineTimeoutError extends TimeoutError {
+  /**
+   * Construct a new instance of the PipelineTimeoutError class.
+   * @param {string} name The name of the pipeline.
+   * @param {number} timeout The timeout that expired, in milliseconds.
+   */
+  public constructor(name: string, timeout: number) {
+    super(name, timeout);
+
+    this.name = 'PipelineTimeout Error';
+    this.message = `The attempt through the pipeline '${name}' timed out after ${timeout}ms.`;
+  }
+}
+
+/**
+ * @internal This is a private member.
+ */
+interface IRetrySettings {
+  maxAttempts: number;
+  backoffStrategyFactory: BackoffStrategyFactory;
+  backoffStrategyName: string;
+  retryPredicate: RetryPredicate;
+}
+
+/**
+ * Fluent builder that composes resilience primitives into a pipeline in a defined order.
+ * @template TResult The type of the result of the pipeline.
+ * @remarks Whatever order the layers are added in, the pipeline runs them from the outermost to the innermost as:
+ * fallback, retry, circuit breaker, policy, timeout. The fallback sees the error of the last attempt, every attempt
+ * passes through the circuit breaker and the policy, and the timeout bounds each attempt so it counts as a failure.
+ */
+export default class ResiliencePipelineBuilder<TResult> {
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _name: string;
+
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _clock: IClock;
+
+  /**
+   * @internal This is a private member.
+   */
+  private _fallback: AsyncFallback<TResult> | undefined;
+
+  /**
+   * @internal This is a private member.
+   */
+  private _retry: IRetrySettings | undefined;
+
+  /**
+   * @internal This is a private member.
+   */
+  private _circuitBreaker: ExecutionCircuitBreakerBase | undefined;
+
+  /**
+   * @internal This is a private member.
+   */
+  private _policy: IPipelineLayer<TResult> | undefined;
+
+  /**
+   * @internal This is a private member.
+   */
+  private _timeout: number | undefined;
+
+  /**
+   * Construct a new instance of the ResiliencePipelineBuilder class.
+   * @param {string} name The name of the pipeline.
+   * @param {IClock} clock The clock used for timeouts and delays between retries, defaults to the system clock.
+   */
+  public constructor(name: string, clock?: IClock) {
+    if (name === undefined || name === null) {
+      throw new Error('name cannot be null or undefined.');
+    }
+
+    this._name = name;
+    this._clock = clock ?? SystemClock.instance;
+  }
+
+  /**
+   * Serve a result from the given fallback when a call through the pipeline fails.
+   * @param {AsyncFallback<TResult>} fallback The fallback.
+   * @returns {ResiliencePipelineBuilder<TResult>} This builder.
+   */
+  public withFallback(fallback: AsyncFallback<TResult>): this {
+    if (fallback === undefined || fallback === null) {
+      throw new Error('fallback cannot be null or undefined.');
+    }
+
+    if (this._fallback !== undefined) {
+      throw new Error('The pipeline already has a fallback.');
+    }
+
+    this._fallback = fallback;
+
+    return this;
+  }
+
+  /**
+   * Retry failed calls, waiting between attempts as the given backoff strategy says.
+   * @param {number} maxAttempts The maximum number of attempts, including the first.
+   * @param {BackoffStrategyFactory} backoffStrategyFactory The function that creates the backoff strategy for each call.
+   * @param {RetryPredicate} retryPredicate The function to determine if a failed attempt should be retried, defaults to retrying every error.
+   * @returns {ResiliencePipelineBuilder<TResult>} This builder.
+   */
+  public withRetry(
+    maxAttempts: number,
+    backoffStrategyFactory: BackoffStrategyFactory,
+    retryPredicate?: RetryPredicate,
+  ): this {
+    if (!Number.isInteger(maxAttempts) || maxAttempts < 1) {
+      throw new Error('maxAttempts must be a positive integer.');
+    }
+
+    if (backoffStrategyFactory === undefined || backoffStrategyFactory === null) {
+      throw new Error('backoffStrategyFactory cannot be null or undefined.');
+    }
+
+    if (this._retry !== undefined) {
+      throw new Error('The pipeline already has a retry.');
+    }
+
+    this._retry = {
+      maxAttempts,
+      backoffStrategyFactory,
+      backoffStrategyName: backoffStrategyFactory().constructor.name,
+      retryPredicate: retryPredicate ?? (() => true),
+    };
+
+    return this;
+  }
+
+  /**
+   * Execute every attempt through the given circuit breaker.
+   * @param {ExecutionCircuitBreakerBase} circuitBreaker The circuit breaker.
+   * @returns {ResiliencePipelineBuilder<TResult>} This builder.
+   */
+  public withCircuitBreaker(circuitBreaker: ExecutionCircuitBreakerBase): this {
+    if (circuitBreaker === undefined || circuitBreaker === null) {
+      throw new Error('circuitBreaker cannot be null or undefined.');
+    }
+
+    if (this._circuitBreaker !== undefined) {
+      throw new Error('The pipeline already has a circuit breaker.');
+    }
+
+    this._circuitBreaker = circuitBreaker;
+
+    return this;
+  }
+
+  /**
+   * Check every attempt against the given circuit breaker policy, and notify it of the outcome.
+   * @template TExecutionContext The execution context type.
+   * @param {ICircuitBreakerPolicy<TExecutionContext>} policy The circuit breaker policy.
+   * @param {TExecutionContext} executionContext The execution context passed to the policy.
+   * @returns {ResiliencePipelineBuilder<TResult>} This builder.
+   */
+  public withPolicy<TExecutionContext>(
+    policy: ICircuitBreakerPolicy<TExecutionContext>,
+    executionContext: TExecutionContext,
+  ): this {
+    if (policy === undefined || policy === null) {
+      throw new Error('policy cannot be null or undefined.');
+    }
+
+    if (this._policy !== undefined) {
+      throw new Error('The pipeline already has a policy.');
+    }
+
+    this._policy = this._createPolicyLayer(policy, executionContext);
+
+    return this;
+  }
+
+  /**
+   * Time out every attempt that takes longer than the given timeout, aborting its signal.
+   * @param {number} timeout The timeout in milliseconds.
+   * @returns {ResiliencePipelineBuilder<TResult>} This builder.
+   */
+  public withTimeout(timeout: number): this {
+    if (!(timeout > 0)) {
+      throw new Error('The timeout must be greater than zero.');
+    }
+
+    if (this._timeout !== undefined) {
+      throw new Error('The pipeline already has a timeout.');
+    }
+
+    this._timeout = timeout;
+
+    return this;
+  }
+
+  /**
+   * Build the pipeline from the layers added so far.
+   * @returns {ResiliencePipeline<TResult>} The pipeline.
+   */
+  public build(): ResiliencePipeline<TResult> {
+    const layers: IPipelineLayer<TResult>[] = [];
+
+    if (this._fallback !== undefined) {
+      layers.push(this._createFallbackLayer(this._fallback));
+    }
+
+    if (this._retry !== undefined) {
+      layers.push(this._createRetryLayer(this._retry));
+    }
+
+    if (this._circuitBreaker !== undefined) {
+      layers.push(this._createCircuitBreakerLayer(this._circuitBreaker));
+    }
+
+    if (this._policy !== undefined) {
+      layers.push(this._policy);
+    }
+
+    if (this._timeout !== undefined) {
+      layers.push(this._createTimeoutLayer(this._timeout));
+    }
+
+    return new ResiliencePipeline(this._name, layers);
+  }
+
+  /**
+   * @internal This is a private member.
+   * @param {Error} error The error a call through the pipeline failed with.
+   * @returns {FailureSource} Where the failure came from.
+   */
+  private static _getFailureSource(error: Error): FailureSource {
+    const cause = error instanceof RetryExhaustedError ? error.errors[error.errors.length - 1] : error;
+
+    if (cause instanceof CircuitBreakerError) {
+      return FailureSource.CircuitOpen;
+    }
+
+    if (cause instanceof TimeoutError) {
+      return FailureSource.Timeout;
+    }
+
+    return FailureSource.Action;
+  }
+
+  /**
+   * @internal This is a private member.
+   * @param {AbortSignal} signal The signal to follow.
+   * @returns {Array} A controller aborted along with the signal, and a function to stop following it.
+   */
+  private static _follow(signal: AbortSignal): [AbortController, () => void] {
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal.reason);
+
+    if (signal.aborted) {
+      onAbort();
+    } else {
+      signal.addEventListener('abort', onAbort, { once: true });
+    }
+
+    return [controller, () => signal.removeEventListener('abort', onAbort)];
+  }
+
+  /**
+   * @internal This is a private member.
+   * @param {AsyncFallback<TResult>} fallback The fallback.
+   * @returns {IPipelineLayer<TResult>} The layer.
+   */
+  private _createFallbackLayer(fallback: AsyncFallback<TResult>): IPipelineLayer<TResult> {
+    return {
+      description: 'Fallback',
+      execute: async (next, signal) => {
+        try {
+          return await next(signal);
+        } catch (e) {
+          // The caller gave up on the call, so there is no one to serve a result to.
+          if (signal.aborted) {
+            throw e;
+          }
+
+          try {
+            return await fallback(e, ResiliencePipelineBuilder._getFailureSource(e));
+          } catch (fallbackError) {
+            throw new FallbackError(e, fallbackError);
+          }
+        }
+      },
+    };
+  }
+
+  /**
+   * @internal This is a private member.
+   * @param {IRetrySettings} settings The retry settings.
+   * @returns {IPipelineLayer<TResult>} The layer.
+   */
+  private _createRetryLayer(settings: IRetrySettings): IPipelineLayer<TResult> {
+    const { maxAttempts, backoffStrategyFactory, backoffStrategyName, retryPredicate } = settings;
+
+    return {
+      description: `Retry(${maxAttempts} attempts, ${backoffStrategyName})`,
+      execute: (next, signal) =>
+        RetryExecutor.retryAsync(next, maxAttempts, backoffStrategyFactory(), retryPredicate, this._clock, signal),
+    };
+  }
+
+  /**
+   * @internal This is a private member.
+   * @param {ExecutionCircuitBreakerBase} circuitBreaker The circuit breaker.
+   * @returns {IPipelineLayer<TResult>} The layer.
+   */
+  private _createCircuitBreakerLayer(circuitBreaker: ExecutionCircuitBreakerBase): IPipelineLayer<TResult> {
+    return {
+      description: circuitBreaker.constructor.name,
+      // The circuit breaker aborts the signal it passes on when its timeout expires or the caller cancels,
+      // and attempts the caller cancels count as neither successes nor failures.
+      execute: (next, signal) => circuitBreaker.executeAsync(next, { signal }),
+    };
+  }
+
+  /**
+   * @internal This is a private member.
+   * @template TExecutionContext The execution context type.
+   * @param {ICircuitBreakerPolicy<TExecutionContext>} policy The circuit breaker policy.
+   * @param {TExecutionContext} executionContext The execution context passed to the policy.
+   * @returns {IPipelineLayer<TResult>} The layer.
+   */
+  private _createPolicyLayer<TExecutionContext>(
+    policy: ICircuitBreakerPolicy<TExecutionContext>,
+    executionContext: TExecutionContext,
+  ): IPipelineLayer<TResult> {
+    return {
+      description: policy.constructor.name,
+      execute: async (next, signal) => {
+        policy.throwIfTripped(executionContext);
+
+        let result: TResult;
+
+        try {
+          result = await next(signal);
+        } catch (e) {
+          // An attempt the caller cancelled says nothing about the health of the dependency, like in the circuit breaker layer.
+          if (signal.aborted && e === signal.reason) {
+            policy.notifyRequestCancelled(executionContext);
+          } else {
+            policy.notifyRequestFinished(executionContext, e);
+          }
+
+          throw e;
+        }
+
+        policy.notifyRequestFinished(executionContext);
+
+        return result;
+      },
+    };
+  }
+
+  /**
+   * @internal This is a private member.
+   * @param {number} timeout The timeout in milliseconds.
+   * @returns {IPipelineLayer<TResult>} The layer.
+   */
+  private _createTimeoutLayer(timeout: number): IPipelineLayer<TResult> {
+    return {
+      description: `Timeout(${timeout}ms)`,
+      execute: (next, signal) => {
+        const [controller, stopFollowing] = ResiliencePipelineBuilder._follow(signal);
+
+        return new Promise<TResult>((resolve, reject) => {
+          const timer = this._clock.setTimeout(() => {
+            const error = new PipelineTimeoutError(this._name, timeout);
+
+            // The abandoned attempt may never settle, so it must not keep following the caller's signal.
+            stopFollowing();
+            controller.abort(error);
+            reject(error);
+          }, timeout);
+
+          const settle = () => {
+            this._clock.clearTimeout(timer);
+            stopFollowing();
+          };
+
+          next(controller.signal).then(
+            (result) => {
+              settle();
+              resolve(result);
+            },
+            (error) => {
+              settle();
+              reject(error);
+            },
+          );
+        });
+      },
+    };
+  }
+}
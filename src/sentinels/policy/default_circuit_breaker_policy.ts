@@ -22,18 +22,31 @@
 
 /* eslint-disable @typescript-eslint/no-unused-vars */
 
+import { CircuitState } from '../enums/circuit_state';
 import CircuitBreaker from '../circuit_breakers/circuit_breaker';
+import IClock from '../interfaces/clock';
 import ITripReasonAuthority from '../interfaces/trip_reason_authority';
+import RollingWindow from '../statistics/rolling_window';
 import CircuitBreakerPolicyBase from '../base/circuit_breaker_policy_base';
+import IRollingWindowCounts from '../interfaces/rolling_window_counts';
+import ICircuitStateTransition from '../interfaces/circuit_state_transition';
+import ISnapshottable from '../interfaces/snapshottable';
+import ICircuitBreakerSnapshot from '../interfaces/circuit_breaker_snapshot';
 import IDefaultCircuitBreakerPolicyConfig from '../interfaces/default_circuit_breaker_policy_config';
 
 /**
  * Default circuit breaker policy.
  * @template TExecutionContext The type of the execution context.
  */
-export default class DefaultCircuitBreakerPolicy<
-  TExecutionContext,
-> extends CircuitBreakerPolicyBase<TExecutionContext> {
+export default class DefaultCircuitBreakerPolicy<TExecutionContext>
+  extends CircuitBreakerPolicyBase<TExecutionContext>
+  implements ISnapshottable<ICircuitBreakerSnapshot>
+{
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _circuitBreakerIdentifier: string;
+
   /**
    * @internal This is a private member.
    */
@@ -47,13 +60,38 @@ export default class DefaultCircuitBreakerPolicy<
   /**
    * @internal This is a private member.
    */
-  private _consecutiveFailures: number;
+  private _consecutiveFailures = 0;
 
   /**
    * @internal This is a private member.
    */
   private _nextRetry: number = new Date('0001-01-01T00:00:00.000Z').getTime();
 
+  /**
+   * @internal This is a private member.
+   */
+  private _activeProbes = 0;
+
+  /**
+   * @internal This is a private member.
+   */
+  private _successfulProbes = 0;
+
+  /**
+   * @internal This is a private member.
+   */
+  private _probeEpoch = 0;
+
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _probes = new Map<unknown, number[]>();
+
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _rollingWindow: RollingWindow;
+
   /**
    * The circuit breaker policy configuration.
    */
@@ -64,13 +102,15 @@ export default class DefaultCircuitBreakerPolicy<
    * @param {string} circuitBreakerIdentifier The identifier of the circuit breaker.
    * @param {IDefaultCircuitBreakerPolicyConfig} config The circuit breaker policy configuration.
    * @param {ITripReasonAuthority<TExecutionContext>} tripReasonAuthority The trip reason authority.
+   * @param {IClock} clock The clock used to tell the time, defaults to the system clock.
    */
   public constructor(
     circuitBreakerIdentifier: string,
     config: IDefaultCircuitBreakerPolicyConfig,
     tripReasonAuthority: ITripReasonAuthority<TExecutionContext>,
+    clock?: IClock,
   ) {
-    super(tripReasonAuthority);
+    super(tripReasonAuthority, clock);
 
     if (
       circuitBreakerIdentifier === undefined ||
@@ -88,10 +128,262 @@ export default class DefaultCircuitBreakerPolicy<
       throw new Error('The number of failures allowed before trip cannot be less than zero.');
     }
 
-    this._circuitBreaker = new CircuitBreaker(circuitBreakerIdentifier);
+    if (config.halfOpenMaxProbes !== undefined && config.halfOpenMaxProbes < 1) {
+      throw new Error('The number of probes allowed while half-open cannot be less than one.');
+    }
+
+    if (config.minimumCalls !== undefined && config.minimumCalls < 0) {
+      throw new Error('The minimum number of calls before trip cannot be less than zero.');
+    }
+
+    this._circuitBreakerIdentifier = circuitBreakerIdentifier;
+    this._circuitBreaker = new CircuitBreaker(circuitBreakerIdentifier, () => new Date(this._nextRetry), this.clock);
+    this._rollingWindow = new RollingWindow(undefined, undefined, this.clock);
     this.config = config;
   }
 
+  /**
+   * @internal This is a private member.
+   */
+  private get _halfOpenMaxProbes(): number {
+    return this.config.halfOpenMaxProbes ?? 1;
+  }
+
+  /**
+   * @internal This is a private member.
+   * @returns {boolean} True if enough requests have finished in the current window for the circuit breaker to trip.
+   */
+  private get _hasMinimumThroughput(): boolean {
+    const { successes, failures } = this._rollingWindow.counts;
+
+    return successes + failures >= (this.config.minimumCalls ?? 0);
+  }
+
+  /**
+   * @internal This is a private member.
+   */
+  private get _isTimeForRetry(): boolean {
+    return this._circuitBreaker.state === CircuitState.HalfOpen;
+  }
+
+  /**
+   * The name of the policy, used in emitted events.
+   * @returns {string} The identifier of the circuit breaker.
+   * @override
+   */
+  protected get name(): string {
+    return this._circuitBreakerIdentifier;
+  }
+
+  /**
+   * The date when the policy schedules its next retry once tripped.
+   * @returns {Date | undefined} The date of the next retry, or undefined if no retry is scheduled.
+   * @override
+   */
+  protected get scheduledRetry(): Date | undefined {
+    return this._circuitBreaker.nextRetryAt;
+  }
+
+  /**
+   * The current state of the circuit breaker.
+   * @returns {CircuitState} The current state of the circuit breaker.
+   */
+  public get state(): CircuitState {
+    return this._circuitBreaker.state;
+  }
+
+  /**
+   * The date when the circuit breaker was tripped.
+   * @returns {Date | undefined} The date when the circuit breaker was tripped, or undefined if it is not tripped.
+   */
+  public get trippedAt(): Date | undefined {
+    return this._circuitBreaker.trippedAt;
+  }
+
+  /**
+   * The date when the circuit breaker will next admit a probe request.
+   * @returns {Date | undefined} The date of the next retry, or undefined if no retry is scheduled.
+   */
+  public get nextRetryAt(): Date | undefined {
+    return this._circuitBreaker.nextRetryAt;
+  }
+
+  /**
+   * The counts of the requests recorded in the current rolling window, for diagnostics.
+   * @returns {IRollingWindowCounts} A snapshot of the counts.
+   */
+  public get statistics(): IRollingWindowCounts {
+    return this._rollingWindow.counts;
+  }
+
+  /**
+   * The most recent state transitions of the circuit breaker, oldest first.
+   * @returns {ICircuitStateTransition[]} The most recent state transitions.
+   */
+  public get transitions(): ICircuitStateTransition[] {
+    return this._circuitBreaker.transitions;
+  }
+
+  /**
+   * Trip the circuit breaker, as if the failures allowed before trip were exceeded. A half-open circuit breaker is reopened.
+   * @returns {boolean} True if the circuit breaker was tripped, otherwise false.
+   */
+  public trip(): boolean {
+    const state = this._circuitBreaker.state;
+
+    // An open or forced circuit breaker keeps the retry it has, so tripping it again cannot prolong the outage.
+    if (state !== CircuitState.Closed && state !== CircuitState.HalfOpen) {
+      return false;
+    }
+
+    this._nextRetry = this.clock.now() + this.config.retryInterval;
+
+    if (!this._circuitBreaker.trip()) {
+      return false;
+    }
+
+    this._resetProbes();
+
+    this.emit('tripped', {
+      name: this._circuitBreakerIdentifier,
+      timestamp: this.now,
+      error: undefined,
+      nextRetryAt: this.scheduledRetry,
+    });
+
+    return true;
+  }
+
+  /**
+   * Close the circuit breaker if it is tripped, clearing its statistics.
+   * @returns {boolean} True if the circuit breaker was reset, otherwise false.
+   */
+  public reset(): boolean {
+    this._resetProbes();
+
+    const trippedAt = this._circuitBreaker.trippedAt;
+
+    if (!this._circuitBreaker.reset()) {
+      return false;
+    }
+
+    const now = this.now;
+
+    this._consecutiveFailures = 0;
+    this._rollingWindow.clear();
+
+    this.emit('reset', {
+      name: this._circuitBreakerIdentifier,
+      timestamp: now,
+      trippedFor: now.getTime() - trippedAt.getTime(),
+    });
+
+    return true;
+  }
+
+  /**
+   * Force the circuit breaker open until the forced state is cleared.
+   * @returns {boolean} True if the state was changed, otherwise false.
+   */
+  public forceOpen(): boolean {
+    this._resetProbes();
+
+    return this._circuitBreaker.forceOpen();
+  }
+
+  /**
+   * Force the circuit breaker closed until the forced state is cleared.
+   * @returns {boolean} True if the state was changed, otherwise false.
+   */
+  public forceClosed(): boolean {
+    this._resetProbes();
+
+    return this._circuitBreaker.forceClosed();
+  }
+
+  /**
+   * Clear a forced state, closing the circuit breaker.
+   * @returns {boolean} True if a forced state was cleared, otherwise false.
+   */
+  public clearForcedState(): boolean {
+    this._resetProbes();
+
+    return this._circuitBreaker.clearForcedState();
+  }
+
+  /**
+   * Capture the state of the circuit breaker, so that it can be restored after a restart.
+   * @returns {ICircuitBreakerSnapshot} A JSON-serializable snapshot of the state.
+   */
+  public snapshot(): ICircuitBreakerSnapshot {
+    return {
+      ...this._circuitBreaker.snapshot(),
+      counters: { consecutiveFailures: this._consecutiveFailures },
+      window: this._rollingWindow.snapshot(),
+    };
+  }
+
+  /**
+   * Restore the state captured in the given snapshot. No events are emitted.
+   * @param {ICircuitBreakerSnapshot} snapshot The snapshot to restore.
+   * @throws {Error} If the snapshot was taken from a circuit breaker with another identifier.
+   */
+  public restore(snapshot: ICircuitBreakerSnapshot): void {
+    this._circuitBreaker.restore(snapshot);
+    this._resetProbes();
+
+    const { consecutiveFailures } = snapshot.counters;
+
+    this._nextRetry = new Date(snapshot.nextRetryAt ?? '0001-01-01T00:00:00.000Z').getTime();
+    this._consecutiveFailures = typeof consecutiveFailures === 'number' ? consecutiveFailures : 0;
+    this._rollingWindow.restore(snapshot.window ?? []);
+  }
+
+  /**
+   * @internal This is a private member.
+   */
+  private _resetProbes(): void {
+    // Probes still in flight keep their slot until they finish, but their results no longer count.
+    this._successfulProbes = 0;
+    this._probeEpoch++;
+  }
+
+  /**
+   * @internal This is a private member.
+   * @param {TExecutionContext} executionContext The execution context of the admitted probe.
+   */
+  private _admitProbe(executionContext: TExecutionContext): void {
+    const epochs = this._probes.get(executionContext) ?? [];
+
+    epochs.push(this._probeEpoch);
+
+    this._activeProbes++;
+    this._probes.set(executionContext, epochs);
+  }
+
+  /**
+   * @internal This is a private member.
+   * @param {TExecutionContext} executionContext The execution context of the finished request.
+   * @returns {boolean} True if the request is a probe admitted since the circuit breaker last went half-open, otherwise false.
+   */
+  private _finishProbe(executionContext: TExecutionContext): boolean {
+    const epochs = this._probes.get(executionContext);
+
+    if (epochs === undefined) {
+      return false;
+    }
+
+    const epoch = epochs.shift();
+
+    if (epochs.length === 0) {
+      this._probes.delete(executionContext);
+    }
+
+    this._activeProbes--;
+
+    return epoch === this._probeEpoch && this._isTimeForRetry;
+  }
+
   /**
    * Is the circuit breaker open?
    * @param {TExecutionContext} executionContext The execution context.
@@ -103,7 +395,15 @@ export default class DefaultCircuitBreakerPolicy<
       return [false, undefined];
     }
 
-    if (this._nextRetry <= Date.now() && !this._shouldRetry) {
+    if (this._isTimeForRetry && !this._shouldRetry && this._activeProbes < this._halfOpenMaxProbes) {
+      this._admitProbe(executionContext);
+
+      this.emit('probeAdmitted', {
+        name: this._circuitBreakerIdentifier,
+        timestamp: this.now,
+        activeProbes: this._activeProbes,
+      });
+
       return [false, undefined];
     }
 
@@ -117,7 +417,33 @@ export default class DefaultCircuitBreakerPolicy<
    */
   protected onSuccessfulRequest(executionContext: TExecutionContext): void {
     this._consecutiveFailures = 0;
-    this._circuitBreaker.reset();
+    this._rollingWindow.recordSuccess();
+
+    const isProbe = this._finishProbe(executionContext);
+
+    if (this._circuitBreaker.isTripped) {
+      // Requests admitted before the circuit breaker tripped or was reopened have no say in closing it.
+      if (!isProbe) {
+        return;
+      }
+
+      this._successfulProbes++;
+
+      if (this._successfulProbes < this._halfOpenMaxProbes) {
+        return;
+      }
+    }
+
+    this.reset();
+  }
+
+  /**
+   * On cancelled request, which frees the slot of a probe without recording an outcome.
+   * @param {TExecutionContext} executionContext The execution context.
+   * @override
+   */
+  protected onCancelledRequest(executionContext: TExecutionContext): void {
+    this._finishProbe(executionContext);
   }
 
   /**
@@ -137,14 +463,30 @@ export default class DefaultCircuitBreakerPolicy<
    */
   protected tryToTripCircuitBreaker(executionContext: TExecutionContext): boolean {
     this._consecutiveFailures++;
+    this._rollingWindow.recordFailure();
+
+    const isProbe = this._finishProbe(executionContext);
 
-    if (this._consecutiveFailures <= this.config.failuresAllowedBeforeTrip) {
+    // A failed probe reopens the circuit immediately, regardless of the failures allowed before trip.
+    if (this._circuitBreaker.isTripped) {
+      // Requests admitted before the circuit breaker tripped or was reopened have no say in reopening it again.
+      if (!isProbe) {
+        return false;
+      }
+
+      this._successfulProbes = 0;
+      this._probeEpoch++;
+      this._nextRetry = this.clock.now() + this.config.retryInterval;
+
+      return this._circuitBreaker.trip();
+    }
+
+    if (this._consecutiveFailures <= this.config.failuresAllowedBeforeTrip || !this._hasMinimumThroughput) {
       return false;
     }
 
-    this._nextRetry = Date.now() + this.config.retryInterval;
-    this._circuitBreaker.trip();
+    this._nextRetry = this.clock.now() + this.config.retryInterval;
 
-    return true;
+    return this._circuitBreaker.trip();
   }
 }
@@ -36,6 +36,16 @@ export default class DefaultCircuitBreakerPolicyConfig implements IDefaultCircui
    */
   private _failuresAllowedBeforeTrip = 0;
 
+  /**
+   * @internal This is a private member.
+   */
+  private _halfOpenMaxProbes = 1;
+
+  /**
+   * @internal This is a private member.
+   */
+  private _minimumCalls = 0;
+
   /**
    * Retry interval in milliseconds.
    * @returns {number} Retry interval in milliseconds.
@@ -72,4 +82,46 @@ export default class DefaultCircuitBreakerPolicyConfig implements IDefaultCircui
 
     this._failuresAllowedBeforeTrip = value;
   }
+
+  /**
+   * Probe requests admitted concurrently while half-open.
+   * @returns {number} Probe requests admitted concurrently while half-open.
+   */
+  public get halfOpenMaxProbes(): number {
+    return this._halfOpenMaxProbes;
+  }
+
+  /**
+   * Probe requests admitted concurrently while half-open.
+   * @param {number} value Probe requests admitted concurrently while half-open.
+   * @throws {Error} Probe requests admitted concurrently while half-open is out of range.
+   */
+  public set halfOpenMaxProbes(value: number) {
+    if (value < 1) {
+      throw new Error('Probe requests admitted concurrently while half-open is out of range.');
+    }
+
+    this._halfOpenMaxProbes = value;
+  }
+
+  /**
+   * Requests required in the current window before trip.
+   * @returns {number} Requests required in the current window before trip.
+   */
+  public get minimumCalls(): number {
+    return this._minimumCalls;
+  }
+
+  /**
+   * Requests required in the current window before trip.
+   * @param {number} value Requests required in the current window before trip.
+   * @throws {Error} Requests required in the current window before trip is out of range.
+   */
+  public set minimumCalls(value: number) {
+    if (value < 0) {
+      throw new Error('Requests required in the current window before trip is out of range.');
+    }
+
+    this._minimumCalls = value;
+  }
 }
@@ -0,0 +1,41 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+	File Name: math_random_source.ts
+	Description: Random source backed by Math.random.
+	Written by: Nikita Petko
+*/
+
+import IRandomSource from '../interfaces/random_source';
+
+/**
+ * Random source backed by Math.random.
+ */
+export default class MathRandomSource implements IRandomSource {
+  /**
+   * The shared instance used when no random source is specified.
+   */
+  public static readonly instance: MathRandomSource = new MathRandomSource();
+
+  /**
+   * Get the next random number.
+   * @returns {number} A number in the range [0, 1).
+   */
+  public next(): number {
+    return Math.random();
+  }
+}
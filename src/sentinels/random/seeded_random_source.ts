@@ -0,0 +1,82 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+	File Name: seeded_random_source.ts
+	Description: Reproducible random source for tests and simulations.
+	Written by: Nikita Petko
+*/
+
+import IRandomSource from '../interfaces/random_source';
+
+/**
+ * Reproducible random source for tests and simulations.
+ * @remarks This is the Mulberry32 generator. It is fast and well distributed, but not suitable for cryptography.
+ */
+export default class SeededRandomSource implements IRandomSource {
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _seed: number;
+
+  /**
+   * @internal This is a private member.
+   */
+  private _state: number;
+
+  /**
+   * Construct a new instance of the SeededRandomSource class.
+   * @param {number} seed The seed, of which only the lower 32 bits are used.
+   */
+  public constructor(seed: number) {
+    if (!Number.isInteger(seed)) {
+      throw new Error('seed must be an integer.');
+    }
+
+    this._seed = seed >>> 0;
+    this._state = this._seed;
+  }
+
+  /**
+   * The seed the sequence started from.
+   * @returns {number} The seed.
+   */
+  public get seed(): number {
+    return this._seed;
+  }
+
+  /**
+   * Get the next random number.
+   * @returns {number} A number in the range [0, 1).
+   */
+  public next(): number {
+    this._state = (this._state + 0x6d2b79f5) >>> 0;
+
+    let t = this._state;
+
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Start the sequence again from the seed.
+   */
+  public reset(): void {
+    this._state = this._seed;
+  }
+}
@@ -0,0 +1,124 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+	File Name: sliding_log_rate_limiter.ts
+	Description: Rate limiter that allows a number of permits within any window of time.
+	Written by: Nikita Petko
+*/
+
+import IClock from '../interfaces/clock';
+import RateLimiterBase from '../base/rate_limiter_base';
+
+/**
+ * Rate limiter that allows a number of permits within any window of time.
+ * @remarks The time of every permit taken within the window is logged, so the limit holds exactly for any window, at
+ * the cost of memory proportional to the limit.
+ */
+export default class SlidingLogRateLimiter extends RateLimiterBase {
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _limit: number;
+
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _window: number;
+
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _log: number[] = [];
+
+  /**
+   * Construct a new instance of the SlidingLogRateLimiter class.
+   * @param {string} name The name of the rate limiter.
+   * @param {number} limit The maximum number of permits within the window.
+   * @param {number} window The duration of the window in milliseconds.
+   * @param {IClock} clock The clock used to tell the time, defaults to the system clock.
+   */
+  public constructor(name: string, limit: number, window: number, clock?: IClock) {
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new Error('limit must be a positive integer.');
+    }
+
+    if (!(window > 0)) {
+      throw new Error('window must be greater than zero.');
+    }
+
+    super(name, clock);
+
+    this._limit = limit;
+    this._window = window;
+  }
+
+  /**
+   * The number of permits taken within the current window.
+   * @returns {number} The number of permits.
+   */
+  public get usedPermits(): number {
+    this._prune();
+
+    return this._log.length;
+  }
+
+  /**
+   * @internal This is a private member.
+   */
+  private _prune(): void {
+    const windowStart = this.clock.now() - this._window;
+
+    while (this._log.length > 0 && this._log[0] <= windowStart) {
+      this._log.shift();
+    }
+  }
+
+  /**
+   * How long until enough logged permits leave the window.
+   * @param {number} permits The number of permits.
+   * @returns {number} The time in milliseconds, 0 if available now, or Infinity if more than the limit.
+   * @override
+   */
+  protected timeUntilAvailable(permits: number): number {
+    if (permits > this._limit) {
+      return Infinity;
+    }
+
+    this._prune();
+
+    const excess = this._log.length + permits - this._limit;
+
+    if (excess <= 0) {
+      return 0;
+    }
+
+    return this._log[excess - 1] + this._window - this.clock.now();
+  }
+
+  /**
+   * Log the given number of permits at the current time.
+   * @param {number} permits The number of permits.
+   * @override
+   */
+  protected consume(permits: number): void {
+    const now = this.clock.now();
+
+    for (let i = 0; i < permits; i++) {
+      this._log.push(now);
+    }
+  }
+}
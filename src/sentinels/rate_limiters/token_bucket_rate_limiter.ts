@@ -0,0 +1,123 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+	File Name: token_bucket_rate_limiter.ts
+	Description: Rate limiter that hands out tokens from a bucket refilled at a steady rate.
+	Written by: Nikita Petko
+*/
+
+import IClock from '../interfaces/clock';
+import RateLimiterBase from '../base/rate_limiter_base';
+
+/**
+ * Rate limiter that hands out tokens from a bucket refilled at a steady rate.
+ * @remarks The bucket starts full, so bursts of up to its capacity are allowed.
+ */
+export default class TokenBucketRateLimiter extends RateLimiterBase {
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _capacity: number;
+
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _tokensPerSecond: number;
+
+  /**
+   * @internal This is a private member.
+   */
+  private _tokens: number;
+
+  /**
+   * @internal This is a private member.
+   */
+  private _refilledAt: number;
+
+  /**
+   * Construct a new instance of the TokenBucketRateLimiter class.
+   * @param {string} name The name of the rate limiter.
+   * @param {number} capacity The maximum number of tokens in the bucket.
+   * @param {number} tokensPerSecond The number of tokens added to the bucket every second.
+   * @param {IClock} clock The clock used to tell the time, defaults to the system clock.
+   */
+  public constructor(name: string, capacity: number, tokensPerSecond: number, clock?: IClock) {
+    if (!Number.isInteger(capacity) || capacity < 1) {
+      throw new Error('capacity must be a positive integer.');
+    }
+
+    if (!(tokensPerSecond > 0)) {
+      throw new Error('tokensPerSecond must be greater than zero.');
+    }
+
+    super(name, clock);
+
+    this._capacity = capacity;
+    this._tokensPerSecond = tokensPerSecond;
+    this._tokens = capacity;
+    this._refilledAt = this.clock.now();
+  }
+
+  /**
+   * The number of tokens in the bucket at the moment.
+   * @returns {number} The number of tokens, which may be fractional while refilling.
+   */
+  public get availableTokens(): number {
+    this._refill();
+
+    return this._tokens;
+  }
+
+  /**
+   * @internal This is a private member.
+   */
+  private _refill(): void {
+    const now = this.clock.now();
+
+    this._tokens = Math.min(this._capacity, this._tokens + ((now - this._refilledAt) * this._tokensPerSecond) / 1000);
+    this._refilledAt = now;
+  }
+
+  /**
+   * How long until the given number of tokens are in the bucket.
+   * @param {number} permits The number of tokens.
+   * @returns {number} The time in milliseconds, 0 if available now, or Infinity if more than the capacity.
+   * @override
+   */
+  protected timeUntilAvailable(permits: number): number {
+    if (permits > this._capacity) {
+      return Infinity;
+    }
+
+    this._refill();
+
+    if (this._tokens >= permits) {
+      return 0;
+    }
+
+    return Math.ceil(((permits - this._tokens) * 1000) / this._tokensPerSecond);
+  }
+
+  /**
+   * Take the given number of tokens from the bucket.
+   * @param {number} permits The number of tokens.
+   * @override
+   */
+  protected consume(permits: number): void {
+    this._tokens -= permits;
+  }
+}
@@ -0,0 +1,203 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+	File Name: circuit_breaker_registry.ts
+	Description: Creates and tracks circuit breakers and policies by name.
+	Written by: Nikita Petko
+*/
+
+import CircuitBreakerBase from '../base/circuit_breaker_base';
+import DefaultCircuitBreakerPolicy from '../policy/default_circuit_breaker_policy';
+import ICircuitBreakerRegistration from '../interfaces/circuit_breaker_registration';
+
+/**
+ * Represents anything that can be registered in a circuit breaker registry.
+ */
+export type RegisteredCircuitBreaker = CircuitBreakerBase | DefaultCircuitBreakerPolicy<never>;
+
+/**
+ * Represents a function that creates a circuit breaker or policy for a registry.
+ * @template TCircuitBreaker The type of the circuit breaker or policy.
+ * @param {string} name The name to create the circuit breaker or policy with.
+ * @returns {TCircuitBreaker} The new circuit breaker or policy.
+ */
+export type CircuitBreakerFactory<TCircuitBreaker> = (name: string) => TCircuitBreaker;
+
+/**
+ * Creates and tracks circuit breakers and policies by name.
+ * @remarks Circuit breakers and policies share one namespace, so a name identifies a single dependency.
+ */
+export default class CircuitBreakerRegistry {
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _registrations = new Map<string, ICircuitBreakerRegistration<RegisteredCircuitBreaker>>();
+
+  /**
+   * The number of registered circuit breakers and policies.
+   * @returns {number} The number of registrations.
+   */
+  public get size(): number {
+    return this._registrations.size;
+  }
+
+  /**
+   * @internal This is a private member.
+   * @template TCircuitBreaker The type of the circuit breaker or policy.
+   * @param {string} name The name to register it under.
+   * @param {CircuitBreakerFactory<TCircuitBreaker>} factory The function that creates it if it is not registered yet.
+   * @param {string[]} tags The tags to register it with.
+   * @param {Function} kind The class the registered instance must be an instance of.
+   * @param {string} kindName The name of the kind, used in errors.
+   * @returns {TCircuitBreaker} The registered circuit breaker or policy.
+   */
+  private _getOrCreate<TCircuitBreaker extends RegisteredCircuitBreaker>(
+    name: string,
+    factory: CircuitBreakerFactory<TCircuitBreaker>,
+    tags: string[] | undefined,
+    kind: abstract new (...args: never[]) => RegisteredCircuitBreaker,
+    kindName: string,
+  ): TCircuitBreaker {
+    if (name === undefined || name === null || name === '') {
+      throw new Error('name cannot be null or undefined.');
+    }
+
+    if (factory === undefined || factory === null) {
+      throw new Error('factory cannot be null or undefined.');
+    }
+
+    const existing = this._registrations.get(name);
+
+    if (existing !== undefined) {
+      if (!(existing.circuitBreaker instanceof kind)) {
+        throw new Error(`'${name}' is already registered, but not as a ${kindName}.`);
+      }
+
+      return existing.circuitBreaker as TCircuitBreaker;
+    }
+
+    const circuitBreaker = factory(name);
+
+    if (!(circuitBreaker instanceof kind)) {
+      throw new Error(`The factory for '${name}' did not create a ${kindName}.`);
+    }
+
+    this._registrations.set(name, { name, tags: [...new Set(tags ?? [])], circuitBreaker });
+
+    return circuitBreaker;
+  }
+
+  /**
+   * Get the circuit breaker registered under the given name, creating and registering it if there is none.
+   * @template TCircuitBreaker The type of the circuit breaker.
+   * @param {string} name The name of the circuit breaker.
+   * @param {CircuitBreakerFactory<TCircuitBreaker>} factory The function that creates the circuit breaker if it is not registered yet.
+   * @param {string[]} tags The tags to register the circuit breaker with, only used when it is created.
+   * @param {Function} type The class of the circuit breaker, checked against the registered one. Any circuit breaker is accepted if not specified.
+   * @returns {TCircuitBreaker} The registered circuit breaker.
+   * @throws {Error} A policy, or a circuit breaker of another class than the given one, is registered under the name.
+   */
+  public getOrCreateCircuitBreaker<TCircuitBreaker extends CircuitBreakerBase>(
+    name: string,
+    factory: CircuitBreakerFactory<TCircuitBreaker>,
+    tags?: string[],
+    type?: abstract new (...args: never[]) => TCircuitBreaker,
+  ): TCircuitBreaker {
+    if (type === undefined || type === null) {
+      return this._getOrCreate(name, factory, tags, CircuitBreakerBase, 'circuit breaker');
+    }
+
+    return this._getOrCreate(name, factory, tags, type, type.name);
+  }
+
+  /**
+   * Get the policy registered under the given circuit breaker identifier, creating and registering it if there is none.
+   * @template TExecutionContext The type of the execution context.
+   * @param {string} circuitBreakerIdentifier The identifier of the circuit breaker of the policy.
+   * @param {CircuitBreakerFactory<DefaultCircuitBreakerPolicy<TExecutionContext>>} factory The function that creates the policy if it is not registered yet.
+   * @param {string[]} tags The tags to register the policy with, only used when it is created.
+   * @returns {DefaultCircuitBreakerPolicy<TExecutionContext>} The registered policy.
+   * @throws {Error} A circuit breaker is registered under the identifier.
+   */
+  public getOrCreatePolicy<TExecutionContext>(
+    circuitBreakerIdentifier: string,
+    factory: CircuitBreakerFactory<DefaultCircuitBreakerPolicy<TExecutionContext>>,
+    tags?: string[],
+  ): DefaultCircuitBreakerPolicy<TExecutionContext> {
+    return this._getOrCreate(circuitBreakerIdentifier, factory, tags, DefaultCircuitBreakerPolicy, 'policy');
+  }
+
+  /**
+   * Get the circuit breaker or policy registered under the given name.
+   * @param {string} name The name.
+   * @returns {RegisteredCircuitBreaker | undefined} The circuit breaker or policy, or undefined if none is registered.
+   */
+  public get(name: string): RegisteredCircuitBreaker | undefined {
+    return this._registrations.get(name)?.circuitBreaker;
+  }
+
+  /**
+   * Is a circuit breaker or policy registered under the given name?
+   * @param {string} name The name.
+   * @returns {boolean} True if one is registered, otherwise false.
+   */
+  public has(name: string): boolean {
+    return this._registrations.has(name);
+  }
+
+  /**
+   * List the registered circuit breakers and policies, in the order they were registered.
+   * @param {string} tag Only list the ones with this tag, if specified.
+   * @returns {ICircuitBreakerRegistration<RegisteredCircuitBreaker>[]} Copies of the registrations.
+   */
+  public list(tag?: string): ICircuitBreakerRegistration<RegisteredCircuitBreaker>[] {
+    let registrations = [...this._registrations.values()];
+
+    if (tag !== undefined) {
+      registrations = registrations.filter((registration) => registration.tags.includes(tag));
+    }
+
+    return registrations.map((registration) => ({ ...registration, tags: [...registration.tags] }));
+  }
+
+  /**
+   * Remove the circuit breaker or policy registered under the given name. It keeps working for anyone holding it.
+   * @param {string} name The name.
+   * @returns {boolean} True if one was removed, otherwise false.
+   */
+  public remove(name: string): boolean {
+    return this._registrations.delete(name);
+  }
+
+  /**
+   * Reset the registered circuit breakers and policies.
+   * @param {string} tag Only reset the ones with this tag, if specified.
+   * @returns {number} The number of circuit breakers and policies that were reset.
+   */
+  public resetAll(tag?: string): number {
+    return this.list(tag).filter((registration) => registration.circuitBreaker.reset()).length;
+  }
+
+  /**
+   * Trip the registered circuit breakers and policies.
+   * @param {string} tag Only trip the ones with this tag, if specified.
+   * @returns {number} The number of circuit breakers and policies that were tripped.
+   */
+  public tripAll(tag?: string): number {
+    return this.list(tag).filter((registration) => registration.circuitBreaker.trip()).length;
+  }
+}
@@ -0,0 +1,236 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+	File Name: retry_executor.ts
+	Description: Retries failed actions with exponential backoff between attempts.
+	Written by: Nikita Petko
+*/
+
+import { Jitter } from './enums/jitter';
+import IClock from './interfaces/clock';
+import SystemClock from './clocks/system_clock';
+import IRandomSource from './interfaces/random_source';
+import IBackoffStrategy from './interfaces/backoff_strategy';
+import ExponentialBackoffStrategy from './backoff/exponential_backoff_strategy';
+import { AsyncAction } from './base/execution_circuit_breaker_base';
+
+/**
+ * Represents a function to determine if a failed attempt should be retried.
+ * @param {Error} error The error the attempt failed with.
+ * @returns {boolean} True if the attempt should be retried, otherwise false.
+ */
+export type RetryPredicate = (error: Error) => boolean;
+
+/**
+ * Error thrown when every attempt of a retried action has failed, either until the attempts ran out or until an attempt failed with an error that is not retryable.
+ */
+export class RetryExhaustedError extends AggregateError {
+  /**
+   * Construct a new instance of the RetryExhaustedError class.
+   * @param {Error[]} errors The errors of every attempt, in order.
+   */
+  public constructor(errors: Error[]) {
+    super(errors, `The action failed after ${errors.length} attempts.`);
+
+    this.name = 'RetryExhausted Error';
+  }
+}
+
+/**
+ * Retries failed actions with exponential backoff between attempts.
+ */
+export default class RetryExecutor {
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _maxAttempts: number;
+
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _baseDelay: number;
+
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _maxDelay: number;
+
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _jitter: Jitter;
+
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _retryPredicate: RetryPredicate;
+
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _clock: IClock;
+
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _random: IRandomSource | undefined;
+
+  /**
+   * Construct a new instance of the RetryExecutor class.
+   * @param {number} maxAttempts The maximum number of attempts, including the first.
+   * @param {number} baseDelay The delay before the first retry in milliseconds.
+   * @param {number} maxDelay The maximum delay between attempts in milliseconds.
+   * @param {Jitter} jitter The jitter applied to the delays.
+   * @param {RetryPredicate} retryPredicate The function to determine if a failed attempt should be retried.
+   * @param {IClock} clock The clock used to wait between attempts, defaults to the system clock.
+   * @param {IRandomSource} random The source of random numbers for the jitter, defaults to Math.random.
+   */
+  public constructor(
+    maxAttempts: number,
+    baseDelay: number,
+    maxDelay: number,
+    jitter: Jitter,
+    retryPredicate: RetryPredicate,
+    clock?: IClock,
+    random?: IRandomSource,
+  ) {
+    if (!Number.isInteger(maxAttempts) || maxAttempts < 1) {
+      throw new Error('maxAttempts must be a positive integer.');
+    }
+
+    if (!(baseDelay >= 0) || !(maxDelay >= 0)) {
+      throw new Error('baseDelay and maxDelay cannot be less than zero.');
+    }
+
+    if (maxDelay < baseDelay) {
+      throw new Error('maxDelay cannot be less than baseDelay.');
+    }
+
+    if (retryPredicate === undefined || retryPredicate === null) {
+      throw new Error('retryPredicate cannot be null or undefined.');
+    }
+
+    this._maxAttempts = maxAttempts;
+    this._baseDelay = baseDelay;
+    this._maxDelay = maxDelay;
+    this._jitter = jitter;
+    this._retryPredicate = retryPredicate;
+    this._clock = clock ?? SystemClock.instance;
+    this._random = random;
+  }
+
+  /**
+   * The maximum number of attempts, including the first.
+   * @returns {number} The maximum number of attempts.
+   */
+  public get maxAttempts(): number {
+    return this._maxAttempts;
+  }
+
+  /**
+   * @internal This is a private member.
+   * @param {number} ms The delay in milliseconds.
+   * @param {AbortSignal} signal The signal that cuts the delay short.
+   * @param {IClock} clock The clock used to wait.
+   * @returns {Promise<void>} A promise that resolves after the delay, or rejects with the abort reason.
+   */
+  private static _sleep(ms: number, signal: AbortSignal, clock: IClock): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        clock.clearTimeout(timer);
+        reject(signal.reason);
+      };
+
+      const timer = clock.setTimeout(() => {
+        signal.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+
+      signal.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Execute the given action, retrying it while it fails with retryable errors.
+   * @template TResult The type of the result of the action.
+   * @param {AsyncAction<TResult>} action The action to execute, which receives the abort signal.
+   * @param {AbortSignal} signal The signal that stops any further attempts when aborted.
+   * @returns {Promise<TResult>} A promise that resolves with the result of the first successful attempt.
+   * @throws {RetryExhaustedError} Every attempt failed with a retryable error, or an attempt after a retried one failed with an error that is not.
+   * @remarks An error that is not retryable on the first attempt is rethrown as it is, as is the abort reason once aborted.
+   */
+  public executeAsync<TResult>(action: AsyncAction<TResult>, signal?: AbortSignal): Promise<TResult> {
+    const backoff = new ExponentialBackoffStrategy(this._baseDelay, this._maxDelay, this._jitter, this._random);
+
+    return RetryExecutor.retryAsync(action, this._maxAttempts, backoff, this._retryPredicate, this._clock, signal);
+  }
+
+  /**
+   * Execute the given action, retrying it while it fails with retryable errors and waiting between attempts as the given backoff strategy says.
+   * @template TResult The type of the result of the action.
+   * @param {AsyncAction<TResult>} action The action to execute, which receives the abort signal.
+   * @param {number} maxAttempts The maximum number of attempts, including the first.
+   * @param {IBackoffStrategy} backoff The backoff strategy for this call.
+   * @param {RetryPredicate} retryPredicate The function to determine if a failed attempt should be retried.
+   * @param {IClock} clock The clock used to wait between attempts.
+   * @param {AbortSignal} signal The signal that stops any further attempts when aborted.
+   * @returns {Promise<TResult>} A promise that resolves with the result of the first successful attempt.
+   * @throws {RetryExhaustedError} Every attempt failed with a retryable error, or an attempt after a retried one failed with an error that is not.
+   * @remarks An error that is not retryable on the first attempt is rethrown as it is, as is the abort reason once aborted.
+   */
+  public static async retryAsync<TResult>(
+    action: AsyncAction<TResult>,
+    maxAttempts: number,
+    backoff: IBackoffStrategy,
+    retryPredicate: RetryPredicate,
+    clock: IClock,
+    signal?: AbortSignal,
+  ): Promise<TResult> {
+    signal = signal ?? new AbortController().signal;
+
+    const errors: Error[] = [];
+
+    for (let attempt = 1; ; attempt++) {
+      signal.throwIfAborted();
+
+      try {
+        return await action(signal);
+      } catch (e) {
+        if (signal.aborted) {
+          throw e;
+        }
+
+        // An error that is not retryable ends the retries, but the failed attempts before it are still reported.
+        if (!retryPredicate(e)) {
+          if (errors.length === 0) {
+            throw e;
+          }
+
+          throw new RetryExhaustedError([...errors, e]);
+        }
+
+        errors.push(e);
+      }
+
+      if (attempt >= maxAttempts) {
+        throw new RetryExhaustedError(errors);
+      }
+
+      await RetryExecutor._sleep(backoff.nextDelay(), signal, clock);
+    }
+  }
+}
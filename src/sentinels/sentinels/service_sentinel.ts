@@ -21,6 +21,12 @@
 */
 
 import ISentinel from '../interfaces/sentinel';
+import SystemClock from '../clocks/system_clock';
+import IClock, { TimerHandle } from '../interfaces/clock';
+import EventEmitterBase from '../base/event_emitter_base';
+import IServiceSentinelEvents from '../interfaces/service_sentinel_events';
+import ISnapshottable from '../interfaces/snapshottable';
+import IServiceSentinelSnapshot from '../interfaces/service_sentinel_snapshot';
 
 /**
  * Represents a function to determine if the service is healthy.
@@ -28,6 +34,13 @@ import ISentinel from '../interfaces/sentinel';
  */
 export type HealthCheck = () => boolean;
 
+/**
+ * Represents a function to determine asynchronously if the service is healthy, such as by pinging it.
+ * @param {AbortSignal} signal The signal that is aborted when the check times out, or the sentinel is stopped or disposed.
+ * @returns {Promise<boolean>} A promise that resolves with true if the service is healthy, otherwise false.
+ */
+export type AsyncHealthCheck = (signal: AbortSignal) => Promise<boolean>;
+
 /**
  * Represents a function to get the monitor interval.
  * @returns {number} The monitor interval.
@@ -37,17 +50,40 @@ export type MonitorIntervalGetter = () => number;
 /**
  * Simple sentinel for a health check service.
  */
-export default class ServiceSentinel implements ISentinel {
+export default class ServiceSentinel
+  extends EventEmitterBase<IServiceSentinelEvents>
+  implements ISentinel, ISnapshottable<IServiceSentinelSnapshot>
+{
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _healthCheck: HealthCheck | AsyncHealthCheck;
+
   /**
    * @internal This is a private member.
    */
-  private readonly _healthCheck: HealthCheck;
+  private readonly _healthCheckTimeout: number | undefined;
+
+  /**
+   * @internal This is a private member.
+   */
+  private _pendingCheck: AbortController | undefined;
+
+  /**
+   * @internal This is a private member.
+   */
+  private _pendingCheckTimer: TimerHandle | undefined;
 
   /**
    * The function to get the monitor interval.
    */
   protected readonly monitorIntervalGetter: MonitorIntervalGetter;
 
+  /**
+   * The clock used to schedule the monitor.
+   */
+  protected readonly clock: IClock;
+
   /**
    * @internal This is a private member.
    */
@@ -61,15 +97,23 @@ export default class ServiceSentinel implements ISentinel {
   /**
    * The timer that monitors the service.
    */
-  protected monitorTimer: NodeJS.Timeout;
+  protected monitorTimer: TimerHandle;
 
   /**
    * Construct a new instance of the ServiceSentinel class.
-   * @param {HealthCheck} healthCheck The function to determine if the service is healthy.
+   * @param {HealthCheck | AsyncHealthCheck} healthCheck The function to determine if the service is healthy.
    * @param {MonitorIntervalGetter} monitorIntervalGetter The function to get the monitor interval.
    * @param {boolean} isHealthy The initial health status.
+   * @param {IClock} clock The clock used to schedule the monitor, defaults to the system clock.
+   * @param {number} healthCheckTimeout The timeout in milliseconds for asynchronous health checks, which wait indefinitely by default.
    */
-  public constructor(healthCheck: HealthCheck, monitorIntervalGetter: MonitorIntervalGetter, isHealthy: boolean) {
+  public constructor(
+    healthCheck: HealthCheck | AsyncHealthCheck,
+    monitorIntervalGetter: MonitorIntervalGetter,
+    isHealthy: boolean,
+    clock?: IClock,
+    healthCheckTimeout?: number,
+  ) {
     if (healthCheck === undefined || healthCheck === null) {
       throw new Error('The healthCheck parameter is required.');
     }
@@ -78,31 +122,124 @@ export default class ServiceSentinel implements ISentinel {
       throw new Error('The monitorIntervalGetter parameter is required.');
     }
 
+    if (healthCheckTimeout !== undefined && !(healthCheckTimeout > 0)) {
+      throw new Error('The healthCheckTimeout parameter must be greater than zero.');
+    }
+
+    super();
+
     this._healthCheck = healthCheck;
+    this._healthCheckTimeout = healthCheckTimeout;
     this.monitorIntervalGetter = monitorIntervalGetter;
     this._isDisposed = false;
     this._isHealthy = isHealthy;
+    this.clock = clock ?? SystemClock.instance;
 
-    this.monitorTimer = setInterval(this.monitor.bind(this), this.monitorIntervalGetter());
+    this.monitorTimer = this.clock.setInterval(this.monitor.bind(this), this.monitorIntervalGetter());
   }
 
   /**
    * Monitor the service. Protected so that classes that use monitorTimer can put the argument in the callback.
    * @returns {void}
    */
-  /* istanbul ignore next */
   protected monitor(): void {
-    if (this._isDisposed) {
+    // An asynchronous check still running when the next tick fires is left to finish, rather than overlapped.
+    if (this._isDisposed || this._pendingCheck !== undefined) {
       return;
     }
 
+    const controller = new AbortController();
+
+    let result: boolean | Promise<boolean>;
+
     try {
-      this._isHealthy = this._healthCheck();
+      result = this._healthCheck(controller.signal);
     } catch (error) {
-      this._isHealthy = false;
+      this._setHealth(false);
+
+      return;
+    }
+
+    if (typeof (result as Promise<boolean>)?.then !== 'function') {
+      this._setHealth(result as boolean);
+
+      return;
+    }
+
+    this._pendingCheck = controller;
+
+    const settle = (isHealthy: boolean) => {
+      // A check that was cancelled in the meantime no longer has a say in the health status.
+      if (this._pendingCheck !== controller) {
+        return;
+      }
+
+      this._clearPendingCheck();
+      this._setHealth(isHealthy);
+    };
+
+    if (this._healthCheckTimeout !== undefined) {
+      this._pendingCheckTimer = this.clock.setTimeout(() => {
+        settle(false);
+        controller.abort(new Error(`The health check timed out after ${this._healthCheckTimeout}ms.`));
+      }, this._healthCheckTimeout);
+    }
+
+    (result as Promise<boolean>).then(
+      (isHealthy) => settle(isHealthy === true),
+      () => settle(false),
+    );
+  }
+
+  /**
+   * @internal This is a private member.
+   */
+  private _clearPendingCheck(): void {
+    this._pendingCheck = undefined;
+
+    if (this._pendingCheckTimer !== undefined) {
+      this.clock.clearTimeout(this._pendingCheckTimer);
+      this._pendingCheckTimer = undefined;
     }
   }
 
+  /**
+   * Cancel the asynchronous health check that is running, if any. Its result is ignored.
+   * @param {Error} reason The reason the signal of the health check is aborted with.
+   */
+  protected cancelPendingCheck(reason: Error): void {
+    const pendingCheck = this._pendingCheck;
+
+    if (pendingCheck === undefined) {
+      return;
+    }
+
+    this._clearPendingCheck();
+    pendingCheck.abort(reason);
+  }
+
+  /**
+   * @internal This is a private member.
+   * @param {boolean} isHealthy The health status reported by the health check.
+   */
+  private _setHealth(isHealthy: boolean): void {
+    const wasHealthy = this._isHealthy;
+
+    this._isHealthy = isHealthy;
+
+    if (this._isHealthy !== wasHealthy) {
+      this.emit('healthChanged', { isHealthy: this._isHealthy, timestamp: new Date(this.clock.now()) });
+    }
+  }
+
+  /**
+   * Is an asynchronous health check running?
+   * @returns {boolean} True if a health check is running, otherwise false.
+   */
+  public get isChecking(): boolean {
+    return this._pendingCheck !== undefined;
+  }
+
   /**
    * Get the health status of the service.
    * @returns {boolean} True if the service is healthy, otherwise false.
@@ -111,6 +248,26 @@ export default class ServiceSentinel implements ISentinel {
     return this._isHealthy;
   }
 
+  /**
+   * Capture the health status of the service, so that it can be restored after a restart.
+   * @returns {IServiceSentinelSnapshot} A JSON-serializable snapshot of the health status.
+   */
+  public snapshot(): IServiceSentinelSnapshot {
+    return { isHealthy: this._isHealthy };
+  }
+
+  /**
+   * Restore the health status captured in the given snapshot, until the next health check. No events are emitted.
+   * @param {IServiceSentinelSnapshot} snapshot The snapshot to restore.
+   */
+  public restore(snapshot: IServiceSentinelSnapshot): void {
+    if (snapshot === undefined || snapshot === null) {
+      throw new Error('snapshot cannot be null or undefined.');
+    }
+
+    this._isHealthy = snapshot.isHealthy === true;
+  }
+
   /**
    * Dispose the sentinel.
    * @param {boolean} disposing True if disposing, otherwise false.
@@ -121,8 +278,9 @@ export default class ServiceSentinel implements ISentinel {
     }
 
     if (disposing) {
-      clearInterval(this.monitorTimer);
+      this.clock.clearInterval(this.monitorTimer);
       this._isDisposed = true;
+      this.cancelPendingCheck(new Error('The sentinel was disposed.'));
     }
   }
 }
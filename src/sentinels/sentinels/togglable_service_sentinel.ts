@@ -20,7 +20,8 @@
 	Written by: Nikita Petko
 */
 
-import ServiceSentinel, { HealthCheck, MonitorIntervalGetter } from './service_sentinel';
+import IClock from '../interfaces/clock';
+import ServiceSentinel, { HealthCheck, AsyncHealthCheck, MonitorIntervalGetter } from './service_sentinel';
 
 /**
  * Service sentinel that can be toggled.
@@ -33,12 +34,20 @@ export default class TogglableServiceSentinel extends ServiceSentinel {
 
   /**
    * Construct a new instance of the TogglableServiceSentinel class.
-   * @param {HealthCheck} healthCheck The function to determine if the service is healthy.
+   * @param {HealthCheck | AsyncHealthCheck} healthCheck The function to determine if the service is healthy.
    * @param {MonitorIntervalGetter} monitorIntervalGetter The function to get the monitor interval.
    * @param {boolean} isHealthy The initial health status.
+   * @param {IClock} clock The clock used to schedule the monitor, defaults to the system clock.
+   * @param {number} healthCheckTimeout The timeout in milliseconds for asynchronous health checks, which wait indefinitely by default.
    */
-  public constructor(healthCheck: HealthCheck, monitorIntervalGetter: MonitorIntervalGetter, isHealthy: boolean) {
-    super(healthCheck, monitorIntervalGetter, isHealthy);
+  public constructor(
+    healthCheck: HealthCheck | AsyncHealthCheck,
+    monitorIntervalGetter: MonitorIntervalGetter,
+    isHealthy: boolean,
+    clock?: IClock,
+    healthCheckTimeout?: number,
+  ) {
+    super(healthCheck, monitorIntervalGetter, isHealthy, clock, healthCheckTimeout);
 
     this._isRunning = true;
   }
@@ -53,11 +62,11 @@ export default class TogglableServiceSentinel extends ServiceSentinel {
     }
 
     this._isRunning = true;
-    this.monitorTimer = setInterval(this.monitor.bind(this), this.monitorIntervalGetter());
+    this.monitorTimer = this.clock.setInterval(this.monitor.bind(this), this.monitorIntervalGetter());
   }
 
   /**
-   * Stop the sentinel.
+   * Stop the sentinel. A health check that is running is aborted, and its result is ignored.
    * @returns {void}
    */
   public stop(): void {
@@ -66,6 +75,7 @@ export default class TogglableServiceSentinel extends ServiceSentinel {
     }
 
     this._isRunning = false;
-    clearInterval(this.monitorTimer);
+    this.clock.clearInterval(this.monitorTimer);
+    this.cancelPendingCheck(new Error('The sentinel was stopped.'));
   }
 }
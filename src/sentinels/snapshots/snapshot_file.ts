@@ -0,0 +1,222 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+	File Name: snapshot_file.ts
+	Description: Saves the snapshots of circuit breakers and sentinels to a file, and restores them from it.
+	Written by: Nikita Petko
+*/
+
+import * as fs from 'fs';
+import { randomUUID } from 'crypto';
+import * as path from 'path';
+import ISnapshottable from '../interfaces/snapshottable';
+
+/**
+ * Represents the circuit breakers, policies and sentinels saved to or loaded from a snapshot file, by key.
+ */
+export type SnapshotTargets = Readonly<Record<string, ISnapshottable<unknown>>>;
+
+/**
+ * @internal This is a private member.
+ */
+interface ISnapshotFileContents {
+  version: number;
+  savedAt: string;
+  snapshots: Record<string, unknown>;
+}
+
+/**
+ * Saves the snapshots of circuit breakers, policies and sentinels to a file, and restores them from it,
+ * so that their state survives a restart of the process.
+ * @remarks The file is replaced atomically, so a crash while saving leaves the previous snapshots intact.
+ */
+export default class SnapshotFile {
+  /**
+   * The version of the file format.
+   */
+  public static readonly version = 1;
+
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _path: string;
+
+  /**
+   * Construct a new instance of the SnapshotFile class.
+   * @param {string} filePath The path of the file.
+   */
+  public constructor(filePath: string) {
+    if (filePath === undefined || filePath === null || filePath === '') {
+      throw new Error('filePath cannot be null, undefined or empty.');
+    }
+
+    this._path = filePath;
+  }
+
+  /**
+   * The path of the file.
+   * @returns {string} The path of the file.
+   */
+  public get path(): string {
+    return this._path;
+  }
+
+  /**
+   * @internal This is a private member.
+   * @returns {string} A new path for the temporary file written before it replaces the file, unique to each save.
+   */
+  private _createTemporaryPath(): string {
+    return `${this._path}.${process.pid}.${randomUUID()}.tmp`;
+  }
+
+  /**
+   * @internal This is a private member.
+   * @param {SnapshotTargets} targets The targets to snapshot.
+   * @returns {string} The contents of the file.
+   */
+  private static _serialize(targets: SnapshotTargets): string {
+    if (targets === undefined || targets === null) {
+      throw new Error('targets cannot be null or undefined.');
+    }
+
+    const contents: ISnapshotFileContents = {
+      version: SnapshotFile.version,
+      savedAt: new Date().toISOString(),
+      snapshots: {},
+    };
+
+    for (const [key, target] of Object.entries(targets)) {
+      contents.snapshots[key] = target.snapshot();
+    }
+
+    return JSON.stringify(contents, undefined, 2);
+  }
+
+  /**
+   * @internal This is a private member.
+   * @param {string} data The contents of the file.
+   * @param {SnapshotTargets} targets The targets to restore.
+   * @returns {string[]} The keys of the targets that were restored.
+   */
+  private _restore(data: string, targets: SnapshotTargets): string[] {
+    let contents: ISnapshotFileContents;
+
+    try {
+      contents = JSON.parse(data);
+    } catch (e) {
+      throw new Error(`'${this._path}' is not a snapshot file.`, { cause: e });
+    }
+
+    if (contents?.version !== SnapshotFile.version || typeof contents.snapshots !== 'object') {
+      throw new Error(`'${this._path}' is not a snapshot file of version ${SnapshotFile.version}.`);
+    }
+
+    const restored: string[] = [];
+
+    for (const [key, target] of Object.entries(targets)) {
+      if (!Object.prototype.hasOwnProperty.call(contents.snapshots, key)) {
+        continue;
+      }
+
+      target.restore(contents.snapshots[key]);
+      restored.push(key);
+    }
+
+    return restored;
+  }
+
+  /**
+   * Save the snapshots of the given targets, replacing the file.
+   * @param {SnapshotTargets} targets The targets to save, by key.
+   */
+  public save(targets: SnapshotTargets): void {
+    const data = SnapshotFile._serialize(targets);
+
+    const temporaryPath = this._createTemporaryPath();
+
+    fs.mkdirSync(path.dirname(this._path), { recursive: true });
+    fs.writeFileSync(temporaryPath, data);
+    fs.renameSync(temporaryPath, this._path);
+  }
+
+  /**
+   * Save the snapshots of the given targets asynchronously, replacing the file.
+   * @param {SnapshotTargets} targets The targets to save, by key.
+   * @returns {Promise<void>} A promise that resolves once the file has been replaced.
+   */
+  public async saveAsync(targets: SnapshotTargets): Promise<void> {
+    const data = SnapshotFile._serialize(targets);
+
+    const temporaryPath = this._createTemporaryPath();
+
+    await fs.promises.mkdir(path.dirname(this._path), { recursive: true });
+    await fs.promises.writeFile(temporaryPath, data);
+    await fs.promises.rename(temporaryPath, this._path);
+  }
+
+  /**
+   * Restore the given targets from their snapshots in the file. Targets without a snapshot are left untouched.
+   * @param {SnapshotTargets} targets The targets to restore, by key.
+   * @returns {string[]} The keys of the targets that were restored, none if the file does not exist.
+   * @throws {Error} If the file is not a snapshot file, or a snapshot does not belong to its target.
+   */
+  public load(targets: SnapshotTargets): string[] {
+    if (targets === undefined || targets === null) {
+      throw new Error('targets cannot be null or undefined.');
+    }
+
+    let data: string;
+
+    try {
+      data = fs.readFileSync(this._path, 'utf8');
+    } catch (e) {
+      if (e?.code === 'ENOENT') {
+        return [];
+      }
+
+      throw e;
+    }
+
+    return this._restore(data, targets);
+  }
+
+  /**
+   * Restore the given targets asynchronously from their snapshots in the file. Targets without a snapshot are left untouched.
+   * @param {SnapshotTargets} targets The targets to restore, by key.
+   * @returns {Promise<string[]>} A promise that resolves with the keys of the targets that were restored, none if the file does not exist.
+   * @throws {Error} If the file is not a snapshot file, or a snapshot does not belong to its target.
+   */
+  public async loadAsync(targets: SnapshotTargets): Promise<string[]> {
+    if (targets === undefined || targets === null) {
+      throw new Error('targets cannot be null or undefined.');
+    }
+
+    let data: string;
+
+    try {
+      data = await fs.promises.readFile(this._path, 'utf8');
+    } catch (e) {
+      if (e?.code === 'ENOENT') {
+        return [];
+      }
+
+      throw e;
+    }
+
+    return this._restore(data, targets);
+  }
+}
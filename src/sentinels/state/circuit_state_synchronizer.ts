@@ -0,0 +1,272 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+	File Name: circuit_state_synchronizer.ts
+	Description: Shares the state of a circuit breaker or policy with other processes through a circuit state store.
+	Written by: Nikita Petko
+*/
+
+import IClock, { TimerHandle } from '../interfaces/clock';
+import SystemClock from '../clocks/system_clock';
+import EventEmitterBase from '../base/event_emitter_base';
+import ISnapshottable from '../interfaces/snapshottable';
+import ICircuitStateStore from '../interfaces/circuit_state_store';
+import ICircuitBreakerEvents from '../interfaces/circuit_breaker_events';
+import ICircuitBreakerSnapshot from '../interfaces/circuit_breaker_snapshot';
+import ICircuitStateSynchronizerOptions from '../interfaces/circuit_state_synchronizer_options';
+
+/**
+ * Represents a circuit breaker or policy whose state can be shared through a circuit state store.
+ */
+export type SynchronizedCircuitBreaker = EventEmitterBase<ICircuitBreakerEvents> &
+  ISnapshottable<ICircuitBreakerSnapshot>;
+
+/**
+ * Represents a function that is called with the errors of the store met in the background.
+ * @param {Error} error The error.
+ */
+export type StoreErrorHandler = (error: Error) => void;
+
+/**
+ * Shares the state of a circuit breaker or policy with other processes through a circuit state store.
+ * @remarks Once started, the state is written to the store whenever the circuit breaker trips or resets,
+ * and read back from it periodically, so a trip in one process rejects calls in all of them.
+ * A write that loses a compare-and-set race adopts the state of the winner instead.
+ */
+export default class CircuitStateSynchronizer {
+  /**
+   * The default interval between reads of the store, in milliseconds.
+   */
+  public static readonly defaultPollInterval = 1000;
+
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _name: string;
+
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _store: ICircuitStateStore;
+
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _circuitBreaker: SynchronizedCircuitBreaker;
+
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _pollInterval: number;
+
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _clock: IClock;
+
+  /**
+   * @internal This is a private member.
+   */
+  private _version = 0;
+
+  /**
+   * @internal This is a private member.
+   */
+  private _queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * @internal This is a private member.
+   */
+  private _pollTimer: TimerHandle | undefined;
+
+  /**
+   * @internal This is a private member.
+   * @returns {Promise<unknown>} A promise that settles once the state has been written.
+   */
+  private readonly _onStateChanged = () => this._enqueue(() => this._pushAsync()).catch(this._onError);
+
+  /**
+   * @internal This is a private member.
+   * @returns {Promise<unknown>} A promise that settles once the state has been read back.
+   */
+  private readonly _onPoll = () => this._enqueue(() => this._pullAsync()).catch(this._onError);
+
+  /**
+   * @internal This is a private member.
+   * @param {Error} error The error.
+   * @returns {void}
+   */
+  private readonly _onError = (error: Error) => this.onError?.(error);
+
+  /**
+   * The function called with the errors of the store met in the background, if any.
+   */
+  public onError: StoreErrorHandler | undefined;
+
+  /**
+   * Construct a new instance of the CircuitStateSynchronizer class.
+   * @param {string} name The name the state is stored under, which must be the name of the circuit breaker.
+   * @param {ICircuitStateStore} store The store the state is shared through.
+   * @param {SynchronizedCircuitBreaker} circuitBreaker The circuit breaker or policy.
+   * @param {ICircuitStateSynchronizerOptions} options The optional settings of the synchronizer.
+   */
+  public constructor(
+    name: string,
+    store: ICircuitStateStore,
+    circuitBreaker: SynchronizedCircuitBreaker,
+    options?: ICircuitStateSynchronizerOptions,
+  ) {
+    if (name === undefined || name === null || name === '') {
+      throw new Error('name cannot be null, undefined or empty.');
+    }
+
+    if (store === undefined || store === null) {
+      throw new Error('store cannot be null or undefined.');
+    }
+
+    if (circuitBreaker === undefined || circuitBreaker === null) {
+      throw new Error('circuitBreaker cannot be null or undefined.');
+    }
+
+    if (options?.pollInterval !== undefined && !(options.pollInterval > 0)) {
+      throw new Error('The pollInterval option must be greater than zero.');
+    }
+
+    this._name = name;
+    this._store = store;
+    this._circuitBreaker = circuitBreaker;
+    this._pollInterval = options?.pollInterval ?? CircuitStateSynchronizer.defaultPollInterval;
+    this._clock = options?.clock ?? SystemClock.instance;
+  }
+
+  /**
+   * The name the state is stored under.
+   * @returns {string} The name.
+   */
+  public get name(): string {
+    return this._name;
+  }
+
+  /**
+   * The version of the stored state the circuit breaker was last synchronized with, or 0 if none.
+   * @returns {number} The version.
+   */
+  public get version(): number {
+    return this._version;
+  }
+
+  /**
+   * Is the synchronizer started?
+   * @returns {boolean} True if started, otherwise false.
+   */
+  public get isStarted(): boolean {
+    return this._pollTimer !== undefined;
+  }
+
+  /**
+   * @internal This is a private member.
+   * @template T The type of the result of the operation.
+   * @param {Function} operation The operation.
+   * @returns {Promise<T>} A promise that resolves with the result of the operation, once the operations before it are done.
+   */
+  private _enqueue<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this._queue.then(operation, operation);
+
+    this._queue = result.catch(() => undefined);
+
+    return result;
+  }
+
+  /**
+   * @internal This is a private member.
+   * @returns {Promise<boolean>} A promise that resolves with true if a newer state was restored, otherwise false.
+   */
+  private async _pullAsync(): Promise<boolean> {
+    const state = await this._store.getAsync(this._name);
+
+    if (state === undefined || state.version === this._version) {
+      return false;
+    }
+
+    this._circuitBreaker.restore(state.snapshot);
+    this._version = state.version;
+
+    return true;
+  }
+
+  /**
+   * @internal This is a private member.
+   * @returns {Promise<boolean>} A promise that resolves with true if the state was written, or false if a newer state was adopted instead.
+   */
+  private async _pushAsync(): Promise<boolean> {
+    const snapshot = this._circuitBreaker.snapshot();
+
+    if (await this._store.compareAndSetAsync(this._name, this._version, snapshot)) {
+      this._version++;
+
+      return true;
+    }
+
+    await this._pullAsync();
+
+    return false;
+  }
+
+  /**
+   * Restore the circuit breaker from the store, if the stored state changed since it was last synchronized.
+   * @returns {Promise<boolean>} A promise that resolves with true if a newer state was restored, otherwise false.
+   */
+  public pullAsync(): Promise<boolean> {
+    return this._enqueue(() => this._pullAsync());
+  }
+
+  /**
+   * Write the state of the circuit breaker to the store. If another process wrote first, its state is restored instead.
+   * @returns {Promise<boolean>} A promise that resolves with true if the state was written, or false if a newer state was adopted instead.
+   */
+  public pushAsync(): Promise<boolean> {
+    return this._enqueue(() => this._pushAsync());
+  }
+
+  /**
+   * Start sharing the state: adopt the stored state, then write on every trip and reset, and read back periodically.
+   * @returns {Promise<void>} A promise that resolves once the stored state has been adopted.
+   */
+  public async startAsync(): Promise<void> {
+    if (this.isStarted) {
+      return;
+    }
+
+    this._circuitBreaker.on('tripped', this._onStateChanged).on('reset', this._onStateChanged);
+    this._pollTimer = this._clock.setInterval(this._onPoll, this._pollInterval);
+
+    await this.pullAsync();
+  }
+
+  /**
+   * Stop sharing the state. Operations already under way still complete.
+   */
+  public stop(): void {
+    if (!this.isStarted) {
+      return;
+    }
+
+    this._circuitBreaker.off('tripped', this._onStateChanged).off('reset', this._onStateChanged);
+    this._clock.clearInterval(this._pollTimer);
+    this._pollTimer = undefined;
+  }
+}
@@ -0,0 +1,331 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+	File Name: file_circuit_state_store.ts
+	Description: Circuit state store that keeps the state in a file, shared by the processes on a host.
+	Written by: Nikita Petko
+*/
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import ICircuitBreakerSnapshot from '../interfaces/circuit_breaker_snapshot';
+import ICircuitStateStore, { IStoredCircuitState } from '../interfaces/circuit_state_store';
+import IFileCircuitStateStoreOptions from '../interfaces/file_circuit_state_store_options';
+
+/**
+ * Circuit state store that keeps the state in a file, shared by the processes on a host.
+ * @remarks Writes take an exclusive lock file next to the file, and replace the file atomically, so reads never see a partial write.
+ * Each lock holds a token unique to the writer that took it, and is only ever removed by whoever still finds that token in it.
+ * Breaking a stale lock is not fully safe: a lock that is moved aside, found to belong to another writer and handed back can be
+ * taken by a third writer in between, in which case the writer that held it loses it while it still writes.
+ * Keep the stale lock age well above the time a write takes so live locks are not broken.
+ */
+export default class FileCircuitStateStore implements ICircuitStateStore {
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _path: string;
+
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _lockTimeout: number;
+
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _lockRetryDelay: number;
+
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _staleLockAge: number;
+
+  /**
+   * Construct a new instance of the FileCircuitStateStore class.
+   * @param {string} filePath The path of the file.
+   * @param {IFileCircuitStateStoreOptions} options The optional settings of the store.
+   */
+  public constructor(filePath: string, options?: IFileCircuitStateStoreOptions) {
+    if (filePath === undefined || filePath === null || filePath === '') {
+      throw new Error('filePath cannot be null, undefined or empty.');
+    }
+
+    options = options ?? {};
+
+    if (options.lockTimeout !== undefined && options.lockTimeout < 0) {
+      throw new Error('The lockTimeout option cannot be less than zero.');
+    }
+
+    if (options.lockRetryDelay !== undefined && !(options.lockRetryDelay > 0)) {
+      throw new Error('The lockRetryDelay option must be greater than zero.');
+    }
+
+    if (options.staleLockAge !== undefined && !(options.staleLockAge > 0)) {
+      throw new Error('The staleLockAge option must be greater than zero.');
+    }
+
+    this._path = filePath;
+    this._lockTimeout = options.lockTimeout ?? 5000;
+    this._lockRetryDelay = options.lockRetryDelay ?? 10;
+    this._staleLockAge = options.staleLockAge ?? 30000;
+  }
+
+  /**
+   * The path of the file.
+   * @returns {string} The path of the file.
+   */
+  public get path(): string {
+    return this._path;
+  }
+
+  /**
+   * The path of the lock file taken while writing.
+   * @returns {string} The path of the lock file.
+   */
+  public get lockPath(): string {
+    return `${this._path}.lock`;
+  }
+
+  /**
+   * @internal This is a private member.
+   * @returns {Promise<Record<string, IStoredCircuitState>>} A promise that resolves with the states in the file.
+   */
+  private async _readAsync(): Promise<Record<string, IStoredCircuitState>> {
+    let data: string;
+
+    try {
+      data = await fs.promises.readFile(this._path, 'utf8');
+    } catch (e) {
+      if (e?.code === 'ENOENT') {
+        return {};
+      }
+
+      throw e;
+    }
+
+    try {
+      return JSON.parse(data);
+    } catch (e) {
+      throw new Error(`'${this._path}' is not a circuit state file.`, { cause: e });
+    }
+  }
+
+  /**
+   * @internal This is a private member.
+   * @param {Record<string, IStoredCircuitState>} states The states to write.
+   * @returns {Promise<void>} A promise that resolves once the file has been replaced.
+   */
+  private async _writeAsync(states: Record<string, IStoredCircuitState>): Promise<void> {
+    const temporaryPath = `${this._path}.${process.pid}.tmp`;
+
+    await fs.promises.writeFile(temporaryPath, JSON.stringify(states, undefined, 2));
+    await fs.promises.rename(temporaryPath, this._path);
+  }
+
+  /**
+   * @internal This is a private member.
+   * @param {string} token The token identifying this writer's lock.
+   * @returns {Promise<boolean>} A promise that resolves with true if the lock was taken, or false if another writer holds it.
+   */
+  private async _tryLockAsync(token: string): Promise<boolean> {
+    let handle: fs.promises.FileHandle;
+
+    try {
+      handle = await fs.promises.open(this.lockPath, 'wx');
+    } catch (e) {
+      if (e?.code === 'EEXIST') {
+        return false;
+      }
+
+      throw e;
+    }
+
+    try {
+      await handle.writeFile(token);
+    } finally {
+      await handle.close();
+    }
+
+    return true;
+  }
+
+  /**
+   * @internal This is a private member.
+   * @param {string} token The token the lock is expected to hold.
+   * @returns {Promise<void>} A promise that resolves once the lock has been removed, if it still held the token.
+   */
+  private async _removeLockAsync(token: string): Promise<void> {
+    // Moving the lock aside to a tombstone is atomic, so the token is checked on the very lock that gets removed.
+    const tombstonePath = `${this.lockPath}.${randomUUID()}.tombstone`;
+
+    try {
+      await fs.promises.rename(this.lockPath, tombstonePath);
+    } catch (e) {
+      // The lock was released in the meantime.
+      if (e?.code === 'ENOENT') {
+        return;
+      }
+
+      throw e;
+    }
+
+    try {
+      if ((await fs.promises.readFile(tombstonePath, 'utf8')) === token) {
+        return;
+      }
+
+      // The lock belongs to another writer, so it is handed back, unless the lock was taken again in the meantime.
+      await fs.promises.link(tombstonePath, this.lockPath);
+    } catch (e) {
+      if (e?.code !== 'EEXIST') {
+        throw e;
+      }
+    } finally {
+      await fs.promises.unlink(tombstonePath);
+    }
+  }
+
+  /**
+   * @internal This is a private member.
+   * @returns {Promise<void>} A promise that resolves once a lock abandoned by a crashed process has been removed.
+   */
+  private async _removeStaleLockAsync(): Promise<void> {
+    let token: string;
+
+    try {
+      // The age and the token are read from the same file, even if the lock is replaced in the meantime.
+      const handle = await fs.promises.open(this.lockPath, 'r');
+
+      try {
+        if (Date.now() - (await handle.stat()).mtimeMs <= this._staleLockAge) {
+          return;
+        }
+
+        token = await handle.readFile('utf8');
+      } finally {
+        await handle.close();
+      }
+    } catch (e) {
+      // The lock was released in the meantime.
+      if (e?.code === 'ENOENT') {
+        return;
+      }
+
+      throw e;
+    }
+
+    await this._removeLockAsync(token);
+  }
+
+  /**
+   * @internal This is a private member.
+   * @template T The type of the result of the function.
+   * @param {Function} fn The function to run while holding the lock.
+   * @returns {Promise<T>} A promise that resolves with the result of the function.
+   * @throws {Error} The lock could not be taken before the lock timeout.
+   */
+  private async _withLockAsync<T>(fn: () => Promise<T>): Promise<T> {
+    await fs.promises.mkdir(path.dirname(this._path), { recursive: true });
+
+    const token = `${process.pid}:${randomUUID()}`;
+    const deadline = Date.now() + this._lockTimeout;
+
+    while (!(await this._tryLockAsync(token))) {
+      await this._removeStaleLockAsync();
+
+      if (Date.now() >= deadline) {
+        throw new Error(`Timed out after ${this._lockTimeout}ms waiting for the lock on '${this._path}'.`);
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, this._lockRetryDelay));
+    }
+
+    try {
+      return await fn();
+    } finally {
+      await this._removeLockAsync(token);
+    }
+  }
+
+  /**
+   * Read the state of the given circuit breaker.
+   * @param {string} name The name of the circuit breaker.
+   * @returns {Promise<IStoredCircuitState | undefined>} A promise that resolves with the state, or undefined if none is stored.
+   */
+  public async getAsync(name: string): Promise<IStoredCircuitState | undefined> {
+    const states = await this._readAsync();
+
+    return Object.prototype.hasOwnProperty.call(states, name) ? states[name] : undefined;
+  }
+
+  /**
+   * Write the state of the given circuit breaker, if its version is still the expected one.
+   * @param {string} name The name of the circuit breaker.
+   * @param {number} expectedVersion The version the state is expected to have, or 0 if no state is expected to be stored.
+   * @param {ICircuitBreakerSnapshot} snapshot The snapshot to write, as version expectedVersion + 1.
+   * @returns {Promise<boolean>} A promise that resolves with true if the state was written, or false if its version had changed.
+   * @throws {Error} The lock could not be taken before the lock timeout.
+   */
+  public async compareAndSetAsync(
+    name: string,
+    expectedVersion: number,
+    snapshot: ICircuitBreakerSnapshot,
+  ): Promise<boolean> {
+    if (snapshot === undefined || snapshot === null) {
+      throw new Error('snapshot cannot be null or undefined.');
+    }
+
+    return await this._withLockAsync(async () => {
+      const states = await this._readAsync();
+      const version = Object.prototype.hasOwnProperty.call(states, name) ? states[name].version : 0;
+
+      if (version !== expectedVersion) {
+        return false;
+      }
+
+      states[name] = { version: expectedVersion + 1, snapshot };
+
+      await this._writeAsync(states);
+
+      return true;
+    });
+  }
+
+  /**
+   * Delete the state of the given circuit breaker.
+   * @param {string} name The name of the circuit breaker.
+   * @returns {Promise<boolean>} A promise that resolves with true if a state was deleted, otherwise false.
+   * @throws {Error} The lock could not be taken before the lock timeout.
+   */
+  public async deleteAsync(name: string): Promise<boolean> {
+    return await this._withLockAsync(async () => {
+      const states = await this._readAsync();
+
+      if (!Object.prototype.hasOwnProperty.call(states, name)) {
+        return false;
+      }
+
+      delete states[name];
+
+      await this._writeAsync(states);
+
+      return true;
+    });
+  }
+}
@@ -0,0 +1,100 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+	File Name: in_memory_circuit_state_store.ts
+	Description: Circuit state store that keeps the state in memory, for tests and for sharing state within a process.
+	Written by: Nikita Petko
+*/
+
+import ICircuitBreakerSnapshot from '../interfaces/circuit_breaker_snapshot';
+import ICircuitStateStore, { IStoredCircuitState } from '../interfaces/circuit_state_store';
+
+/**
+ * Circuit state store that keeps the state in memory, for tests and for sharing state within a process.
+ */
+export default class InMemoryCircuitStateStore implements ICircuitStateStore {
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _states = new Map<string, IStoredCircuitState>();
+
+  /**
+   * The number of circuit breakers with a stored state.
+   * @returns {number} The number of stored states.
+   */
+  public get size(): number {
+    return this._states.size;
+  }
+
+  /**
+   * @internal This is a private member.
+   * @param {ICircuitBreakerSnapshot} snapshot The snapshot.
+   * @returns {ICircuitBreakerSnapshot} A deep copy of the snapshot, as it would come back from a remote store.
+   */
+  private static _copy(snapshot: ICircuitBreakerSnapshot): ICircuitBreakerSnapshot {
+    return JSON.parse(JSON.stringify(snapshot));
+  }
+
+  /**
+   * Read the state of the given circuit breaker.
+   * @param {string} name The name of the circuit breaker.
+   * @returns {Promise<IStoredCircuitState | undefined>} A promise that resolves with the state, or undefined if none is stored.
+   */
+  public async getAsync(name: string): Promise<IStoredCircuitState | undefined> {
+    const state = this._states.get(name);
+
+    if (state === undefined) {
+      return undefined;
+    }
+
+    return { version: state.version, snapshot: InMemoryCircuitStateStore._copy(state.snapshot) };
+  }
+
+  /**
+   * Write the state of the given circuit breaker, if its version is still the expected one.
+   * @param {string} name The name of the circuit breaker.
+   * @param {number} expectedVersion The version the state is expected to have, or 0 if no state is expected to be stored.
+   * @param {ICircuitBreakerSnapshot} snapshot The snapshot to write, as version expectedVersion + 1.
+   * @returns {Promise<boolean>} A promise that resolves with true if the state was written, or false if its version had changed.
+   */
+  public async compareAndSetAsync(
+    name: string,
+    expectedVersion: number,
+    snapshot: ICircuitBreakerSnapshot,
+  ): Promise<boolean> {
+    if (snapshot === undefined || snapshot === null) {
+      throw new Error('snapshot cannot be null or undefined.');
+    }
+
+    if ((this._states.get(name)?.version ?? 0) !== expectedVersion) {
+      return false;
+    }
+
+    this._states.set(name, { version: expectedVersion + 1, snapshot: InMemoryCircuitStateStore._copy(snapshot) });
+
+    return true;
+  }
+
+  /**
+   * Delete the state of the given circuit breaker.
+   * @param {string} name The name of the circuit breaker.
+   * @returns {Promise<boolean>} A promise that resolves with true if a state was deleted, otherwise false.
+   */
+  public async deleteAsync(name: string): Promise<boolean> {
+    return this._states.delete(name);
+  }
+}
@@ -0,0 +1,255 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+	File Name: rolling_window.ts
+	Description: Time-bucketed rolling window of call statistics.
+	Written by: Nikita Petko
+*/
+
+import IClock from '../interfaces/clock';
+import SystemClock from '../clocks/system_clock';
+import IRollingWindowCounts from '../interfaces/rolling_window_counts';
+import IRollingWindowBucket from '../interfaces/rolling_window_bucket';
+
+/**
+ * @internal This is a private member.
+ */
+interface IBucket {
+  start: number;
+  successes: number;
+  failures: number;
+  rejections: number;
+  timeouts: number;
+  slowCalls: number;
+}
+
+/**
+ * Time-bucketed rolling window of call statistics.
+ * @remarks The window is split into buckets of equal duration, and the oldest bucket is discarded as time moves on,
+ * so counts expire gradually instead of all at once.
+ */
+export default class RollingWindow {
+  /**
+   * The default number of buckets.
+   */
+  public static readonly defaultBucketCount = 10;
+
+  /**
+   * The default duration of each bucket in milliseconds.
+   */
+  public static readonly defaultBucketDuration = 1000;
+
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _bucketDuration: number;
+
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _clock: IClock;
+
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _buckets: IBucket[];
+
+  /**
+   * Construct a new instance of the RollingWindow class.
+   * @param {number} bucketCount The number of buckets the window is split into.
+   * @param {number} bucketDuration The duration of each bucket in milliseconds.
+   * @param {IClock} clock The clock used to tell the time. Defaults to the system clock.
+   */
+  public constructor(
+    bucketCount = RollingWindow.defaultBucketCount,
+    bucketDuration = RollingWindow.defaultBucketDuration,
+    clock?: IClock,
+  ) {
+    if (!Number.isInteger(bucketCount) || bucketCount < 1) {
+      throw new Error('bucketCount must be a positive integer.');
+    }
+
+    if (!(bucketDuration > 0)) {
+      throw new Error('bucketDuration must be greater than zero.');
+    }
+
+    this._bucketDuration = bucketDuration;
+    this._clock = clock ?? SystemClock.instance;
+    this._buckets = Array.from({ length: bucketCount }, () => RollingWindow._createBucket(-Infinity));
+  }
+
+  /**
+   * @internal This is a private member.
+   * @param {number} start The start time of the bucket.
+   * @returns {IBucket} An empty bucket.
+   */
+  private static _createBucket(start: number): IBucket {
+    return { start, successes: 0, failures: 0, rejections: 0, timeouts: 0, slowCalls: 0 };
+  }
+
+  /**
+   * The number of buckets the window is split into.
+   * @returns {number} The number of buckets.
+   */
+  public get bucketCount(): number {
+    return this._buckets.length;
+  }
+
+  /**
+   * The duration of each bucket in milliseconds.
+   * @returns {number} The duration of each bucket.
+   */
+  public get bucketDuration(): number {
+    return this._bucketDuration;
+  }
+
+  /**
+   * The total duration of the window in milliseconds.
+   * @returns {number} The duration of the window.
+   */
+  public get windowDuration(): number {
+    return this._bucketDuration * this._buckets.length;
+  }
+
+  /**
+   * The counts of all calls recorded within the window.
+   * @returns {IRollingWindowCounts} A snapshot of the counts.
+   */
+  public get counts(): IRollingWindowCounts {
+    const oldestStart = this._currentBucketStart() - this.windowDuration;
+    const counts = { successes: 0, failures: 0, rejections: 0, timeouts: 0, slowCalls: 0 };
+
+    for (const bucket of this._buckets) {
+      if (bucket.start <= oldestStart) continue;
+
+      counts.successes += bucket.successes;
+      counts.failures += bucket.failures;
+      counts.rejections += bucket.rejections;
+      counts.timeouts += bucket.timeouts;
+      counts.slowCalls += bucket.slowCalls;
+    }
+
+    return counts;
+  }
+
+  /**
+   * @internal This is a private member.
+   * @returns {number} The start time of the bucket the current time falls into.
+   */
+  private _currentBucketStart(): number {
+    const now = this._clock.now();
+
+    return now - (now % this._bucketDuration);
+  }
+
+  /**
+   * @internal This is a private member.
+   * @returns {IBucket} The bucket for the current time, emptied first if it held counts from an older window.
+   */
+  private _currentBucket(): IBucket {
+    const start = this._currentBucketStart();
+    const index = Math.floor(start / this._bucketDuration) % this._buckets.length;
+
+    if (this._buckets[index].start !== start) {
+      this._buckets[index] = RollingWindow._createBucket(start);
+    }
+
+    return this._buckets[index];
+  }
+
+  /**
+   * Record a call that completed without a failure.
+   */
+  public recordSuccess(): void {
+    this._currentBucket().successes++;
+  }
+
+  /**
+   * Record a call that failed.
+   */
+  public recordFailure(): void {
+    this._currentBucket().failures++;
+  }
+
+  /**
+   * Record a call that was rejected without being executed.
+   */
+  public recordRejection(): void {
+    this._currentBucket().rejections++;
+  }
+
+  /**
+   * Record a call that timed out.
+   */
+  public recordTimeout(): void {
+    this._currentBucket().timeouts++;
+  }
+
+  /**
+   * Record a call that was slow, in addition to its success or failure.
+   */
+  public recordSlowCall(): void {
+    this._currentBucket().slowCalls++;
+  }
+
+  /**
+   * Capture the buckets that hold counts.
+   * @returns {IRollingWindowBucket[]} A copy of each bucket that holds counts, oldest first.
+   */
+  public snapshot(): IRollingWindowBucket[] {
+    return this._buckets
+      .filter((bucket) => bucket.start !== -Infinity)
+      .sort((a, b) => a.start - b.start)
+      .map((bucket) => ({ ...bucket }));
+  }
+
+  /**
+   * Replace all recorded counts with the given buckets. Buckets that have since left the window are discarded as usual.
+   * @param {IRollingWindowBucket[]} buckets The buckets to restore, as captured by snapshot.
+   */
+  public restore(buckets: readonly IRollingWindowBucket[]): void {
+    if (buckets === undefined || buckets === null) {
+      throw new Error('buckets cannot be null or undefined.');
+    }
+
+    this.clear();
+
+    for (const bucket of buckets) {
+      const index = Math.floor(bucket.start / this._bucketDuration) % this._buckets.length;
+
+      if (this._buckets[index].start < bucket.start) {
+        this._buckets[index] = {
+          start: bucket.start,
+          successes: bucket.successes,
+          failures: bucket.failures,
+          rejections: bucket.rejections,
+          timeouts: bucket.timeouts,
+          slowCalls: bucket.slowCalls,
+        };
+      }
+    }
+  }
+
+  /**
+   * Discard all recorded counts.
+   */
+  public clear(): void {
+    for (let i = 0; i < this._buckets.length; i++) {
+      this._buckets[i] = RollingWindow._createBucket(-Infinity);
+    }
+  }
+}
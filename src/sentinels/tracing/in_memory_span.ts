@@ -0,0 +1,186 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+	File Name: in_memory_span.ts
+	Description: Span that records everything done to it in memory.
+	Written by: Nikita Petko
+*/
+
+import IClock from '../interfaces/clock';
+import { SpanStatusCode } from '../enums/span_status_code';
+import ISpan, { ISpanStatus, SpanAttributes, SpanAttributeValue } from '../interfaces/span';
+
+/**
+ * Interface for the events recorded by an in-memory span.
+ */
+export interface IInMemorySpanEvent {
+  /**
+   * The event name.
+   */
+  readonly name: string;
+
+  /**
+   * The event attributes.
+   */
+  readonly attributes: SpanAttributes;
+
+  /**
+   * When the event was added, in milliseconds since the epoch.
+   */
+  readonly time: number;
+}
+
+/**
+ * Span that records everything done to it in memory.
+ */
+export default class InMemorySpan implements ISpan {
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _clock: IClock;
+
+  /**
+   * @internal This is a private member.
+   */
+  private _endTime: number | undefined;
+
+  /**
+   * The name of the span.
+   */
+  public readonly name: string;
+
+  /**
+   * The attributes of the span.
+   */
+  public readonly attributes: SpanAttributes;
+
+  /**
+   * The events of the span, including recorded exceptions, in the order they were added.
+   */
+  public readonly events: IInMemorySpanEvent[] = [];
+
+  /**
+   * The exceptions recorded on the span.
+   */
+  public readonly exceptions: Error[] = [];
+
+  /**
+   * When the span started, in milliseconds since the epoch.
+   */
+  public readonly startTime: number;
+
+  /**
+   * The status of the span.
+   */
+  public status: ISpanStatus = { code: SpanStatusCode.Unset };
+
+  /**
+   * Construct a new instance of the InMemorySpan class.
+   * @param {string} name The name of the span.
+   * @param {SpanAttributes} attributes The attributes the span starts with.
+   * @param {IClock} clock The clock used to time the span.
+   */
+  public constructor(name: string, attributes: SpanAttributes, clock: IClock) {
+    this.name = name;
+    this.attributes = { ...attributes };
+    this._clock = clock;
+    this.startTime = clock.now();
+  }
+
+  /**
+   * When the span ended, in milliseconds since the epoch.
+   * @returns {number | undefined} The end time, or undefined if the span has not ended.
+   */
+  public get endTime(): number | undefined {
+    return this._endTime;
+  }
+
+  /**
+   * Has the span ended?
+   * @returns {boolean} True if the span has ended, otherwise false.
+   */
+  public get ended(): boolean {
+    return this._endTime !== undefined;
+  }
+
+  /**
+   * Set an attribute of the span.
+   * @param {string} key The attribute key.
+   * @param {SpanAttributeValue} value The attribute value.
+   * @returns {InMemorySpan} This span.
+   */
+  public setAttribute(key: string, value: SpanAttributeValue): this {
+    this.attributes[key] = value;
+
+    return this;
+  }
+
+  /**
+   * Set attributes of the span.
+   * @param {SpanAttributes} attributes The attributes.
+   * @returns {InMemorySpan} This span.
+   */
+  public setAttributes(attributes: SpanAttributes): this {
+    Object.assign(this.attributes, attributes);
+
+    return this;
+  }
+
+  /**
+   * Add an event to the span.
+   * @param {string} name The event name.
+   * @param {SpanAttributes} attributes The event attributes.
+   * @returns {InMemorySpan} This span.
+   */
+  public addEvent(name: string, attributes?: SpanAttributes): this {
+    this.events.push({ name, attributes: { ...attributes }, time: this._clock.now() });
+
+    return this;
+  }
+
+  /**
+   * Record an exception as an event of the span, with the attributes OpenTelemetry gives exception events.
+   * @param {Error} exception The exception.
+   */
+  public recordException(exception: Error): void {
+    this.exceptions.push(exception);
+    this.addEvent('exception', {
+      /* eslint-disable @typescript-eslint/naming-convention */
+      'exception.type': exception?.name,
+      'exception.message': exception?.message,
+      /* eslint-enable @typescript-eslint/naming-convention */
+    });
+  }
+
+  /**
+   * Set the status of the span.
+   * @param {ISpanStatus} status The status.
+   * @returns {InMemorySpan} This span.
+   */
+  public setStatus(status: ISpanStatus): this {
+    this.status = { ...status };
+
+    return this;
+  }
+
+  /**
+   * End the span. Ending it again has no effect.
+   */
+  public end(): void {
+    this._endTime ??= this._clock.now();
+  }
+}
@@ -0,0 +1,87 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+	File Name: in_memory_tracer.ts
+	Description: Tracer that keeps its spans in memory, for tests.
+	Written by: Nikita Petko
+*/
+
+import IClock from '../interfaces/clock';
+import InMemorySpan from './in_memory_span';
+import SystemClock from '../clocks/system_clock';
+import ITracer, { ISpanOptions } from '../interfaces/tracer';
+
+/**
+ * Tracer that keeps its spans in memory, for tests.
+ */
+export default class InMemoryTracer implements ITracer {
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _clock: IClock;
+
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _spans: InMemorySpan[] = [];
+
+  /**
+   * Construct a new instance of the InMemoryTracer class.
+   * @param {IClock} clock The clock used to time the spans, defaults to the system clock.
+   */
+  public constructor(clock?: IClock) {
+    this._clock = clock ?? SystemClock.instance;
+  }
+
+  /**
+   * The spans started so far, in the order they were started.
+   * @returns {InMemorySpan[]} The spans.
+   */
+  public get spans(): InMemorySpan[] {
+    return [...this._spans];
+  }
+
+  /**
+   * Start a new span.
+   * @param {string} name The name of the span.
+   * @param {ISpanOptions} options The options of the span.
+   * @returns {InMemorySpan} The span.
+   */
+  public startSpan(name: string, options?: ISpanOptions): InMemorySpan {
+    const span = new InMemorySpan(name, options?.attributes ?? {}, this._clock);
+
+    this._spans.push(span);
+
+    return span;
+  }
+
+  /**
+   * Get the spans with the given name.
+   * @param {string} name The name of the spans.
+   * @returns {InMemorySpan[]} The spans.
+   */
+  public getSpans(name: string): InMemorySpan[] {
+    return this._spans.filter((span) => span.name === name);
+  }
+
+  /**
+   * Forget every span started so far.
+   */
+  public clear(): void {
+    this._spans.length = 0;
+  }
+}